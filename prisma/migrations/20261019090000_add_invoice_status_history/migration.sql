@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "invoice_status_history" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "reason" TEXT,
+    "actorType" TEXT NOT NULL DEFAULT 'user',
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_status_history_invoiceId_createdAt_idx" ON "invoice_status_history"("invoiceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "invoice_status_history" ADD CONSTRAINT "invoice_status_history_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
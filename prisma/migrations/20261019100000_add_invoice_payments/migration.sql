@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "amountPaid" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "invoiceId" TEXT;
+
+-- Backfill invoices already marked as paid
+UPDATE "invoices" SET "amountPaid" = "amount" WHERE "status" = 'paid';
+
+-- CreateIndex
+CREATE INDEX "payments_invoiceId_idx" ON "payments"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
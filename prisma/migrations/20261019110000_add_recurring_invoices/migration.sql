@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "recurringInvoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "recurring_invoices" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "description" TEXT NOT NULL,
+    "items" JSONB,
+    "notes" TEXT,
+    "terms" TEXT,
+    "dueInDays" INTEGER NOT NULL DEFAULT 30,
+    "frequency" TEXT NOT NULL,
+    "cronExpression" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "occurrences" INTEGER NOT NULL DEFAULT 0,
+    "autoSend" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_userId_status_idx" ON "recurring_invoices"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_status_nextRunAt_idx" ON "recurring_invoices"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "invoices_recurringInvoiceId_idx" ON "invoices"("recurringInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "recurring_invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
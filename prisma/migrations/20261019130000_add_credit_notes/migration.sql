@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "amountCredited" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "credit_notes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "creditNoteNumber" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "items" JSONB,
+    "issueDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "incomeLogId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_incomeLogId_key" ON "credit_notes"("incomeLogId");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_invoiceId_idx" ON "credit_notes"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_userId_issueDate_idx" ON "credit_notes"("userId", "issueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_userId_creditNoteNumber_key" ON "credit_notes"("userId", "creditNoteNumber");
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_incomeLogId_fkey" FOREIGN KEY ("incomeLogId") REFERENCES "income_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
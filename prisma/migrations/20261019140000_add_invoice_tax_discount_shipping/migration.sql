@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "discountAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountType" TEXT,
+ADD COLUMN     "discountValue" DECIMAL(10,2),
+ADD COLUMN     "shipping" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxBreakdown" JSONB,
+ADD COLUMN     "taxes" JSONB;
+
+-- Existing invoices have no tax, discount or shipping: subtotal equals the total
+UPDATE "invoices" SET "subtotal" = "amount";
@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "invoices_invoiceNumber_key";
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL DEFAULT 'INV',
+    "format" TEXT NOT NULL DEFAULT '{PREFIX}-{YYYY}-{SEQ}',
+    "padding" INTEGER NOT NULL DEFAULT 3,
+    "resetYearly" BOOLEAN NOT NULL DEFAULT true,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "lastResetYear" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_sequences_userId_key" ON "invoice_sequences"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_userId_invoiceNumber_key" ON "invoices"("userId", "invoiceNumber");
+
+-- AddForeignKey
+ALTER TABLE "invoice_sequences" ADD CONSTRAINT "invoice_sequences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
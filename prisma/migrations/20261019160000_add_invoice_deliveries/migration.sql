@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "invoice_deliveries" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'email',
+    "transport" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "cc" TEXT,
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_deliveries_invoiceId_createdAt_idx" ON "invoice_deliveries"("invoiceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "invoice_deliveries" ADD CONSTRAINT "invoice_deliveries_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "invoice_deliveries" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'invoice',
+ADD COLUMN     "reminderOffset" INTEGER;
+
+-- CreateTable
+CREATE TABLE "reminder_schedules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "offsets" INTEGER[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminder_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_deliveries_invoiceId_type_idx" ON "invoice_deliveries"("invoiceId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_schedules_clientId_key" ON "reminder_schedules"("clientId");
+
+-- CreateIndex
+CREATE INDEX "reminder_schedules_userId_idx" ON "reminder_schedules"("userId");
+
+-- AddForeignKey
+ALTER TABLE "reminder_schedules" ADD CONSTRAINT "reminder_schedules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reminder_schedules" ADD CONSTRAINT "reminder_schedules_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
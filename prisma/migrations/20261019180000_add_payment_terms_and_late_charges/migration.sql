@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "netDays" INTEGER,
+ADD COLUMN     "lateFeeAmount" DECIMAL(10,2),
+ADD COLUMN     "lateInterestRate" DECIMAL(5,2),
+ADD COLUMN     "graceDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "netDays" INTEGER,
+ADD COLUMN     "lateFeeAmount" DECIMAL(10,2),
+ADD COLUMN     "lateInterestRate" DECIMAL(5,2),
+ADD COLUMN     "graceDays" INTEGER,
+ADD COLUMN     "lateCharges" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "invoice_adjustments" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "period" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_adjustments_invoiceId_type_period_key" ON "invoice_adjustments"("invoiceId", "type", "period");
+
+-- AddForeignKey
+ALTER TABLE "invoice_adjustments" ADD CONSTRAINT "invoice_adjustments_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "invoice_share_links" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_view_events" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "shareLinkId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'view',
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_view_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_share_links_invoiceId_idx" ON "invoice_share_links"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "invoice_view_events_invoiceId_viewedAt_idx" ON "invoice_view_events"("invoiceId", "viewedAt");
+
+-- AddForeignKey
+ALTER TABLE "invoice_share_links" ADD CONSTRAINT "invoice_share_links_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_view_events" ADD CONSTRAINT "invoice_view_events_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_view_events" ADD CONSTRAINT "invoice_view_events_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "invoice_share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
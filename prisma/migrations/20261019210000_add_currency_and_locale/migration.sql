@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en-US';
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en-US';
+
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en-US';
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "baseCurrency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "income_logs" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "expense_logs" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "goals" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "date" DATE NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'csv',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_baseCurrency_quoteCurrency_date_idx" ON "exchange_rates"("baseCurrency", "quoteCurrency", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_userId_baseCurrency_quoteCurrency_date_key" ON "exchange_rates"("userId", "baseCurrency", "quoteCurrency", "date");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "countryCode" TEXT,
+ADD COLUMN     "peppolId" TEXT,
+ADD COLUMN     "taxId" TEXT;
+
+-- AlterTable
+ALTER TABLE "branding_settings" ADD COLUMN     "countryCode" TEXT,
+ADD COLUMN     "peppolId" TEXT;
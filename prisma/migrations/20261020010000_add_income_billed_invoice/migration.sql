@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "income_logs" ADD COLUMN "billedInvoiceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "income_logs_billedInvoiceId_idx" ON "income_logs"("billedInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "income_logs" ADD CONSTRAINT "income_logs_billedInvoiceId_fkey" FOREIGN KEY ("billedInvoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
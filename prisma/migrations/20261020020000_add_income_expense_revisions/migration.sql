@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "income_revisions" (
+    "id" TEXT NOT NULL,
+    "incomeLogId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "reason" TEXT,
+    "actorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "income_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_revisions" (
+    "id" TEXT NOT NULL,
+    "expenseLogId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "reason" TEXT,
+    "actorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expense_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "income_revisions_incomeLogId_createdAt_idx" ON "income_revisions"("incomeLogId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "expense_revisions_expenseLogId_createdAt_idx" ON "expense_revisions"("expenseLogId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "income_revisions" ADD CONSTRAINT "income_revisions_incomeLogId_fkey" FOREIGN KEY ("incomeLogId") REFERENCES "income_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_revisions" ADD CONSTRAINT "expense_revisions_expenseLogId_fkey" FOREIGN KEY ("expenseLogId") REFERENCES "expense_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
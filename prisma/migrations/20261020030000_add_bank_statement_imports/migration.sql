@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT,
+    "accountId" TEXT,
+    "currency" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "committedAt" TIMESTAMP(3),
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_transactions" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "externalTxId" TEXT NOT NULL,
+    "bookedAt" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "counterparty" TEXT,
+    "description" TEXT,
+    "reference" TEXT,
+    "entryType" TEXT NOT NULL,
+    "action" TEXT NOT NULL DEFAULT 'import',
+    "duplicate" BOOLEAN NOT NULL DEFAULT false,
+    "category" TEXT,
+    "isDeductible" BOOLEAN NOT NULL DEFAULT true,
+    "projectName" TEXT,
+    "clientName" TEXT,
+    "incomeLogId" TEXT,
+    "expenseLogId" TEXT,
+
+    CONSTRAINT "bank_statement_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_userId_createdAt_idx" ON "bank_statement_imports"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_transactions_importId_bookedAt_idx" ON "bank_statement_transactions"("importId", "bookedAt");
+
+-- CreateIndex
+CREATE INDEX "payments_userId_externalTxId_idx" ON "payments"("userId", "externalTxId");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_transactions" ADD CONSTRAINT "bank_statement_transactions_importId_fkey" FOREIGN KEY ("importId") REFERENCES "bank_statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "income_logs" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "expense_logs" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "bank_statement_transactions" ADD COLUMN "skill" TEXT,
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "categorization_rules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "appliesTo" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "descriptionContains" TEXT,
+    "descriptionPattern" TEXT,
+    "counterpartyContains" TEXT,
+    "minAmount" DECIMAL(10,2),
+    "maxAmount" DECIMAL(10,2),
+    "category" TEXT,
+    "isDeductible" BOOLEAN,
+    "skill" TEXT,
+    "clientId" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categorization_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "categorization_rules_userId_appliesTo_priority_idx" ON "categorization_rules"("userId", "appliesTo", "priority");
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
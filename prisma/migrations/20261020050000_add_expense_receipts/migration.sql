@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "expense_logs" ADD COLUMN "receiptKey" TEXT,
+ADD COLUMN "receiptFileName" TEXT,
+ADD COLUMN "receiptContentType" TEXT,
+ADD COLUMN "receiptSize" INTEGER,
+ADD COLUMN "receiptUploadedAt" TIMESTAMP(3);
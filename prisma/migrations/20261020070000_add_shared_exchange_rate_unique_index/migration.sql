@@ -0,0 +1,15 @@
+-- Shared rates have a NULL userId, which the composite unique index treats as distinct,
+-- so concurrent provider syncs could store the same pair and day more than once.
+
+-- Keep the most recently written shared rate for each pair and day
+DELETE FROM "exchange_rates" AS stale
+USING "exchange_rates" AS kept
+WHERE stale."userId" IS NULL
+  AND kept."userId" IS NULL
+  AND stale."baseCurrency" = kept."baseCurrency"
+  AND stale."quoteCurrency" = kept."quoteCurrency"
+  AND stale."date" = kept."date"
+  AND (stale."updatedAt", stale."id") < (kept."updatedAt", kept."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_shared_baseCurrency_quoteCurrency_date_key" ON "exchange_rates"("baseCurrency", "quoteCurrency", "date") WHERE "userId" IS NULL;
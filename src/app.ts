@@ -18,6 +18,15 @@ import goalRoutes from './routes/goal.routes';
 import dashboardRoutes from './routes/dashboard.routes';
 import clientRoutes from './routes/client.routes';
 import invoiceRoutes from './routes/invoice.routes';
+import recurringInvoiceRoutes from './routes/recurringInvoice.routes';
+import quoteRoutes from './routes/quote.routes';
+import creditNoteRoutes from './routes/creditNote.routes';
+import reminderRoutes from './routes/reminder.routes';
+import publicInvoiceRoutes from './routes/publicInvoice.routes';
+import publicReceiptRoutes from './routes/publicReceipt.routes';
+import exchangeRateRoutes from './routes/exchangeRate.routes';
+import bankStatementRoutes from './routes/bankStatement.routes';
+import categorizationRuleRoutes from './routes/categorizationRule.routes';
 
 // ============================================================================
 // CREATE EXPRESS APP
@@ -137,6 +146,33 @@ app.use(`${API_PREFIX}/clients`, clientRoutes);
 //invoice routes
 app.use(`${API_PREFIX}/invoices`, invoiceRoutes);
 
+//recurring invoice routes
+app.use(`${API_PREFIX}/recurring-invoices`, recurringInvoiceRoutes);
+
+//quote routes
+app.use(`${API_PREFIX}/quotes`, quoteRoutes);
+
+//credit note routes
+app.use(`${API_PREFIX}/credit-notes`, creditNoteRoutes);
+
+//payment reminder routes
+app.use(`${API_PREFIX}/reminders`, reminderRoutes);
+
+//exchange rate routes
+app.use(`${API_PREFIX}/exchange-rates`, exchangeRateRoutes);
+
+//bank statement import routes
+app.use(`${API_PREFIX}/bank-statements`, bankStatementRoutes);
+
+//categorization rule routes
+app.use(`${API_PREFIX}/categorization-rules`, categorizationRuleRoutes);
+
+//public invoice links (no authentication)
+app.use(`${API_PREFIX}/public/invoices`, publicInvoiceRoutes);
+
+//public receipt links (no authentication)
+app.use(`${API_PREFIX}/public/receipts`, publicReceiptRoutes);
+
 // AI auditor routes (future)
 // app.use(`${API_PREFIX}/auditor`, auditorRoutes);
 
@@ -158,6 +194,15 @@ app.use((req: Request, res: Response) => {
                 `${API_PREFIX}/goals`,
                 `${API_PREFIX}/clients`,
                 `${API_PREFIX}/invoices`,
+                `${API_PREFIX}/recurring-invoices`,
+                `${API_PREFIX}/quotes`,
+                `${API_PREFIX}/credit-notes`,
+                `${API_PREFIX}/reminders`,
+                `${API_PREFIX}/exchange-rates`,
+                `${API_PREFIX}/bank-statements`,
+                `${API_PREFIX}/categorization-rules`,
+                `${API_PREFIX}/public/invoices`,
+                `${API_PREFIX}/public/receipts`,
             ],
         },
     });
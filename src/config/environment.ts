@@ -40,9 +40,60 @@ const envSchema = z.object({
     ENABLE_AI_FEATURES: z.string().default('false').transform(val => val === 'true'),
     ENABLE_PAYMENTS: z.string().default('false').transform(val => val === 'true'),
     
+    // Public invoice links
+    SHARE_LINK_EXPIRES_DAYS: z.coerce.number().int().positive().default(30),
+
+    // Email - "file" (the default outside production) only writes to EMAIL_OUTBOX_DIR
+    EMAIL_TRANSPORT: z.enum(['smtp', 'brevo', 'file']).optional(),
+    FROM_EMAIL: z.string().email().default('noreply@crefin.app'),
+    FROM_NAME: z.string().default('Crefin'),
+    EMAIL_OUTBOX_DIR: z.string().default('outbox'),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    SMTP_SECURE: z.string().default('false').transform(val => val === 'true'),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASS: z.string().optional(),
+    BREVO_API_KEY: z.string().optional(),
+
+    // PDF/A (Factur-X invoices) - TrueType fonts to embed, as PDF/A requires (bundled DejaVu Sans if unset)
+    PDFA_FONT_REGULAR: z.string().optional(),
+    PDFA_FONT_BOLD: z.string().optional(),
+    PDFA_FONT_ITALIC: z.string().optional(),
+
+    // Receipt storage - local disk, or any S3-compatible object store (AWS, MinIO...)
+    STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+    STORAGE_LOCAL_DIR: z.string().default('storage'),
+    S3_ENDPOINT: z.string().url().optional(),          // default https://s3.<region>.amazonaws.com
+    S3_REGION: z.string().default('us-east-1'),
+    S3_BUCKET: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_FORCE_PATH_STYLE: z.string().default('false').transform(val => val === 'true'), // MinIO and most stand-ins
+    RECEIPT_MAX_BYTES: z.coerce.number().int().positive().default(10485760), // 10 MB
+    RECEIPT_URL_EXPIRES_SECONDS: z.coerce.number().int().positive().default(300),
+
+    // Exchange rates
+    EXCHANGE_RATE_PROVIDER: z.enum(['none', 'file']).default('none'),
+    EXCHANGE_RATES_FILE: z.string().default('exchange-rates.csv'),
+
+    // Background Jobs
+    ENABLE_JOBS: z.string().default('true').transform(val => val === 'true'),
+    OVERDUE_SWEEP_INTERVAL_MS: z.coerce.number().default(900000), // 15 minutes
+    RECURRING_INVOICE_INTERVAL_MS: z.coerce.number().default(3600000), // 1 hour
+    QUOTE_EXPIRY_INTERVAL_MS: z.coerce.number().default(3600000), // 1 hour
+    PAYMENT_REMINDER_INTERVAL_MS: z.coerce.number().default(3600000), // 1 hour
+    LATE_CHARGE_INTERVAL_MS: z.coerce.number().default(3600000), // 1 hour
+    EXCHANGE_RATE_SYNC_INTERVAL_MS: z.coerce.number().default(21600000), // 6 hours
+
     // Logging
     LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 })
+    // in production an unconfigured install would mark invoices sent without emailing anyone
+    .refine((env) => env.NODE_ENV !== 'production' || env.EMAIL_TRANSPORT !== undefined, {
+        message: 'EMAIL_TRANSPORT must be set in production',
+        path: ['EMAIL_TRANSPORT'],
+    })
+    .transform((env) => ({ ...env, EMAIL_TRANSPORT: env.EMAIL_TRANSPORT ?? 'file' }));
 
 let config: z.infer<typeof envSchema>;
 
@@ -2,6 +2,7 @@
  * Redis Cache Configuration
  * Used for caching market rates (15-min TTL)
  */
+import { randomUUID } from 'crypto';
 import { createClient, RedisClientType } from 'redis';
 import { logger } from '../utils/logger';
 import { config } from './environment';
@@ -108,6 +109,63 @@ export async function deleteCachePattern(pattern: string): Promise<void> {
     }
 }
 // ============================================================================
+// DISTRIBUTED LOCK HELPERS
+// ============================================================================
+// Only delete the lock if we still own it (another instance may hold it after expiry)
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+else
+    return 0
+end`;
+
+// Only push the expiry back while we still own the lock
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("expire", KEYS[1], ARGV[2])
+else
+    return 0
+end`;
+
+// Acquire a lock shared by all server instances. Returns an owner token, or null if already held
+export async function acquireLock(key: string, ttlSeconds: number): Promise<string | null> {
+    try {
+        const token = randomUUID();
+        const result = await redis.set(`lock:${key}`, token, {
+            condition: 'NX',
+            expiration: { type: 'EX', value: ttlSeconds },
+        });
+        return result === 'OK' ? token : null;
+    } catch (error) {
+        logger.error('Lock acquire error:', { key, error });
+        return null; // Fail closed - skip the work rather than run it twice
+    }
+}
+// Reset the TTL of a lock previously acquired with acquireLock. Returns false if it is no longer ours
+export async function extendLock(key: string, token: string, ttlSeconds: number): Promise<boolean> {
+    try {
+        const result = await redis.eval(EXTEND_LOCK_SCRIPT, {
+            keys: [`lock:${key}`],
+            arguments: [token, String(ttlSeconds)],
+        });
+        return result === 1;
+    } catch (error) {
+        logger.error('Lock extend error:', { key, error });
+        return false;
+    }
+}
+// Release a lock previously acquired with acquireLock
+export async function releaseLock(key: string, token: string): Promise<void> {
+    try {
+        await redis.eval(RELEASE_LOCK_SCRIPT, {
+            keys: [`lock:${key}`],
+            arguments: [token],
+        });
+    } catch (error) {
+        logger.error('Lock release error:', { key, error });
+    }
+}
+// ============================================================================
 // EXPORTS
 // ============================================================================
 
@@ -0,0 +1,124 @@
+/**
+ * Bank Statement Controller
+ * HTTP request handlers for bank statement import endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as bankStatementService from '../services/bankStatement.service';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// UPLOAD STATEMENT
+// ============================================================================
+
+export const uploadBankStatement = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await bankStatementService.uploadBankStatement(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET STATEMENTS
+// ============================================================================
+
+export const getBankStatements = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await bankStatementService.getBankStatements(userId);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getBankStatementById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const statement = await bankStatementService.getBankStatementById(userId, id);
+
+        return sendSuccess(res, { statement });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// REVIEW TRANSACTION
+// ============================================================================
+
+export const updateBankTransaction = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id, transactionId } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await bankStatementService.updateBankTransaction(userId, id, transactionId, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// COMMIT / DISCARD STATEMENT
+// ============================================================================
+
+export const commitBankStatement = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await bankStatementService.commitBankStatement(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const discardBankStatement = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await bankStatementService.discardBankStatement(userId, id);
+
+        return sendSuccess(res, null, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
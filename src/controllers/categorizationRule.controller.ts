@@ -0,0 +1,128 @@
+/**
+ * Categorization Rule Controller
+ * HTTP request handlers for categorization rule endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as categorizationRuleService from '../services/categorizationRule.service';
+import { RuleTarget } from '../types/categorizationRule.types';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// CREATE RULE
+// ============================================================================
+
+export const createCategorizationRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await categorizationRuleService.createCategorizationRule(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET RULES
+// ============================================================================
+
+export const getCategorizationRules = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await categorizationRuleService.getCategorizationRules(
+            userId,
+            req.query.appliesTo as RuleTarget | undefined
+        );
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// UPDATE / DELETE RULE
+// ============================================================================
+
+export const updateCategorizationRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await categorizationRuleService.updateCategorizationRule(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const deleteCategorizationRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await categorizationRuleService.deleteCategorizationRule(userId, id);
+
+        return sendSuccess(res, null, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// PREVIEW AGAINST HISTORY
+// ============================================================================
+
+export const previewDraftRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const { startDate, endDate, ...rule } = req.body;
+        const result = await categorizationRuleService.previewCategorizationRule(userId, rule, { startDate, endDate });
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const previewCategorizationRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await categorizationRuleService.previewCategorizationRule(userId, { ruleId: id }, req.body);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
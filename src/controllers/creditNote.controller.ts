@@ -0,0 +1,106 @@
+/**
+ * Credit Note Controller
+ * HTTP request handlers for credit note endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as creditNoteService from '../services/creditNote.service';
+import { EInvoiceFormat } from '../types/einvoice.types';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// GET ALL CREDIT NOTES
+// ============================================================================
+
+export const getCreditNotes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await creditNoteService.getCreditNotes(userId, req.query);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET SINGLE CREDIT NOTE
+// ============================================================================
+
+export const getCreditNoteById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const creditNote = await creditNoteService.getCreditNoteById(userId, id);
+
+        return sendSuccess(res, { creditNote });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DOWNLOAD CREDIT NOTE PDF
+// ============================================================================
+
+export const downloadCreditNotePDF = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const creditNote = await creditNoteService.getCreditNoteById(userId, id);
+
+        const { generateCreditNotePDF } = await import('../services/pdf.service');
+        const pdfBuffer = await generateCreditNotePDF(creditNote);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="credit-note-${creditNote.creditNoteNumber}.pdf"`);
+        res.setHeader('Content-Length', pdfBuffer.length);
+
+        res.send(pdfBuffer);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// EXPORT CREDIT NOTE AS E-INVOICE (UBL)
+// ============================================================================
+
+export const exportCreditNote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const format = (req.query.format as EInvoiceFormat | undefined) ?? 'ubl';
+
+        const { exportCreditNote } = await import('../services/einvoice.service');
+        const result = await exportCreditNote(userId, id, format);
+
+        res.setHeader('Content-Type', result.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+        res.setHeader('Content-Length', result.content.length);
+
+        res.send(result.content);
+    } catch (error) {
+        next(error);
+    }
+};
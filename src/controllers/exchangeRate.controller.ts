@@ -0,0 +1,78 @@
+/**
+ * Exchange Rate Controller
+ * HTTP request handlers for exchange rate endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as exchangeRateService from '../services/exchangeRate.service';
+import { GetExchangeRatesQuery } from '../types/exchangeRate.types';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// GET EXCHANGE RATES
+// ============================================================================
+
+export const getExchangeRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const query: GetExchangeRatesQuery = {
+            base: req.query.base as string | undefined,
+            quote: req.query.quote as string | undefined,
+            startDate: req.query.startDate as string | undefined,
+            endDate: req.query.endDate as string | undefined,
+            limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+            offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+        };
+
+        const result = await exchangeRateService.getExchangeRates(userId, query);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// IMPORT EXCHANGE RATES (CSV)
+// ============================================================================
+
+export const importExchangeRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await exchangeRateService.importExchangeRates(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// SYNC EXCHANGE RATES (provider)
+// ============================================================================
+
+export const syncExchangeRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await exchangeRateService.syncExchangeRates();
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -5,12 +5,17 @@
 
 import { Request, Response, NextFunction } from 'express';
 import * as expenseService from '../services/expense.service';
+import * as csvImportService from '../services/csvImport.service';
+import * as receiptService from '../services/receipt.service';
 import { 
     LogExpenseRequest, 
+    UpdateExpenseRequest,
+    UploadReceiptRequest,
     GetExpenseQuery, 
     ExpenseSummaryQuery 
 } from '../types/expense.types';
-import { sendSuccess } from '../utils/response';
+import { ImportExpenseCsvRequest } from '../types/csvImport.types';
+import { sendFileStream, sendSuccess } from '../utils/response';
 
 // ============================================================================
 // LOG EXPENSE
@@ -97,6 +102,185 @@ export const getExpenseSummary = async (
     }
 };
 
+// ============================================================================
+// IMPORT EXPENSES (CSV)
+// ============================================================================
+
+export const importExpenseCsv = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const data: ImportExpenseCsvRequest = req.body;
+
+        const result = await csvImportService.importExpenseCsv(userId, data);
+
+        sendSuccess(res, result, result.message, result.dryRun ? 200 : 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// UPDATE EXPENSE
+// ============================================================================
+
+export const updateExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const data: UpdateExpenseRequest = req.body;
+
+        const result = await expenseService.updateExpense(userId, req.params.id, data);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET EXPENSE REVISIONS
+// ============================================================================
+
+export const getExpenseRevisions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await expenseService.getExpenseRevisions(userId, req.params.id);
+
+        sendSuccess(res, result, 'Expense revisions retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// UPLOAD RECEIPT
+// ============================================================================
+
+export const uploadReceipt = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        // the raw body parser only runs for accepted types - anything else arrives unparsed
+        const data: UploadReceiptRequest = {
+            contentType: req.get('content-type') ?? '',
+            fileName: req.query.fileName as string | undefined,
+            content: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+        };
+
+        const result = await receiptService.uploadReceipt(userId, req.params.id, data);
+
+        sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DOWNLOAD RECEIPT
+// ============================================================================
+
+export const downloadReceipt = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const receipt = await receiptService.getReceiptFile(userId, req.params.id);
+
+        sendFileStream(res, receipt, req.query.download === 'true' ? 'attachment' : 'inline');
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET RECEIPT LINK
+// ============================================================================
+
+export const getReceiptUrl = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await receiptService.getReceiptUrl(userId, req.params.id);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DELETE RECEIPT
+// ============================================================================
+
+export const deleteReceipt = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await receiptService.deleteReceipt(userId, req.params.id);
+
+        sendSuccess(res, null, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
 // ============================================================================
 // DELETE EXPENSE
 // ============================================================================
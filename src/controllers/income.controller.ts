@@ -4,11 +4,14 @@
  */
 import { Request, Response, NextFunction } from 'express';
 import * as incomeService from '../services/income.service';
+import * as csvImportService from '../services/csvImport.service';
 import {
     LogIncomeRequest,
+    UpdateIncomeRequest,
     GetIncomeQuery, 
     IncomeSummaryQuery
 } from '../types/income.types';
+import { ImportIncomeCsvRequest } from '../types/csvImport.types';
 import { sendSuccess } from '../utils/response';
 
 // ============================================================================
@@ -102,6 +105,79 @@ export const getIncomeSummary = async (
     }
 };
 
+// ============================================================================
+// IMPORT INCOME (CSV)
+// ============================================================================
+export const importIncomeCsv = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const data: ImportIncomeCsvRequest = req.body;
+
+        const result = await csvImportService.importIncomeCsv(userId, data);
+
+        sendSuccess(res, result, result.message, result.dryRun ? 200 : 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// UPDATE INCOME
+// ============================================================================
+export const updateIncome = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const data: UpdateIncomeRequest = req.body;
+
+        const result = await incomeService.updateIncome(userId, req.params.id, data);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET INCOME REVISIONS
+// ============================================================================
+export const getIncomeRevisions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await incomeService.getIncomeRevisions(userId, req.params.id);
+
+        sendSuccess(res, result, 'Income revisions retrieved successfully');
+    } catch (error) {
+        next(error);
+    }
+};
+
 // ============================================================================
 // DELETE INCOME
 // ============================================================================
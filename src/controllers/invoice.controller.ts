@@ -5,6 +5,17 @@
 
 import { Request, Response, NextFunction } from 'express';
 import * as invoiceService from '../services/invoice.service';
+import * as invoiceFromIncomeService from '../services/invoiceFromIncome.service';
+import * as invoiceStatusService from '../services/invoiceStatus.service';
+import * as invoicePaymentService from '../services/invoicePayment.service';
+import * as creditNoteService from '../services/creditNote.service';
+import * as invoiceNumberingService from '../services/invoiceNumbering.service';
+import * as invoiceEmailService from '../services/invoiceEmail.service';
+import * as lateChargesService from '../services/lateCharges.service';
+import * as invoiceShareService from '../services/invoiceShare.service';
+import * as brandingService from '../services/branding.service';
+import { EInvoiceFormat } from '../types/einvoice.types';
+import { logger } from '../utils/logger';
 import { sendSuccess } from '../utils/response';
 
 // ============================================================================
@@ -30,6 +41,47 @@ export const createInvoice = async (
     }
 };
 
+// ============================================================================
+// DUPLICATE INVOICE
+// ============================================================================
+
+export const duplicateInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceService.duplicateInvoice(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// CREATE INVOICE FROM UNBILLED INCOME
+// ============================================================================
+
+export const createInvoiceFromIncome = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceFromIncomeService.createInvoiceFromIncome(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
 // ============================================================================
 // GET ALL INVOICES
 // ============================================================================
@@ -49,6 +101,78 @@ export const getInvoices = async (req: Request, res: Response, next: NextFunctio
     }
 };
 
+// ============================================================================
+// NUMBERING SETTINGS
+// ============================================================================
+
+export const getNumberingSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const settings = await invoiceNumberingService.getNumberingSettings(userId);
+
+        return sendSuccess(res, { settings });
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const updateNumberingSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceNumberingService.updateNumberingSettings(userId, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// BRANDING SETTINGS
+// ============================================================================
+
+export const getBrandingSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const settings = await brandingService.getBrandingSettings(userId);
+
+        return sendSuccess(res, { settings });
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const updateBrandingSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await brandingService.updateBrandingSettings(userId, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
 // ============================================================================
 // GET SINGLE INVOICE
 // ============================================================================
@@ -102,7 +226,7 @@ export const markInvoiceAsPaid = async (req: Request, res: Response, next: NextF
             return next(new Error('User not authenticated'));
         }
         
-        const result = await invoiceService.markInvoiceAsPaid(userId, id, req.body);
+        const result = await invoicePaymentService.markInvoiceAsPaid(userId, id, req.body);
         
         return sendSuccess(res, result, result.message);
     } catch (error) {
@@ -110,6 +234,276 @@ export const markInvoiceAsPaid = async (req: Request, res: Response, next: NextF
     }
 };
 
+// ============================================================================
+// RECORD PAYMENT (PARTIAL OR FULL)
+// ============================================================================
+
+export const recordInvoicePayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoicePaymentService.recordInvoicePayment(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET INVOICE PAYMENTS
+// ============================================================================
+
+export const getInvoicePayments = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoicePaymentService.getInvoicePayments(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// SEND / CANCEL / VOID INVOICE
+// ============================================================================
+
+export const sendInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceEmailService.sendInvoice(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const cancelInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceService.cancelInvoice(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const voidInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceService.voidInvoice(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// CREDIT NOTES
+// ============================================================================
+
+export const createCreditNote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await creditNoteService.createCreditNote(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getInvoiceCreditNotes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await creditNoteService.getInvoiceCreditNotes(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET LATE CHARGE ADJUSTMENTS
+// ============================================================================
+
+export const getInvoiceAdjustments = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await lateChargesService.getInvoiceAdjustments(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET DELIVERY LOG
+// ============================================================================
+
+export const getInvoiceDeliveries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceEmailService.getInvoiceDeliveries(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// SHARE LINKS
+// ============================================================================
+
+export const createShareLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceShareService.createShareLink(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getShareLinks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceShareService.getShareLinks(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const revokeShareLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id, linkId } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceShareService.revokeShareLink(userId, id, linkId);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const getInvoiceViews = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceShareService.getInvoiceViews(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET STATUS HISTORY
+// ============================================================================
+
+export const getInvoiceHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await invoiceStatusService.getInvoiceStatusHistory(userId, id);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
 // ============================================================================
 // DELETE INVOICE
 // ============================================================================
@@ -142,7 +536,7 @@ export const getInvoiceEmailTemplate = async (req: Request, res: Response, next:
         if (!userId) {
             return next(new Error('User not authenticated'));
         }
-        const template = await invoiceService.getInvoiceEmailTemplate(userId, id);
+        const template = await invoiceEmailService.getInvoiceEmailTemplate(userId, id);
         
         return sendSuccess(res, { template });
     } catch (error) {
@@ -180,4 +574,120 @@ export const downloadInvoicePDF = async (req: Request, res: Response, next: Next
     } catch (error) {
         next(error);
     }
-};
\ No newline at end of file
+};
+
+// ============================================================================
+// BULK OPERATIONS
+// ============================================================================
+
+export const bulkSendInvoices = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const { bulkSendInvoices } = await import('../services/invoiceBulk.service');
+        const result = await bulkSendInvoices(userId, req.body);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const bulkMarkInvoicesPaid = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const { bulkMarkInvoicesPaid } = await import('../services/invoiceBulk.service');
+        const result = await bulkMarkInvoicesPaid(userId, req.body);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const bulkCancelInvoices = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const { bulkCancelInvoices } = await import('../services/invoiceBulk.service');
+        const result = await bulkCancelInvoices(userId, req.body);
+
+        sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const exportInvoicesZip = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+        return next(new Error('User not authenticated'));
+    }
+
+    const bulkService = await import('../services/invoiceBulk.service');
+
+    let selection;
+    try {
+        // selection errors still go out as JSON - nothing has been written yet
+        selection = await bulkService.resolveInvoiceSelection(userId, req.body);
+    } catch (error) {
+        return next(error);
+    }
+
+    const filename = `invoices-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    // streamed, so no Content-Length
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    try {
+        await bulkService.writeInvoicesZip(userId, selection, res);
+        res.end();
+    } catch (error) {
+        // headers are already sent - abort so the client sees a broken download, not a truncated ZIP
+        logger.error('Failed to stream invoice ZIP export', { userId, error });
+        res.destroy(error as Error);
+    }
+};
+
+// ============================================================================
+// EXPORT INVOICE AS E-INVOICE (UBL)
+// ============================================================================
+
+export const exportInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const format = (req.query.format as EInvoiceFormat | undefined) ?? 'ubl';
+
+        const { exportInvoice } = await import('../services/einvoice.service');
+        const result = await exportInvoice(userId, id, format);
+
+        res.setHeader('Content-Type', result.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+        res.setHeader('Content-Length', result.content.length);
+
+        res.send(result.content);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,51 @@
+/**
+ * Public Invoice Controller
+ * HTTP request handlers for shared invoice links (no authentication)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as invoiceShareService from '../services/invoiceShare.service';
+import { ViewerInfo } from '../types/invoice.types';
+import { sendSuccess } from '../utils/response';
+
+const getViewerInfo = (req: Request): ViewerInfo => ({
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+});
+
+// ============================================================================
+// VIEW SHARED INVOICE
+// ============================================================================
+
+export const getPublicInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.params;
+
+        const result = await invoiceShareService.getPublicInvoice(token, getViewerInfo(req));
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DOWNLOAD SHARED INVOICE PDF
+// ============================================================================
+
+export const downloadPublicInvoicePDF = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.params;
+
+        const { filename, pdfBuffer } = await invoiceShareService.getPublicInvoicePDF(token, getViewerInfo(req));
+
+        // inline so the link opens in the browser's PDF viewer
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+        res.setHeader('Content-Length', pdfBuffer.length);
+
+        res.send(pdfBuffer);
+    } catch (error) {
+        next(error);
+    }
+};
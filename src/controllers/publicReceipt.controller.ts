@@ -0,0 +1,27 @@
+/**
+ * Public Receipt Controller
+ * HTTP request handlers for signed receipt links (no authentication)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as receiptService from '../services/receipt.service';
+import { sendFileStream } from '../utils/response';
+
+// ============================================================================
+// DOWNLOAD RECEIPT
+// ============================================================================
+
+export const downloadPublicReceipt = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { token } = req.params;
+
+        const receipt = await receiptService.getReceiptFileByToken(token);
+
+        // signed links are handed to browsers and previews - no caching past their expiry
+        res.setHeader('Cache-Control', 'private, no-store');
+
+        sendFileStream(res, receipt);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,215 @@
+/**
+ * Quote Controller
+ * HTTP request handlers for quote/estimate endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as quoteService from '../services/quote.service';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// CREATE QUOTE
+// ============================================================================
+
+export const createQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.createQuote(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET ALL QUOTES
+// ============================================================================
+
+export const getQuotes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.getQuotes(userId, req.query);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET SINGLE QUOTE
+// ============================================================================
+
+export const getQuoteById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const quote = await quoteService.getQuoteById(userId, id);
+
+        return sendSuccess(res, { quote });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// UPDATE QUOTE
+// ============================================================================
+
+export const updateQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.updateQuote(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// STATUS CHANGES (SEND / ACCEPT / DECLINE)
+// ============================================================================
+
+export const sendQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.sendQuote(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const acceptQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.acceptQuote(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const declineQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.declineQuote(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// CONVERT TO INVOICE
+// ============================================================================
+
+export const convertQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.convertQuoteToInvoice(userId, id, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DELETE QUOTE
+// ============================================================================
+
+export const deleteQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await quoteService.deleteQuote(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DOWNLOAD QUOTE PDF
+// ============================================================================
+
+export const downloadQuotePDF = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const quote = await quoteService.getQuoteById(userId, id);
+
+        const { generateQuotePDF } = await import('../services/pdf.service');
+        const pdfBuffer = await generateQuotePDF(quote);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="estimate-${quote.quoteNumber}.pdf"`);
+        res.setHeader('Content-Length', pdfBuffer.length);
+
+        res.send(pdfBuffer);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,150 @@
+/**
+ * Recurring Invoice Controller
+ * HTTP request handlers for recurring invoice endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as recurringInvoiceService from '../services/recurringInvoice.service';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// CREATE RECURRING INVOICE
+// ============================================================================
+
+export const createRecurringInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await recurringInvoiceService.createRecurringInvoice(userId, req.body);
+
+        return sendSuccess(res, result, result.message, 201);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET ALL RECURRING INVOICES
+// ============================================================================
+
+export const getRecurringInvoices = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await recurringInvoiceService.getRecurringInvoices(userId, req.query);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// GET SINGLE RECURRING INVOICE
+// ============================================================================
+
+export const getRecurringInvoiceById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const recurringInvoice = await recurringInvoiceService.getRecurringInvoiceById(userId, id);
+
+        return sendSuccess(res, { recurringInvoice });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// PREVIEW NEXT OCCURRENCES
+// ============================================================================
+
+export const previewRecurringInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const count = req.query.count ? Number(req.query.count) : undefined;
+        const result = await recurringInvoiceService.previewRecurringInvoice(userId, id, count);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// PAUSE / RESUME
+// ============================================================================
+
+export const pauseRecurringInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await recurringInvoiceService.pauseRecurringInvoice(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const resumeRecurringInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await recurringInvoiceService.resumeRecurringInvoice(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DELETE RECURRING INVOICE
+// ============================================================================
+
+export const deleteRecurringInvoice = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { id } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await recurringInvoiceService.deleteRecurringInvoice(userId, id);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,86 @@
+/**
+ * Reminder Controller
+ * HTTP request handlers for payment reminder schedule endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as reminderService from '../services/reminder.service';
+import { sendSuccess } from '../utils/response';
+
+// ============================================================================
+// GET SCHEDULES
+// ============================================================================
+
+export const getReminderSchedules = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await reminderService.getReminderSchedules(userId);
+
+        return sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// DEFAULT SCHEDULE
+// ============================================================================
+
+export const upsertDefaultReminderSchedule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await reminderService.upsertDefaultReminderSchedule(userId, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+// ============================================================================
+// CLIENT SCHEDULES
+// ============================================================================
+
+export const upsertClientReminderSchedule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { clientId } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await reminderService.upsertClientReminderSchedule(userId, clientId, req.body);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const deleteClientReminderSchedule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user?.userId;
+        const { clientId } = req.params;
+
+        if (!userId) {
+            return next(new Error('User not authenticated'));
+        }
+
+        const result = await reminderService.deleteClientReminderSchedule(userId, clientId);
+
+        return sendSuccess(res, result, result.message);
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,21 @@
+/**
+ * Exchange Rates Job
+ * Reloads shared exchange rates from the configured provider
+ */
+import { config } from '../config/environment';
+import { syncExchangeRates } from '../services/exchangeRate.service';
+import { JobDefinition } from './scheduler';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const exchangeRatesJob: JobDefinition = {
+    name: 'exchange-rates',
+    intervalMs: config.EXCHANGE_RATE_SYNC_INTERVAL_MS,
+    lockTtlSeconds: 10 * 60,
+    runOnStart: true,
+    run: async () => {
+        await syncExchangeRates();
+    },
+};
@@ -0,0 +1,21 @@
+/**
+ * Expired Quotes Job
+ * Marks sent quotes past their expiry date as "expired"
+ */
+import { config } from '../config/environment';
+import { expireQuotes } from '../services/quote.service';
+import { JobDefinition } from './scheduler';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const expiredQuotesJob: JobDefinition = {
+    name: 'expired-quotes',
+    intervalMs: config.QUOTE_EXPIRY_INTERVAL_MS,
+    lockTtlSeconds: 5 * 60,
+    runOnStart: true,
+    run: async () => {
+        await expireQuotes();
+    },
+};
@@ -0,0 +1,38 @@
+/**
+ * Background Jobs
+ * Registers every scheduled job - started from server.ts
+ */
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { scheduleJob, stopAllJobs } from './scheduler';
+import { overdueInvoicesJob } from './overdueInvoices.job';
+import { recurringInvoicesJob } from './recurringInvoices.job';
+import { expiredQuotesJob } from './expiredQuotes.job';
+import { paymentRemindersJob } from './paymentReminders.job';
+import { lateChargesJob } from './lateCharges.job';
+import { exchangeRatesJob } from './exchangeRates.job';
+
+// ============================================================================
+// START / STOP
+// ============================================================================
+
+export const startJobs = (): void => {
+    if (!config.ENABLE_JOBS) {
+        logger.info('Background jobs disabled (ENABLE_JOBS=false)');
+        return;
+    }
+
+    scheduleJob(overdueInvoicesJob);
+    scheduleJob(recurringInvoicesJob);
+    scheduleJob(expiredQuotesJob);
+    scheduleJob(paymentRemindersJob);
+    scheduleJob(lateChargesJob);
+
+    if (config.EXCHANGE_RATE_PROVIDER !== 'none') {
+        scheduleJob(exchangeRatesJob);
+    }
+};
+
+export const stopJobs = (): void => {
+    stopAllJobs();
+};
@@ -0,0 +1,21 @@
+/**
+ * Late Charges Job
+ * Accrues late fees and interest on overdue invoices per their payment terms
+ */
+import { config } from '../config/environment';
+import { accrueLateCharges } from '../services/lateCharges.service';
+import { JobDefinition } from './scheduler';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const lateChargesJob: JobDefinition = {
+    name: 'late-charges',
+    intervalMs: config.LATE_CHARGE_INTERVAL_MS,
+    lockTtlSeconds: 10 * 60,
+    runOnStart: true,
+    run: async () => {
+        await accrueLateCharges();
+    },
+};
@@ -0,0 +1,100 @@
+/**
+ * Overdue Invoices Job
+ * Flips open invoices past their due date to "overdue" and alerts the owner
+ */
+import { db } from '../config/database';
+import { config } from '../config/environment';
+import { transitionInvoiceStatus } from '../services/invoiceStatus.service';
+import { InvoiceStatus } from '../types/invoice.types';
+import { ConflictError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { JobDefinition } from './scheduler';
+
+// Statuses that become overdue once the due date passes
+const OPEN_STATUSES: InvoiceStatus[] = ['sent', 'viewed', 'partially_paid'];
+
+// Process in batches so a large backlog doesn't load every invoice at once
+const BATCH_SIZE = 100;
+
+// ============================================================================
+// SWEEP OVERDUE INVOICES
+// ============================================================================
+
+export const markOverdueInvoices = async (now: Date = new Date()): Promise<number> => {
+    let processed = 0;
+    let lastId: string | undefined;
+
+    while (true) {
+        const invoices = await db.invoice.findMany({
+            where: {
+                status: { in: OPEN_STATUSES },
+                dueDate: { lt: now },
+                ...(lastId && { id: { gt: lastId } }),
+            },
+            include: {
+                client: { select: { name: true } },
+            },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        if (invoices.length === 0) {
+            break;
+        }
+
+        for (const invoice of invoices) {
+            try {
+                await db.$transaction(async (tx) => {
+                    await transitionInvoiceStatus(tx, invoice, 'overdue', {
+                        actorType: 'system',
+                        reason: `Due date ${invoice.dueDate.toISOString().slice(0, 10)} passed`,
+                    });
+
+                    await tx.alert.create({
+                        data: {
+                            userId: invoice.userId,
+                            type: 'invoice_overdue',
+                            severity: 'medium',
+                            title: `Invoice ${invoice.invoiceNumber} is overdue`,
+                            description: `${invoice.client.name} has not paid invoice ${invoice.invoiceNumber} (${Number(invoice.amount).toFixed(2)}), which was due on ${invoice.dueDate.toISOString().slice(0, 10)}.`,
+                            actionUrl: `/invoices/${invoice.id}`,
+                        },
+                    });
+                });
+
+                processed++;
+            } catch (error) {
+                // paid, cancelled... since the batch was read - nothing to do
+                if (error instanceof ConflictError) {
+                    logger.info('Invoice changed before it could be marked overdue', { invoiceId: invoice.id });
+                    continue;
+                }
+
+                // one bad invoice shouldn't stop the sweep
+                logger.error('Failed to mark invoice as overdue', { invoiceId: invoice.id, error });
+            }
+        }
+
+        lastId = invoices[invoices.length - 1].id;
+    }
+
+    if (processed > 0) {
+        logger.info('Overdue invoices marked', { count: processed });
+    }
+
+    return processed;
+};
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const overdueInvoicesJob: JobDefinition = {
+    name: 'overdue-invoices',
+    intervalMs: config.OVERDUE_SWEEP_INTERVAL_MS,
+    lockTtlSeconds: 10 * 60,
+    runOnStart: true,
+    run: async () => {
+        await markOverdueInvoices();
+    },
+};
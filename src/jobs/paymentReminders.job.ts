@@ -0,0 +1,21 @@
+/**
+ * Payment Reminders Job
+ * Emails reminders for unpaid invoices following each user's reminder schedule
+ */
+import { config } from '../config/environment';
+import { sendDueReminders } from '../services/reminder.service';
+import { JobDefinition } from './scheduler';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const paymentRemindersJob: JobDefinition = {
+    name: 'payment-reminders',
+    intervalMs: config.PAYMENT_REMINDER_INTERVAL_MS,
+    lockTtlSeconds: 15 * 60,
+    runOnStart: true,
+    run: async () => {
+        await sendDueReminders();
+    },
+};
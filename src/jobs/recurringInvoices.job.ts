@@ -0,0 +1,21 @@
+/**
+ * Recurring Invoices Job
+ * Generates invoices from active recurring schedules that are due
+ */
+import { config } from '../config/environment';
+import { generateDueRecurringInvoices } from '../services/recurringInvoice.service';
+import { JobDefinition } from './scheduler';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export const recurringInvoicesJob: JobDefinition = {
+    name: 'recurring-invoices',
+    intervalMs: config.RECURRING_INVOICE_INTERVAL_MS,
+    lockTtlSeconds: 30 * 60,
+    runOnStart: true,
+    run: async () => {
+        await generateDueRecurringInvoices();
+    },
+};
@@ -0,0 +1,104 @@
+/**
+ * Job Scheduler
+ * Runs background jobs on an interval inside the API process
+ * Each run takes a Redis lock so only one instance does the work,
+ * and keeps extending it until the run finishes
+ */
+import { acquireLock, extendLock, releaseLock } from '../config/redis';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// JOB DEFINITION
+// ============================================================================
+
+export interface JobDefinition {
+    name: string;               // used for logs and the lock key
+    intervalMs: number;         // how often to run
+    lockTtlSeconds: number;     // lock expiry if the instance dies mid-run (extended while it runs)
+    runOnStart?: boolean;       // run once immediately when scheduled
+    run: () => Promise<void>;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+const timers = new Map<string, NodeJS.Timeout>();
+const runningJobs = new Set<string>();
+
+// extend the lock this many times per TTL, so one failed refresh doesn't lose it
+const LOCK_REFRESHES_PER_TTL = 3;
+
+/**
+ * Run a job once, guarded by a local flag (overlapping ticks)
+ * and a Redis lock (other instances)
+ */
+export const runJob = async (job: JobDefinition): Promise<void> => {
+    if (runningJobs.has(job.name)) {
+        logger.warn('Job still running, skipping tick', { job: job.name });
+        return;
+    }
+
+    const lockKey = `job:${job.name}`;
+    const lockToken = await acquireLock(lockKey, job.lockTtlSeconds);
+    if (!lockToken) {
+        logger.debug('Job locked by another instance, skipping', { job: job.name });
+        return;
+    }
+
+    runningJobs.add(job.name);
+    const startedAt = Date.now();
+
+    const lockRefresh = setInterval(() => {
+        void extendLock(lockKey, lockToken, job.lockTtlSeconds).then((extended) => {
+            if (!extended) {
+                logger.warn('Job lost its lock while running, another instance may start it', { job: job.name });
+            }
+        });
+    }, (job.lockTtlSeconds * 1000) / LOCK_REFRESHES_PER_TTL);
+    lockRefresh.unref();
+
+    try {
+        await job.run();
+        logger.info('Job completed', { job: job.name, durationMs: Date.now() - startedAt });
+    } catch (error) {
+        logger.error('Job failed', { job: job.name, error });
+    } finally {
+        clearInterval(lockRefresh);
+        runningJobs.delete(job.name);
+        await releaseLock(lockKey, lockToken);
+    }
+};
+
+/**
+ * Start running a job on its interval
+ */
+export const scheduleJob = (job: JobDefinition): void => {
+    if (timers.has(job.name)) {
+        logger.warn('Job already scheduled', { job: job.name });
+        return;
+    }
+
+    const timer = setInterval(() => {
+        void runJob(job);
+    }, job.intervalMs);
+
+    // don't keep the process alive just for the timer
+    timer.unref();
+    timers.set(job.name, timer);
+
+    logger.info('Job scheduled', { job: job.name, intervalMs: job.intervalMs });
+
+    if (job.runOnStart) {
+        void runJob(job);
+    }
+};
+
+/**
+ * Stop all scheduled jobs (used on graceful shutdown)
+ */
+export const stopAllJobs = (): void => {
+    timers.forEach((timer) => clearInterval(timer));
+    timers.clear();
+    logger.info('Background jobs stopped');
+};
@@ -0,0 +1,130 @@
+/**
+ * German labels
+ */
+
+import { LocaleBundle } from '../types/locale.types';
+
+export const de: LocaleBundle = {
+    documents: {
+        invoice: 'RECHNUNG',
+        estimate: 'ANGEBOT',
+        creditNote: 'GUTSCHRIFT',
+    },
+    pdf: {
+        billedTo: 'RECHNUNG AN:',
+        invoiceNumber: 'Rechnungsnr.:',
+        invoiceDate: 'Rechnungsdatum:',
+        dueDate: 'Fällig am:',
+        paidDate: 'Bezahlt am:',
+        status: 'Status:',
+        estimateNumber: 'Angebotsnr.:',
+        estimateDate: 'Angebotsdatum:',
+        validUntil: 'Gültig bis:',
+        creditNoteNumber: 'Gutschriftnr.:',
+        date: 'Datum:',
+        description: 'Beschreibung',
+        quantity: 'Menge',
+        rate: 'Einzelpreis',
+        amount: 'Betrag',
+        subtotal: 'Zwischensumme:',
+        discount: 'Rabatt:',
+        discountPercent: 'Rabatt ({rate} %):',
+        shipping: 'Versand:',
+        total: 'Gesamt:',
+        lateCharges: 'Mahngebühren & Zinsen:',
+        amountPaid: 'Bezahlt:',
+        balanceDue: 'Offener Betrag:',
+        paymentTerms: 'Zahlungsbedingungen:',
+        notes: 'Hinweise:',
+        thankYou: 'Vielen Dank für Ihren Auftrag!',
+        page: 'Seite {page} von {pages}',
+        email: 'E-Mail',
+        phone: 'Telefon',
+        taxId: 'USt-IdNr.',
+        creditAgainst: 'Gutschrift zu Rechnung {invoiceNumber}',
+        creditReason: 'Grund: {reason}',
+    },
+    statuses: {
+        draft: 'ENTWURF',
+        sent: 'VERSENDET',
+        viewed: 'GEÖFFNET',
+        partially_paid: 'TEILWEISE BEZAHLT',
+        paid: 'BEZAHLT',
+        overdue: 'ÜBERFÄLLIG',
+        cancelled: 'STORNIERT',
+        void: 'UNGÜLTIG',
+        accepted: 'ANGENOMMEN',
+        declined: 'ABGELEHNT',
+        expired: 'ABGELAUFEN',
+        converted: 'UMGEWANDELT',
+    },
+    email: {
+        subject: 'Rechnung {invoiceNumber} von {senderName}',
+        greeting: 'Hallo {clientName},',
+        defaultMessage: 'ich hoffe, es geht Ihnen gut.',
+        attached: 'anbei erhalten Sie die Rechnung {invoiceNumber} für die erbrachten Leistungen.',
+        details: 'Rechnungsdetails:',
+        project: 'Projekt',
+        amount: 'Betrag',
+        lateCharges: 'Mahngebühren',
+        balanceDue: 'Offener Betrag',
+        invoiceDate: 'Rechnungsdatum',
+        dueDate: 'Fällig am',
+        paymentTerms: 'Zahlungsziel',
+        defaultTerms: '30 Tage netto',
+        paymentOptions: 'Zahlungsmöglichkeiten:',
+        bankTransfer: 'Überweisung: [Ihre Bankverbindung]',
+        paypal: 'PayPal',
+        phone: 'Telefon',
+        questions: 'Bei Fragen melden Sie sich gerne jederzeit.',
+        thanks: 'Vielen Dank für Ihren Auftrag!',
+        regards: 'Mit freundlichen Grüßen',
+    },
+    reminders: {
+        dueToday: 'heute',
+        dueInOneDay: 'in 1 Tag',
+        dueInDays: 'in {days} Tagen',
+        friendly: {
+            subject: 'Freundliche Erinnerung: Rechnung {invoiceNumber} ist {dueLabel} fällig',
+            body: [
+                'Hallo {clientName},',
+                '',
+                'eine kurze Erinnerung: Die Rechnung {invoiceNumber} über {balanceDue} ist {dueLabel} fällig ({dueDate}).',
+                '',
+                'Eine Kopie liegt bei ({pdfFilename}). Falls Sie bereits bezahlt haben, vielen Dank - betrachten Sie diese E-Mail dann als gegenstandslos.',
+                '',
+                'Mit freundlichen Grüßen',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        firm: {
+            subject: 'Rechnung {invoiceNumber} ist seit {daysOverdue} Tagen überfällig',
+            body: [
+                'Hallo {clientName},',
+                '',
+                'die Rechnung {invoiceNumber} war am {dueDate} fällig und ist seit {daysOverdue} Tagen überfällig. Der offene Betrag beträgt {balanceDue}.',
+                '',
+                'Bitte begleichen Sie den Betrag zeitnah oder teilen Sie mir mit, falls es ein Problem mit der Rechnung gibt. Eine Kopie liegt bei ({pdfFilename}).',
+                '',
+                'Mit freundlichen Grüßen',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        final: {
+            subject: 'Letzte Mahnung: Rechnung {invoiceNumber} ist seit {daysOverdue} Tagen überfällig',
+            body: [
+                'Hallo {clientName},',
+                '',
+                'trotz vorheriger Erinnerungen ist die Rechnung {invoiceNumber} noch offen. Sie war am {dueDate} fällig und ist seit {daysOverdue} Tagen überfällig, offen sind {balanceDue}.',
+                '',
+                'Bitte begleichen Sie den Betrag umgehend oder kontaktieren Sie mich, um einen Zahlungstermin zu vereinbaren. Die Rechnung liegt erneut bei ({pdfFilename}).',
+                '',
+                'Mit freundlichen Grüßen',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+    },
+};
@@ -0,0 +1,130 @@
+/**
+ * English labels (also the fallback for languages without a bundle)
+ */
+
+import { LocaleBundle } from '../types/locale.types';
+
+export const en: LocaleBundle = {
+    documents: {
+        invoice: 'INVOICE',
+        estimate: 'ESTIMATE',
+        creditNote: 'CREDIT NOTE',
+    },
+    pdf: {
+        billedTo: 'BILLED TO:',
+        invoiceNumber: 'Invoice #:',
+        invoiceDate: 'Invoice Date:',
+        dueDate: 'Due Date:',
+        paidDate: 'Paid Date:',
+        status: 'Status:',
+        estimateNumber: 'Estimate #:',
+        estimateDate: 'Estimate Date:',
+        validUntil: 'Valid Until:',
+        creditNoteNumber: 'Credit Note #:',
+        date: 'Date:',
+        description: 'Description',
+        quantity: 'Qty',
+        rate: 'Rate',
+        amount: 'Amount',
+        subtotal: 'Subtotal:',
+        discount: 'Discount:',
+        discountPercent: 'Discount ({rate}%):',
+        shipping: 'Shipping:',
+        total: 'Total:',
+        lateCharges: 'Late Fees & Interest:',
+        amountPaid: 'Amount Paid:',
+        balanceDue: 'Balance Due:',
+        paymentTerms: 'Payment Terms:',
+        notes: 'Notes:',
+        thankYou: 'Thank you for your business!',
+        page: 'Page {page} of {pages}',
+        email: 'Email',
+        phone: 'Phone',
+        taxId: 'Tax ID',
+        creditAgainst: 'Credit against invoice {invoiceNumber}',
+        creditReason: 'Reason: {reason}',
+    },
+    statuses: {
+        draft: 'DRAFT',
+        sent: 'SENT',
+        viewed: 'VIEWED',
+        partially_paid: 'PARTIALLY PAID',
+        paid: 'PAID',
+        overdue: 'OVERDUE',
+        cancelled: 'CANCELLED',
+        void: 'VOID',
+        accepted: 'ACCEPTED',
+        declined: 'DECLINED',
+        expired: 'EXPIRED',
+        converted: 'CONVERTED',
+    },
+    email: {
+        subject: 'Invoice {invoiceNumber} from {senderName}',
+        greeting: 'Hi {clientName},',
+        defaultMessage: 'I hope this email finds you well!',
+        attached: 'Please find attached invoice {invoiceNumber} for the work completed.',
+        details: 'Invoice Details:',
+        project: 'Project',
+        amount: 'Amount',
+        lateCharges: 'Late Charges',
+        balanceDue: 'Balance Due',
+        invoiceDate: 'Invoice Date',
+        dueDate: 'Due Date',
+        paymentTerms: 'Payment Terms',
+        defaultTerms: 'Net 30',
+        paymentOptions: 'Payment Options:',
+        bankTransfer: 'Bank Transfer: [Your bank details]',
+        paypal: 'PayPal',
+        phone: 'Phone',
+        questions: 'If you have any questions, feel free to reach out.',
+        thanks: 'Thank you for your business!',
+        regards: 'Best regards,',
+    },
+    reminders: {
+        dueToday: 'today',
+        dueInOneDay: 'in 1 day',
+        dueInDays: 'in {days} days',
+        friendly: {
+            subject: 'Friendly reminder: invoice {invoiceNumber} is due {dueLabel}',
+            body: [
+                'Hi {clientName},',
+                '',
+                'Just a friendly reminder that invoice {invoiceNumber} for {balanceDue} is due {dueLabel} ({dueDate}).',
+                '',
+                'I\'ve attached a copy ({pdfFilename}) for your convenience. If you\'ve already sent payment, thank you - please ignore this email.',
+                '',
+                'Best regards,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        firm: {
+            subject: 'Invoice {invoiceNumber} is {daysOverdue} days overdue',
+            body: [
+                'Hi {clientName},',
+                '',
+                'Invoice {invoiceNumber} was due on {dueDate} and is now {daysOverdue} days overdue. The outstanding balance is {balanceDue}.',
+                '',
+                'Please arrange payment at your earliest convenience, or let me know if there is an issue with the invoice. A copy is attached ({pdfFilename}).',
+                '',
+                'Kind regards,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        final: {
+            subject: 'Final notice: invoice {invoiceNumber} is {daysOverdue} days overdue',
+            body: [
+                'Hi {clientName},',
+                '',
+                'Despite previous reminders, invoice {invoiceNumber} remains unpaid. It was due on {dueDate} and is now {daysOverdue} days overdue, with {balanceDue} outstanding.',
+                '',
+                'Please settle the balance immediately or contact me to agree a payment date. The invoice is attached again ({pdfFilename}).',
+                '',
+                'Regards,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+    },
+};
@@ -0,0 +1,130 @@
+/**
+ * French labels
+ */
+
+import { LocaleBundle } from '../types/locale.types';
+
+export const fr: LocaleBundle = {
+    documents: {
+        invoice: 'FACTURE',
+        estimate: 'DEVIS',
+        creditNote: 'AVOIR',
+    },
+    pdf: {
+        billedTo: 'FACTURÉ À :',
+        invoiceNumber: 'Facture n° :',
+        invoiceDate: 'Date de facture :',
+        dueDate: 'Date d\'échéance :',
+        paidDate: 'Payée le :',
+        status: 'Statut :',
+        estimateNumber: 'Devis n° :',
+        estimateDate: 'Date du devis :',
+        validUntil: 'Valable jusqu\'au :',
+        creditNoteNumber: 'Avoir n° :',
+        date: 'Date :',
+        description: 'Description',
+        quantity: 'Qté',
+        rate: 'Prix unitaire',
+        amount: 'Montant',
+        subtotal: 'Sous-total :',
+        discount: 'Remise :',
+        discountPercent: 'Remise ({rate} %) :',
+        shipping: 'Frais de port :',
+        total: 'Total :',
+        lateCharges: 'Pénalités et intérêts :',
+        amountPaid: 'Montant payé :',
+        balanceDue: 'Solde dû :',
+        paymentTerms: 'Conditions de paiement :',
+        notes: 'Remarques :',
+        thankYou: 'Merci pour votre confiance !',
+        page: 'Page {page} sur {pages}',
+        email: 'E-mail',
+        phone: 'Téléphone',
+        taxId: 'N° TVA',
+        creditAgainst: 'Avoir sur la facture {invoiceNumber}',
+        creditReason: 'Motif : {reason}',
+    },
+    statuses: {
+        draft: 'BROUILLON',
+        sent: 'ENVOYÉE',
+        viewed: 'CONSULTÉE',
+        partially_paid: 'PARTIELLEMENT PAYÉE',
+        paid: 'PAYÉE',
+        overdue: 'EN RETARD',
+        cancelled: 'ANNULÉE',
+        void: 'ANNULÉE',
+        accepted: 'ACCEPTÉ',
+        declined: 'REFUSÉ',
+        expired: 'EXPIRÉ',
+        converted: 'CONVERTI',
+    },
+    email: {
+        subject: 'Facture {invoiceNumber} de {senderName}',
+        greeting: 'Bonjour {clientName},',
+        defaultMessage: 'J\'espère que vous allez bien.',
+        attached: 'Veuillez trouver ci-joint la facture {invoiceNumber} pour les travaux réalisés.',
+        details: 'Détails de la facture :',
+        project: 'Projet',
+        amount: 'Montant',
+        lateCharges: 'Pénalités',
+        balanceDue: 'Solde dû',
+        invoiceDate: 'Date de facture',
+        dueDate: 'Échéance',
+        paymentTerms: 'Conditions',
+        defaultTerms: '30 jours net',
+        paymentOptions: 'Moyens de paiement :',
+        bankTransfer: 'Virement bancaire : [Vos coordonnées bancaires]',
+        paypal: 'PayPal',
+        phone: 'Téléphone',
+        questions: 'N\'hésitez pas à me contacter pour toute question.',
+        thanks: 'Merci pour votre confiance !',
+        regards: 'Cordialement,',
+    },
+    reminders: {
+        dueToday: 'aujourd\'hui',
+        dueInOneDay: 'dans 1 jour',
+        dueInDays: 'dans {days} jours',
+        friendly: {
+            subject: 'Petit rappel : la facture {invoiceNumber} arrive à échéance {dueLabel}',
+            body: [
+                'Bonjour {clientName},',
+                '',
+                'Petit rappel : la facture {invoiceNumber} d\'un montant de {balanceDue} arrive à échéance {dueLabel} ({dueDate}).',
+                '',
+                'Vous en trouverez une copie en pièce jointe ({pdfFilename}). Si vous avez déjà effectué le paiement, merci et ne tenez pas compte de ce message.',
+                '',
+                'Cordialement,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        firm: {
+            subject: 'La facture {invoiceNumber} est en retard de {daysOverdue} jours',
+            body: [
+                'Bonjour {clientName},',
+                '',
+                'La facture {invoiceNumber} était due le {dueDate} et est maintenant en retard de {daysOverdue} jours. Le solde restant est de {balanceDue}.',
+                '',
+                'Merci de procéder au paiement dès que possible, ou de me signaler tout problème concernant cette facture. Une copie est jointe ({pdfFilename}).',
+                '',
+                'Bien cordialement,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        final: {
+            subject: 'Dernier avis : la facture {invoiceNumber} est en retard de {daysOverdue} jours',
+            body: [
+                'Bonjour {clientName},',
+                '',
+                'Malgré nos précédents rappels, la facture {invoiceNumber} reste impayée. Elle était due le {dueDate} et est en retard de {daysOverdue} jours, avec un solde de {balanceDue}.',
+                '',
+                'Merci de régler ce montant sans délai ou de me contacter pour convenir d\'une date de paiement. La facture est de nouveau jointe ({pdfFilename}).',
+                '',
+                'Cordialement,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+    },
+};
@@ -0,0 +1,17 @@
+/**
+ * Locale Bundles
+ * Translated labels for PDFs and emails, keyed by language
+ */
+
+import { LocaleBundle, SupportedLanguage } from '../types/locale.types';
+import { en } from './en';
+import { fr } from './fr';
+import { de } from './de';
+import { sw } from './sw';
+
+export const LOCALE_BUNDLES: Record<SupportedLanguage, LocaleBundle> = {
+    en,
+    fr,
+    de,
+    sw,
+};
@@ -0,0 +1,130 @@
+/**
+ * Swahili labels
+ */
+
+import { LocaleBundle } from '../types/locale.types';
+
+export const sw: LocaleBundle = {
+    documents: {
+        invoice: 'ANKARA',
+        estimate: 'MAKADIRIO',
+        creditNote: 'HATI YA MKOPO',
+    },
+    pdf: {
+        billedTo: 'IMETOLEWA KWA:',
+        invoiceNumber: 'Ankara Na.:',
+        invoiceDate: 'Tarehe ya Ankara:',
+        dueDate: 'Tarehe ya Mwisho:',
+        paidDate: 'Tarehe ya Malipo:',
+        status: 'Hali:',
+        estimateNumber: 'Makadirio Na.:',
+        estimateDate: 'Tarehe ya Makadirio:',
+        validUntil: 'Halali Hadi:',
+        creditNoteNumber: 'Hati ya Mkopo Na.:',
+        date: 'Tarehe:',
+        description: 'Maelezo',
+        quantity: 'Idadi',
+        rate: 'Bei',
+        amount: 'Kiasi',
+        subtotal: 'Jumla Ndogo:',
+        discount: 'Punguzo:',
+        discountPercent: 'Punguzo ({rate}%):',
+        shipping: 'Usafirishaji:',
+        total: 'Jumla:',
+        lateCharges: 'Ada za Kuchelewa na Riba:',
+        amountPaid: 'Kiasi Kilicholipwa:',
+        balanceDue: 'Salio Linalodaiwa:',
+        paymentTerms: 'Masharti ya Malipo:',
+        notes: 'Maelezo ya Ziada:',
+        thankYou: 'Asante kwa kufanya kazi nasi!',
+        page: 'Ukurasa {page} kati ya {pages}',
+        email: 'Barua pepe',
+        phone: 'Simu',
+        taxId: 'Namba ya Kodi',
+        creditAgainst: 'Mkopo dhidi ya ankara {invoiceNumber}',
+        creditReason: 'Sababu: {reason}',
+    },
+    statuses: {
+        draft: 'RASIMU',
+        sent: 'IMETUMWA',
+        viewed: 'IMEONWA',
+        partially_paid: 'IMELIPWA KIASI',
+        paid: 'IMELIPWA',
+        overdue: 'IMECHELEWA',
+        cancelled: 'IMEGHAIRIWA',
+        void: 'BATILI',
+        accepted: 'IMEKUBALIWA',
+        declined: 'IMEKATALIWA',
+        expired: 'IMEISHA MUDA',
+        converted: 'IMEBADILISHWA',
+    },
+    email: {
+        subject: 'Ankara {invoiceNumber} kutoka kwa {senderName}',
+        greeting: 'Habari {clientName},',
+        defaultMessage: 'Natumaini u mzima!',
+        attached: 'Tafadhali pata ankara {invoiceNumber} iliyoambatishwa kwa kazi iliyokamilika.',
+        details: 'Maelezo ya Ankara:',
+        project: 'Mradi',
+        amount: 'Kiasi',
+        lateCharges: 'Ada za Kuchelewa',
+        balanceDue: 'Salio',
+        invoiceDate: 'Tarehe ya Ankara',
+        dueDate: 'Tarehe ya Mwisho',
+        paymentTerms: 'Masharti',
+        defaultTerms: 'Siku 30',
+        paymentOptions: 'Njia za Malipo:',
+        bankTransfer: 'Uhamisho wa Benki: [Maelezo ya benki yako]',
+        paypal: 'PayPal',
+        phone: 'Simu',
+        questions: 'Ukiwa na swali lolote, usisite kuwasiliana nami.',
+        thanks: 'Asante kwa kufanya kazi nasi!',
+        regards: 'Wako,',
+    },
+    reminders: {
+        dueToday: 'leo',
+        dueInOneDay: 'baada ya siku 1',
+        dueInDays: 'baada ya siku {days}',
+        friendly: {
+            subject: 'Kikumbusho: ankara {invoiceNumber} inadaiwa {dueLabel}',
+            body: [
+                'Habari {clientName},',
+                '',
+                'Hiki ni kikumbusho kwamba ankara {invoiceNumber} ya {balanceDue} inadaiwa {dueLabel} ({dueDate}).',
+                '',
+                'Nimeambatisha nakala ({pdfFilename}). Kama tayari umelipa, asante - tafadhali puuza barua pepe hii.',
+                '',
+                'Wako,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        firm: {
+            subject: 'Ankara {invoiceNumber} imechelewa kwa siku {daysOverdue}',
+            body: [
+                'Habari {clientName},',
+                '',
+                'Ankara {invoiceNumber} ilipaswa kulipwa tarehe {dueDate} na sasa imechelewa kwa siku {daysOverdue}. Salio linalodaiwa ni {balanceDue}.',
+                '',
+                'Tafadhali fanya malipo mapema iwezekanavyo, au nijulishe kama kuna tatizo lolote kuhusu ankara hii. Nakala imeambatishwa ({pdfFilename}).',
+                '',
+                'Wako,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+        final: {
+            subject: 'Ilani ya mwisho: ankara {invoiceNumber} imechelewa kwa siku {daysOverdue}',
+            body: [
+                'Habari {clientName},',
+                '',
+                'Licha ya vikumbusho vya awali, ankara {invoiceNumber} bado haijalipwa. Ilipaswa kulipwa tarehe {dueDate} na imechelewa kwa siku {daysOverdue}, salio likiwa {balanceDue}.',
+                '',
+                'Tafadhali lipa salio hili mara moja au wasiliana nami ili tukubaliane tarehe ya malipo. Ankara imeambatishwa tena ({pdfFilename}).',
+                '',
+                'Wako,',
+                '{senderName}',
+                '{senderEmail}',
+            ].join('\n'),
+        },
+    },
+};
@@ -40,6 +40,17 @@ export function errorHandler(
         return handlePrismaError(err as any, res);
     }
     
+    // Handle request bodies over the body parser's limit (e.g. receipt uploads)
+    if ((err as any).type === 'entity.too.large') {
+        return res.status(413).json({
+            success: false,
+            error: {
+                code: 'PAYLOAD_TOO_LARGE',
+                message: `Request body is larger than the ${(err as any).limit} byte limit`,
+            },
+        });
+    }
+
     // Handle Zod validation errors
     if (err.name === 'ZodError') {
         return res.status(400).json({
@@ -92,3 +92,29 @@ export const aiRateLimiter = rateLimit({
     standardHeaders: true,
     legacyHeaders: false,
 });
+
+// ============================================================================
+// EXCHANGE RATE SYNC LIMITER (Global)
+// ============================================================================
+
+/**
+ * Manual syncs hit the external rate provider for everyone's shared rates,
+ * so they are limited across all users: 1 per 15 minutes.
+ * The scheduled sync job keeps rates current without it.
+ */
+export const exchangeRateSyncLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 1,
+
+    // one bucket shared by every user
+    keyGenerator: () => 'exchange-rate-sync',
+
+    handler: () => {
+        throw new RateLimitError(
+            'Exchange rates were synced recently. Try again in 15 minutes.'
+        );
+    },
+
+    standardHeaders: true,
+    legacyHeaders: false,
+});
@@ -0,0 +1,102 @@
+/**
+ * Bank Statement Routes
+ * Defines API endpoints for importing bank statements with review before commit
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validator';
+import * as bankStatementController from '../controllers/bankStatement.controller';
+import {
+    BANK_STATEMENT_FORMATS,
+    BANK_TRANSACTION_ACTIONS,
+    QIF_DATE_FORMATS,
+} from '../types/bankStatement.types';
+import { tagsSchema } from './income.routes';
+import { currencySchema } from './invoice.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+export const uploadBankStatementSchema = z.object({
+    content: z.string().min(1, 'Statement content is required'),
+    format: z.enum(BANK_STATEMENT_FORMATS).optional(),
+    fileName: z.string().max(255, 'File name too long').optional(),
+    currency: currencySchema.optional(),
+    qifDateFormat: z.enum(QIF_DATE_FORMATS).optional(),
+});
+
+export const updateBankTransactionSchema = z.object({
+    action: z.enum(BANK_TRANSACTION_ACTIONS).optional(),
+    description: z.string().max(500, 'Description too long').nullable().optional(),
+    category: z.string().min(1, 'Category is required').max(50, 'Category too long').optional(),
+    isDeductible: z.boolean().optional(),
+    projectName: z.string().max(200, 'Project name too long').nullable().optional(),
+    clientName: z.string().max(200, 'Client name too long').nullable().optional(),
+    skill: z.string().max(100, 'Skill too long').nullable().optional(),
+    tags: tagsSchema.optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide at least one field to update',
+});
+
+// ============================================================================
+// ALL ROUTES REQUIRE AUTHENTICATION
+// ============================================================================
+
+router.use(authenticate);
+
+// ============================================================================
+// BANK STATEMENT ENDPOINTS
+// ============================================================================
+
+/**
+ * @route POST /api/v1/bank-statements
+ * @desc Upload an OFX/QFX, QIF or CAMT.053 statement - transactions are staged for review
+ * @access Private
+ */
+router.post('/', validate(uploadBankStatementSchema), bankStatementController.uploadBankStatement);
+
+/**
+ * @route GET /api/v1/bank-statements
+ * @desc List uploaded statements
+ * @access Private
+ */
+router.get('/', bankStatementController.getBankStatements);
+
+/**
+ * @route GET /api/v1/bank-statements/:id
+ * @desc Get a statement with its proposed income and expense entries
+ * @access Private
+ */
+router.get('/:id', bankStatementController.getBankStatementById);
+
+/**
+ * @route PATCH /api/v1/bank-statements/:id/transactions/:transactionId
+ * @desc Adjust or skip a proposed entry before committing
+ * @access Private
+ */
+router.patch(
+    '/:id/transactions/:transactionId',
+    validate(updateBankTransactionSchema),
+    bankStatementController.updateBankTransaction
+);
+
+/**
+ * @route POST /api/v1/bank-statements/:id/commit
+ * @desc Create income and expense entries for the reviewed transactions
+ * @access Private
+ */
+router.post('/:id/commit', bankStatementController.commitBankStatement);
+
+/**
+ * @route DELETE /api/v1/bank-statements/:id
+ * @desc Discard a statement that hasn't been committed
+ * @access Private
+ */
+router.delete('/:id', bankStatementController.discardBankStatement);
+
+export default router;
@@ -0,0 +1,134 @@
+/**
+ * Categorization Rule Routes
+ * Defines API endpoints for rules that categorize income and expenses
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validator';
+import * as categorizationRuleController from '../controllers/categorizationRule.controller';
+import { MAX_RULE_PATTERN_LENGTH, RULE_TARGETS } from '../types/categorizationRule.types';
+import { tagsSchema } from './income.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const isRegExp = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern, 'i');
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// null clears a condition / action when updating
+const ruleConditionsSchema = z.object({
+    descriptionContains: z.string().min(1).max(200, 'Text too long').nullable().optional(),
+    descriptionPattern: z.string().min(1).max(MAX_RULE_PATTERN_LENGTH, 'Pattern too long')
+        .refine(isRegExp, 'Invalid regular expression')
+        .nullable()
+        .optional(),
+    counterpartyContains: z.string().min(1).max(200, 'Text too long').nullable().optional(),
+    minAmount: z.number().nonnegative('Amount cannot be negative').nullable().optional(),
+    maxAmount: z.number().positive('Amount must be positive').nullable().optional(),
+});
+
+const ruleActionsSchema = z.object({
+    category: z.string().min(1).max(50, 'Category too long').nullable().optional(),
+    isDeductible: z.boolean().nullable().optional(),
+    skill: z.string().min(1).max(100, 'Skill too long').nullable().optional(),
+    clientId: z.string().uuid('Invalid client ID').nullable().optional(),
+    tags: tagsSchema.optional(),
+});
+
+const ruleShape = {
+    name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+    appliesTo: z.enum(RULE_TARGETS),
+    priority: z.number().int().min(0).max(10000).optional(),
+    enabled: z.boolean().optional(),
+    conditions: ruleConditionsSchema,
+    actions: ruleActionsSchema,
+};
+
+const previewRangeShape = {
+    startDate: z.string().date('Start date must be YYYY-MM-DD').optional(),
+    endDate: z.string().date('End date must be YYYY-MM-DD').optional(),
+};
+
+export const createCategorizationRuleSchema = z.object(ruleShape);
+
+export const updateCategorizationRuleSchema = z.object({
+    ...ruleShape,
+    conditions: ruleConditionsSchema.partial(),
+    actions: ruleActionsSchema.partial(),
+}).partial().refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    { message: 'Provide at least one field to update' }
+);
+
+export const getCategorizationRulesQuerySchema = z.object({
+    appliesTo: z.enum(RULE_TARGETS).optional(),
+});
+
+export const previewDraftRuleSchema = z.object({ ...ruleShape, ...previewRangeShape });
+
+export const previewCategorizationRuleSchema = z.object(previewRangeShape);
+
+// ============================================================================
+// ALL ROUTES REQUIRE AUTHENTICATION
+// ============================================================================
+
+router.use(authenticate);
+
+// ============================================================================
+// CATEGORIZATION RULE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/categorization-rules
+ * @desc List rules in the order they run (optionally only expense or income rules)
+ * @access Private
+ */
+router.get('/', validateQuery(getCategorizationRulesQuerySchema), categorizationRuleController.getCategorizationRules);
+
+/**
+ * @route POST /api/v1/categorization-rules
+ * @desc Create a rule
+ * @access Private
+ */
+router.post('/', validate(createCategorizationRuleSchema), categorizationRuleController.createCategorizationRule);
+
+/**
+ * @route POST /api/v1/categorization-rules/preview
+ * @desc Test an unsaved rule against existing entries (nothing is changed)
+ * @access Private
+ */
+router.post('/preview', validate(previewDraftRuleSchema), categorizationRuleController.previewDraftRule);
+
+/**
+ * @route PATCH /api/v1/categorization-rules/:id
+ * @desc Update a rule
+ * @access Private
+ */
+router.patch('/:id', validate(updateCategorizationRuleSchema), categorizationRuleController.updateCategorizationRule);
+
+/**
+ * @route DELETE /api/v1/categorization-rules/:id
+ * @desc Delete a rule
+ * @access Private
+ */
+router.delete('/:id', categorizationRuleController.deleteCategorizationRule);
+
+/**
+ * @route POST /api/v1/categorization-rules/:id/preview
+ * @desc Test a saved rule against existing entries (nothing is changed)
+ * @access Private
+ */
+router.post('/:id/preview', validate(previewCategorizationRuleSchema), categorizationRuleController.previewCategorizationRule);
+
+export default router;
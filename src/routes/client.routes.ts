@@ -7,6 +7,8 @@ import { Router } from 'express';
 import * as clientController from '../controllers/client.controller';
 import { authenticate } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validator';
+import { countryCodeSchema, currencySchema, localeSchema, paymentTermsSchema, peppolIdSchema } from './invoice.routes';
+import { FACTURX_PROFILES } from '../types/einvoice.types';
 import { z } from 'zod';
 
 const router = Router();
@@ -28,6 +30,13 @@ const createClientSchema = z.object({
     company: z.string().optional(),
     address: z.string().optional(),
     notes: z.string().optional(),
+    ...paymentTermsSchema.shape,
+    currency: currencySchema.nullable().optional(),
+    locale: localeSchema.nullable().optional(),
+    taxId: z.string().max(50, 'Tax ID too long').nullable().optional(),
+    countryCode: countryCodeSchema.nullable().optional(),
+    peppolId: peppolIdSchema.nullable().optional(),
+    facturXProfile: z.enum(FACTURX_PROFILES).nullable().optional(),
 });
 
 /**
@@ -41,6 +50,13 @@ const updateClientSchema = z.object({
     company: z.string().optional(),
     address: z.string().optional(),
     notes: z.string().optional(),
+    ...paymentTermsSchema.shape,
+    currency: currencySchema.nullable().optional(),
+    locale: localeSchema.nullable().optional(),
+    taxId: z.string().max(50, 'Tax ID too long').nullable().optional(),
+    countryCode: countryCodeSchema.nullable().optional(),
+    peppolId: peppolIdSchema.nullable().optional(),
+    facturXProfile: z.enum(FACTURX_PROFILES).nullable().optional(),
 });
 
 /**
@@ -0,0 +1,58 @@
+/**
+ * Credit Note Routes
+ * Defines credit note API endpoints (issued via /invoices/:id/credit-notes)
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validateQuery } from '../middleware/validator';
+import * as creditNoteController from '../controllers/creditNote.controller';
+import { exportEInvoiceQuerySchema } from './invoice.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// GET CREDIT NOTES QUERY SCHEMA
+// ============================================================================
+
+export const getCreditNotesQuerySchema = z.object({
+    invoiceId: z.string().uuid('Invalid invoice ID').optional(),
+    clientId: z.string().uuid('Invalid client ID').optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+// ============================================================================
+// CREDIT NOTE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/credit-notes
+ * @desc Get all credit notes with optional filters
+ * @access Private
+ */
+router.get('/', authenticate, validateQuery(getCreditNotesQuerySchema), creditNoteController.getCreditNotes);
+
+/**
+ * @route GET /api/v1/credit-notes/:id
+ * @desc Get single credit note by ID
+ * @access Private
+ */
+router.get('/:id', authenticate, creditNoteController.getCreditNoteById);
+
+/**
+ * @route GET /api/v1/credit-notes/:id/download
+ * @desc Download credit note as PDF
+ * @access Private
+ */
+router.get('/:id/download', authenticate, creditNoteController.downloadCreditNotePDF);
+
+/**
+ * @route GET /api/v1/credit-notes/:id/export?format=ubl
+ * @desc Download credit note as a structured e-invoice (UBL 2.1 CreditNote XML)
+ * @access Private
+ */
+router.get('/:id/export', authenticate, validateQuery(exportEInvoiceQuerySchema), creditNoteController.exportCreditNote);
+
+export default router;
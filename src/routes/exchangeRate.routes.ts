@@ -0,0 +1,68 @@
+/**
+ * Exchange Rate Routes
+ * Defines API endpoints for stored exchange rates
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { exchangeRateSyncLimiter } from '../middleware/rateLimiter';
+import { validate, validateQuery } from '../middleware/validator';
+import * as exchangeRateController from '../controllers/exchangeRate.controller';
+import { currencySchema } from './invoice.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+export const getExchangeRatesQuerySchema = z.object({
+    base: currencySchema.optional(),
+    quote: currencySchema.optional(),
+    startDate: z.string().date('Start date must be YYYY-MM-DD').optional(),
+    endDate: z.string().date('End date must be YYYY-MM-DD').optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    offset: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+export const importExchangeRatesSchema = z.object({
+    csv: z.string().min(1, 'CSV content is required'),
+});
+
+// ============================================================================
+// ALL ROUTES REQUIRE AUTHENTICATION
+// ============================================================================
+
+router.use(authenticate);
+
+// ============================================================================
+// EXCHANGE RATE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/exchange-rates
+ * @desc Get the exchange rates used for this user's figures (own imports + shared)
+ * @access Private
+ */
+router.get('/', validateQuery(getExchangeRatesQuerySchema), exchangeRateController.getExchangeRates);
+
+/**
+ * @route POST /api/v1/exchange-rates/import
+ * @desc Import daily rates from CSV (columns: date,base,quote,rate)
+ * @access Private
+ */
+router.post('/import', validate(importExchangeRatesSchema), exchangeRateController.importExchangeRates);
+
+/**
+ * @route POST /api/v1/exchange-rates/sync
+ * @desc Reload shared rates from the configured provider (at most once per 15 minutes across all users)
+ * @access Private
+ */
+router.post('/sync', exchangeRateSyncLimiter, exchangeRateController.syncExchangeRates);
+
+// ============================================================================
+// EXPORT ROUTER
+// ============================================================================
+
+export default router;
@@ -3,10 +3,15 @@
  * Defines API endpoints for expense tracking
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
+import { config } from '../config/environment';
 import { authenticate } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validator';
 import * as expenseController from '../controllers/expense.controller';
+import { currencySchema } from './invoice.routes';
+import { csvColumnSchema, csvImportOptionsShape, tagsSchema } from './income.routes';
+import { EXPENSE_IMPORT_FIELDS } from '../types/csvImport.types';
+import { RECEIPT_CONTENT_TYPES } from '../types/expense.types';
 import { z } from 'zod';
 
 const router = Router();
@@ -17,15 +22,40 @@ const router = Router();
 
 export const logExpenseSchema = z.object({
     amount: z.number().positive('Amount must be positive'),
-    category: z.string().min(1, 'Category is required'),
+    currency: currencySchema.optional(),
+    category: z.string().min(1, 'Category is required').optional(),
     description: z.string().min(1, 'Description is required'),
     isDeductible: z.boolean().optional(),
     receiptUrl: z.string().url('Invalid receipt URL').optional(),
+    tags: tagsSchema.optional(),
     loggedAt: z.string()
                 .transform((val) => new Date(val).toISOString())
                 .optional(),
 });
 
+export const updateExpenseSchema = logExpenseSchema.partial().extend({
+    receiptUrl: z.string().url('Invalid receipt URL').nullable().optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
+}).refine(
+    ({ reason, ...fields }) => Object.values(fields).some((value) => value !== undefined),
+    { message: 'Provide at least one field to update' }
+);
+
+export const importExpenseCsvSchema = z.object({
+    ...csvImportOptionsShape,
+    mapping: z.partialRecord(z.enum(EXPENSE_IMPORT_FIELDS), csvColumnSchema)
+        .refine((mapping) => !!mapping.amount, { message: 'Map a column to amount', path: ['amount'] }),
+    defaults: z.object({
+        currency: currencySchema.optional(),
+        category: z.string().min(1).optional(),
+        description: z.string().min(1).optional(),
+        isDeductible: z.boolean().optional(),
+    }).optional(),
+}).refine(
+    (data) => !!(data.mapping.description || data.defaults?.description),
+    { message: 'Map a column to description or set a default description', path: ['mapping', 'description'] }
+);
+
 export const getExpenseQuerySchema = z.object({
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
@@ -46,6 +76,17 @@ export const expenseSummarySchema = z.object({
         .optional(),
 });
 
+export const uploadReceiptQuerySchema = z.object({
+    fileName: z.string().min(1).max(255, 'File name too long').optional(),
+});
+
+export const downloadReceiptQuerySchema = z.object({
+    download: z.enum(['true', 'false']).optional(),
+});
+
+// the file itself is the request body; larger bodies are rejected with 413
+const receiptBody = express.raw({ type: [...RECEIPT_CONTENT_TYPES], limit: config.RECEIPT_MAX_BYTES });
+
 // ============================================================================
 // EXPENSE ENDPOINTS
 // ============================================================================
@@ -71,6 +112,55 @@ router.get('/', authenticate, validateQuery(getExpenseQuerySchema), expenseContr
  */
 router.get('/summary', authenticate, validateQuery(expenseSummarySchema), expenseController.getExpenseSummary);
 
+/**
+ * @route POST /api/v1/expenses/import
+ * @desc Import expenses from CSV with column mapping - dry run by default, saves all rows or none
+ * @access Private
+ */
+router.post('/import', authenticate, validate(importExpenseCsvSchema), expenseController.importExpenseCsv);
+
+/**
+ * @route PATCH /api/v1/expenses/:id
+ * @desc Edit an expense - previous values are kept as a revision
+ * @access Private
+ */
+router.patch('/:id', authenticate, validate(updateExpenseSchema), expenseController.updateExpense);
+
+/**
+ * @route GET /api/v1/expenses/:id/revisions
+ * @desc Get the edit history of an expense (oldest first)
+ * @access Private
+ */
+router.get('/:id/revisions', authenticate, expenseController.getExpenseRevisions);
+
+/**
+ * @route POST /api/v1/expenses/:id/receipt
+ * @desc Upload a receipt (JPEG, PNG, WebP, HEIC or PDF sent as the raw body), replacing any earlier one
+ * @access Private
+ */
+router.post('/:id/receipt', authenticate, validateQuery(uploadReceiptQuerySchema), receiptBody, expenseController.uploadReceipt);
+
+/**
+ * @route GET /api/v1/expenses/:id/receipt
+ * @desc Download an expense's receipt (?download=true to save instead of opening)
+ * @access Private
+ */
+router.get('/:id/receipt', authenticate, validateQuery(downloadReceiptQuerySchema), expenseController.downloadReceipt);
+
+/**
+ * @route GET /api/v1/expenses/:id/receipt/url
+ * @desc Get a short-lived link to the receipt that works without logging in
+ * @access Private
+ */
+router.get('/:id/receipt/url', authenticate, expenseController.getReceiptUrl);
+
+/**
+ * @route DELETE /api/v1/expenses/:id/receipt
+ * @desc Remove an expense's receipt file
+ * @access Private
+ */
+router.delete('/:id/receipt', authenticate, expenseController.deleteReceipt);
+
 /**
  * @route DELETE /api/v1/expenses/:id
  * @desc Delete an expense by ID
@@ -7,6 +7,7 @@ import { Router } from 'express';
 import * as goalController from '../controllers/goal.controller';
 import { validate } from '../middleware/validator';
 import { authenticate } from '../middleware/auth';
+import { currencySchema } from './invoice.routes';
 import { z } from 'zod';
 
 const router = Router();
@@ -28,6 +29,7 @@ export const createGoalSchema = z.object({
     ]),
     targetAmount: z.number().positive('Target amount must be positive'),
     currentAmount: z.number().min(0, 'Current amount cannot be negative').optional(),
+    currency: currencySchema.optional(),
     deadline: z.string().datetime().optional(),
     description: z.string().max(500, 'Description too long').optional(),
 });
@@ -45,6 +47,7 @@ export const updateGoalSchema = z.object({
     ]).optional(),
     targetAmount: z.number().positive().optional(),
     currentAmount: z.number().min(0).optional(),
+    currency: currencySchema.optional(),
     deadline: z.string().datetime().optional(),
     description: z.string().max(500).optional(),
 });
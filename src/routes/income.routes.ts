@@ -2,6 +2,14 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validator';
 import * as incomeController from '../controllers/income.controller';
+import { currencySchema } from './invoice.routes';
+import {
+    CSV_IMPORT_AMOUNT_SIGNS,
+    CSV_IMPORT_DATE_FORMATS,
+    CSV_IMPORT_DECIMAL_SEPARATORS,
+    CSV_IMPORT_DELIMITERS,
+    INCOME_IMPORT_FIELDS,
+} from '../types/csvImport.types';
 import { z } from 'zod';
 
 const router = Router();
@@ -10,8 +18,13 @@ const router = Router();
 // VALIDATION SCHEMAS
 // ============================================================================
 
+// free-form labels on income / expenses (also set by categorization rules)
+export const tagsSchema = z.array(z.string().trim().min(1, 'Tags cannot be empty').max(50, 'Tag too long'))
+    .max(20, 'Too many tags');
+
 export const logIncomeSchema = z.object({
     amount: z.number().positive('Amount must be positive'),
+    currency: currencySchema.optional(),
     projectName: z.string().optional(),
     clientName: z.string().optional(),
     clientId: z.string().uuid('Invalid client ID').optional(),
@@ -20,11 +33,47 @@ export const logIncomeSchema = z.object({
     ratePerHour: z.number().positive('Rate per hour must be positive').optional(),
     source: z.enum(['manual', 'voice']).optional(),
     notes: z.string().optional(),
+    tags: tagsSchema.optional(),
     loggedAt: z.string()
                 .transform((val) => new Date(val).toISOString())
                 .optional(),
 });
 
+export const updateIncomeSchema = logIncomeSchema.omit({ source: true }).partial().extend({
+    projectName: z.string().nullable().optional(),
+    clientName: z.string().nullable().optional(),
+    clientId: z.string().uuid('Invalid client ID').nullable().optional(),
+    skill: z.string().nullable().optional(),
+    hours: z.number().positive('Hours must be positive').nullable().optional(),
+    ratePerHour: z.number().positive('Rate per hour must be positive').nullable().optional(),
+    notes: z.string().nullable().optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
+}).refine(
+    ({ reason, ...fields }) => Object.values(fields).some((value) => value !== undefined),
+    { message: 'Provide at least one field to update' }
+);
+
+// shared with the expense import
+export const csvImportOptionsShape = {
+    csv: z.string().min(1, 'CSV content is required'),
+    delimiter: z.enum(CSV_IMPORT_DELIMITERS).optional(),
+    dateFormat: z.enum(CSV_IMPORT_DATE_FORMATS).optional(),
+    decimalSeparator: z.enum(CSV_IMPORT_DECIMAL_SEPARATORS).optional(),
+    amountSign: z.enum(CSV_IMPORT_AMOUNT_SIGNS).optional(),
+    dryRun: z.boolean().optional(),
+};
+
+export const csvColumnSchema = z.string().min(1, 'Column name is required').max(100);
+
+export const importIncomeCsvSchema = z.object({
+    ...csvImportOptionsShape,
+    mapping: z.partialRecord(z.enum(INCOME_IMPORT_FIELDS), csvColumnSchema)
+        .refine((mapping) => !!mapping.amount, { message: 'Map a column to amount', path: ['amount'] }),
+    defaults: z.object({
+        currency: currencySchema.optional(),
+    }).optional(),
+});
+
 export const getIncomeQuerySchema = z.object({
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
@@ -71,6 +120,27 @@ router.get('/', authenticate, validateQuery(getIncomeQuerySchema), incomeControl
  */
 router.get('/summary', authenticate, validateQuery(incomeSummarySchema), incomeController.getIncomeSummary);
 
+/**
+ * @route POST /api/v1/income/import
+ * @desc Import income from CSV with column mapping - dry run by default, saves all rows or none
+ * @access Private
+ */
+router.post('/import', authenticate, validate(importIncomeCsvSchema), incomeController.importIncomeCsv);
+
+/**
+ * @route PATCH /api/v1/income/:id
+ * @desc Edit an income entry (re-links the client if it changes) - previous values are kept as a revision
+ * @access Private
+ */
+router.patch('/:id', authenticate, validate(updateIncomeSchema), incomeController.updateIncome);
+
+/**
+ * @route GET /api/v1/income/:id/revisions
+ * @desc Get the edit history of an income entry (oldest first)
+ * @access Private
+ */
+router.get('/:id/revisions', authenticate, incomeController.getIncomeRevisions);
+
 /**
  * @route DELETE /api/v1/income/:id
  * @desc Delete an income entry by ID
@@ -7,10 +7,68 @@ import { Router } from 'express';
 import { authenticate } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validator';
 import * as invoiceController from '../controllers/invoice.controller';
+import { INVOICE_STATUSES, DISCOUNT_TYPES, MAX_BULK_INVOICES } from '../types/invoice.types';
+import { PDF_TEMPLATES } from '../types/branding.types';
+import { EINVOICE_FORMATS } from '../types/einvoice.types';
+import { isSupportedCurrency, isSupportedLocale } from '../utils/i18n';
 import { z } from 'zod';
 
 
 const router = Router();
+// ============================================================================
+// TAX & DISCOUNT SCHEMAS
+// ============================================================================
+
+export const taxRateSchema = z.object({
+    name: z.string().min(1, 'Tax name is required').max(50),
+    rate: z.number().min(0, 'Tax rate cannot be negative').max(100, 'Tax rate cannot exceed 100%'),
+});
+
+export const discountSchema = z.object({
+    type: z.enum(DISCOUNT_TYPES),
+    value: z.number().nonnegative('Discount cannot be negative'),
+});
+
+// ============================================================================
+// PAYMENT TERMS SCHEMA (shared with clients)
+// ============================================================================
+
+export const paymentTermsSchema = z.object({
+    netDays: z.number().int().min(0).max(365).nullable().optional(),
+    lateFeeAmount: z.number().nonnegative('Late fee cannot be negative').nullable().optional(),
+    lateInterestRate: z.number().min(0, 'Interest rate cannot be negative').max(25, 'Interest rate cannot exceed 25% per month').nullable().optional(),
+    graceDays: z.number().int().min(0).max(365).nullable().optional(),
+});
+
+// ============================================================================
+// CURRENCY & LOCALE SCHEMA
+// ============================================================================
+
+// validate() doesn't apply transforms, so codes must already be upper case
+export const currencySchema = z.string().refine(isSupportedCurrency, 'Unsupported currency (use an upper-case ISO 4217 code like EUR or KES)');
+
+export const localeSchema = z.string().refine(isSupportedLocale, 'Unsupported locale (use a BCP 47 tag like fr-FR or sw-KE)');
+
+export const localizationSchema = z.object({
+    currency: currencySchema.optional(),
+    locale: localeSchema.optional(),
+});
+
+// on updates, null goes back to the client's / user's default
+export const updateLocalizationSchema = z.object({
+    currency: currencySchema.nullable().optional(),
+    locale: localeSchema.nullable().optional(),
+});
+
+// ============================================================================
+// E-INVOICE PARTY SCHEMAS
+// ============================================================================
+
+export const countryCodeSchema = z.string().regex(/^[A-Z]{2}$/, 'Country must be an upper-case ISO 3166-1 alpha-2 code like DE or KE');
+
+// Peppol participant id: ISO 6523 scheme code, colon, identifier (e.g. 0088:5790000435975)
+export const peppolIdSchema = z.string().max(100).regex(/^[0-9A-Z]{2,4}:\S+$/, 'Peppol ID must look like scheme:identifier, e.g. 0088:5790000435975');
+
 // ============================================================================
 // LINE ITEM SCHEMA
 // ============================================================================
@@ -20,6 +78,7 @@ export const lineItemSchema = z.object({
     quantity: z.number().positive('Quantity must be positive'),
     rate: z.number().positive('Rate must be positive'),
     amount: z.number().positive('Amount must be positive'),
+    taxes: z.array(taxRateSchema).optional(),
 });
 
 // ============================================================================
@@ -28,13 +87,22 @@ export const lineItemSchema = z.object({
 
 export const createInvoiceSchema = z.object({
     clientId: z.string().uuid('Invalid client ID'),
-    amount: z.number().positive('Amount must be positive'),
+    amount: z.number().positive('Amount must be positive').optional(),
     description: z.string().min(1, 'Description is required'),
     items: z.array(lineItemSchema).optional(),
-    dueDate: z.coerce.date(), 
+    discount: discountSchema.optional(),
+    taxes: z.array(taxRateSchema).optional(),
+    shipping: z.number().nonnegative('Shipping cannot be negative').optional(),
+    recalculate: z.boolean().optional(),
+    dueDate: z.coerce.date().optional(), // defaults to issue date + netDays
     notes: z.string().optional(),
     terms: z.string().optional(),
-});
+    ...paymentTermsSchema.shape,
+    ...localizationSchema.shape,
+}).refine(
+    (data) => data.amount !== undefined || (data.items && data.items.length > 0),
+    { message: 'Either amount or line items are required', path: ['amount'] }
+);
 
 // ============================================================================
 // UPDATE INVOICE SCHEMA
@@ -44,10 +112,15 @@ export const updateInvoiceSchema = z.object({
     amount: z.number().positive('Amount must be positive').optional(),
     description: z.string().min(1, 'Description is required').optional(),
     items: z.array(lineItemSchema).optional(),
+    discount: discountSchema.nullable().optional(),
+    taxes: z.array(taxRateSchema).optional(),
+    shipping: z.number().nonnegative('Shipping cannot be negative').optional(),
+    recalculate: z.boolean().optional(),
     dueDate: z.coerce.date().optional(), // ✅ FIXED
     notes: z.string().optional(),
     terms: z.string().optional(),
-    status: z.enum(['draft', 'sent', 'paid', 'overdue', 'cancelled']).optional(),
+    ...paymentTermsSchema.shape,
+    ...updateLocalizationSchema.shape,
 });
 
 // ============================================================================
@@ -55,7 +128,7 @@ export const updateInvoiceSchema = z.object({
 // ============================================================================
 
 export const getInvoicesQuerySchema = z.object({
-    status: z.enum(['draft', 'sent', 'paid', 'overdue', 'cancelled']).optional(),
+    status: z.enum(INVOICE_STATUSES).optional(),
     clientId: z.string().uuid('Invalid client ID').optional(),
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
@@ -63,6 +136,31 @@ export const getInvoicesQuerySchema = z.object({
     offset: z.coerce.number().int().nonnegative().optional(),
 });
 
+// ============================================================================
+// DUPLICATE / FROM INCOME SCHEMAS
+// ============================================================================
+
+export const duplicateInvoiceSchema = z.object({
+    dueDate: z.coerce.date().optional(),
+});
+
+export const createInvoiceFromIncomeSchema = z.object({
+    incomeIds: z.array(z.string().uuid('Invalid income ID')).min(1).max(500, 'Too many income entries').optional(),
+    clientId: z.string().uuid('Invalid client ID').optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    description: z.string().min(1).optional(),
+    taxes: z.array(taxRateSchema).optional(),
+    dueDate: z.coerce.date().optional(),
+    notes: z.string().optional(),
+}).refine(
+    (data) => !!data.incomeIds || !!data.clientId,
+    { message: 'Provide incomeIds, or a clientId to bill its unbilled income', path: ['incomeIds'] }
+).refine(
+    (data) => !data.incomeIds || (!data.startDate && !data.endDate),
+    { message: 'Date range only applies when billing a client\'s unbilled income', path: ['startDate'] }
+);
+
 // ============================================================================
 // MARK AS PAID SCHEMA
 // ============================================================================
@@ -72,6 +170,132 @@ export const markInvoiceAsPaidSchema = z.object({
     notes: z.string().optional(),
 });
 
+// ============================================================================
+// RECORD PAYMENT SCHEMA
+// ============================================================================
+
+export const recordInvoicePaymentSchema = z.object({
+    amount: z.number().positive('Amount must be positive'),
+    paymentDate: z.coerce.date().optional(),
+    paymentMethod: z.string().max(50).optional(),
+    reference: z.string().max(100).optional(),
+    notes: z.string().optional(),
+});
+
+// ============================================================================
+// CREDIT NOTE SCHEMA
+// ============================================================================
+
+export const createCreditNoteSchema = z.object({
+    amount: z.number().positive('Amount must be positive').optional(),
+    reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long'),
+    items: z.array(lineItemSchema).optional(),
+    issueDate: z.coerce.date().optional(),
+});
+
+// ============================================================================
+// STATUS TRANSITION SCHEMA (send / cancel / void)
+// ============================================================================
+
+export const invoiceTransitionSchema = z.object({
+    reason: z.string().max(500, 'Reason too long').optional(),
+});
+
+// ============================================================================
+// SEND INVOICE SCHEMA
+// ============================================================================
+
+export const sendInvoiceSchema = z.object({
+    to: z.array(z.string().email('Invalid recipient email')).max(10, 'Too many recipients').optional(),
+    cc: z.array(z.string().email('Invalid cc email')).max(10, 'Too many cc recipients').optional(),
+    subject: z.string().min(1).max(200, 'Subject too long').optional(),
+    message: z.string().max(2000, 'Message too long').optional(),
+    markOnly: z.boolean().optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
+});
+
+// ============================================================================
+// SHARE LINK SCHEMA
+// ============================================================================
+
+export const createShareLinkSchema = z.object({
+    expiresInDays: z.number().int().min(1, 'Link must be valid for at least a day').max(365, 'Links can be valid for at most 365 days').optional(),
+});
+
+// ============================================================================
+// NUMBERING SETTINGS SCHEMA
+// ============================================================================
+
+export const updateNumberingSettingsSchema = z.object({
+    prefix: z.string().max(20, 'Prefix too long').regex(/^[A-Za-z0-9_\-\/]*$/, 'Prefix can only contain letters, numbers, - _ /').optional(),
+    format: z.string().min(1).max(50, 'Format too long').optional(),
+    padding: z.number().int().min(1).max(10).optional(),
+    resetYearly: z.boolean().optional(),
+    nextNumber: z.number().int().positive().optional(),
+});
+
+// ============================================================================
+// BRANDING SETTINGS SCHEMA
+// ============================================================================
+
+export const updateBrandingSettingsSchema = z.object({
+    businessName: z.string().trim().min(1).max(100, 'Business name too long').nullable().optional(),
+    address: z.string().max(300, 'Address too long').nullable().optional(),
+    taxId: z.string().max(50, 'Tax ID too long').nullable().optional(),
+    countryCode: countryCodeSchema.nullable().optional(),
+    peppolId: peppolIdSchema.nullable().optional(),
+    // base64 of a 512 KB image is ~700k characters
+    logo: z.string().max(750000, 'Logo too large').nullable().optional(),
+    template: z.enum(PDF_TEMPLATES).optional(),
+    accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Accent colour must be a hex colour like #1a73e8').optional(),
+    footerText: z.string().max(200, 'Footer text too long').nullable().optional(),
+});
+
+// ============================================================================
+// E-INVOICE EXPORT SCHEMA
+// ============================================================================
+
+export const exportEInvoiceQuerySchema = z.object({
+    format: z.enum(EINVOICE_FORMATS).optional(),
+});
+
+// ============================================================================
+// BULK OPERATION SCHEMAS
+// ============================================================================
+
+// exactly one of an id list or the list filters (without paging)
+const bulkSelectionShape = {
+    ids: z.array(z.string().uuid('Invalid invoice ID'))
+        .min(1, 'Select at least one invoice')
+        .max(MAX_BULK_INVOICES, `At most ${MAX_BULK_INVOICES} invoices can be processed at once`)
+        .optional(),
+    filters: getInvoicesQuerySchema.omit({ limit: true, offset: true }).optional(),
+};
+
+const requireOneSelection = (data: { ids?: unknown; filters?: unknown }) => !!data.ids !== !!data.filters;
+
+const selectionMessage = { message: 'Provide either ids or filters', path: ['ids'] };
+
+export const bulkInvoiceSelectionSchema = z.object(bulkSelectionShape)
+    .refine(requireOneSelection, selectionMessage);
+
+export const bulkSendInvoicesSchema = z.object({
+    ...bulkSelectionShape,
+    message: z.string().max(2000, 'Message too long').optional(),
+    markOnly: z.boolean().optional(),
+}).refine(requireOneSelection, selectionMessage);
+
+export const bulkMarkInvoicesPaidSchema = z.object({
+    ...bulkSelectionShape,
+    paidDate: z.coerce.date(),
+    notes: z.string().optional(),
+}).refine(requireOneSelection, selectionMessage);
+
+export const bulkCancelInvoicesSchema = z.object({
+    ...bulkSelectionShape,
+    reason: z.string().max(500, 'Reason too long').optional(),
+}).refine(requireOneSelection, selectionMessage);
+
 // ============================================================================
 // DELETE INVOICE SCHEMA
 // ============================================================================
@@ -98,6 +322,69 @@ router.post('/', authenticate, validate(createInvoiceSchema), invoiceController.
  */
 router.get('/', authenticate, validateQuery(getInvoicesQuerySchema), invoiceController.getInvoices);
 
+/**
+ * @route POST /api/v1/invoices/from-income
+ * @desc Create a draft invoice from selected income entries, or a client's unbilled income in a date range
+ * @access Private
+ */
+router.post('/from-income', authenticate, validate(createInvoiceFromIncomeSchema), invoiceController.createInvoiceFromIncome);
+
+/**
+ * @route GET /api/v1/invoices/settings/numbering
+ * @desc Get invoice numbering format and the next number
+ * @access Private
+ */
+router.get('/settings/numbering', authenticate, invoiceController.getNumberingSettings);
+
+/**
+ * @route PATCH /api/v1/invoices/settings/numbering
+ * @desc Update invoice numbering format (prefix, {YYYY}/{YY}/{MM}/{SEQ} tokens, padding, yearly reset)
+ * @access Private
+ */
+router.patch('/settings/numbering', authenticate, validate(updateNumberingSettingsSchema), invoiceController.updateNumberingSettings);
+
+/**
+ * @route GET /api/v1/invoices/settings/branding
+ * @desc Get PDF branding (business details, logo, template, accent colour, footer)
+ * @access Private
+ */
+router.get('/settings/branding', authenticate, invoiceController.getBrandingSettings);
+
+/**
+ * @route PATCH /api/v1/invoices/settings/branding
+ * @desc Update PDF branding - applies to invoice, quote and credit note PDFs
+ * @access Private
+ */
+router.patch('/settings/branding', authenticate, validate(updateBrandingSettingsSchema), invoiceController.updateBrandingSettings);
+
+/**
+ * @route POST /api/v1/invoices/bulk/send
+ * @desc Email (or markOnly) many invoices selected by ids or filters - reports a result per invoice
+ * @access Private
+ */
+router.post('/bulk/send', authenticate, validate(bulkSendInvoicesSchema), invoiceController.bulkSendInvoices);
+
+/**
+ * @route POST /api/v1/invoices/bulk/mark-paid
+ * @desc Mark many invoices as paid - reports a result per invoice
+ * @access Private
+ */
+router.post('/bulk/mark-paid', authenticate, validate(bulkMarkInvoicesPaidSchema), invoiceController.bulkMarkInvoicesPaid);
+
+/**
+ * @route POST /api/v1/invoices/bulk/cancel
+ * @desc Cancel many invoices - reports a result per invoice
+ * @access Private
+ */
+router.post('/bulk/cancel', authenticate, validate(bulkCancelInvoicesSchema), invoiceController.bulkCancelInvoices);
+
+/**
+ * @route POST /api/v1/invoices/bulk/export
+ * @desc Download a ZIP of invoice PDFs plus manifest.csv listing each invoice's result
+ * @access Private
+ */
+router.post('/bulk/export', authenticate, validate(bulkInvoiceSelectionSchema), invoiceController.exportInvoicesZip);
+
 /**
  * @route GET /api/v1/invoices/:id
  * @desc Get single invoice by ID
@@ -112,6 +399,13 @@ router.get('/:id', authenticate, invoiceController.getInvoiceById);
  */
 router.patch('/:id', authenticate, validate(updateInvoiceSchema), invoiceController.updateInvoice);
 
+/**
+ * @route POST /api/v1/invoices/:id/duplicate
+ * @desc Create a new draft invoice copying the lines, discount, taxes and terms of this one
+ * @access Private
+ */
+router.post('/:id/duplicate', authenticate, validate(duplicateInvoiceSchema), invoiceController.duplicateInvoice);
+
 /**
  * @route POST /api/v1/invoices/:id/mark-paid
  * @desc Mark invoice as paid (auto-creates income)
@@ -119,6 +413,104 @@ router.patch('/:id', authenticate, validate(updateInvoiceSchema), invoiceControl
  */
 router.post('/:id/mark-paid', authenticate, validate(markInvoiceAsPaidSchema), invoiceController.markInvoiceAsPaid);
 
+/**
+ * @route POST /api/v1/invoices/:id/payments
+ * @desc Record a partial or full payment (auto-creates income)
+ * @access Private
+ */
+router.post('/:id/payments', authenticate, validate(recordInvoicePaymentSchema), invoiceController.recordInvoicePayment);
+
+/**
+ * @route GET /api/v1/invoices/:id/payments
+ * @desc List payments received against an invoice
+ * @access Private
+ */
+router.get('/:id/payments', authenticate, invoiceController.getInvoicePayments);
+
+/**
+ * @route POST /api/v1/invoices/:id/credit-notes
+ * @desc Issue a full or partial credit note (offsets income already received)
+ * @access Private
+ */
+router.post('/:id/credit-notes', authenticate, validate(createCreditNoteSchema), invoiceController.createCreditNote);
+
+/**
+ * @route GET /api/v1/invoices/:id/credit-notes
+ * @desc List credit notes issued against an invoice
+ * @access Private
+ */
+router.get('/:id/credit-notes', authenticate, invoiceController.getInvoiceCreditNotes);
+
+/**
+ * @route POST /api/v1/invoices/:id/send
+ * @desc Email the invoice PDF to the client (draft → sent), or just mark it sent with markOnly
+ * @access Private
+ */
+router.post('/:id/send', authenticate, validate(sendInvoiceSchema), invoiceController.sendInvoice);
+
+/**
+ * @route GET /api/v1/invoices/:id/deliveries
+ * @desc List every attempt to email an invoice, including payment reminders
+ * @access Private
+ */
+router.get('/:id/deliveries', authenticate, invoiceController.getInvoiceDeliveries);
+
+/**
+ * @route POST /api/v1/invoices/:id/share-links
+ * @desc Create a signed, expiring link the client can open without logging in
+ * @access Private
+ */
+router.post('/:id/share-links', authenticate, validate(createShareLinkSchema), invoiceController.createShareLink);
+
+/**
+ * @route GET /api/v1/invoices/:id/share-links
+ * @desc List share links for an invoice with their view counts
+ * @access Private
+ */
+router.get('/:id/share-links', authenticate, invoiceController.getShareLinks);
+
+/**
+ * @route DELETE /api/v1/invoices/:id/share-links/:linkId
+ * @desc Revoke a share link
+ * @access Private
+ */
+router.delete('/:id/share-links/:linkId', authenticate, invoiceController.revokeShareLink);
+
+/**
+ * @route GET /api/v1/invoices/:id/views
+ * @desc List views and downloads of an invoice through its share links
+ * @access Private
+ */
+router.get('/:id/views', authenticate, invoiceController.getInvoiceViews);
+
+/**
+ * @route POST /api/v1/invoices/:id/cancel
+ * @desc Cancel an unpaid invoice
+ * @access Private
+ */
+router.post('/:id/cancel', authenticate, validate(invoiceTransitionSchema), invoiceController.cancelInvoice);
+
+/**
+ * @route POST /api/v1/invoices/:id/void
+ * @desc Void an issued invoice
+ * @access Private
+ */
+router.post('/:id/void', authenticate, validate(invoiceTransitionSchema), invoiceController.voidInvoice);
+
+/**
+ * @route GET /api/v1/invoices/:id/adjustments
+ * @desc List late fees and interest accrued on an invoice
+ * @access Private
+ */
+router.get('/:id/adjustments', authenticate, invoiceController.getInvoiceAdjustments);
+
+/**
+ * @route GET /api/v1/invoices/:id/history
+ * @desc Get the status history of an invoice
+ * @access Private
+ */
+router.get('/:id/history', authenticate, invoiceController.getInvoiceHistory);
+
 /**
  * @route DELETE /api/v1/invoices/:id
  * @desc Delete invoice
@@ -128,7 +520,7 @@ router.delete('/:id', authenticate, invoiceController.deleteInvoice);
 
 /**
  * @route GET /api/v1/invoices/:id/email-template
- * @desc Get pre-filled email template for invoice
+ * @desc Preview the email POST /:id/send delivers with the PDF attached
  * @access Private
  */
 router.get('/:id/email-template', authenticate, invoiceController.getInvoiceEmailTemplate);
@@ -140,4 +532,11 @@ router.get('/:id/email-template', authenticate, invoiceController.getInvoiceEmai
  */
 router.get('/:id/download', authenticate, invoiceController.downloadInvoicePDF);
 
+/**
+ * @route GET /api/v1/invoices/:id/export?format=ubl
+ * @desc Download invoice as a structured e-invoice (UBL 2.1 / Peppol BIS 3.0 XML)
+ * @access Private
+ */
+router.get('/:id/export', authenticate, validateQuery(exportEInvoiceQuerySchema), invoiceController.exportInvoice);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * Public Invoice Routes
+ * Shared invoice links - the signed token in the URL is the only credential
+ */
+
+import { Router } from 'express';
+import * as publicInvoiceController from '../controllers/publicInvoice.controller';
+
+const router = Router();
+
+// ============================================================================
+// PUBLIC INVOICE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/public/invoices/:token
+ * @desc View a shared invoice (first view marks a sent invoice as viewed)
+ * @access Public
+ */
+router.get('/:token', publicInvoiceController.getPublicInvoice);
+
+/**
+ * @route GET /api/v1/public/invoices/:token/pdf
+ * @desc Open the PDF of a shared invoice
+ * @access Public
+ */
+router.get('/:token/pdf', publicInvoiceController.downloadPublicInvoicePDF);
+
+export default router;
@@ -0,0 +1,22 @@
+/**
+ * Public Receipt Routes
+ * Short-lived receipt links - the signed token in the URL is the only credential
+ */
+
+import { Router } from 'express';
+import * as publicReceiptController from '../controllers/publicReceipt.controller';
+
+const router = Router();
+
+// ============================================================================
+// PUBLIC RECEIPT ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/public/receipts/:token
+ * @desc Open a receipt from a link created with GET /expenses/:id/receipt/url
+ * @access Public
+ */
+router.get('/:token', publicReceiptController.downloadPublicReceipt);
+
+export default router;
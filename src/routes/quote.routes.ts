@@ -0,0 +1,142 @@
+/**
+ * Quote Routes
+ * Defines all quote/estimate API endpoints
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validator';
+import * as quoteController from '../controllers/quote.controller';
+import { QUOTE_STATUSES } from '../types/quote.types';
+import { lineItemSchema, localizationSchema, updateLocalizationSchema } from './invoice.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// CREATE QUOTE SCHEMA
+// ============================================================================
+
+export const createQuoteSchema = z.object({
+    clientId: z.string().uuid('Invalid client ID'),
+    amount: z.number().positive('Amount must be positive'),
+    description: z.string().min(1, 'Description is required'),
+    items: z.array(lineItemSchema).optional(),
+    expiryDate: z.coerce.date(),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    ...localizationSchema.shape,
+});
+
+// ============================================================================
+// UPDATE QUOTE SCHEMA
+// ============================================================================
+
+export const updateQuoteSchema = z.object({
+    amount: z.number().positive('Amount must be positive').optional(),
+    description: z.string().min(1, 'Description is required').optional(),
+    items: z.array(lineItemSchema).optional(),
+    expiryDate: z.coerce.date().optional(),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    ...updateLocalizationSchema.shape,
+});
+
+// ============================================================================
+// GET QUOTES QUERY SCHEMA
+// ============================================================================
+
+export const getQuotesQuerySchema = z.object({
+    status: z.enum(QUOTE_STATUSES).optional(),
+    clientId: z.string().uuid('Invalid client ID').optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+// ============================================================================
+// DECLINE / CONVERT SCHEMAS
+// ============================================================================
+
+export const declineQuoteSchema = z.object({
+    reason: z.string().max(500, 'Reason too long').optional(),
+});
+
+export const convertQuoteSchema = z.object({
+    dueDate: z.coerce.date().optional(),
+});
+
+// ============================================================================
+// QUOTE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route POST /api/v1/quotes
+ * @desc Create a new quote/estimate
+ * @access Private
+ */
+router.post('/', authenticate, validate(createQuoteSchema), quoteController.createQuote);
+
+/**
+ * @route GET /api/v1/quotes
+ * @desc Get all quotes with optional filters
+ * @access Private
+ */
+router.get('/', authenticate, validateQuery(getQuotesQuerySchema), quoteController.getQuotes);
+
+/**
+ * @route GET /api/v1/quotes/:id
+ * @desc Get single quote by ID
+ * @access Private
+ */
+router.get('/:id', authenticate, quoteController.getQuoteById);
+
+/**
+ * @route PATCH /api/v1/quotes/:id
+ * @desc Update quote
+ * @access Private
+ */
+router.patch('/:id', authenticate, validate(updateQuoteSchema), quoteController.updateQuote);
+
+/**
+ * @route POST /api/v1/quotes/:id/send
+ * @desc Mark a quote as sent to the client
+ * @access Private
+ */
+router.post('/:id/send', authenticate, quoteController.sendQuote);
+
+/**
+ * @route POST /api/v1/quotes/:id/accept
+ * @desc Record that the client accepted the quote
+ * @access Private
+ */
+router.post('/:id/accept', authenticate, quoteController.acceptQuote);
+
+/**
+ * @route POST /api/v1/quotes/:id/decline
+ * @desc Record that the client declined the quote
+ * @access Private
+ */
+router.post('/:id/decline', authenticate, validate(declineQuoteSchema), quoteController.declineQuote);
+
+/**
+ * @route POST /api/v1/quotes/:id/convert
+ * @desc Convert an accepted quote into a draft invoice
+ * @access Private
+ */
+router.post('/:id/convert', authenticate, validate(convertQuoteSchema), quoteController.convertQuote);
+
+/**
+ * @route DELETE /api/v1/quotes/:id
+ * @desc Delete quote
+ * @access Private
+ */
+router.delete('/:id', authenticate, quoteController.deleteQuote);
+
+/**
+ * @route GET /api/v1/quotes/:id/download
+ * @desc Download quote as PDF
+ * @access Private
+ */
+router.get('/:id/download', authenticate, quoteController.downloadQuotePDF);
+
+export default router;
@@ -0,0 +1,104 @@
+/**
+ * Recurring Invoice Routes
+ * Defines all recurring invoice (retainer) API endpoints
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validator';
+import * as recurringInvoiceController from '../controllers/recurringInvoice.controller';
+import { RECURRING_FREQUENCIES } from '../types/recurringInvoice.types';
+import { lineItemSchema } from './invoice.routes';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// CREATE RECURRING INVOICE SCHEMA
+// ============================================================================
+
+export const createRecurringInvoiceSchema = z.object({
+    clientId: z.string().uuid('Invalid client ID'),
+    amount: z.number().positive('Amount must be positive'),
+    description: z.string().min(1, 'Description is required'),
+    items: z.array(lineItemSchema).optional(),
+    notes: z.string().optional(),
+    terms: z.string().optional(),
+    dueInDays: z.number().int().nonnegative().max(365).optional(),
+    frequency: z.enum(RECURRING_FREQUENCIES),
+    cronExpression: z.string().min(1).max(100).optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().optional(),
+    autoSend: z.boolean().optional(),
+}).refine(
+    (data) => data.frequency !== 'custom' || !!data.cronExpression,
+    { message: 'cronExpression is required for custom frequency', path: ['cronExpression'] }
+);
+
+// ============================================================================
+// QUERY SCHEMAS
+// ============================================================================
+
+export const getRecurringInvoicesQuerySchema = z.object({
+    status: z.enum(['active', 'paused', 'completed']).optional(),
+    clientId: z.string().uuid('Invalid client ID').optional(),
+});
+
+export const previewRecurringInvoiceQuerySchema = z.object({
+    count: z.coerce.number().int().positive().max(24).optional(),
+});
+
+// ============================================================================
+// RECURRING INVOICE ENDPOINTS
+// ============================================================================
+
+/**
+ * @route POST /api/v1/recurring-invoices
+ * @desc Create a recurring invoice schedule
+ * @access Private
+ */
+router.post('/', authenticate, validate(createRecurringInvoiceSchema), recurringInvoiceController.createRecurringInvoice);
+
+/**
+ * @route GET /api/v1/recurring-invoices
+ * @desc Get all recurring invoice schedules
+ * @access Private
+ */
+router.get('/', authenticate, validateQuery(getRecurringInvoicesQuerySchema), recurringInvoiceController.getRecurringInvoices);
+
+/**
+ * @route GET /api/v1/recurring-invoices/:id
+ * @desc Get single recurring invoice schedule
+ * @access Private
+ */
+router.get('/:id', authenticate, recurringInvoiceController.getRecurringInvoiceById);
+
+/**
+ * @route GET /api/v1/recurring-invoices/:id/preview
+ * @desc Preview the next invoices the schedule will generate
+ * @access Private
+ */
+router.get('/:id/preview', authenticate, validateQuery(previewRecurringInvoiceQuerySchema), recurringInvoiceController.previewRecurringInvoice);
+
+/**
+ * @route POST /api/v1/recurring-invoices/:id/pause
+ * @desc Pause a recurring invoice schedule
+ * @access Private
+ */
+router.post('/:id/pause', authenticate, recurringInvoiceController.pauseRecurringInvoice);
+
+/**
+ * @route POST /api/v1/recurring-invoices/:id/resume
+ * @desc Resume a paused schedule (missed occurrences are skipped)
+ * @access Private
+ */
+router.post('/:id/resume', authenticate, recurringInvoiceController.resumeRecurringInvoice);
+
+/**
+ * @route DELETE /api/v1/recurring-invoices/:id
+ * @desc Delete a recurring invoice schedule (generated invoices are kept)
+ * @access Private
+ */
+router.delete('/:id', authenticate, recurringInvoiceController.deleteRecurringInvoice);
+
+export default router;
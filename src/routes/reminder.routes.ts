@@ -0,0 +1,57 @@
+/**
+ * Reminder Routes
+ * Defines payment reminder schedule API endpoints
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validator';
+import * as reminderController from '../controllers/reminder.controller';
+import { z } from 'zod';
+
+const router = Router();
+
+// ============================================================================
+// UPSERT SCHEDULE SCHEMA
+// ============================================================================
+
+export const upsertReminderScheduleSchema = z.object({
+    offsets: z.array(
+        z.number().int().min(-60, 'Reminders can start at most 60 days before the due date').max(365, 'Reminders can run at most 365 days after the due date')
+    ).min(1, 'At least one reminder is required').max(10, 'Too many reminders').optional(),
+    enabled: z.boolean().optional(),
+});
+
+// ============================================================================
+// REMINDER ENDPOINTS
+// ============================================================================
+
+/**
+ * @route GET /api/v1/reminders/schedules
+ * @desc Get the default reminder schedule and per-client overrides
+ * @access Private
+ */
+router.get('/schedules', authenticate, reminderController.getReminderSchedules);
+
+/**
+ * @route PUT /api/v1/reminders/schedules/default
+ * @desc Create or update the default reminder schedule (offsets in days from the due date)
+ * @access Private
+ */
+router.put('/schedules/default', authenticate, validate(upsertReminderScheduleSchema), reminderController.upsertDefaultReminderSchedule);
+
+/**
+ * @route PUT /api/v1/reminders/schedules/clients/:clientId
+ * @desc Create or update a client's reminder schedule (overrides the default)
+ * @access Private
+ */
+router.put('/schedules/clients/:clientId', authenticate, validate(upsertReminderScheduleSchema), reminderController.upsertClientReminderSchedule);
+
+/**
+ * @route DELETE /api/v1/reminders/schedules/clients/:clientId
+ * @desc Remove a client's override so it falls back to the default schedule
+ * @access Private
+ */
+router.delete('/schedules/clients/:clientId', authenticate, reminderController.deleteClientReminderSchedule);
+
+export default router;
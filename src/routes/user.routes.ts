@@ -7,6 +7,7 @@ import * as userController from '../controllers/user.controller';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validator';
 import { z } from 'zod';
+import { currencySchema, localeSchema } from './invoice.routes';
 
 const router = Router();
 
@@ -19,6 +20,9 @@ const updateProfileSchema = z.object({
     profession: z.string().optional(),
     skills: z.array(z.string()).optional(),
     hourlyRate: z.number().positive('Hourly rate must be positive').optional(),
+    currency: currencySchema.optional(),
+    locale: localeSchema.optional(),
+    baseCurrency: currencySchema.optional(),
 });
 
 const changePasswordSchema = z.object({
@@ -7,6 +7,7 @@ import { config } from './config/environment';
 import { logger } from './utils/logger';
 import { connectDatabase } from './config/database';
 import { connectRedis } from './config/redis';
+import { startJobs, stopJobs } from './jobs';
 
 // ============================================================================
 // GRACEFUL SHUTDOWN
@@ -29,6 +30,9 @@ async function gracefulShutdown(signal: string) {
     }, 10000);
     
     try {
+        // Stop scheduling new background job runs
+        stopJobs();
+
         // Close database connections
         await connectDatabase.disconnect();
         logger.info('Database connections closed');
@@ -100,6 +104,9 @@ async function startServer() {
     // Set keepalive timeout (important for load balancers)
     server.keepAliveTimeout = 65000; // 65 seconds
     server.headersTimeout = 66000;   // Slightly higher than keepalive
+
+    // 4. Start background jobs (overdue invoices, ...)
+    startJobs();
     
     } catch (error) {
         logger.error('Failed to start server:', error);
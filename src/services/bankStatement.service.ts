@@ -0,0 +1,589 @@
+/**
+ * Bank Statement Service
+ * Imports OFX/QFX, QIF and CAMT.053 statements in two steps: the file is
+ * parsed into pending transactions (credits proposed as income, debits as
+ * expenses, filled in by categorization rules) that the user reviews, then committed as IncomeLog / ExpenseLog
+ * entries with a Payment carrying the bank transaction ID. Transactions
+ * whose ID is already on a payment are flagged as duplicates and never
+ * committed twice.
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    BANK_STATEMENT_PAYMENT_METHOD,
+    BankStatementFormat,
+    BankStatementImport,
+    BankStatementImportDetail,
+    BankStatementStatus,
+    BankStatementTransaction,
+    BankEntryType,
+    BankTransactionAction,
+    CommitBankStatementResponse,
+    GetBankStatementsResponse,
+    MAX_STATEMENT_TRANSACTIONS,
+    ParsedStatement,
+    StatementParser,
+    UpdateBankTransactionRequest,
+    UpdateBankTransactionResponse,
+    UploadBankStatementRequest,
+    UploadBankStatementResponse,
+} from '../types/bankStatement.types';
+import { UNCATEGORIZED_EXPENSE } from '../types/expense.types';
+import { ApiError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { isSupportedCurrency } from '../utils/i18n';
+import { logger } from '../utils/logger';
+import { parseCamtStatement } from './camt.service';
+import { categorize, CompiledRule, loadCategorizationRules, mergeTags } from './categorizationRule.service';
+import { getBaseCurrency } from './exchangeRate.service';
+import { resolveIncomeClient } from './income.service';
+import { parseOfxStatement } from './ofx.service';
+import { parseQifStatement } from './qif.service';
+
+// ============================================================================
+// PARSERS
+// ============================================================================
+
+const STATEMENT_PARSERS: Record<BankStatementFormat, StatementParser> = {
+    ofx: parseOfxStatement,
+    qif: parseQifStatement,
+    camt053: parseCamtStatement,
+};
+
+/**
+ * Format from the file's own markers - OFX/QFX headers or root element,
+ * the CAMT.053 statement element, or a QIF !Type line
+ */
+const detectFormat = (content: string): BankStatementFormat => {
+    const head = content.slice(0, 4096);
+
+    if (/BkToCstmrStmt/.test(head)) return 'camt053';
+    if (/OFXHEADER|<OFX>|<\?OFX/i.test(head)) return 'ofx';
+    if (/^\s*!(Type|Account|Option)/im.test(head)) return 'qif';
+
+    throw new ValidationError('Unrecognised statement format - upload an OFX/QFX, QIF or CAMT.053 file, or set format');
+};
+
+// every committed transaction takes two queries - long statements need more than the default 5s
+const COMMIT_TIMEOUT_MS = 60_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type StatementRecord = Prisma.BankStatementImportGetPayload<{}>;
+type TransactionRecord = Prisma.BankStatementTransactionGetPayload<{}>;
+
+// ============================================================================
+// HELPER: FORMAT RESPONSES
+// ============================================================================
+
+const formatTransaction = (transaction: TransactionRecord): BankStatementTransaction => {
+    return {
+        id: transaction.id,
+        importId: transaction.importId,
+        externalTxId: transaction.externalTxId,
+        bookedAt: transaction.bookedAt,
+        amount: (transaction.amount as Prisma.Decimal).toNumber(),
+        currency: transaction.currency,
+        counterparty: transaction.counterparty,
+        description: transaction.description,
+        reference: transaction.reference,
+        entryType: transaction.entryType as BankEntryType,
+        action: transaction.action as BankTransactionAction,
+        duplicate: transaction.duplicate,
+        category: transaction.category,
+        isDeductible: transaction.isDeductible,
+        projectName: transaction.projectName,
+        clientName: transaction.clientName,
+        skill: transaction.skill,
+        tags: transaction.tags,
+        incomeLogId: transaction.incomeLogId,
+        expenseLogId: transaction.expenseLogId,
+    };
+};
+
+const formatStatement = (
+    statement: StatementRecord,
+    counts: { transactionCount: number; duplicateCount: number }
+): BankStatementImport => {
+    return {
+        id: statement.id,
+        userId: statement.userId,
+        format: statement.format as BankStatementFormat,
+        fileName: statement.fileName,
+        accountId: statement.accountId,
+        currency: statement.currency,
+        status: statement.status as BankStatementStatus,
+        periodStart: statement.periodStart,
+        periodEnd: statement.periodEnd,
+        transactionCount: counts.transactionCount,
+        duplicateCount: counts.duplicateCount,
+        createdAt: statement.createdAt,
+        committedAt: statement.committedAt,
+    };
+};
+
+const formatStatementDetail = (
+    statement: StatementRecord & { transactions: TransactionRecord[] }
+): BankStatementImportDetail => {
+    return {
+        ...formatStatement(statement, {
+            transactionCount: statement.transactions.length,
+            duplicateCount: statement.transactions.filter((transaction) => transaction.duplicate).length,
+        }),
+        transactions: statement.transactions.map(formatTransaction),
+    };
+};
+
+// ============================================================================
+// HELPER: LOOKUPS
+// ============================================================================
+
+const getOwnedStatement = async (userId: string, importId: string) => {
+    const statement = await db.bankStatementImport.findFirst({
+        where: { id: importId, userId },
+        include: {
+            transactions: { orderBy: [{ bookedAt: 'asc' }, { id: 'asc' }] }
+        }
+    });
+
+    if (!statement) {
+        throw new NotFoundError('Bank statement');
+    }
+
+    return statement;
+};
+
+const assertPending = (statement: StatementRecord): void => {
+    if (statement.status !== 'pending') {
+        throw new ConflictError(`Bank statement has already been ${statement.status}`);
+    }
+};
+
+/**
+ * Bank transaction IDs already on one of the user's payments - imported from
+ * an earlier statement or recorded as an invoice payment reference
+ */
+const findImportedTxIds = async (userId: string, externalTxIds: string[]): Promise<Set<string>> => {
+    if (externalTxIds.length === 0) return new Set();
+
+    const payments = await db.payment.findMany({
+        where: { userId, externalTxId: { in: [...new Set(externalTxIds)] } },
+        select: { externalTxId: true }
+    });
+
+    return new Set(payments.map((payment) => payment.externalTxId as string));
+};
+
+// ============================================================================
+// HELPER: PARSE
+// ============================================================================
+
+const parseStatement = (format: BankStatementFormat, data: UploadBankStatementRequest): ParsedStatement => {
+    try {
+        return STATEMENT_PARSERS[format](data.content, { qifDateFormat: data.qifDateFormat ?? 'MM/DD/YYYY' });
+    } catch (error) {
+        if (error instanceof ApiError) throw error;
+        throw new ValidationError(`Could not read the ${format} statement`, {
+            reason: error instanceof Error ? error.message : String(error),
+        });
+    }
+};
+
+// ============================================================================
+// UPLOAD STATEMENT
+// ============================================================================
+
+export const uploadBankStatement = async (
+    userId: string,
+    data: UploadBankStatementRequest
+): Promise<UploadBankStatementResponse> => {
+    try {
+        const format = data.format ?? detectFormat(data.content);
+        const parsed = parseStatement(format, data);
+
+        if (parsed.transactions.length === 0) {
+            throw new ValidationError('The statement contains no booked transactions');
+        }
+
+        if (parsed.transactions.length > MAX_STATEMENT_TRANSACTIONS) {
+            throw new ValidationError(
+                `Statements are limited to ${MAX_STATEMENT_TRANSACTIONS} transactions - export a shorter period`
+            );
+        }
+
+        const currency = (parsed.currency ?? data.currency ?? await getBaseCurrency(userId)).toUpperCase();
+        const unsupported = [
+            ...new Set(parsed.transactions.map((transaction) => transaction.currency ?? currency)),
+        ].filter((code) => !isSupportedCurrency(code));
+
+        if (unsupported.length > 0) {
+            throw new ValidationError('The statement uses unsupported currencies', { currencies: unsupported });
+        }
+
+        // duplicates: already imported, or repeated within this file
+        const imported = await findImportedTxIds(
+            userId,
+            parsed.transactions.map((transaction) => transaction.externalTxId)
+        );
+        const seen = new Set<string>();
+
+        const rules: Record<BankEntryType, CompiledRule[]> = {
+            income: await loadCategorizationRules(userId, 'income'),
+            expense: await loadCategorizationRules(userId, 'expense'),
+        };
+
+        const statement = await db.bankStatementImport.create({
+            data: {
+                userId,
+                format,
+                fileName: data.fileName,
+                accountId: parsed.accountId,
+                currency,
+                periodStart: parsed.periodStart,
+                periodEnd: parsed.periodEnd,
+                transactions: {
+                    createMany: {
+                        data: parsed.transactions.map((transaction) => {
+                            const duplicate = imported.has(transaction.externalTxId) || seen.has(transaction.externalTxId);
+                            seen.add(transaction.externalTxId);
+
+                            const entryType: BankEntryType = transaction.amount >= 0 ? 'income' : 'expense';
+                            const categorized = categorize(rules[entryType], {
+                                description: transaction.description,
+                                counterparty: transaction.counterparty,
+                                amount: Math.abs(transaction.amount),
+                            });
+
+                            return {
+                                externalTxId: transaction.externalTxId,
+                                bookedAt: transaction.bookedAt,
+                                amount: new Prisma.Decimal(transaction.amount),
+                                currency: (transaction.currency ?? currency).toUpperCase(),
+                                counterparty: transaction.counterparty,
+                                description: transaction.description,
+                                reference: transaction.reference,
+                                entryType,
+                                action: duplicate ? 'skip' : 'import',
+                                duplicate,
+                                ...(entryType === 'expense'
+                                    ? {
+                                        category: categorized.category ?? UNCATEGORIZED_EXPENSE,
+                                        isDeductible: categorized.isDeductible ?? true,
+                                    }
+                                    : {
+                                        skill: categorized.skill,
+                                        clientName: categorized.clientName ?? transaction.counterparty,
+                                    }),
+                                tags: categorized.tags,
+                            };
+                        }),
+                    },
+                },
+            },
+            include: {
+                transactions: { orderBy: [{ bookedAt: 'asc' }, { id: 'asc' }] }
+            }
+        });
+
+        const detail = formatStatementDetail(statement);
+
+        logger.info('Bank statement uploaded', {
+            userId,
+            importId: statement.id,
+            format,
+            transactions: detail.transactionCount,
+            duplicates: detail.duplicateCount
+        });
+
+        return {
+            statement: detail,
+            message: `${detail.transactionCount} transaction${detail.transactionCount === 1 ? '' : 's'} ready for review`
+                + (detail.duplicateCount > 0 ? ` (${detail.duplicateCount} already imported)` : '')
+        };
+    } catch (error) {
+        logger.error('Failed to upload bank statement', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET STATEMENTS
+// ============================================================================
+
+export const getBankStatements = async (userId: string): Promise<GetBankStatementsResponse> => {
+    try {
+        const statements = await db.bankStatementImport.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        const counts = await db.bankStatementTransaction.groupBy({
+            by: ['importId', 'duplicate'],
+            where: { importId: { in: statements.map((statement) => statement.id) } },
+            _count: { _all: true }
+        });
+
+        const countsFor = (importId: string) => {
+            const rows = counts.filter((row) => row.importId === importId);
+            return {
+                transactionCount: rows.reduce((total, row) => total + row._count._all, 0),
+                duplicateCount: rows.find((row) => row.duplicate)?._count._all ?? 0,
+            };
+        };
+
+        return {
+            statements: statements.map((statement) => formatStatement(statement, countsFor(statement.id))),
+        };
+    } catch (error) {
+        logger.error('Failed to get bank statements', { userId, error });
+        throw error;
+    }
+};
+
+export const getBankStatementById = async (
+    userId: string,
+    importId: string
+): Promise<BankStatementImportDetail> => {
+    try {
+        return formatStatementDetail(await getOwnedStatement(userId, importId));
+    } catch (error) {
+        logger.error('Failed to get bank statement', { userId, importId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// REVIEW TRANSACTION
+// ============================================================================
+
+export const updateBankTransaction = async (
+    userId: string,
+    importId: string,
+    transactionId: string,
+    data: UpdateBankTransactionRequest
+): Promise<UpdateBankTransactionResponse> => {
+    try {
+        const statement = await getOwnedStatement(userId, importId);
+        assertPending(statement);
+
+        const transaction = statement.transactions.find((row) => row.id === transactionId);
+        if (!transaction) {
+            throw new NotFoundError('Bank transaction');
+        }
+
+        if (transaction.duplicate && data.action === 'import') {
+            throw new ConflictError('This transaction has already been imported');
+        }
+
+        // expense fields only apply to debits, income fields to credits
+        const isIncome = transaction.entryType === 'income';
+        const misplaced = isIncome
+            ? (['category', 'isDeductible'] as const).filter((field) => data[field] !== undefined)
+            : (['projectName', 'clientName', 'skill'] as const).filter((field) => data[field] !== undefined);
+
+        if (misplaced.length > 0) {
+            throw new ValidationError(
+                `${misplaced.join(', ')} cannot be set on ${isIncome ? 'a credit (income)' : 'a debit (expense)'}`,
+                { fields: misplaced }
+            );
+        }
+
+        const updated = await db.bankStatementTransaction.update({
+            where: { id: transaction.id },
+            data: {
+                action: data.action,
+                description: data.description,
+                category: data.category,
+                isDeductible: data.isDeductible,
+                projectName: data.projectName,
+                clientName: data.clientName,
+                skill: data.skill,
+                tags: data.tags ? mergeTags(data.tags) : undefined,
+            }
+        });
+
+        logger.info('Bank transaction reviewed', { userId, importId, transactionId });
+
+        return {
+            transaction: formatTransaction(updated),
+            message: 'Transaction updated successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to update bank transaction', { userId, importId, transactionId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// COMMIT STATEMENT
+// ============================================================================
+
+export const commitBankStatement = async (
+    userId: string,
+    importId: string
+): Promise<CommitBankStatementResponse> => {
+    try {
+        const statement = await getOwnedStatement(userId, importId);
+        assertPending(statement);
+
+        // another statement may have imported the same transactions since the upload
+        const selected = statement.transactions.filter((row) => row.action === 'import' && !row.duplicate);
+        const imported = await findImportedTxIds(userId, selected.map((row) => row.externalTxId));
+        const toCommit = selected.filter((row) => !imported.has(row.externalTxId));
+
+        // smart client matching, once per name
+        const clients = new Map<string, { clientId?: string; clientName?: string }>();
+        for (const row of toCommit) {
+            if (row.entryType === 'income' && row.clientName && !clients.has(row.clientName)) {
+                clients.set(row.clientName, await resolveIncomeClient(userId, { clientName: row.clientName }));
+            }
+        }
+
+        const committedAt = new Date();
+        let incomeCreated = 0;
+        let expensesCreated = 0;
+
+        await db.$transaction(async (tx) => {
+            // claim the import first so a concurrent commit can't create the entries twice
+            const claimed = await tx.bankStatementImport.updateMany({
+                where: { id: statement.id, status: 'pending' },
+                data: { status: 'committed', committedAt }
+            });
+
+            if (claimed.count === 0) {
+                throw new ConflictError('Bank statement has already been committed');
+            }
+
+            if (imported.size > 0) {
+                await tx.bankStatementTransaction.updateMany({
+                    where: { importId: statement.id, externalTxId: { in: [...imported] } },
+                    data: { duplicate: true, action: 'skip' }
+                });
+            }
+
+            for (const row of toCommit) {
+                const amount = (row.amount as Prisma.Decimal).abs();
+                const description = row.description || row.counterparty || 'Bank transaction';
+                const payment = {
+                    userId,
+                    amount,
+                    counterpartyName: row.counterparty,
+                    status: 'completed',
+                    paymentMethod: BANK_STATEMENT_PAYMENT_METHOD,
+                    externalTxId: row.externalTxId,
+                    memo: row.reference,
+                    paymentDate: row.bookedAt,
+                };
+
+                if (row.entryType === 'income') {
+                    const client = row.clientName ? clients.get(row.clientName) : undefined;
+
+                    const income = await tx.incomeLog.create({
+                        data: {
+                            userId,
+                            amount,
+                            currency: row.currency,
+                            projectName: row.projectName,
+                            clientId: client?.clientId,
+                            clientName: client?.clientName ?? row.clientName,
+                            skill: row.skill,
+                            source: 'bank_statement',
+                            notes: description,
+                            tags: row.tags,
+                            loggedAt: row.bookedAt,
+                            payments: { create: { ...payment, direction: 'RECEIVED' } },
+                        }
+                    });
+
+                    await tx.bankStatementTransaction.update({
+                        where: { id: row.id },
+                        data: { incomeLogId: income.id }
+                    });
+                    incomeCreated++;
+                } else {
+                    const expense = await tx.expenseLog.create({
+                        data: {
+                            userId,
+                            amount,
+                            currency: row.currency,
+                            category: row.category || UNCATEGORIZED_EXPENSE,
+                            description,
+                            isDeductible: row.isDeductible,
+                            tags: row.tags,
+                            loggedAt: row.bookedAt,
+                            payments: { create: { ...payment, direction: 'SENT' } },
+                        }
+                    });
+
+                    await tx.bankStatementTransaction.update({
+                        where: { id: row.id },
+                        data: { expenseLogId: expense.id }
+                    });
+                    expensesCreated++;
+                }
+            }
+        }, { timeout: COMMIT_TIMEOUT_MS });
+
+        const skipped = statement.transactions.length - toCommit.length;
+
+        logger.info('Bank statement committed', {
+            userId,
+            importId,
+            incomeCreated,
+            expensesCreated,
+            skipped
+        });
+
+        return {
+            statement: formatStatement(
+                { ...statement, status: 'committed', committedAt },
+                {
+                    transactionCount: statement.transactions.length,
+                    duplicateCount: statement.transactions.filter(
+                        (row) => row.duplicate || imported.has(row.externalTxId)
+                    ).length,
+                }
+            ),
+            incomeCreated,
+            expensesCreated,
+            skipped,
+            message: `Imported ${incomeCreated} income and ${expensesCreated} expense entr${expensesCreated === 1 ? 'y' : 'ies'}`
+                + (skipped > 0 ? `, ${skipped} skipped` : '')
+        };
+    } catch (error) {
+        logger.error('Failed to commit bank statement', { userId, importId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DISCARD STATEMENT
+// ============================================================================
+
+export const discardBankStatement = async (
+    userId: string,
+    importId: string
+): Promise<{ message: string }> => {
+    try {
+        const statement = await getOwnedStatement(userId, importId);
+        assertPending(statement);
+
+        // the parsed rows are only needed for review
+        await db.$transaction([
+            db.bankStatementTransaction.deleteMany({ where: { importId: statement.id } }),
+            db.bankStatementImport.update({
+                where: { id: statement.id },
+                data: { status: 'discarded' }
+            }),
+        ]);
+
+        logger.info('Bank statement discarded', { userId, importId });
+
+        return { message: 'Bank statement discarded' };
+    } catch (error) {
+        logger.error('Failed to discard bank statement', { userId, importId, error });
+        throw error;
+    }
+};
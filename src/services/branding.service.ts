@@ -0,0 +1,154 @@
+/**
+ * Branding Service
+ * Per-user business details, logo and template used on generated PDFs
+ */
+
+import { BrandingSettings as BrandingSettingsRow } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    BrandingResponse,
+    BrandingSettings,
+    DEFAULT_ACCENT_COLOR,
+    LOGO_MIME_TYPES,
+    LogoMimeType,
+    MAX_LOGO_BYTES,
+    PdfBranding,
+    PdfTemplate,
+    UpdateBrandingRequest,
+} from '../types/branding.types';
+import { ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// HELPER: LOGO
+// ============================================================================
+
+/**
+ * Decodes a data URL and checks the bytes really are the PNG/JPEG it claims,
+ * so a bad upload fails here instead of when a PDF is rendered
+ */
+const parseLogo = (dataUrl: string): { logo: Uint8Array<ArrayBuffer>; logoMimeType: LogoMimeType } => {
+    const match = dataUrl.match(/^data:([a-z/]+);base64,(.+)$/);
+
+    if (!match || !(LOGO_MIME_TYPES as readonly string[]).includes(match[1])) {
+        throw new ValidationError('Logo must be a base64 PNG or JPEG data URL', {
+            allowedTypes: LOGO_MIME_TYPES,
+        });
+    }
+
+    const logoMimeType = match[1] as LogoMimeType;
+    const logo = Buffer.from(match[2], 'base64');
+
+    if (logo.length > MAX_LOGO_BYTES) {
+        throw new ValidationError(`Logo must be at most ${MAX_LOGO_BYTES / 1024} KB`, {
+            size: logo.length,
+        });
+    }
+
+    const isPng = logo.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    const isJpeg = logo[0] === 0xff && logo[1] === 0xd8 && logo[2] === 0xff;
+
+    if ((logoMimeType === 'image/png' && !isPng) || (logoMimeType === 'image/jpeg' && !isJpeg)) {
+        throw new ValidationError('Logo content does not match its image type');
+    }
+
+    return { logo: new Uint8Array(logo), logoMimeType };
+};
+
+const toSettings = (branding: BrandingSettingsRow | null): BrandingSettings => {
+    return {
+        businessName: branding?.businessName ?? null,
+        address: branding?.address ?? null,
+        taxId: branding?.taxId ?? null,
+        countryCode: branding?.countryCode ?? null,
+        peppolId: branding?.peppolId ?? null,
+        logo: branding?.logo && branding.logoMimeType
+            ? `data:${branding.logoMimeType};base64,${Buffer.from(branding.logo).toString('base64')}`
+            : null,
+        template: (branding?.template ?? 'classic') as PdfTemplate,
+        accentColor: branding?.accentColor ?? DEFAULT_ACCENT_COLOR,
+        footerText: branding?.footerText ?? null,
+    };
+};
+
+// ============================================================================
+// GET / UPDATE BRANDING SETTINGS
+// ============================================================================
+
+export const getBrandingSettings = async (userId: string): Promise<BrandingSettings> => {
+    try {
+        const branding = await db.brandingSettings.findUnique({
+            where: { userId }
+        });
+
+        return toSettings(branding);
+    } catch (error) {
+        logger.error('Failed to get branding settings', { userId, error });
+        throw error;
+    }
+};
+
+export const updateBrandingSettings = async (
+    userId: string,
+    data: UpdateBrandingRequest
+): Promise<BrandingResponse> => {
+    try {
+        // only these columns can be written - anything else in the body is ignored
+        const fields = {
+            businessName: data.businessName,
+            address: data.address,
+            taxId: data.taxId,
+            countryCode: data.countryCode,
+            peppolId: data.peppolId,
+            template: data.template,
+            accentColor: data.accentColor,
+            footerText: data.footerText,
+        };
+
+        const logoData = data.logo === undefined
+            ? {}
+            : data.logo === null
+                ? { logo: null, logoMimeType: null }
+                : parseLogo(data.logo);
+
+        const branding = await db.brandingSettings.upsert({
+            where: { userId },
+            create: { userId, ...fields, ...logoData },
+            update: { ...fields, ...logoData },
+        });
+
+        logger.info('Branding settings updated', {
+            userId,
+            template: branding.template,
+            hasLogo: !!branding.logo,
+        });
+
+        return {
+            settings: toSettings(branding),
+            message: 'Branding settings updated successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to update branding settings', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PDF BRANDING (used by the PDF generator)
+// ============================================================================
+
+export const getPdfBranding = async (userId: string): Promise<PdfBranding> => {
+    const branding = await db.brandingSettings.findUnique({
+        where: { userId }
+    });
+
+    return {
+        businessName: branding?.businessName ?? null,
+        address: branding?.address ?? null,
+        taxId: branding?.taxId ?? null,
+        logo: branding?.logo ? Buffer.from(branding.logo) : null,
+        template: (branding?.template ?? 'classic') as PdfTemplate,
+        accentColor: branding?.accentColor ?? DEFAULT_ACCENT_COLOR,
+        footerText: branding?.footerText ?? null,
+    };
+};
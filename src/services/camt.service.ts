@@ -0,0 +1,129 @@
+/**
+ * CAMT Service
+ * Reads ISO 20022 CAMT.053 bank-to-customer statements (any version - the
+ * element names used here are stable from .001.02 to .001.13). Only booked
+ * entries are taken; a batch entry (several TxDtls) becomes one transaction
+ * for its booked total, as on the bank account.
+ */
+
+import { ParsedBankTransaction, ParsedStatement, StatementParser } from '../types/bankStatement.types';
+import { ValidationError } from '../utils/errors';
+import {
+    createFallbackTxIdGenerator,
+    parseStatementAmount,
+    statementDate,
+} from '../utils/statementParsing';
+import { parseXml, XmlElement, xmlChild, xmlChildren, xmlText } from '../utils/xml';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// "2026-01-15" or "2026-01-15T10:30:00+01:00" - the booking day as written
+const parseCamtDate = (raw: string | null): Date | null => {
+    const match = raw?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? statementDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+// <Dt> or <DtTm> inside BookgDt / ValDt
+const entryDate = (element: XmlElement | null): Date | null => {
+    return parseCamtDate(xmlText(element, 'Dt') ?? xmlText(element, 'DtTm'));
+};
+
+// "NOTPROVIDED" is the scheme's placeholder for a missing end-to-end ID
+const meaningful = (value: string | null): string | null => {
+    return value && value.toUpperCase() !== 'NOTPROVIDED' ? value : null;
+};
+
+// party name - <Dbtr><Nm> up to version .08, <Dbtr><Pty><Nm> from .09 on
+const partyName = (parties: XmlElement | null, role: 'Dbtr' | 'Cdtr'): string | null => {
+    return xmlText(parties, role, 'Nm') ?? xmlText(parties, role, 'Pty', 'Nm');
+};
+
+// entry status - text content up to version .08, <Sts><Cd> from .09 on
+const isBooked = (entry: XmlElement): boolean => {
+    const status = xmlText(entry, 'Sts', 'Cd') ?? xmlText(entry, 'Sts');
+    return !status || status.toUpperCase() === 'BOOK';
+};
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export const parseCamtStatement: StatementParser = (content) => {
+    let document: XmlElement;
+
+    try {
+        document = parseXml(content);
+    } catch (error) {
+        throw new ValidationError(`Invalid CAMT.053 XML: ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+
+    const statementElements = xmlChildren(xmlChild(document, 'BkToCstmrStmt') ?? document, 'Stmt');
+    if (statementElements.length === 0) {
+        throw new ValidationError('Not a CAMT.053 statement - BkToCstmrStmt/Stmt is missing');
+    }
+
+    const fallbackTxId = createFallbackTxIdGenerator('camt');
+    const transactions: ParsedBankTransaction[] = [];
+
+    statementElements.forEach((statementElement) => {
+        xmlChildren(statementElement, 'Ntry').filter(isBooked).forEach((entry, index) => {
+            const amountElement = xmlChild(entry, 'Amt');
+            const amount = parseStatementAmount(xmlText(entry, 'Amt'));
+            const bookedAt = entryDate(xmlChild(entry, 'BookgDt')) ?? entryDate(xmlChild(entry, 'ValDt'));
+
+            if (amount === null || !bookedAt) {
+                throw new ValidationError(`CAMT.053 entry ${index + 1} has no valid Amt or BookgDt`);
+            }
+
+            const credit = xmlText(entry, 'CdtDbtInd') === 'CRDT';
+            const details = xmlChild(entry, 'NtryDtls', 'TxDtls');
+            const references = xmlChild(details, 'Refs');
+            const parties = xmlChild(details, 'RltdPties');
+
+            const remittance = xmlChildren(xmlChild(details, 'RmtInf') ?? entry, 'Ustrd')
+                .map((line) => line.text?.trim())
+                .filter(Boolean)
+                .join(' ');
+            const description = remittance
+                || xmlText(details, 'AddtlTxInf')
+                || xmlText(entry, 'AddtlNtryInf');
+
+            // the counterparty is the debtor on money received, the creditor on money paid
+            const counterparty = partyName(parties, credit ? 'Dbtr' : 'Cdtr');
+            const reference = meaningful(xmlText(references, 'EndToEndId'))
+                ?? xmlText(details, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref');
+
+            // the bank's own reference is unique per account; NtryRef only per statement
+            const externalTxId = xmlText(entry, 'AcctSvcrRef')
+                ?? xmlText(references, 'AcctSvcrRef')
+                ?? xmlText(references, 'TxId')
+                ?? meaningful(xmlText(references, 'EndToEndId'))
+                ?? fallbackTxId([bookedAt, credit ? amount : -amount, counterparty, description, xmlText(entry, 'NtryRef')]);
+
+            transactions.push({
+                externalTxId,
+                bookedAt,
+                amount: credit ? amount : -amount,
+                currency: amountElement?.attributes.Ccy ?? null,
+                counterparty,
+                description: description || null,
+                reference,
+            });
+        });
+    });
+
+    const first = statementElements[0];
+    const account = xmlChild(first, 'Acct');
+
+    const statement: ParsedStatement = {
+        accountId: xmlText(account, 'Id', 'IBAN') ?? xmlText(account, 'Id', 'Othr', 'Id'),
+        currency: xmlText(account, 'Ccy'),
+        periodStart: parseCamtDate(xmlText(first, 'FrToDt', 'FrDtTm')),
+        periodEnd: parseCamtDate(xmlText(statementElements[statementElements.length - 1], 'FrToDt', 'ToDtTm')),
+        transactions,
+    };
+
+    return statement;
+};
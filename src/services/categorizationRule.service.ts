@@ -0,0 +1,682 @@
+/**
+ * Categorization Rule Service
+ * User-defined rules that fill in category and deductibility on expenses and
+ * skill and client on income, and add tags to both. Rules run in priority
+ * order (lowest first); the first matching rule to set a field wins, tags
+ * from every matching rule are combined. Values given explicitly when an
+ * entry is logged or imported always take precedence over rules.
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    CategorizationInput,
+    CategorizationOutcome,
+    CategorizationResult,
+    CategorizationRule,
+    CategorizationRuleResponse,
+    CreateCategorizationRuleRequest,
+    DEFAULT_RULE_PRIORITY,
+    GetCategorizationRulesResponse,
+    MAX_CATEGORIZATION_RULES,
+    MAX_RULE_PATTERN_LENGTH,
+    PreviewCategorizationRuleRequest,
+    PreviewCategorizationRuleResponse,
+    RULE_PREVIEW_MAX_ENTRIES,
+    RULE_PREVIEW_SAMPLE,
+    RuleActions,
+    RuleConditions,
+    RulePreviewMatch,
+    RuleTarget,
+    UpdateCategorizationRuleRequest,
+} from '../types/categorizationRule.types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type RuleRecord = Prisma.CategorizationRuleGetPayload<{ include: { client: { select: { name: true } } } }>;
+
+// a rule ready to evaluate - loaded once per request, then run against every entry
+export interface CompiledRule {
+    id: string;
+    conditions: RuleConditions;
+    actions: RuleActions;
+    clientName: string | null;
+    pattern: RegExp | null;
+}
+
+const RULE_INCLUDE = { client: { select: { name: true } } } as const;
+
+// actions that only make sense for one kind of entry
+const TARGET_ONLY_ACTIONS: Record<RuleTarget, (keyof RuleActions)[]> = {
+    expense: ['category', 'isDeductible'],
+    income: ['skill', 'clientId'],
+};
+
+// ============================================================================
+// HELPER: FORMAT
+// ============================================================================
+
+const toNumber = (value: unknown): number | null => {
+    return value === null || value === undefined ? null : (value as Prisma.Decimal).toNumber();
+};
+
+const ruleConditions = (record: RuleRecord): RuleConditions => ({
+    descriptionContains: record.descriptionContains,
+    descriptionPattern: record.descriptionPattern,
+    counterpartyContains: record.counterpartyContains,
+    minAmount: toNumber(record.minAmount),
+    maxAmount: toNumber(record.maxAmount),
+});
+
+const ruleActions = (record: RuleRecord): RuleActions => ({
+    category: record.category,
+    isDeductible: record.isDeductible,
+    skill: record.skill,
+    clientId: record.clientId,
+    tags: record.tags,
+});
+
+const formatRule = (record: RuleRecord): CategorizationRule => {
+    return {
+        id: record.id,
+        userId: record.userId,
+        name: record.name,
+        appliesTo: record.appliesTo as RuleTarget,
+        priority: record.priority,
+        enabled: record.enabled,
+        conditions: ruleConditions(record),
+        actions: ruleActions(record),
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+    };
+};
+
+// ============================================================================
+// HELPER: DESCRIPTION PATTERNS
+// ============================================================================
+
+// *, +, ?, {n}, {n,}, {n,m}
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})/;
+
+// (?:  (?=  (?!  (?<=  (?<!  (?<name>
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/;
+
+/**
+ * Why a description pattern is refused, or null if it's fine. Patterns run
+ * synchronously against every logged, imported and previewed entry, so the
+ * shapes that make a backtracking matcher take exponential time - a repeated
+ * group with a quantifier or alternatives inside, like (a+)+ or (a|ab)* - and
+ * backreferences are rejected, along with very long patterns.
+ */
+export const findPatternProblem = (pattern: string): string | null => {
+    if (pattern.length > MAX_RULE_PATTERN_LENGTH) {
+        return `Pattern is longer than ${MAX_RULE_PATTERN_LENGTH} characters`;
+    }
+
+    try {
+        new RegExp(pattern, 'i');
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+
+    // per open group: does anything inside it repeat or alternate?
+    const groups: { varies: boolean }[] = [{ varies: false }];
+    let i = 0;
+
+    while (i < pattern.length) {
+        const char = pattern[i];
+        let closedGroupVaries = false;
+
+        if (char === '\\') {
+            if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+                return 'Backreferences are not supported';
+            }
+            i += 2;
+        } else if (char === '[') {
+            // a character class is one atom - skip to its closing bracket
+            i++;
+            while (i < pattern.length && pattern[i] !== ']') {
+                i += pattern[i] === '\\' ? 2 : 1;
+            }
+            i++;
+        } else if (char === '(') {
+            groups.push({ varies: false });
+            i++;
+            i += GROUP_PREFIX.exec(pattern.slice(i))?.[0].length ?? 0;
+            continue;
+        } else if (char === ')') {
+            closedGroupVaries = groups.pop()!.varies;
+            groups[groups.length - 1].varies ||= closedGroupVaries;
+            i++;
+        } else if (char === '|') {
+            groups[groups.length - 1].varies = true;
+            i++;
+            continue;
+        } else {
+            i++;
+        }
+
+        const quantifier = QUANTIFIER.exec(pattern.slice(i));
+        if (!quantifier) continue;
+
+        const [token, min, comma, max] = quantifier;
+        const repeats = token === '?' ? false : min === undefined || (comma ? max === '' || Number(max) > 1 : Number(min) > 1);
+
+        if (repeats && closedGroupVaries) {
+            return 'A repeated group cannot contain quantifiers or alternatives, e.g. (a+)+ or (a|b)*';
+        }
+
+        // even an optional part ("?") gives the group more than one way to match
+        groups[groups.length - 1].varies = true;
+        i += token.length;
+
+        // lazy quantifier
+        if (pattern[i] === '?') i++;
+    }
+
+    return null;
+};
+
+// patterns are checked when saved - one that isn't safe to run (saved before the check) throws
+const compilePattern = (pattern: string | null): RegExp | null => {
+    if (!pattern) {
+        return null;
+    }
+
+    const problem = findPatternProblem(pattern);
+    if (problem) {
+        throw new ValidationError('descriptionPattern cannot be used', { reason: problem });
+    }
+
+    return new RegExp(pattern, 'i');
+};
+
+const compileRule = (record: RuleRecord): CompiledRule => {
+    return {
+        id: record.id,
+        conditions: ruleConditions(record),
+        actions: ruleActions(record),
+        clientName: record.client?.name ?? null,
+        pattern: compilePattern(record.descriptionPattern),
+    };
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Trimmed, de-duplicated union of tag lists, in first-seen order
+ */
+export const mergeTags = (...lists: Array<string[] | null | undefined>): string[] => {
+    const tags = lists.flatMap((list) => list ?? []).map((tag) => tag.trim()).filter(Boolean);
+    return [...new Set(tags)];
+};
+
+const containsText = (haystack: string | null, needle: string): boolean => {
+    return !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+};
+
+const matchesRule = (rule: CompiledRule, input: CategorizationInput): boolean => {
+    const { conditions } = rule;
+
+    if (conditions.descriptionContains && !containsText(input.description, conditions.descriptionContains)) return false;
+    if (rule.pattern && !(input.description && rule.pattern.test(input.description))) return false;
+    if (conditions.counterpartyContains && !containsText(input.counterparty, conditions.counterpartyContains)) return false;
+    if (conditions.minAmount != null && input.amount < conditions.minAmount) return false;
+    if (conditions.maxAmount != null && input.amount > conditions.maxAmount) return false;
+
+    return true;
+};
+
+// rule values on top of `into`; `overwrite` = false only fills fields nothing has set yet
+const applyActions = (into: CategorizationResult, rule: CompiledRule, overwrite: boolean): void => {
+    const { actions } = rule;
+    const settable = (field: keyof CategorizationResult) => overwrite || into[field] === undefined;
+
+    if (actions.category && settable('category')) into.category = actions.category;
+    if (actions.isDeductible != null && settable('isDeductible')) into.isDeductible = actions.isDeductible;
+    if (actions.skill && settable('skill')) into.skill = actions.skill;
+    if (actions.clientId && rule.clientName && settable('clientId')) {
+        into.clientId = actions.clientId;
+        into.clientName = rule.clientName;
+    }
+
+    into.tags = mergeTags(into.tags, actions.tags);
+};
+
+/**
+ * Runs rules (already in priority order) against one entry
+ */
+export const categorize = (rules: CompiledRule[], input: CategorizationInput): CategorizationOutcome => {
+    const outcome: CategorizationOutcome = { tags: [], ruleIds: [] };
+
+    for (const rule of rules) {
+        if (!matchesRule(rule, input)) continue;
+
+        applyActions(outcome, rule, false);
+        outcome.ruleIds.push(rule.id);
+    }
+
+    return outcome;
+};
+
+/**
+ * The user's enabled rules for one kind of entry, in the order they run
+ */
+export const loadCategorizationRules = async (userId: string, target: RuleTarget): Promise<CompiledRule[]> => {
+    const records = await db.categorizationRule.findMany({
+        where: { userId, appliesTo: target, enabled: true },
+        include: RULE_INCLUDE,
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return records.flatMap((record) => {
+        try {
+            return [compileRule(record)];
+        } catch (error) {
+            logger.warn('Skipping categorization rule with an unusable pattern', { userId, ruleId: record.id, error });
+            return [];
+        }
+    });
+};
+
+/**
+ * Loads the rules and categorizes a single entry - for one-off logging;
+ * imports load the rules once and call categorize() per row
+ */
+export const categorizeEntry = async (
+    userId: string,
+    target: RuleTarget,
+    input: CategorizationInput
+): Promise<CategorizationOutcome> => {
+    return categorize(await loadCategorizationRules(userId, target), input);
+};
+
+// what rules read from income - there is no single description field
+export const incomeCategorizationInput = (entry: {
+    projectName?: string | null;
+    notes?: string | null;
+    clientName?: string | null;
+    amount: number | Prisma.Decimal;
+}): CategorizationInput => ({
+    description: [entry.projectName, entry.notes].filter(Boolean).join(' ') || null,
+    counterparty: entry.clientName ?? null,
+    amount: Number(entry.amount),
+});
+
+// ============================================================================
+// HELPER: VALIDATION
+// ============================================================================
+
+const hasValue = (value: unknown): boolean => {
+    return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+};
+
+/**
+ * Checks a complete rule definition (after merging an update into the stored rule)
+ */
+const validateRule = async (
+    userId: string,
+    appliesTo: RuleTarget,
+    conditions: RuleConditions,
+    actions: RuleActions
+): Promise<void> => {
+    if (!Object.values(conditions).some(hasValue)) {
+        throw new ValidationError('A rule needs at least one condition');
+    }
+
+    if (!Object.values(actions).some(hasValue)) {
+        throw new ValidationError('A rule needs at least one action');
+    }
+
+    if (conditions.minAmount != null && conditions.maxAmount != null && conditions.minAmount > conditions.maxAmount) {
+        throw new ValidationError('minAmount cannot be greater than maxAmount');
+    }
+
+    if (conditions.descriptionPattern) {
+        const problem = findPatternProblem(conditions.descriptionPattern);
+
+        if (problem) {
+            throw new ValidationError('descriptionPattern cannot be used', { reason: problem });
+        }
+    }
+
+    const otherTarget: RuleTarget = appliesTo === 'expense' ? 'income' : 'expense';
+    const misplaced = TARGET_ONLY_ACTIONS[otherTarget].filter((field) => hasValue(actions[field]));
+
+    if (misplaced.length > 0) {
+        throw new ValidationError(`${misplaced.join(', ')} cannot be set by ${appliesTo} rules`, { fields: misplaced });
+    }
+
+    if (actions.clientId) {
+        const client = await db.client.findFirst({
+            where: { id: actions.clientId, userId },
+            select: { id: true }
+        });
+
+        if (!client) {
+            throw new NotFoundError('Client');
+        }
+    }
+};
+
+const ruleData = (conditions: RuleConditions, actions: RuleActions) => ({
+    descriptionContains: conditions.descriptionContains ?? null,
+    descriptionPattern: conditions.descriptionPattern ?? null,
+    counterpartyContains: conditions.counterpartyContains ?? null,
+    minAmount: conditions.minAmount ?? null,
+    maxAmount: conditions.maxAmount ?? null,
+    category: actions.category ?? null,
+    isDeductible: actions.isDeductible ?? null,
+    skill: actions.skill ?? null,
+    clientId: actions.clientId ?? null,
+    tags: mergeTags(actions.tags),
+});
+
+const getOwnedRule = async (userId: string, ruleId: string): Promise<RuleRecord> => {
+    const rule = await db.categorizationRule.findFirst({
+        where: { id: ruleId, userId },
+        include: RULE_INCLUDE
+    });
+
+    if (!rule) {
+        throw new NotFoundError('Categorization rule');
+    }
+
+    return rule;
+};
+
+// ============================================================================
+// CREATE RULE
+// ============================================================================
+
+export const createCategorizationRule = async (
+    userId: string,
+    data: CreateCategorizationRuleRequest
+): Promise<CategorizationRuleResponse> => {
+    try {
+        const ruleCount = await db.categorizationRule.count({ where: { userId } });
+        if (ruleCount >= MAX_CATEGORIZATION_RULES) {
+            throw new ValidationError(`You can have up to ${MAX_CATEGORIZATION_RULES} categorization rules`);
+        }
+
+        await validateRule(userId, data.appliesTo, data.conditions, data.actions);
+
+        const rule = await db.categorizationRule.create({
+            data: {
+                userId,
+                name: data.name,
+                appliesTo: data.appliesTo,
+                priority: data.priority ?? DEFAULT_RULE_PRIORITY,
+                enabled: data.enabled ?? true,
+                ...ruleData(data.conditions, data.actions),
+            },
+            include: RULE_INCLUDE
+        });
+
+        logger.info('Categorization rule created', { userId, ruleId: rule.id, appliesTo: rule.appliesTo });
+
+        return {
+            rule: formatRule(rule),
+            message: 'Categorization rule created successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to create categorization rule', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET RULES
+// ============================================================================
+
+export const getCategorizationRules = async (
+    userId: string,
+    target?: RuleTarget
+): Promise<GetCategorizationRulesResponse> => {
+    try {
+        const rules = await db.categorizationRule.findMany({
+            where: { userId, appliesTo: target },
+            include: RULE_INCLUDE,
+            orderBy: [{ appliesTo: 'asc' }, { priority: 'asc' }, { createdAt: 'asc' }]
+        });
+
+        return { rules: rules.map(formatRule) };
+    } catch (error) {
+        logger.error('Failed to get categorization rules', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// UPDATE RULE
+// ============================================================================
+
+export const updateCategorizationRule = async (
+    userId: string,
+    ruleId: string,
+    data: UpdateCategorizationRuleRequest
+): Promise<CategorizationRuleResponse> => {
+    try {
+        const existing = await getOwnedRule(userId, ruleId);
+
+        const appliesTo = data.appliesTo ?? existing.appliesTo as RuleTarget;
+        const conditions = { ...ruleConditions(existing), ...data.conditions };
+        const actions = { ...ruleActions(existing), ...data.actions };
+
+        await validateRule(userId, appliesTo, conditions, actions);
+
+        const rule = await db.categorizationRule.update({
+            where: { id: existing.id },
+            data: {
+                name: data.name,
+                appliesTo,
+                priority: data.priority,
+                enabled: data.enabled,
+                ...ruleData(conditions, actions),
+            },
+            include: RULE_INCLUDE
+        });
+
+        logger.info('Categorization rule updated', { userId, ruleId });
+
+        return {
+            rule: formatRule(rule),
+            message: 'Categorization rule updated successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to update categorization rule', { userId, ruleId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DELETE RULE
+// ============================================================================
+
+export const deleteCategorizationRule = async (
+    userId: string,
+    ruleId: string
+): Promise<{ message: string }> => {
+    try {
+        const rule = await getOwnedRule(userId, ruleId);
+
+        await db.categorizationRule.delete({ where: { id: rule.id } });
+
+        logger.info('Categorization rule deleted', { userId, ruleId });
+
+        return { message: 'Categorization rule deleted successfully' };
+    } catch (error) {
+        logger.error('Failed to delete categorization rule', { userId, ruleId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PREVIEW RULE AGAINST HISTORY
+// ============================================================================
+
+interface HistoryEntry {
+    id: string;
+    loggedAt: Date;
+    amount: number;
+    currency: string;
+    input: CategorizationInput;
+    current: CategorizationResult;
+}
+
+const loadHistory = async (
+    userId: string,
+    target: RuleTarget,
+    range: PreviewCategorizationRuleRequest
+): Promise<HistoryEntry[]> => {
+    const where = {
+        userId,
+        ...((range.startDate || range.endDate) && {
+            loggedAt: {
+                ...(range.startDate && { gte: new Date(range.startDate) }),
+                ...(range.endDate && { lte: new Date(range.endDate) }),
+            },
+        }),
+    };
+
+    if (target === 'income') {
+        const entries = await db.incomeLog.findMany({
+            where,
+            orderBy: { loggedAt: 'desc' },
+            take: RULE_PREVIEW_MAX_ENTRIES
+        });
+
+        return entries.map((entry) => ({
+            id: entry.id,
+            loggedAt: entry.loggedAt,
+            amount: entry.amount.toNumber(),
+            currency: entry.currency,
+            input: incomeCategorizationInput(entry),
+            current: {
+                ...(entry.skill && { skill: entry.skill }),
+                ...(entry.clientId && { clientId: entry.clientId }),
+                ...(entry.clientName && { clientName: entry.clientName }),
+                tags: entry.tags,
+            },
+        }));
+    }
+
+    // bank-imported expenses keep the counterparty on their payment
+    const entries = await db.expenseLog.findMany({
+        where,
+        include: { payments: { select: { counterpartyName: true }, take: 1 } },
+        orderBy: { loggedAt: 'desc' },
+        take: RULE_PREVIEW_MAX_ENTRIES
+    });
+
+    return entries.map((entry) => ({
+        id: entry.id,
+        loggedAt: entry.loggedAt,
+        amount: entry.amount.toNumber(),
+        currency: entry.currency,
+        input: {
+            description: entry.description,
+            counterparty: entry.payments[0]?.counterpartyName ?? null,
+            amount: entry.amount.toNumber(),
+        },
+        current: {
+            category: entry.category,
+            isDeductible: entry.isDeductible,
+            tags: entry.tags,
+        },
+    }));
+};
+
+const sameResult = (a: CategorizationResult, b: CategorizationResult): boolean => {
+    return a.category === b.category
+        && a.isDeductible === b.isDeductible
+        && a.skill === b.skill
+        && a.clientId === b.clientId
+        && a.tags.length === b.tags.length
+        && a.tags.every((tag) => b.tags.includes(tag));
+};
+
+/**
+ * Shows what a rule would do to existing entries - a saved rule, or a draft
+ * (the create request) before it is saved. Nothing is changed
+ */
+export const previewCategorizationRule = async (
+    userId: string,
+    rule: { ruleId: string } | CreateCategorizationRuleRequest,
+    range: PreviewCategorizationRuleRequest
+): Promise<PreviewCategorizationRuleResponse> => {
+    try {
+        let target: RuleTarget;
+        let compiled: CompiledRule;
+
+        if ('ruleId' in rule) {
+            const record = await getOwnedRule(userId, rule.ruleId);
+            target = record.appliesTo as RuleTarget;
+            compiled = compileRule(record);
+        } else {
+            await validateRule(userId, rule.appliesTo, rule.conditions, rule.actions);
+
+            const client = rule.actions.clientId
+                ? await db.client.findFirst({ where: { id: rule.actions.clientId, userId }, select: { name: true } })
+                : null;
+
+            target = rule.appliesTo;
+            compiled = {
+                id: 'preview',
+                conditions: rule.conditions,
+                actions: rule.actions,
+                clientName: client?.name ?? null,
+                pattern: compilePattern(rule.conditions.descriptionPattern ?? null),
+            };
+        }
+
+        const history = await loadHistory(userId, target, range);
+        const matches: RulePreviewMatch[] = [];
+        let matched = 0;
+        let changed = 0;
+
+        for (const entry of history) {
+            if (!matchesRule(compiled, entry.input)) continue;
+
+            // the rule as if applied to the entry now
+            const proposed: CategorizationResult = { ...entry.current, tags: [...entry.current.tags] };
+            applyActions(proposed, compiled, true);
+
+            const isChanged = !sameResult(entry.current, proposed);
+            matched++;
+            if (isChanged) changed++;
+
+            if (matches.length < RULE_PREVIEW_SAMPLE) {
+                matches.push({
+                    entryId: entry.id,
+                    loggedAt: entry.loggedAt,
+                    amount: entry.amount,
+                    currency: entry.currency,
+                    description: entry.input.description,
+                    counterparty: entry.input.counterparty,
+                    current: entry.current,
+                    proposed,
+                    changed: isChanged,
+                });
+            }
+        }
+
+        logger.info('Categorization rule previewed', { userId, target, scanned: history.length, matched });
+
+        return {
+            scanned: history.length,
+            matched,
+            changed,
+            matches,
+        };
+    } catch (error) {
+        logger.error('Failed to preview categorization rule', { userId, error });
+        throw error;
+    }
+};
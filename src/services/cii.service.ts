@@ -0,0 +1,233 @@
+/**
+ * CII Service
+ * Renders e-invoice documents as UN/CEFACT Cross Industry Invoice (D16B) XML -
+ * the syntax Factur-X / ZUGFeRD embeds in PDF invoices.
+ * Child elements must follow the order of the CII schemas, so each builder
+ * below lists them in schema order.
+ */
+
+import {
+    EInvoiceAllowanceCharge,
+    EInvoiceDocument,
+    EInvoiceLine,
+    EInvoiceParty,
+    EInvoiceTaxCategory,
+    EInvoiceTaxSubtotal,
+    FacturXProfile,
+} from '../types/einvoice.types';
+import { el, optionalEl, renderXml, XmlElement } from '../utils/xml';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NAMESPACES = {
+    rsm: 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+    ram: 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+    qdt: 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+    udt: 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100',
+};
+
+// Specification identifier (BT-24) per Factur-X profile
+export const FACTURX_GUIDELINE_IDS: Record<FacturXProfile, string> = {
+    basic: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+    en16931: 'urn:cen.eu:en16931:2017',
+};
+
+// UNCL 1001 document type codes
+const INVOICE_TYPE_CODE = '380';
+const CREDIT_NOTE_TYPE_CODE = '381';
+
+// UN/ECE Rec 20 "one" - we don't track units of measure
+const UNIT_CODE = 'C62';
+
+// ============================================================================
+// HELPER: VALUES
+// ============================================================================
+
+// CII dates use format 102 (YYYYMMDD)
+const dateTime = (name: string, date: Date, prefix: 'udt' | 'qdt' = 'udt'): XmlElement => {
+    const value = new Date(date).toISOString().slice(0, 10).replace(/-/g, '');
+    return el(name, {}, el(`${prefix}:DateTimeString`, { format: '102' }, value));
+};
+
+const amount = (name: string, value: number, currency?: string): XmlElement => {
+    return el(name, { currencyID: currency }, value.toFixed(2));
+};
+
+// ============================================================================
+// PARTIES
+// ============================================================================
+
+const postalAddress = (party: EInvoiceParty): XmlElement => {
+    const [lineOne, lineTwo, ...rest] = party.address.lines;
+
+    return el('ram:PostalTradeAddress', {},
+        optionalEl('ram:LineOne', lineOne),
+        optionalEl('ram:LineTwo', lineTwo),
+        rest.length > 0 && el('ram:LineThree', {}, rest.join(', ')),
+        el('ram:CountryID', {}, party.address.countryCode)
+    );
+};
+
+/**
+ * Contact details are not part of the BASIC profile
+ */
+const tradeParty = (name: string, details: EInvoiceParty, profile: FacturXProfile): XmlElement => {
+    const hasContact = profile === 'en16931' && !!(details.contactName || details.phone || details.email);
+
+    return el(name, {},
+        el('ram:Name', {}, details.name),
+        hasContact && el('ram:DefinedTradeContact', {},
+            optionalEl('ram:PersonName', details.contactName),
+            !!details.phone && el('ram:TelephoneUniversalCommunication', {}, el('ram:CompleteNumber', {}, details.phone)),
+            !!details.email && el('ram:EmailURIUniversalCommunication', {}, el('ram:URIID', {}, details.email))
+        ),
+        postalAddress(details),
+        el('ram:URIUniversalCommunication', {},
+            el('ram:URIID', { schemeID: details.endpoint.scheme }, details.endpoint.id)
+        ),
+        !!details.taxId && el('ram:SpecifiedTaxRegistration', {},
+            el('ram:ID', { schemeID: 'VA' }, details.taxId)
+        )
+    );
+};
+
+// ============================================================================
+// TAXES, ALLOWANCES & CHARGES
+// ============================================================================
+
+/**
+ * Not-subject-to-VAT categories carry no rate
+ */
+const categoryTax = (name: string, category: EInvoiceTaxCategory): XmlElement => {
+    return el(name, {},
+        el('ram:TypeCode', {}, 'VAT'),
+        el('ram:CategoryCode', {}, category.code),
+        category.code !== 'O' && el('ram:RateApplicablePercent', {}, String(category.percent))
+    );
+};
+
+const headerTax = (subtotal: EInvoiceTaxSubtotal): XmlElement => {
+    const category = subtotal.taxCategory;
+
+    return el('ram:ApplicableTradeTax', {},
+        amount('ram:CalculatedAmount', subtotal.taxAmount),
+        el('ram:TypeCode', {}, 'VAT'),
+        optionalEl('ram:ExemptionReason', category.exemptionReason),
+        amount('ram:BasisAmount', subtotal.taxableAmount),
+        el('ram:CategoryCode', {}, category.code),
+        category.code !== 'O' && el('ram:RateApplicablePercent', {}, String(category.percent))
+    );
+};
+
+const allowanceCharge = (item: EInvoiceAllowanceCharge): XmlElement => {
+    return el('ram:SpecifiedTradeAllowanceCharge', {},
+        el('ram:ChargeIndicator', {}, el('udt:Indicator', {}, String(item.isCharge))),
+        amount('ram:ActualAmount', item.amount),
+        el('ram:Reason', {}, item.reason),
+        categoryTax('ram:CategoryTradeTax', item.taxCategory)
+    );
+};
+
+const monetarySummation = (document: EInvoiceDocument, profile: FacturXProfile): XmlElement => {
+    const { totals, currency } = document;
+
+    // BASIC has no rounding amount (BT-114), so what is due follows from the
+    // totals alone and can be a cent off the stored amount
+    const roundingAmount = profile === 'en16931' ? totals.roundingAmount : 0;
+    const payableAmount = roundingAmount === totals.roundingAmount
+        ? totals.payableAmount
+        : Math.round((totals.taxInclusiveAmount - totals.prepaidAmount) * 100) / 100;
+
+    return el('ram:SpecifiedTradeSettlementHeaderMonetarySummation', {},
+        amount('ram:LineTotalAmount', totals.lineExtensionAmount),
+        totals.chargeTotal > 0 && amount('ram:ChargeTotalAmount', totals.chargeTotal),
+        totals.allowanceTotal > 0 && amount('ram:AllowanceTotalAmount', totals.allowanceTotal),
+        amount('ram:TaxBasisTotalAmount', totals.taxExclusiveAmount),
+        // the only amount that states its currency (BT-110)
+        amount('ram:TaxTotalAmount', totals.taxAmount, currency),
+        roundingAmount !== 0 && amount('ram:RoundingAmount', roundingAmount),
+        amount('ram:GrandTotalAmount', totals.taxInclusiveAmount),
+        totals.prepaidAmount > 0 && amount('ram:TotalPrepaidAmount', totals.prepaidAmount),
+        amount('ram:DuePayableAmount', payableAmount)
+    );
+};
+
+// ============================================================================
+// LINES
+// ============================================================================
+
+const lineItem = (line: EInvoiceLine): XmlElement => {
+    return el('ram:IncludedSupplyChainTradeLineItem', {},
+        el('ram:AssociatedDocumentLineDocument', {}, el('ram:LineID', {}, line.id)),
+        el('ram:SpecifiedTradeProduct', {}, el('ram:Name', {}, line.name)),
+        el('ram:SpecifiedLineTradeAgreement', {},
+            // unit prices may have more than two decimals
+            el('ram:NetPriceProductTradePrice', {}, el('ram:ChargeAmount', {}, String(line.unitPrice)))
+        ),
+        el('ram:SpecifiedLineTradeDelivery', {},
+            el('ram:BilledQuantity', { unitCode: UNIT_CODE }, String(line.quantity))
+        ),
+        el('ram:SpecifiedLineTradeSettlement', {},
+            categoryTax('ram:ApplicableTradeTax', line.taxCategory),
+            el('ram:SpecifiedTradeSettlementLineMonetarySummation', {},
+                amount('ram:LineTotalAmount', line.netAmount)
+            )
+        )
+    );
+};
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export const renderCiiDocument = (document: EInvoiceDocument, profile: FacturXProfile = 'en16931'): string => {
+    const isInvoice = document.type === 'invoice';
+    const hasPaymentTerms = !!document.paymentTerms || !!document.dueDate;
+
+    const root = el('rsm:CrossIndustryInvoice',
+        {
+            'xmlns:rsm': NAMESPACES.rsm,
+            'xmlns:ram': NAMESPACES.ram,
+            'xmlns:qdt': NAMESPACES.qdt,
+            'xmlns:udt': NAMESPACES.udt,
+        },
+        el('rsm:ExchangedDocumentContext', {},
+            el('ram:GuidelineSpecifiedDocumentContextParameter', {},
+                el('ram:ID', {}, FACTURX_GUIDELINE_IDS[profile])
+            )
+        ),
+        el('rsm:ExchangedDocument', {},
+            el('ram:ID', {}, document.number),
+            el('ram:TypeCode', {}, isInvoice ? INVOICE_TYPE_CODE : CREDIT_NOTE_TYPE_CODE),
+            dateTime('ram:IssueDateTime', document.issueDate),
+            !!document.note && el('ram:IncludedNote', {}, el('ram:Content', {}, document.note))
+        ),
+        el('rsm:SupplyChainTradeTransaction', {},
+            ...document.lines.map(lineItem),
+            el('ram:ApplicableHeaderTradeAgreement', {},
+                el('ram:BuyerReference', {}, document.buyerReference),
+                tradeParty('ram:SellerTradeParty', document.seller, profile),
+                tradeParty('ram:BuyerTradeParty', document.buyer, profile)
+            ),
+            el('ram:ApplicableHeaderTradeDelivery', {}),
+            el('ram:ApplicableHeaderTradeSettlement', {},
+                el('ram:InvoiceCurrencyCode', {}, document.currency),
+                ...document.taxSubtotals.map(headerTax),
+                ...document.allowanceCharges.map(allowanceCharge),
+                hasPaymentTerms && el('ram:SpecifiedTradePaymentTerms', {},
+                    optionalEl('ram:Description', document.paymentTerms),
+                    !!document.dueDate && dateTime('ram:DueDateDateTime', document.dueDate)
+                ),
+                monetarySummation(document, profile),
+                !!document.billingReference && el('ram:InvoiceReferencedDocument', {},
+                    el('ram:IssuerAssignedID', {}, document.billingReference.number),
+                    dateTime('ram:FormattedIssueDateTime', document.billingReference.issueDate, 'qdt')
+                )
+            )
+        )
+    );
+
+    return renderXml(root);
+};
@@ -16,8 +16,21 @@ import {
     UpdateClientResponse,
     DeleteClientResponse,
 } from '../types/client.types';
+import { COUNTED_INCOME_WHERE } from '../types/invoice.types';
 import { NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { createCurrencyConverter, toMoneyEntry } from './exchangeRate.service';
+
+// ============================================================================
+// HELPER: SERIALIZE CLIENT (Convert Prisma.Decimal terms to number)
+// ============================================================================
+const serializeClient = (client: any): ClientData => {
+    return {
+        ...client,
+        lateFeeAmount: client.lateFeeAmount == null ? null : Number(client.lateFeeAmount),
+        lateInterestRate: client.lateInterestRate == null ? null : Number(client.lateInterestRate),
+    };
+};
 
 // ============================================================================
 // CREATE CLIENT
@@ -34,14 +47,25 @@ export const createClient = async (
                 email: data.email ?? null,
                 phone: data.phone ?? null,
                 company: data.company ?? null,
+                address: data.address ?? null,
                 notes: data.notes ?? null,
+                netDays: data.netDays ?? null,
+                lateFeeAmount: data.lateFeeAmount ?? null,
+                lateInterestRate: data.lateInterestRate ?? null,
+                graceDays: data.graceDays ?? null,
+                currency: data.currency ?? null,
+                locale: data.locale ?? null,
+                taxId: data.taxId ?? null,
+                countryCode: data.countryCode ?? null,
+                peppolId: data.peppolId ?? null,
+                facturXProfile: data.facturXProfile ?? null,
             },
         });
 
         logger.info('Client created', { userId, clientId: client.id, name: client.name });
 
         return {
-            client,
+            client: serializeClient(client),
             message: 'Client created successfully',
         };
     } catch (error) {
@@ -85,7 +109,7 @@ export const getClients = async (
         logger.info('Clients fetched', { userId, total, count: clients.length });
 
         return {
-            clients,
+            clients: clients.map(serializeClient),
             total,
         };
     } catch (error) {
@@ -123,20 +147,20 @@ export const getClientById = async (
             where: {
                 userId,
                 clientName: client.name,                    // Match by name (we'll improve this later)
+                ...COUNTED_INCOME_WHERE,
             },
             orderBy: { loggedAt: 'desc' },
         });
 
-        // Calculate statistics
-        const totalIncome = incomeLogs.reduce(
-            (sum, log) => sum + Number(log.amount),       // Convert Decimal to number
-            0
-        );
+        // Calculate statistics (in the base currency)
+        const entries = incomeLogs.map(toMoneyEntry);
+        const converter = await createCurrencyConverter(userId, entries);
+        const totalIncome = converter.sum(entries);
 
         const totalProjects = incomeLogs.length;
 
         const averageProjectValue = totalProjects > 0 
-            ? totalIncome / totalProjects 
+            ? Math.round((totalIncome.amount / totalProjects) * 100) / 100
             : 0;
 
         const lastPaymentDate = incomeLogs.length > 0 
@@ -145,7 +169,7 @@ export const getClientById = async (
 
         // Combine client data with stats
         const clientWithStats: ClientWithStats = {
-            ...client,                                     // Spread operator: copies all fields
+            ...serializeClient(client),                    // Spread operator: copies all fields
             totalIncome,
             totalProjects,
             averageProjectValue,
@@ -195,13 +219,23 @@ export const updateClient = async (
                 company: data.company !== undefined ? data.company : existingClient.company,
                 address: data.address !== undefined ? data.address : existingClient.address,
                 notes: data.notes !== undefined ? data.notes : existingClient.notes,
+                netDays: data.netDays,
+                lateFeeAmount: data.lateFeeAmount,
+                lateInterestRate: data.lateInterestRate,
+                graceDays: data.graceDays,
+                currency: data.currency,
+                locale: data.locale,
+                taxId: data.taxId,
+                countryCode: data.countryCode,
+                peppolId: data.peppolId,
+                facturXProfile: data.facturXProfile,
             },
         });
 
         logger.info('Client updated', { userId, clientId });
 
         return {
-            client: updatedClient,
+            client: serializeClient(updatedClient),
             message: 'Client updated successfully',
         };
     } catch (error) {
@@ -0,0 +1,302 @@
+/**
+ * Credit Note Service
+ * Issues full or partial credit against invoices and offsets income already received
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    CreateCreditNoteRequest,
+    CreateCreditNoteResponse,
+    CreditNote,
+    CreditNoteWithDetails,
+    GetCreditNotesQuery,
+    GetCreditNotesResponse,
+} from '../types/creditNote.types';
+import { InvoiceStatus, CREDITABLE_INVOICE_STATUSES } from '../types/invoice.types';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { serializeInvoice } from './invoice.service';
+import { transitionInvoiceStatus } from './invoiceStatus.service';
+import { getNextDocumentNumber } from './documentNumbering.service';
+
+// ============================================================================
+// HELPER: SERIALIZE CREDIT NOTE
+// ============================================================================
+const toNumber = (value: any): number => {
+    return value instanceof Prisma.Decimal ? value.toNumber() : Number(value ?? 0);
+};
+
+const serializeCreditNote = (creditNote: any): CreditNote => {
+    return {
+        ...creditNote,
+        amount: toNumber(creditNote.amount),
+        items: creditNote.items,
+    };
+};
+
+const serializeCreditNoteWithDetails = (creditNote: any): CreditNoteWithDetails => {
+    return {
+        ...serializeCreditNote(creditNote),
+        invoice: {
+            ...creditNote.invoice,
+            amount: toNumber(creditNote.invoice.amount),
+        },
+        client: creditNote.client,
+        user: creditNote.user,
+    };
+};
+
+// ============================================================================
+// CREATE CREDIT NOTE
+// ============================================================================
+
+/**
+ * Credit first reduces what the client still owes. Whatever exceeds the open
+ * balance was already received, so it's booked as a negative income entry
+ * to keep dashboard totals right. A fully credited invoice is voided.
+ * The invoice row is locked first, so concurrent credit notes and payments
+ * wait for each other and always see the totals the previous one wrote.
+ */
+export const createCreditNote = async (
+    userId: string,
+    invoiceId: string,
+    data: CreateCreditNoteRequest
+): Promise<CreateCreditNoteResponse> => {
+    try {
+        const result = await db.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT id FROM "invoices" WHERE id = ${invoiceId} FOR UPDATE`;
+
+            const invoice = await tx.invoice.findUnique({
+                where: { id: invoiceId },
+                include: { client: true }
+            });
+
+            if (!invoice || invoice.userId !== userId) {
+                throw new NotFoundError('Invoice');
+            }
+
+            if (!CREDITABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+                throw new BadRequestError(`Cannot issue a credit note for an invoice with status '${invoice.status}'`, {
+                    allowedStatuses: CREDITABLE_INVOICE_STATUSES,
+                });
+            }
+
+            // late charges can be credited (waived) too
+            const netBefore = invoice.amount.plus(invoice.lateCharges).minus(invoice.amountCredited);
+            const creditAmount = data.amount !== undefined ? new Prisma.Decimal(data.amount) : netBefore;
+
+            if (creditAmount.lessThanOrEqualTo(0) || creditAmount.greaterThan(netBefore)) {
+                throw new BadRequestError('Credit amount exceeds the amount left to credit on this invoice', {
+                    creditable: netBefore.toNumber(),
+                });
+            }
+
+            const netAfter = netBefore.minus(creditAmount);
+            const issueDate = data.issueDate ? new Date(data.issueDate) : new Date();
+
+            // portion of the credit that covers money already received
+            const overpaidBefore = Prisma.Decimal.max(invoice.amountPaid.minus(netBefore), 0);
+            const overpaidAfter = Prisma.Decimal.max(invoice.amountPaid.minus(netAfter), 0);
+            const refundAmount = overpaidAfter.minus(overpaidBefore);
+
+            const creditNoteNumber = await getNextDocumentNumber(tx, userId, 'credit_note');
+
+            const income = refundAmount.greaterThan(0)
+                ? await tx.incomeLog.create({
+                    data: {
+                        userId,
+                        amount: refundAmount.negated(),
+                        currency: invoice.currency,
+                        clientId: invoice.clientId,
+                        clientName: invoice.client.name,
+                        projectName: invoice.description,
+                        source: 'credit_note',
+                        notes: `Credit note ${creditNoteNumber} for invoice ${invoice.invoiceNumber}`,
+                        loggedAt: issueDate,
+                    }
+                })
+                : null;
+
+            const creditNote = await tx.creditNote.create({
+                data: {
+                    userId,
+                    invoiceId: invoice.id,
+                    clientId: invoice.clientId,
+                    creditNoteNumber,
+                    amount: creditAmount,
+                    reason: data.reason,
+                    items: data.items ? (JSON.parse(JSON.stringify(data.items)) as Prisma.JsonArray) : undefined,
+                    issueDate,
+                    incomeLogId: income?.id,
+                }
+            });
+
+            //fully credited invoices are voided, fully settled ones become paid
+            const balanceUpdate = { amountCredited: invoice.amountCredited.plus(creditAmount) };
+
+            let nextStatus: InvoiceStatus | null = null;
+            if (netAfter.isZero()) {
+                nextStatus = 'void';
+            } else if (invoice.status !== 'paid' && invoice.amountPaid.greaterThanOrEqualTo(netAfter)) {
+                nextStatus = 'paid';
+            }
+
+            const updatedInvoice = nextStatus
+                ? await transitionInvoiceStatus(tx, invoice, nextStatus, {
+                    actorId: userId,
+                    reason: `Credit note ${creditNoteNumber} issued`,
+                    data: nextStatus === 'paid'
+                        ? { ...balanceUpdate, paidDate: issueDate }
+                        : balanceUpdate,
+                })
+                : await tx.invoice.update({
+                    where: { id: invoice.id },
+                    data: balanceUpdate,
+                });
+
+            return { creditNote, income, invoice: updatedInvoice };
+        });
+
+        logger.info('Credit note issued', {
+            userId,
+            invoiceId,
+            creditNoteId: result.creditNote.id,
+            creditNoteNumber: result.creditNote.creditNoteNumber,
+            amount: result.creditNote.amount.toString(),
+            offsetIncome: result.income?.amount.toString(),
+        });
+
+        return {
+            creditNote: serializeCreditNote(result.creditNote),
+            invoice: serializeInvoice(result.invoice),
+            income: result.income
+                ? {
+                    id: result.income.id,
+                    amount: result.income.amount.toNumber(),
+                    loggedAt: result.income.loggedAt
+                }
+                : null,
+            message: result.invoice.status === 'void'
+                ? 'Credit note issued - invoice fully credited and voided'
+                : 'Credit note issued successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to create credit note', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET CREDIT NOTES
+// ============================================================================
+export const getCreditNotes = async (
+    userId: string,
+    query: GetCreditNotesQuery
+): Promise<GetCreditNotesResponse> => {
+    try {
+        const where: Prisma.CreditNoteWhereInput = { userId };
+
+        if (query.invoiceId) {
+            where.invoiceId = query.invoiceId;
+        }
+
+        if (query.clientId) {
+            where.clientId = query.clientId;
+        }
+
+        const [total, aggregate, creditNotes] = await Promise.all([
+            db.creditNote.count({ where }),
+            db.creditNote.aggregate({ where, _sum: { amount: true } }),
+            db.creditNote.findMany({
+                where,
+                orderBy: { issueDate: 'desc' },
+                take: Number(query.limit) || 50,
+                skip: Number(query.offset) || 0,
+            }),
+        ]);
+
+        logger.info('Credit notes fetched', { userId, total, count: creditNotes.length });
+
+        return {
+            creditNotes: creditNotes.map(serializeCreditNote),
+            total,
+            totalAmount: toNumber(aggregate._sum.amount),
+        };
+    } catch (error) {
+        logger.error('Failed to get credit notes', { userId, error });
+        throw error;
+    }
+};
+
+export const getInvoiceCreditNotes = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetCreditNotesResponse> => {
+    try {
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId }
+        });
+
+        if (!invoice || invoice.userId !== userId) {
+            throw new NotFoundError('Invoice');
+        }
+
+        return await getCreditNotes(userId, { invoiceId, limit: 100 });
+    } catch (error) {
+        logger.error('Failed to get invoice credit notes', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET SINGLE CREDIT NOTE
+// ============================================================================
+export const getCreditNoteById = async (
+    userId: string,
+    creditNoteId: string
+): Promise<CreditNoteWithDetails> => {
+    try {
+        const creditNote = await db.creditNote.findUnique({
+            where: { id: creditNoteId },
+            include: {
+                invoice: {
+                    select: {
+                        id: true,
+                        invoiceNumber: true,
+                        amount: true,
+                        currency: true,
+                        locale: true
+                    }
+                },
+                client: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        company: true
+                    }
+                },
+                user: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        phone: true
+                    }
+                }
+            }
+        });
+
+        if (!creditNote || creditNote.userId !== userId) {
+            throw new NotFoundError('Credit note');
+        }
+
+        logger.info('Credit note fetched by ID', { userId, creditNoteId });
+
+        return serializeCreditNoteWithDetails(creditNote);
+    } catch (error) {
+        logger.error('Failed to get credit note by ID', { userId, creditNoteId, error });
+        throw error;
+    }
+};
@@ -0,0 +1,547 @@
+/**
+ * CSV Import Service
+ * Imports income and expense history from spreadsheets. The caller maps CSV
+ * columns to fields; categorization rules fill what a row leaves empty. A
+ * dry run reports every bad row, and a real run saves all rows in one
+ * transaction or none at all.
+ */
+
+import { db } from '../config/database';
+import {
+    CSV_IMPORT_MAX_ERRORS,
+    CSV_IMPORT_PREVIEW_ROWS,
+    CsvImportDateFormat,
+    CsvImportOptions,
+    CsvImportResponse,
+    CsvImportRowError,
+    ImportedExpenseRow,
+    ImportedIncomeRow,
+    ImportExpenseCsvRequest,
+    ImportIncomeCsvRequest,
+    MAX_CSV_IMPORT_ROWS,
+} from '../types/csvImport.types';
+import { UNCATEGORIZED_EXPENSE } from '../types/expense.types';
+import { CsvRow, getCsvColumns, parseCsv } from '../utils/csv';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { isSupportedCurrency } from '../utils/i18n';
+import { logger } from '../utils/logger';
+import { categorize, incomeCategorizationInput, loadCategorizationRules } from './categorizationRule.service';
+import { getBaseCurrency } from './exchangeRate.service';
+import { resolveIncomeClient } from './income.service';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SAVE_CHUNK_SIZE = 500;
+
+// column limits - Decimal(10, 2) for money, Decimal(5, 2) for hours
+const MAX_AMOUNT = 99999999.99;
+const MAX_HOURS = 999.99;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// ============================================================================
+// HELPER: PARSE VALUES
+// ============================================================================
+
+/**
+ * Reads a number written with the given decimal separator. Thousands
+ * separators, spaces and currency symbols or codes around the number are
+ * ignored; "(12.50)" and "12.50-" are read as negatives, as accounting
+ * exports write them.
+ */
+const parseNumber = (raw: string, decimalSeparator: string): number | null => {
+    let text = raw.replace(/\s/g, '');
+    let negative = false;
+
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+
+    if (text.startsWith('-') || text.startsWith('+')) {
+        negative = negative !== text.startsWith('-');
+        text = text.slice(1);
+    }
+
+    // "$", "€", "USD" and the like
+    text = text.replace(/^[^\d.,]+/, '').replace(/[^\d.,-]+$/, '');
+
+    if (/\d-$/.test(text)) {
+        negative = !negative;
+        text = text.slice(0, -1);
+    }
+
+    const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+    text = text.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+
+    if (!/^\d+(\.\d+)?$/.test(text)) {
+        return null;
+    }
+
+    const value = Number(text);
+    return negative ? -value : value;
+};
+
+const DATE_PATTERNS: Record<Exclude<CsvImportDateFormat, 'ISO'>, { pattern: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+    'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ['y', 'm', 'd'] },
+    'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['d', 'm', 'y'] },
+    'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['m', 'd', 'y'] },
+    'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ['d', 'm', 'y'] },
+};
+
+/**
+ * Dates without a time are stored as midnight UTC
+ */
+const parseDate = (raw: string, format: CsvImportDateFormat): Date | null => {
+    if (format === 'ISO') {
+        const date = new Date(raw);
+        return /^\d{4}-\d{2}-\d{2}/.test(raw) && !isNaN(date.getTime()) ? date : null;
+    }
+
+    const { pattern, order } = DATE_PATTERNS[format];
+    const match = raw.match(pattern);
+
+    if (!match) {
+        return null;
+    }
+
+    const parts: Record<string, number> = {};
+    order.forEach((part, index) => {
+        parts[part] = Number(match[index + 1]);
+    });
+
+    const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+
+    // rejects dates like 31/02/2026 that Date would roll over
+    return date.getUTCFullYear() === parts.y && date.getUTCMonth() === parts.m - 1 && date.getUTCDate() === parts.d
+        ? date
+        : null;
+};
+
+const parseBoolean = (raw: string): boolean | null => {
+    const value = raw.toLowerCase();
+
+    if (TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+    return null;
+};
+
+const isUrl = (value: string): boolean => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// ============================================================================
+// HELPER: READ MAPPED CSV
+// ============================================================================
+
+type ImportOptions = Required<Omit<CsvImportOptions, 'csv'>>;
+
+interface MappedRow<F extends string> {
+    line: number;
+    text: (field: F) => string | null;                  // null when unmapped or blank
+    errors: CsvImportRowError[];
+    fail: (field: F, message: string) => void;
+}
+
+const withDefaults = (options: CsvImportOptions): ImportOptions => {
+    return {
+        delimiter: options.delimiter ?? ',',
+        dateFormat: options.dateFormat ?? 'YYYY-MM-DD',
+        decimalSeparator: options.decimalSeparator ?? '.',
+        amountSign: options.amountSign ?? 'positive',
+        dryRun: options.dryRun ?? true,
+    };
+};
+
+/**
+ * Parses the file and checks every mapped column exists in the header row
+ */
+const readMappedCsv = <F extends string>(
+    csv: string,
+    delimiter: string,
+    mapping: Partial<Record<F, string>>
+): MappedRow<F>[] => {
+    const [header, ...rows] = parseCsv(csv, delimiter);
+
+    if (!header || rows.length === 0) {
+        throw new ValidationError('CSV has no data rows');
+    }
+
+    if (rows.length > MAX_CSV_IMPORT_ROWS) {
+        throw new ValidationError(`CSV can have at most ${MAX_CSV_IMPORT_ROWS} rows - split the file`, {
+            rows: rows.length,
+        });
+    }
+
+    const columns = getCsvColumns(header.values);
+    const mapped = Object.entries(mapping) as [F, string | undefined][];
+    const missingColumns = mapped
+        .filter(([, column]) => column && !columns.has(column.trim().toLowerCase()))
+        .map(([, column]) => column as string);
+
+    if (missingColumns.length > 0) {
+        throw new ValidationError(`CSV is missing mapped columns: ${missingColumns.join(', ')}`, {
+            missingColumns,
+            columns: header.values,
+        });
+    }
+
+    return rows.map((row: CsvRow) => {
+        const errors: CsvImportRowError[] = [];
+
+        return {
+            line: row.line,
+            text: (field: F) => {
+                const column = mapping[field];
+                if (!column) return null;
+
+                const value = row.values[columns.get(column.trim().toLowerCase())!] ?? '';
+                return value === '' ? null : value;
+            },
+            errors,
+            fail: (field: F, message: string) => {
+                errors.push({ line: row.line, field, message });
+            },
+        };
+    });
+};
+
+/**
+ * Amount with the file's sign convention applied - always positive when valid
+ */
+const readAmount = <F extends string>(row: MappedRow<F>, field: F, options: ImportOptions): number | null => {
+    const raw = row.text(field);
+
+    if (raw === null) {
+        row.fail(field, 'Amount is required');
+        return null;
+    }
+
+    const parsed = parseNumber(raw, options.decimalSeparator);
+
+    if (parsed === null) {
+        row.fail(field, `Invalid amount '${raw}'`);
+        return null;
+    }
+
+    const amount = options.amountSign === 'negative'
+        ? -parsed
+        : options.amountSign === 'absolute' ? Math.abs(parsed) : parsed;
+
+    if (amount <= 0) {
+        row.fail(field, options.amountSign === 'negative'
+            ? `Amount '${raw}' must be negative in this file`
+            : `Amount '${raw}' must be positive`);
+        return null;
+    }
+
+    if (amount > MAX_AMOUNT) {
+        row.fail(field, `Amount '${raw}' is too large`);
+        return null;
+    }
+
+    return Math.round(amount * 100) / 100;
+};
+
+const readPositiveNumber = <F extends string>(
+    row: MappedRow<F>,
+    field: F,
+    options: ImportOptions,
+    max: number
+): number | null => {
+    const raw = row.text(field);
+    if (raw === null) return null;
+
+    const value = parseNumber(raw, options.decimalSeparator);
+
+    if (value === null || value <= 0 || value > max) {
+        row.fail(field, `Invalid value '${raw}'`);
+        return null;
+    }
+
+    return Math.round(value * 100) / 100;
+};
+
+const readCurrency = <F extends string>(row: MappedRow<F>, field: F, fallback: string): string => {
+    const currency = row.text(field)?.toUpperCase() ?? fallback;
+
+    if (!isSupportedCurrency(currency)) {
+        row.fail(field, `Unsupported currency '${currency}'`);
+    }
+
+    return currency;
+};
+
+const readDate = <F extends string>(row: MappedRow<F>, field: F, options: ImportOptions, isMapped: boolean): Date => {
+    // unmapped dates default to now, like logging an entry by hand
+    if (!isMapped) return new Date();
+
+    const raw = row.text(field);
+    const date = raw === null ? null : parseDate(raw, options.dateFormat);
+
+    if (!date) {
+        row.fail(field, raw === null ? 'Date is required' : `Invalid date '${raw}' (expected ${options.dateFormat})`);
+    }
+
+    return date ?? new Date();
+};
+
+// ============================================================================
+// HELPER: RESULT
+// ============================================================================
+
+const buildResponse = <T>(
+    rows: Pick<MappedRow<string>, 'errors'>[],
+    valid: T[],
+    imported: number,
+    dryRun: boolean,
+    label: string
+): CsvImportResponse<T> => {
+    const errors = rows.flatMap((row) => row.errors);
+    const invalidRows = rows.length - valid.length;
+
+    let message: string;
+    if (!dryRun) {
+        message = `${imported} ${label} imported`;
+    } else if (invalidRows > 0) {
+        message = `${valid.length} of ${rows.length} rows ready to import, ${invalidRows} with errors`;
+    } else {
+        message = `All ${rows.length} rows ready to import - run again with dryRun false to save them`;
+    }
+
+    return {
+        dryRun,
+        totalRows: rows.length,
+        validRows: valid.length,
+        errorCount: errors.length,
+        errors: errors.slice(0, CSV_IMPORT_MAX_ERRORS),
+        preview: valid.slice(0, CSV_IMPORT_PREVIEW_ROWS),
+        imported,
+        message,
+    };
+};
+
+const rejectInvalidRows = (rows: Pick<MappedRow<string>, 'errors'>[]): void => {
+    const errors = rows.flatMap((row) => row.errors);
+
+    if (errors.length > 0) {
+        throw new ValidationError('CSV has invalid rows - nothing was imported', {
+            errors: errors.slice(0, CSV_IMPORT_MAX_ERRORS),
+            errorCount: errors.length,
+        });
+    }
+};
+
+const chunk = <T>(items: T[]): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += SAVE_CHUNK_SIZE) {
+        chunks.push(items.slice(i, i + SAVE_CHUNK_SIZE));
+    }
+    return chunks;
+};
+
+// ============================================================================
+// IMPORT INCOME
+// ============================================================================
+
+export const importIncomeCsv = async (
+    userId: string,
+    data: ImportIncomeCsvRequest
+): Promise<CsvImportResponse<ImportedIncomeRow>> => {
+    try {
+        const options = withDefaults(data);
+        const rows = readMappedCsv(data.csv, options.delimiter, data.mapping);
+        const defaultCurrency = data.defaults?.currency ?? await getBaseCurrency(userId);
+        const rules = await loadCategorizationRules(userId, 'income');
+
+        // smart client matching runs once per distinct client id / name
+        const clientMatches = new Map<string, ReturnType<typeof resolveIncomeClient>>();
+        const matchClient = (clientId?: string, clientName?: string) => {
+            const key = `${clientId ?? ''}\u0000${clientName?.toLowerCase() ?? ''}`;
+            if (!clientMatches.has(key)) {
+                clientMatches.set(key, resolveIncomeClient(userId, { clientId, clientName }));
+            }
+            return clientMatches.get(key)!;
+        };
+
+        const valid: ImportedIncomeRow[] = [];
+
+        for (const row of rows) {
+            const amount = readAmount(row, 'amount', options);
+            const currency = readCurrency(row, 'currency', defaultCurrency);
+            const hours = readPositiveNumber(row, 'hours', options, MAX_HOURS);
+            const ratePerHour = readPositiveNumber(row, 'ratePerHour', options, MAX_AMOUNT);
+            const loggedAt = readDate(row, 'loggedAt', options, !!data.mapping.loggedAt);
+
+            let clientId = row.text('clientId') ?? undefined;
+            let clientName = row.text('clientName') ?? undefined;
+
+            const categorized = categorize(rules, incomeCategorizationInput({
+                projectName: row.text('projectName'),
+                notes: row.text('notes'),
+                clientName,
+                amount: amount ?? 0,
+            }));
+
+            if (!clientId && !clientName && categorized.clientId) {
+                clientId = categorized.clientId;
+                clientName = categorized.clientName;
+            } else if (clientId && !UUID_PATTERN.test(clientId)) {
+                row.fail('clientId', `Invalid client ID '${clientId}'`);
+            } else if (clientId || clientName) {
+                try {
+                    ({ clientId, clientName } = await matchClient(clientId, clientName));
+                } catch (error) {
+                    if (!(error instanceof NotFoundError)) throw error;
+                    row.fail('clientId', 'Client not found');
+                }
+            }
+
+            if (row.errors.length > 0 || amount === null) {
+                continue;
+            }
+
+            valid.push({
+                line: row.line,
+                amount,
+                currency,
+                projectName: row.text('projectName'),
+                clientName: clientName ?? null,
+                clientId: clientId ?? null,
+                skill: row.text('skill') ?? categorized.skill ?? null,
+                hours,
+                ratePerHour,
+                notes: row.text('notes'),
+                tags: categorized.tags,
+                loggedAt,
+            });
+        }
+
+        let imported = 0;
+
+        if (!options.dryRun) {
+            rejectInvalidRows(rows);
+
+            // batch transaction - every chunk is saved, or none
+            const results = await db.$transaction(
+                chunk(valid).map((entries) =>
+                    db.incomeLog.createMany({
+                        data: entries.map(({ line, ...entry }) => ({
+                            userId,
+                            ...entry,
+                            source: 'import',
+                        })),
+                    })
+                )
+            );
+            imported = results.reduce((total, result) => total + result.count, 0);
+
+            logger.info('Income imported from CSV', { userId, imported });
+        }
+
+        return buildResponse(rows, valid, imported, options.dryRun, 'income entries');
+    } catch (error) {
+        logger.error('Failed to import income CSV', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// IMPORT EXPENSES
+// ============================================================================
+
+export const importExpenseCsv = async (
+    userId: string,
+    data: ImportExpenseCsvRequest
+): Promise<CsvImportResponse<ImportedExpenseRow>> => {
+    try {
+        const options = withDefaults(data);
+        const rows = readMappedCsv(data.csv, options.delimiter, data.mapping);
+        const defaults = data.defaults ?? {};
+        const defaultCurrency = defaults.currency ?? await getBaseCurrency(userId);
+        const rules = await loadCategorizationRules(userId, 'expense');
+
+        const valid: ImportedExpenseRow[] = [];
+
+        for (const row of rows) {
+            const amount = readAmount(row, 'amount', options);
+            const currency = readCurrency(row, 'currency', defaultCurrency);
+            const loggedAt = readDate(row, 'loggedAt', options, !!data.mapping.loggedAt);
+
+            const description = row.text('description') ?? defaults.description;
+            if (!description) {
+                row.fail('description', 'Description is required');
+            }
+
+            const categorized = categorize(rules, {
+                description: description ?? null,
+                counterparty: null,
+                amount: amount ?? 0,
+            });
+
+            const category = row.text('category') ?? categorized.category ?? defaults.category ?? UNCATEGORIZED_EXPENSE;
+
+            const deductibleText = row.text('isDeductible');
+            const isDeductible = deductibleText === null
+                ? categorized.isDeductible ?? defaults.isDeductible ?? true
+                : parseBoolean(deductibleText);
+            if (isDeductible === null) {
+                row.fail('isDeductible', `Invalid yes/no value '${deductibleText}'`);
+            }
+
+            const receiptUrl = row.text('receiptUrl');
+            if (receiptUrl && !isUrl(receiptUrl)) {
+                row.fail('receiptUrl', `Invalid receipt URL '${receiptUrl}'`);
+            }
+
+            if (row.errors.length > 0 || amount === null) {
+                continue;
+            }
+
+            valid.push({
+                line: row.line,
+                amount,
+                currency,
+                category,
+                description: description as string,
+                isDeductible: isDeductible as boolean,
+                receiptUrl,
+                tags: categorized.tags,
+                loggedAt,
+            });
+        }
+
+        let imported = 0;
+
+        if (!options.dryRun) {
+            rejectInvalidRows(rows);
+
+            // batch transaction - every chunk is saved, or none
+            const results = await db.$transaction(
+                chunk(valid).map((entries) =>
+                    db.expenseLog.createMany({
+                        data: entries.map(({ line, ...entry }) => ({ userId, ...entry })),
+                    })
+                )
+            );
+            imported = results.reduce((total, result) => total + result.count, 0);
+
+            logger.info('Expenses imported from CSV', { userId, imported });
+        }
+
+        return buildResponse(rows, valid, imported, options.dryRun, 'expenses');
+    } catch (error) {
+        logger.error('Failed to import expense CSV', { userId, error });
+        throw error;
+    }
+};
@@ -1,43 +1,59 @@
 /**
  * Dashboard Service
  * Aggregates financial data for dashboard overview
+ * Amounts are converted to the user's base currency at each transaction's date
  */
 
 import { db } from '../config/database';
-import { DashboardBalance, QuickStats, DashboardSummary } from '../types/dashboard.types';
+import { DashboardBalance, QuickStats, DashboardSummary, MonthlyDataPoint } from '../types/dashboard.types';
+import { ConvertedAmount } from '../types/exchangeRate.types';
+import { COUNTED_INCOME_WHERE } from '../types/invoice.types';
+import { createCurrencyConverter, LoggedAmount, subtractAmounts, toMoneyEntry } from './exchangeRate.service';
 import { logger } from '../utils/logger';
 
+const isBetween = (date: Date, start: Date, end: Date): boolean => date >= start && date <= end;
+
 // ============================================================================
 // GET DASHBOARD BALANCE
 // ============================================================================
 
 export const getDashboardBalance = async (userId: string): Promise<DashboardBalance> => {
     try {
-        // Get total income
-        const incomeData = await db.incomeLog.aggregate({
-            where: { userId },
-            _sum: { amount: true },
-        });
+        const [incomeLogs, expenseLogs, goals] = await Promise.all([
+            db.incomeLog.findMany({
+                where: { userId, ...COUNTED_INCOME_WHERE },
+                select: { amount: true, currency: true, loggedAt: true },
+            }),
+            db.expenseLog.findMany({
+                where: { userId },
+                select: { amount: true, currency: true, loggedAt: true },
+            }),
+            db.goal.findMany({
+                where: { userId },
+                select: { currentAmount: true, currency: true },
+            }),
+        ]);
 
-        // Get total expenses
-        const expenseData = await db.expenseLog.aggregate({
-            where: { userId },
-            _sum: { amount: true },
-        });
+        const income = incomeLogs.map(toMoneyEntry);
+        const expenses = expenseLogs.map(toMoneyEntry);
 
-        // Get total allocated to goals
-        const goalsData = await db.goal.aggregate({
-            where: { userId },
-            _sum: { currentAmount: true },
-        });
+        // money set aside for goals is valued at today's rate
+        const now = new Date();
+        const allocated = goals.map((goal) => ({
+            amount: Number(goal.currentAmount),
+            currency: goal.currency,
+            date: now,
+        }));
 
-        const totalIncome = Number(incomeData._sum.amount || 0);
-        const totalExpenses = Number(expenseData._sum.amount || 0);
-        const goalsAllocated = Number(goalsData._sum.currentAmount || 0);
-        const totalBalance = totalIncome - totalExpenses;
-        const availableBalance = totalBalance - goalsAllocated;
+        const converter = await createCurrencyConverter(userId, [...income, ...expenses, ...allocated]);
 
-        logger.info('Dashboard balance retrieved', { userId });
+        const totalIncome = converter.sum(income);
+        const totalExpenses = converter.sum(expenses);
+        const goalsAllocated = converter.sum(allocated);
+        const totalBalance = subtractAmounts(totalIncome, totalExpenses);
+        const availableBalance = subtractAmounts(totalBalance, goalsAllocated);
+
+        logger.info('Dashboard balance retrieved', { userId, baseCurrency: converter.baseCurrency });
 
         return {
             totalBalance,
@@ -45,7 +61,7 @@ export const getDashboardBalance = async (userId: string): Promise<DashboardBala
             totalExpenses,
             availableBalance,
             goalsAllocated,
-            currency: 'USD',
+            currency: converter.baseCurrency,
         };
     } catch (error) {
         logger.error('Failed to get dashboard balance', { error, userId });
@@ -60,102 +76,81 @@ export const getDashboardBalance = async (userId: string): Promise<DashboardBala
 export const getQuickStats = async (userId: string): Promise<QuickStats> => {
     try {
         const now = new Date();
-        
+
         // This month dates
         const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
         const thisMonthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-        
+
         // Last month dates
         const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
         const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
 
-        // Get this month's income and expenses
-        const [thisMonthIncome, thisMonthExpenses] = await Promise.all([
-            db.incomeLog.aggregate({
-                where: {
-                    userId,
-                    loggedAt: { gte: thisMonthStart, lte: thisMonthEnd },
-                },
-                _sum: { amount: true },
+        // All income and expenses - each one is converted at its own date,
+        // so totals can't be summed in the database
+        const [incomeLogs, expenseLogs] = await Promise.all([
+            db.incomeLog.findMany({
+                where: { userId, ...COUNTED_INCOME_WHERE },
+                select: { amount: true, currency: true, loggedAt: true, skill: true },
             }),
-            db.expenseLog.aggregate({
-                where: {
-                    userId,
-                    loggedAt: { gte: thisMonthStart, lte: thisMonthEnd },
-                },
-                _sum: { amount: true },
+            db.expenseLog.findMany({
+                where: { userId },
+                select: { amount: true, currency: true, loggedAt: true, category: true },
             }),
         ]);
 
-        // Get last month's income and expenses for comparison
-        const [lastMonthIncome, lastMonthExpenses] = await Promise.all([
-            db.incomeLog.aggregate({
-                where: {
-                    userId,
-                    loggedAt: { gte: lastMonthStart, lte: lastMonthEnd },
-                },
-                _sum: { amount: true },
-            }),
-            db.expenseLog.aggregate({
-                where: {
-                    userId,
-                    loggedAt: { gte: lastMonthStart, lte: lastMonthEnd },
-                },
-                _sum: { amount: true },
-            }),
+        const converter = await createCurrencyConverter(userId, [
+            ...incomeLogs.map(toMoneyEntry),
+            ...expenseLogs.map(toMoneyEntry),
         ]);
 
-        const thisIncome = Number(thisMonthIncome._sum.amount || 0);
-        const thisExpenses = Number(thisMonthExpenses._sum.amount || 0);
-        const lastMonthIncomeAmount = Number(lastMonthIncome._sum.amount || 0); 
-        const lastMonthExpenseAmount = Number(lastMonthExpenses._sum.amount || 0);
+        const sumBetween = (logs: LoggedAmount[], start: Date, end: Date): ConvertedAmount => {
+            return converter.sum(logs.filter((log) => isBetween(log.loggedAt, start, end)).map(toMoneyEntry));
+        };
+
+        // This month's and last month's income and expenses
+        const thisIncome = sumBetween(incomeLogs, thisMonthStart, thisMonthEnd);
+        const thisExpenses = sumBetween(expenseLogs, thisMonthStart, thisMonthEnd);
+        const lastMonthIncomeAmount = sumBetween(incomeLogs, lastMonthStart, lastMonthEnd).amount;
+        const lastMonthExpenseAmount = sumBetween(expenseLogs, lastMonthStart, lastMonthEnd).amount;
 
         // Calculate percentage changes
-        const incomeChange = lastMonthIncomeAmount > 0 
-            ? Math.round(((thisIncome - lastMonthIncomeAmount) / lastMonthIncomeAmount) * 100) 
+        const incomeChange = lastMonthIncomeAmount > 0
+            ? Math.round(((thisIncome.amount - lastMonthIncomeAmount) / lastMonthIncomeAmount) * 100)
             : 0;
-        const expenseChange = lastMonthExpenseAmount > 0 
-            ? Math.round(((thisExpenses - lastMonthExpenseAmount) / lastMonthExpenseAmount) * 100) 
+        const expenseChange = lastMonthExpenseAmount > 0
+            ? Math.round(((thisExpenses.amount - lastMonthExpenseAmount) / lastMonthExpenseAmount) * 100)
             : 0;
 
-
         // Get top earning skill
-        const topSkillData = await db.incomeLog.groupBy({
-            by: ['skill'],
-            where: { userId, skill: { not: null } },
-            _sum: { amount: true },
-            _count: { id: true },
-            orderBy: { _sum: { amount: 'desc' } },
-            take: 1,
+        const skillMap = new Map<string, typeof incomeLogs>();
+        incomeLogs.forEach((log) => {
+            if (log.skill) {
+                const logs = skillMap.get(log.skill) ?? [];
+                logs.push(log);
+                skillMap.set(log.skill, logs);
+            }
         });
 
+        const topSkill = Array.from(skillMap.entries())
+            .map(([skill, logs]) => ({ skill, amount: converter.sum(logs.map(toMoneyEntry)), count: logs.length }))
+            .sort((a, b) => b.amount.amount - a.amount.amount)[0];
+
         // Get top expense category
-        const topExpenseData = await db.expenseLog.groupBy({
-            by: ['category'],
-            where: { userId },
-            _sum: { amount: true },
-            _count: { id: true },
-            orderBy: { _sum: { amount: 'desc' } },
-            take: 1,
+        const categoryMap = new Map<string, typeof expenseLogs>();
+        expenseLogs.forEach((log) => {
+            const logs = categoryMap.get(log.category) ?? [];
+            logs.push(log);
+            categoryMap.set(log.category, logs);
         });
 
+        const topExpense = Array.from(categoryMap.entries())
+            .map(([category, logs]) => ({ category, amount: converter.sum(logs.map(toMoneyEntry)), count: logs.length }))
+            .sort((a, b) => b.amount.amount - a.amount.amount)[0];
+
         // Get recent activity
-        const [lastIncomeRecord, lastExpenseRecord, totalTransactions] = await Promise.all([
-            db.incomeLog.findFirst({
-                where: { userId },
-                orderBy: { loggedAt: 'desc' },
-                select: { loggedAt: true },
-            }),
-            db.expenseLog.findFirst({
-                where: { userId },
-                orderBy: { loggedAt: 'desc' },
-                select: { loggedAt: true },
-            }),
-            db.incomeLog.count({ where: { userId } }).then(async (incomeCount) => {
-                const expenseCount = await db.expenseLog.count({ where: { userId } });
-                return incomeCount + expenseCount;
-            }),
-        ]);
+        const latest = (logs: Array<{ loggedAt: Date }>): Date | null => {
+            return logs.reduce<Date | null>((max, log) => (!max || log.loggedAt > max ? log.loggedAt : max), null);
+        };
 
         logger.info('Quick stats retrieved', { userId });
 
@@ -163,24 +158,24 @@ export const getQuickStats = async (userId: string): Promise<QuickStats> => {
             thisMonth: {
                 income: thisIncome,
                 expenses: thisExpenses,
-                profit: thisIncome - thisExpenses,
+                profit: subtractAmounts(thisIncome, thisExpenses),
                 incomeChange,
                 expenseChange,
             },
             topSkill: {
-                skill: topSkillData[0]?.skill || null,
-                amount: Number(topSkillData[0]?._sum.amount || 0),
-                count: topSkillData[0]?._count.id || 0,
+                skill: topSkill?.skill || null,
+                amount: topSkill?.amount ?? converter.sum([]),
+                count: topSkill?.count || 0,
             },
             topExpenseCategory: {
-                category: topExpenseData[0]?.category || null,
-                amount: Number(topExpenseData[0]?._sum.amount || 0),
-                count: topExpenseData[0]?._count.id || 0,
+                category: topExpense?.category || null,
+                amount: topExpense?.amount ?? converter.sum([]),
+                count: topExpense?.count || 0,
             },
             recentActivity: {
-                lastIncomeDate: lastIncomeRecord?.loggedAt || null,
-                lastExpenseDate: lastExpenseRecord?.loggedAt || null,
-                totalTransactions,
+                lastIncomeDate: latest(incomeLogs),
+                lastExpenseDate: latest(expenseLogs),
+                totalTransactions: incomeLogs.length + expenseLogs.length,
             },
         };
     } catch (error) {
@@ -193,38 +188,46 @@ export const getQuickStats = async (userId: string): Promise<QuickStats> => {
 // GET MONTHLY REVENUE DATA (LAST 3 MONTHS)
 // ============================================================================
 
-export const getMonthlyData = async (userId: string, months: number = 3) => {
+export const getMonthlyData = async (userId: string, months: number = 3): Promise<MonthlyDataPoint[]> => {
     try {
-        const result = [];
         const now = new Date();
+        const rangeStart = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+        const rangeEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+
+        const [incomeLogs, expenseLogs] = await Promise.all([
+            db.incomeLog.findMany({
+                where: {
+                    userId,
+                    ...COUNTED_INCOME_WHERE,
+                    loggedAt: { gte: rangeStart, lte: rangeEnd }
+                },
+                select: { amount: true, currency: true, loggedAt: true }
+            }),
+            db.expenseLog.findMany({
+                where: {
+                    userId,
+                    loggedAt: { gte: rangeStart, lte: rangeEnd }
+                },
+                select: { amount: true, currency: true, loggedAt: true }
+            })
+        ]);
+
+        const income = incomeLogs.map(toMoneyEntry);
+        const expenses = expenseLogs.map(toMoneyEntry);
+        const converter = await createCurrencyConverter(userId, [...income, ...expenses]);
+
+        const result: MonthlyDataPoint[] = [];
 
         for (let i = months - 1; i >= 0; i--) {
             const targetDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
             const startDate = new Date(targetDate.getFullYear(), targetDate.getMonth(), 1);
             const endDate = new Date(targetDate.getFullYear(), targetDate.getMonth() + 1, 0, 23, 59, 59);
 
-            const [incomeData, expenseData] = await Promise.all([
-                db.incomeLog.aggregate({
-                    where: {
-                        userId,
-                        loggedAt: { gte: startDate, lte: endDate }
-                    },
-                    _sum: { amount: true }
-                }),
-                db.expenseLog.aggregate({
-                    where: {
-                        userId,
-                        loggedAt: { gte: startDate, lte: endDate }
-                    },
-                    _sum: { amount: true }
-                })
-            ]);
-
             result.push({
                 month: targetDate.toLocaleString('en-US', { month: 'short' }),
                 year: targetDate.getFullYear(),
-                income: Number(incomeData._sum.amount || 0),
-                expenses: Number(expenseData._sum.amount || 0),
+                income: converter.sum(income.filter((entry) => isBetween(entry.date, startDate, endDate))),
+                expenses: converter.sum(expenses.filter((entry) => isBetween(entry.date, startDate, endDate))),
             });
         }
 
@@ -244,7 +247,7 @@ export const getDashboardSummary = async (userId: string): Promise<DashboardSumm
         const [balance, stats, monthlyData] = await Promise.all([
             getDashboardBalance(userId),
             getQuickStats(userId),
-            getMonthlyData(userId, 3), 
+            getMonthlyData(userId, 3),
         ]);
 
         logger.info('Dashboard summary retrieved', { userId });
@@ -252,11 +255,10 @@ export const getDashboardSummary = async (userId: string): Promise<DashboardSumm
         return {
             balance,
             stats,
-            monthlyData,  
+            monthlyData,
         };
     } catch (error) {
         logger.error('Failed to get dashboard summary', { error, userId });
         throw error;
     }
 };
-
@@ -0,0 +1,81 @@
+/**
+ * Document Numbering Service
+ * Per-user, per-year atomic counters for quote (EST-YYYY-001) and credit note (CN-YYYY-001) numbers
+ */
+
+import { Prisma } from '@prisma/client';
+
+// ============================================================================
+// DOCUMENT TYPES
+// ============================================================================
+
+export type NumberedDocumentType = 'quote' | 'credit_note';
+
+const DOCUMENT_PREFIXES: Record<NumberedDocumentType, string> = {
+    quote: 'EST',
+    credit_note: 'CN',
+};
+
+const SEQUENCE_PADDING = 3;
+
+// ============================================================================
+// HELPER: HIGHEST NUMBER ISSUED
+// ============================================================================
+
+/**
+ * Highest sequence among the user's existing numbers with this prefix -
+ * numbers issued before the counter existed are continued, not reused
+ */
+const findHighestIssued = async (
+    tx: Prisma.TransactionClient,
+    userId: string,
+    type: NumberedDocumentType,
+    numberPrefix: string
+): Promise<number> => {
+    const numbers = type === 'quote'
+        ? await tx.quote.findMany({
+            where: { userId, quoteNumber: { startsWith: numberPrefix } },
+            select: { quoteNumber: true },
+        }).then((quotes) => quotes.map((quote) => quote.quoteNumber))
+        : await tx.creditNote.findMany({
+            where: { userId, creditNoteNumber: { startsWith: numberPrefix } },
+            select: { creditNoteNumber: true },
+        }).then((creditNotes) => creditNotes.map((creditNote) => creditNote.creditNoteNumber));
+
+    return numbers.reduce((max, number) => {
+        const sequence = parseInt(number.slice(numberPrefix.length), 10);
+        return Number.isNaN(sequence) ? max : Math.max(max, sequence);
+    }, 0);
+};
+
+// ============================================================================
+// NEXT DOCUMENT NUMBER (inside the document creation transaction)
+// ============================================================================
+
+/**
+ * Reserves the next number for the year. The counter is incremented in a
+ * single upsert, and its row stays locked until the transaction commits, so
+ * concurrent documents can't share a number, deleted documents never free
+ * one up, and a failed creation rolls the counter back.
+ */
+export const getNextDocumentNumber = async (
+    tx: Prisma.TransactionClient,
+    userId: string,
+    type: NumberedDocumentType,
+    date: Date = new Date()
+): Promise<string> => {
+    const year = date.getFullYear();
+    const numberPrefix = `${DOCUMENT_PREFIXES[type]}-${year}-`;
+    const where = { userId_type_year: { userId, type, year } };
+
+    const existing = await tx.documentSequence.findUnique({ where });
+    const issued = existing ? 0 : await findHighestIssued(tx, userId, type, numberPrefix);
+
+    const sequence = await tx.documentSequence.upsert({
+        where,
+        create: { userId, type, year, lastNumber: issued + 1 },
+        update: { lastNumber: { increment: 1 } },
+    });
+
+    return `${numberPrefix}${String(sequence.lastNumber).padStart(SEQUENCE_PADDING, '0')}`;
+};
@@ -0,0 +1,490 @@
+/**
+ * E-Invoice Service
+ * Builds structured e-invoices (EN 16931) from invoices and credit notes
+ * and hands them to a format renderer (UBL 2.1 / Peppol BIS 3.0, or CII for Factur-X)
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    EInvoiceAllowanceCharge,
+    EInvoiceDocument,
+    EInvoiceEndpoint,
+    EInvoiceExport,
+    EInvoiceFormat,
+    EInvoiceLine,
+    EInvoiceParty,
+    EInvoiceTaxCategory,
+    EInvoiceTaxSubtotal,
+    FacturXProfile,
+} from '../types/einvoice.types';
+import { InvoiceWithDetails, InvoiceTaxRate } from '../types/invoice.types';
+import { CreditNoteWithDetails } from '../types/creditNote.types';
+import { BadRequestError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { getInvoiceById } from './invoice.service';
+import { getCreditNoteById } from './creditNote.service';
+import { renderUblDocument } from './ubl.service';
+import { renderCiiDocument } from './cii.service';
+
+type Decimal = Prisma.Decimal;
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+interface EInvoiceRenderer {
+    extension: string;
+    contentType: string;
+    render: (document: EInvoiceDocument) => string;
+}
+
+const EINVOICE_RENDERERS: Record<EInvoiceFormat, EInvoiceRenderer> = {
+    ubl: { extension: 'xml', contentType: 'application/xml', render: renderUblDocument },
+    cii: { extension: 'xml', contentType: 'application/xml', render: (document) => renderCiiDocument(document) },
+};
+
+// ============================================================================
+// HELPER: MONEY
+// ============================================================================
+
+const roundMoney = (value: Decimal): Decimal => {
+    return value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+};
+
+const sum = (values: Decimal[]): Decimal => {
+    return values.reduce((total, value) => total.plus(value), new Prisma.Decimal(0));
+};
+
+/**
+ * Splits an amount across weights to the cent - the last share takes the
+ * rounding remainder so the parts always add up to the amount
+ */
+const allocate = (amount: Decimal, weights: Decimal[]): Decimal[] => {
+    const totalWeight = sum(weights);
+
+    if (totalWeight.isZero()) {
+        return weights.map((_, index) => (index === weights.length - 1 ? amount : new Prisma.Decimal(0)));
+    }
+
+    let allocated = new Prisma.Decimal(0);
+
+    return weights.map((weight, index) => {
+        if (index === weights.length - 1) {
+            return amount.minus(allocated);
+        }
+        const share = roundMoney(amount.times(weight).dividedBy(totalWeight));
+        allocated = allocated.plus(share);
+        return share;
+    });
+};
+
+// ============================================================================
+// HELPER: TAX CATEGORIES
+// ============================================================================
+
+const NOT_SUBJECT_TO_VAT = 'Not subject to VAT';
+
+/**
+ * EN 16931 allows one VAT rate per line, so stacked taxes are combined.
+ * Untaxed amounts are zero rated on a taxed invoice; an invoice without
+ * any taxes is "not subject to VAT" throughout.
+ */
+const toTaxCategory = (taxes: InvoiceTaxRate[], invoiceIsTaxed: boolean): EInvoiceTaxCategory => {
+    if (!invoiceIsTaxed) {
+        return { code: 'O', percent: 0, exemptionReason: NOT_SUBJECT_TO_VAT };
+    }
+
+    const percent = sum(taxes.map((tax) => new Prisma.Decimal(tax.rate))).toNumber();
+
+    return percent > 0 ? { code: 'S', percent } : { code: 'Z', percent: 0 };
+};
+
+const categoryKey = (category: EInvoiceTaxCategory): string => `${category.code}|${category.percent}`;
+
+interface TaxBucket {
+    category: EInvoiceTaxCategory;
+    net: Decimal;           // sum of line amounts
+    allowances: Decimal;
+    charges: Decimal;
+}
+
+const taxableAmount = (bucket: TaxBucket): Decimal => bucket.net.minus(bucket.allowances).plus(bucket.charges);
+
+const toTaxSubtotal = (category: EInvoiceTaxCategory, taxable: Decimal): EInvoiceTaxSubtotal => {
+    return {
+        taxableAmount: taxable.toNumber(),
+        taxAmount: roundMoney(taxable.times(category.percent).dividedBy(100)).toNumber(),
+        taxCategory: category,
+    };
+};
+
+// ============================================================================
+// HELPER: PARTIES
+// ============================================================================
+
+const toAddressLines = (address: string | null): string[] => {
+    return (address ?? '')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+};
+
+/**
+ * Peppol id ("0088:5790000435975") when set, otherwise the email address
+ */
+const toEndpoint = (peppolId: string | null, email: string | null): EInvoiceEndpoint | null => {
+    if (peppolId) {
+        const separator = peppolId.indexOf(':');
+        return { scheme: peppolId.slice(0, separator), id: peppolId.slice(separator + 1) };
+    }
+
+    return email ? { scheme: 'EM', id: email } : null;
+};
+
+/**
+ * Seller (from branding + profile) and buyer (the client). Everything EN 16931
+ * requires is checked up front so the error names every field to fill in.
+ */
+const loadParties = async (
+    userId: string,
+    clientId: string,
+    invoiceIsTaxed: boolean
+): Promise<{ seller: EInvoiceParty; buyer: EInvoiceParty }> => {
+    const [user, branding, client] = await Promise.all([
+        db.user.findUnique({
+            where: { id: userId },
+            select: { name: true, email: true, phone: true },
+        }),
+        db.brandingSettings.findUnique({
+            where: { userId },
+            select: { businessName: true, address: true, taxId: true, countryCode: true, peppolId: true },
+        }),
+        db.client.findUnique({
+            where: { id: clientId },
+        }),
+    ]);
+
+    if (!user || !client) {
+        throw new BadRequestError('Invoice parties could not be loaded');
+    }
+
+    const sellerEndpoint = toEndpoint(branding?.peppolId ?? null, user.email);
+    const buyerEndpoint = toEndpoint(client.peppolId, client.email);
+
+    const missing: string[] = [];
+    if (!branding?.countryCode) missing.push('branding.countryCode');
+    if (invoiceIsTaxed && !branding?.taxId) missing.push('branding.taxId');
+    if (!client.countryCode) missing.push('client.countryCode');
+    if (!buyerEndpoint) missing.push('client.peppolId or client.email');
+
+    if (missing.length > 0) {
+        throw new BadRequestError(`E-invoice is missing required details: ${missing.join(', ')}`, { missing });
+    }
+
+    // taxIds on a document that isn't subject to VAT are rejected (BR-O-02)
+    return {
+        seller: {
+            name: branding?.businessName ?? user.name,
+            endpoint: sellerEndpoint!,
+            address: { lines: toAddressLines(branding?.address ?? null), countryCode: branding!.countryCode! },
+            taxId: invoiceIsTaxed ? branding!.taxId : null,
+            contactName: branding?.businessName ? user.name : null,
+            email: user.email,
+            phone: user.phone,
+        },
+        buyer: {
+            name: client.company ?? client.name,
+            endpoint: buyerEndpoint!,
+            address: { lines: toAddressLines(client.address), countryCode: client.countryCode! },
+            taxId: invoiceIsTaxed ? client.taxId : null,
+            contactName: client.company ? client.name : null,
+            email: client.email,
+            phone: client.phone,
+        },
+    };
+};
+
+// ============================================================================
+// HELPER: INVOICE TAX BUCKETS
+// ============================================================================
+
+interface InvoiceBreakdown {
+    invoiceIsTaxed: boolean;
+    lines: EInvoiceLine[];
+    allowanceCharges: EInvoiceAllowanceCharge[];
+    buckets: TaxBucket[];
+}
+
+/**
+ * Groups lines by tax category and spreads the discount across the
+ * categories the same way invoiceTotals does (in proportion to line amounts).
+ * Shipping and late charges are untaxed document-level charges.
+ */
+const buildInvoiceBreakdown = (invoice: InvoiceWithDetails): InvoiceBreakdown => {
+    const sourceLines = invoice.items?.length
+        ? invoice.items
+        : [{ description: invoice.description, quantity: 1, rate: invoice.subtotal, amount: invoice.subtotal, taxes: undefined }];
+
+    const lineTaxes = sourceLines.map((line) => line.taxes ?? invoice.taxes ?? []);
+    const invoiceIsTaxed = lineTaxes.some((taxes) => taxes.some((tax) => tax.rate > 0));
+    const untaxed = toTaxCategory([], invoiceIsTaxed);
+
+    const buckets = new Map<string, TaxBucket>();
+    const bucketFor = (category: EInvoiceTaxCategory): TaxBucket => {
+        const key = categoryKey(category);
+        const bucket = buckets.get(key) ?? {
+            category,
+            net: new Prisma.Decimal(0),
+            allowances: new Prisma.Decimal(0),
+            charges: new Prisma.Decimal(0),
+        };
+        buckets.set(key, bucket);
+        return bucket;
+    };
+
+    const lines: EInvoiceLine[] = sourceLines.map((line, index) => {
+        const taxCategory = toTaxCategory(lineTaxes[index], invoiceIsTaxed);
+        const bucket = bucketFor(taxCategory);
+        bucket.net = bucket.net.plus(line.amount);
+
+        return {
+            id: String(index + 1),
+            name: line.description,
+            quantity: line.quantity,
+            unitPrice: line.rate,
+            netAmount: line.amount,
+            taxCategory,
+        };
+    });
+
+    const allowanceCharges: EInvoiceAllowanceCharge[] = [];
+
+    if (invoice.discountAmount > 0) {
+        const lineBuckets = Array.from(buckets.values());
+        const shares = allocate(
+            new Prisma.Decimal(invoice.discountAmount),
+            lineBuckets.map((bucket) => bucket.net)
+        );
+
+        lineBuckets.forEach((bucket, index) => {
+            if (shares[index].isZero()) return;
+            bucket.allowances = bucket.allowances.plus(shares[index]);
+            allowanceCharges.push({
+                isCharge: false,
+                reason: 'Discount',
+                amount: shares[index].toNumber(),
+                taxCategory: bucket.category,
+            });
+        });
+    }
+
+    const addCharge = (reason: string, amount: number) => {
+        if (amount <= 0) return;
+        const bucket = bucketFor(untaxed);
+        bucket.charges = bucket.charges.plus(amount);
+        allowanceCharges.push({ isCharge: true, reason, amount, taxCategory: untaxed });
+    };
+
+    addCharge('Shipping', invoice.shipping);
+    addCharge('Late fees and interest', invoice.lateCharges);
+
+    return { invoiceIsTaxed, lines, allowanceCharges, buckets: Array.from(buckets.values()) };
+};
+
+const buildTotals = (
+    lines: EInvoiceLine[],
+    allowanceCharges: EInvoiceAllowanceCharge[],
+    taxSubtotals: EInvoiceTaxSubtotal[],
+    expectedTotal: Decimal,
+    prepaid: Decimal
+) => {
+    const lineExtensionAmount = sum(lines.map((line) => new Prisma.Decimal(line.netAmount)));
+    const allowanceTotal = sum(allowanceCharges.filter((ac) => !ac.isCharge).map((ac) => new Prisma.Decimal(ac.amount)));
+    const chargeTotal = sum(allowanceCharges.filter((ac) => ac.isCharge).map((ac) => new Prisma.Decimal(ac.amount)));
+    const taxExclusiveAmount = lineExtensionAmount.minus(allowanceTotal).plus(chargeTotal);
+    const taxAmount = sum(taxSubtotals.map((subtotal) => new Prisma.Decimal(subtotal.taxAmount)));
+    const taxInclusiveAmount = taxExclusiveAmount.plus(taxAmount);
+
+    // stacked taxes are rounded per tax in the app but per category here,
+    // which can differ by a cent - the rounding amount absorbs it
+    const roundingAmount = expectedTotal.minus(taxInclusiveAmount);
+
+    return {
+        lineExtensionAmount: lineExtensionAmount.toNumber(),
+        allowanceTotal: allowanceTotal.toNumber(),
+        chargeTotal: chargeTotal.toNumber(),
+        taxExclusiveAmount: taxExclusiveAmount.toNumber(),
+        taxAmount: taxAmount.toNumber(),
+        taxInclusiveAmount: taxInclusiveAmount.toNumber(),
+        prepaidAmount: prepaid.toNumber(),
+        roundingAmount: roundingAmount.toNumber(),
+        payableAmount: expectedTotal.minus(prepaid).toNumber(),
+    };
+};
+
+// ============================================================================
+// BUILD DOCUMENTS
+// ============================================================================
+
+export const buildInvoiceDocument = async (
+    userId: string,
+    invoice: InvoiceWithDetails
+): Promise<EInvoiceDocument> => {
+    const breakdown = buildInvoiceBreakdown(invoice);
+    const { seller, buyer } = await loadParties(userId, invoice.clientId, breakdown.invoiceIsTaxed);
+
+    const taxSubtotals = breakdown.buckets.map((bucket) => toTaxSubtotal(bucket.category, taxableAmount(bucket)));
+
+    return {
+        type: 'invoice',
+        number: invoice.invoiceNumber,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        currency: invoice.currency,
+        note: [invoice.description, invoice.notes].filter(Boolean).join('\n') || null,
+        // we don't store the buyer's own reference (PO / cost centre), so ours stands in
+        buyerReference: invoice.invoiceNumber,
+        paymentTerms: invoice.terms || null,
+        billingReference: null,
+        seller,
+        buyer,
+        lines: breakdown.lines,
+        allowanceCharges: breakdown.allowanceCharges,
+        taxSubtotals,
+        totals: buildTotals(
+            breakdown.lines,
+            breakdown.allowanceCharges,
+            taxSubtotals,
+            new Prisma.Decimal(invoice.amount).plus(invoice.lateCharges),
+            new Prisma.Decimal(invoice.amountPaid)
+        ),
+    };
+};
+
+/**
+ * A credit note only stores a gross amount, so it is spread over the credited
+ * invoice's tax categories in proportion to their gross totals - one line per category
+ */
+export const buildCreditNoteDocument = async (
+    userId: string,
+    creditNote: CreditNoteWithDetails,
+    invoice: InvoiceWithDetails
+): Promise<EInvoiceDocument> => {
+    const breakdown = buildInvoiceBreakdown(invoice);
+    const { seller, buyer } = await loadParties(userId, creditNote.clientId, breakdown.invoiceIsTaxed);
+
+    const categoryGross = breakdown.buckets.map((bucket) => {
+        const taxable = taxableAmount(bucket);
+        return taxable.plus(toTaxSubtotal(bucket.category, taxable).taxAmount);
+    });
+    const shares = allocate(new Prisma.Decimal(creditNote.amount), categoryGross);
+
+    const lines: EInvoiceLine[] = [];
+    const taxSubtotals: EInvoiceTaxSubtotal[] = [];
+
+    breakdown.buckets.forEach((bucket, index) => {
+        if (shares[index].isZero()) return;
+
+        const net = roundMoney(shares[index].dividedBy(new Prisma.Decimal(1).plus(bucket.category.percent / 100)));
+        const name = breakdown.buckets.length > 1 && bucket.category.code === 'S'
+            ? `${creditNote.reason} (${bucket.category.percent}%)`
+            : creditNote.reason;
+
+        lines.push({
+            id: String(lines.length + 1),
+            name,
+            quantity: 1,
+            unitPrice: net.toNumber(),
+            netAmount: net.toNumber(),
+            taxCategory: bucket.category,
+        });
+        taxSubtotals.push(toTaxSubtotal(bucket.category, net));
+    });
+
+    return {
+        type: 'creditNote',
+        number: creditNote.creditNoteNumber,
+        issueDate: creditNote.issueDate,
+        dueDate: null,
+        currency: invoice.currency,
+        note: creditNote.reason,
+        buyerReference: invoice.invoiceNumber,
+        paymentTerms: null,
+        billingReference: { number: invoice.invoiceNumber, issueDate: invoice.issueDate },
+        seller,
+        buyer,
+        lines,
+        allowanceCharges: [],
+        taxSubtotals,
+        totals: buildTotals(lines, [], taxSubtotals, new Prisma.Decimal(creditNote.amount), new Prisma.Decimal(0)),
+    };
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const renderExport = (document: EInvoiceDocument, format: EInvoiceFormat, filenamePrefix: string): EInvoiceExport => {
+    const renderer = EINVOICE_RENDERERS[format];
+
+    return {
+        filename: `${filenamePrefix}-${document.number}.${renderer.extension}`,
+        contentType: renderer.contentType,
+        content: Buffer.from(renderer.render(document), 'utf8'),
+    };
+};
+
+export const exportInvoice = async (
+    userId: string,
+    invoiceId: string,
+    format: EInvoiceFormat
+): Promise<EInvoiceExport> => {
+    try {
+        const invoice = await getInvoiceById(userId, invoiceId);
+        const document = await buildInvoiceDocument(userId, invoice);
+        const result = renderExport(document, format, 'invoice');
+
+        logger.info('Invoice exported as e-invoice', { userId, invoiceId, format });
+
+        return result;
+    } catch (error) {
+        logger.error('Failed to export invoice', { userId, invoiceId, format, error });
+        throw error;
+    }
+};
+
+export const exportCreditNote = async (
+    userId: string,
+    creditNoteId: string,
+    format: EInvoiceFormat
+): Promise<EInvoiceExport> => {
+    try {
+        const creditNote = await getCreditNoteById(userId, creditNoteId);
+        const invoice = await getInvoiceById(userId, creditNote.invoiceId);
+
+        const document = await buildCreditNoteDocument(userId, creditNote, invoice);
+        const result = renderExport(document, format, 'credit-note');
+
+        logger.info('Credit note exported as e-invoice', { userId, creditNoteId, format });
+
+        return result;
+    } catch (error) {
+        logger.error('Failed to export credit note', { userId, creditNoteId, format, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// FACTUR-X (CII embedded in the invoice PDF)
+// ============================================================================
+
+export const buildFacturXml = async (
+    userId: string,
+    invoice: InvoiceWithDetails,
+    profile: FacturXProfile
+): Promise<Buffer> => {
+    const document = await buildInvoiceDocument(userId, invoice);
+
+    return Buffer.from(renderCiiDocument(document, profile), 'utf8');
+};
@@ -0,0 +1,180 @@
+/**
+ * Email Service
+ * Pluggable email transports (SMTP, Brevo, local file outbox)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import * as brevo from '@getbrevo/brevo';
+import { config } from '../config/environment';
+import {
+    EmailAddress,
+    EmailMessage,
+    EmailSendResult,
+    EmailTransport,
+    EmailTransportName,
+} from '../types/email.types';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// HELPER: FORMAT ADDRESS
+// ============================================================================
+
+const formatAddress = (address: EmailAddress): string => {
+    return address.name ? `"${address.name.replace(/"/g, '')}" <${address.email}>` : address.email;
+};
+
+// ============================================================================
+// SMTP TRANSPORT
+// ============================================================================
+
+export const createSmtpTransport = (): EmailTransport => {
+    if (!config.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT=smtp');
+    }
+
+    const transporter = nodemailer.createTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASS } : undefined,
+    });
+
+    return {
+        name: 'smtp',
+        send: async (message: EmailMessage): Promise<EmailSendResult> => {
+            const info = await transporter.sendMail({
+                from: formatAddress(message.from),
+                to: message.to.map(formatAddress),
+                cc: message.cc?.map(formatAddress),
+                replyTo: message.replyTo ? formatAddress(message.replyTo) : undefined,
+                subject: message.subject,
+                text: message.text,
+                attachments: message.attachments?.map((attachment) => ({
+                    filename: attachment.filename,
+                    content: attachment.content,
+                    contentType: attachment.contentType,
+                })),
+            });
+
+            return { messageId: info.messageId ?? null };
+        },
+    };
+};
+
+// ============================================================================
+// BREVO TRANSPORT
+// ============================================================================
+
+export const createBrevoTransport = (): EmailTransport => {
+    if (!config.BREVO_API_KEY) {
+        throw new Error('BREVO_API_KEY is required when EMAIL_TRANSPORT=brevo');
+    }
+
+    const api = new brevo.TransactionalEmailsApi();
+    api.setApiKey(brevo.TransactionalEmailsApiApiKeys.apiKey, config.BREVO_API_KEY);
+
+    return {
+        name: 'brevo',
+        send: async (message: EmailMessage): Promise<EmailSendResult> => {
+            const email = new brevo.SendSmtpEmail();
+            email.sender = message.from;
+            email.to = message.to;
+            email.cc = message.cc?.length ? message.cc : undefined;
+            email.replyTo = message.replyTo;
+            email.subject = message.subject;
+            email.textContent = message.text;
+            email.attachment = message.attachments?.map((attachment) => ({
+                name: attachment.filename,
+                content: attachment.content.toString('base64'),
+            }));
+
+            const { body } = await api.sendTransacEmail(email);
+
+            return { messageId: body.messageId ?? null };
+        },
+    };
+};
+
+// ============================================================================
+// FILE TRANSPORT (local testing - nothing leaves the machine)
+// ============================================================================
+
+export const createFileTransport = (outboxDir: string = config.EMAIL_OUTBOX_DIR): EmailTransport => {
+    return {
+        name: 'file',
+        send: async (message: EmailMessage): Promise<EmailSendResult> => {
+            const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+            const messageDir = path.resolve(outboxDir, messageId);
+
+            await fs.mkdir(messageDir, { recursive: true });
+
+            //headers + body as readable text, attachments next to it
+            const lines = [
+                `From: ${formatAddress(message.from)}`,
+                `To: ${message.to.map(formatAddress).join(', ')}`,
+                ...(message.cc?.length ? [`Cc: ${message.cc.map(formatAddress).join(', ')}`] : []),
+                ...(message.replyTo ? [`Reply-To: ${formatAddress(message.replyTo)}`] : []),
+                `Subject: ${message.subject}`,
+                ...(message.attachments ?? []).map((attachment) => `Attachment: ${attachment.filename}`),
+                '',
+                message.text,
+            ];
+
+            await fs.writeFile(path.join(messageDir, 'message.txt'), lines.join('\n'));
+
+            for (const attachment of message.attachments ?? []) {
+                await fs.writeFile(path.join(messageDir, path.basename(attachment.filename)), attachment.content);
+            }
+
+            logger.info('Email written to outbox', {
+                messageId,
+                to: message.to.map((address) => address.email),
+                subject: message.subject,
+                path: messageDir,
+            });
+
+            return { messageId };
+        },
+    };
+};
+
+// ============================================================================
+// ACTIVE TRANSPORT
+// ============================================================================
+
+const transportFactories: Record<EmailTransportName, () => EmailTransport> = {
+    smtp: createSmtpTransport,
+    brevo: createBrevoTransport,
+    file: () => createFileTransport(),
+};
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Returns the transport selected by EMAIL_TRANSPORT (created on first use)
+ */
+export const getEmailTransport = (): EmailTransport => {
+    if (!activeTransport) {
+        activeTransport = transportFactories[config.EMAIL_TRANSPORT]();
+        logger.info('Email transport initialized', { transport: activeTransport.name });
+    }
+
+    return activeTransport;
+};
+
+/**
+ * Replaces the active transport (e.g. a custom provider or a test double)
+ */
+export const setEmailTransport = (transport: EmailTransport | null): void => {
+    activeTransport = transport;
+};
+
+/**
+ * Sender every outgoing email uses - replies go to the invoice owner instead
+ */
+export const getDefaultSender = (): EmailAddress => ({
+    email: config.FROM_EMAIL,
+    name: config.FROM_NAME,
+});
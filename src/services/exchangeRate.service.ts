@@ -0,0 +1,557 @@
+/**
+ * Exchange Rate Service
+ * Stored daily exchange rates (CSV import or a local provider) and conversion to the user's base currency
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import { config } from '../config/environment';
+import {
+    ConvertedAmount,
+    CurrencyAmount,
+    EXCHANGE_RATE_CSV_COLUMNS,
+    ExchangeRate,
+    ExchangeRateCsvError,
+    ExchangeRateInput,
+    ExchangeRateProvider,
+    ExchangeRateProviderName,
+    ExchangeRateSource,
+    GetExchangeRatesQuery,
+    GetExchangeRatesResponse,
+    ImportExchangeRatesRequest,
+    ImportExchangeRatesResponse,
+    MAX_EXCHANGE_RATE_ROWS,
+    MoneyEntry,
+    SyncExchangeRatesResponse,
+} from '../types/exchangeRate.types';
+import { DEFAULT_CURRENCY } from '../types/locale.types';
+import { getCsvColumns, parseCsv } from '../utils/csv';
+import { BadRequestError, ValidationError } from '../utils/errors';
+import { isSupportedCurrency } from '../utils/i18n';
+import { logger } from '../utils/logger';
+
+// rows written per upsert round trip
+const SAVE_CHUNK_SIZE = 500;
+
+// ============================================================================
+// HELPER: PARSE RATES CSV
+// ============================================================================
+
+const parseRateDate = (value: string): Date | null => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return null;
+    }
+
+    const date = new Date(`${value}T00:00:00.000Z`);
+
+    // rejects dates like 2026-02-30 that Date would roll over
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null;
+};
+
+/**
+ * Reads "date,base,quote,rate" rows. Every bad row is reported at once
+ * so the whole file can be fixed in one go - nothing is saved if any row is bad.
+ */
+export const parseExchangeRatesCsv = (text: string): ExchangeRateInput[] => {
+    const [header, ...rows] = parseCsv(text);
+
+    if (!header) {
+        throw new ValidationError('Exchange rate CSV is empty');
+    }
+
+    const columns = getCsvColumns(header.values);
+    const missingColumns = EXCHANGE_RATE_CSV_COLUMNS.filter((column) => !columns.has(column));
+
+    if (missingColumns.length > 0) {
+        throw new ValidationError(`Exchange rate CSV is missing columns: ${missingColumns.join(', ')}`, {
+            requiredColumns: EXCHANGE_RATE_CSV_COLUMNS,
+        });
+    }
+
+    if (rows.length > MAX_EXCHANGE_RATE_ROWS) {
+        throw new ValidationError(`Exchange rate CSV can have at most ${MAX_EXCHANGE_RATE_ROWS} rows`, {
+            rows: rows.length,
+        });
+    }
+
+    const rates: ExchangeRateInput[] = [];
+    const errors: ExchangeRateCsvError[] = [];
+
+    for (const row of rows) {
+        const value = (column: typeof EXCHANGE_RATE_CSV_COLUMNS[number]) => row.values[columns.get(column)!] ?? '';
+
+        const date = parseRateDate(value('date'));
+        const baseCurrency = value('base').toUpperCase();
+        const quoteCurrency = value('quote').toUpperCase();
+        const rate = Number(value('rate'));
+
+        if (!date) {
+            errors.push({ line: row.line, message: `Invalid date '${value('date')}' (expected YYYY-MM-DD)` });
+        } else if (!isSupportedCurrency(baseCurrency) || !isSupportedCurrency(quoteCurrency)) {
+            errors.push({ line: row.line, message: `Unknown currency in '${baseCurrency}/${quoteCurrency}'` });
+        } else if (baseCurrency === quoteCurrency) {
+            errors.push({ line: row.line, message: 'Base and quote currency must differ' });
+        } else if (!value('rate') || !Number.isFinite(rate) || rate <= 0) {
+            errors.push({ line: row.line, message: `Invalid rate '${value('rate')}'` });
+        } else {
+            rates.push({ baseCurrency, quoteCurrency, rate, date });
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new ValidationError('Exchange rate CSV has invalid rows', {
+            errors: errors.slice(0, 50),
+            errorCount: errors.length,
+        });
+    }
+
+    return rates;
+};
+
+// ============================================================================
+// HELPER: SAVE RATES
+// ============================================================================
+
+/**
+ * Upserts rates for the same pair and day (last row wins within a file).
+ * userId null saves shared provider rates.
+ */
+const saveExchangeRates = async (
+    userId: string | null,
+    rates: ExchangeRateInput[],
+    source: ExchangeRateSource
+): Promise<number> => {
+    const unique = new Map<string, ExchangeRateInput>();
+    rates.forEach((rate) => {
+        unique.set(`${rate.baseCurrency}/${rate.quoteCurrency}/${rate.date.toISOString()}`, rate);
+    });
+
+    const rows = Array.from(unique.values());
+
+    // NULL userIds never collide in the composite unique index, so shared rates
+    // conflict on the partial index over userId IS NULL instead
+    const conflictTarget = userId === null
+        ? Prisma.sql`("baseCurrency", "quoteCurrency", "date") WHERE "userId" IS NULL`
+        : Prisma.sql`("userId", "baseCurrency", "quoteCurrency", "date")`;
+
+    await db.$transaction(async (tx) => {
+        for (let i = 0; i < rows.length; i += SAVE_CHUNK_SIZE) {
+            const chunk = rows.slice(i, i + SAVE_CHUNK_SIZE);
+            const values = chunk.map((rate) => Prisma.sql`(
+                ${randomUUID()}, ${userId}::text, ${rate.baseCurrency}, ${rate.quoteCurrency},
+                ${new Prisma.Decimal(rate.rate).toString()}::decimal, ${rate.date}::date, ${source}, NOW()
+            )`);
+
+            await tx.$executeRaw`
+                INSERT INTO "exchange_rates" ("id", "userId", "baseCurrency", "quoteCurrency", "rate", "date", "source", "updatedAt")
+                VALUES ${Prisma.join(values)}
+                ON CONFLICT ${conflictTarget}
+                DO UPDATE SET "rate" = EXCLUDED."rate", "source" = EXCLUDED."source", "updatedAt" = EXCLUDED."updatedAt"
+            `;
+        }
+    });
+
+    return rows.length;
+};
+
+const serializeExchangeRate = (rate: any): ExchangeRate => {
+    return {
+        id: rate.id,
+        userId: rate.userId,
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        rate: Number(rate.rate),
+        date: rate.date,
+        source: rate.source,
+        createdAt: rate.createdAt,
+        updatedAt: rate.updatedAt,
+    };
+};
+
+// ============================================================================
+// IMPORT EXCHANGE RATES (CSV upload - only used for this user's figures)
+// ============================================================================
+
+export const importExchangeRates = async (
+    userId: string,
+    data: ImportExchangeRatesRequest
+): Promise<ImportExchangeRatesResponse> => {
+    try {
+        const rates = parseExchangeRatesCsv(data.csv);
+
+        if (rates.length === 0) {
+            throw new ValidationError('Exchange rate CSV has no rows');
+        }
+
+        const imported = await saveExchangeRates(userId, rates, 'csv');
+        const times = rates.map((rate) => rate.date.getTime());
+
+        logger.info('Exchange rates imported', { userId, imported });
+
+        return {
+            imported,
+            from: new Date(Math.min(...times)),
+            to: new Date(Math.max(...times)),
+            message: `${imported} exchange rate${imported === 1 ? '' : 's'} imported`,
+        };
+    } catch (error) {
+        logger.error('Failed to import exchange rates', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Reads the same CSV format from a local file (e.g. one a cron job downloads)
+ */
+export const createFileProvider = (filePath: string = config.EXCHANGE_RATES_FILE): ExchangeRateProvider => {
+    return {
+        name: 'file',
+        fetchRates: async (): Promise<ExchangeRateInput[]> => {
+            const text = await fs.readFile(path.resolve(filePath), 'utf8');
+            return parseExchangeRatesCsv(text);
+        },
+    };
+};
+
+const providerFactories: Record<ExchangeRateProviderName, () => ExchangeRateProvider | null> = {
+    none: () => null,
+    file: () => createFileProvider(),
+};
+
+let activeProvider: ExchangeRateProvider | null | undefined;
+
+/**
+ * Returns the provider selected by EXCHANGE_RATE_PROVIDER (null when "none")
+ */
+export const getExchangeRateProvider = (): ExchangeRateProvider | null => {
+    if (activeProvider === undefined) {
+        activeProvider = providerFactories[config.EXCHANGE_RATE_PROVIDER]();
+        logger.info('Exchange rate provider initialized', { provider: activeProvider?.name ?? 'none' });
+    }
+
+    return activeProvider;
+};
+
+/**
+ * Replaces the active provider (e.g. a custom feed or a test double)
+ */
+export const setExchangeRateProvider = (provider: ExchangeRateProvider | null): void => {
+    activeProvider = provider;
+};
+
+// ============================================================================
+// SYNC EXCHANGE RATES (provider -> shared rates)
+// ============================================================================
+
+export const syncExchangeRates = async (): Promise<SyncExchangeRatesResponse> => {
+    try {
+        const provider = getExchangeRateProvider();
+
+        if (!provider) {
+            throw new BadRequestError('No exchange rate provider configured (EXCHANGE_RATE_PROVIDER=none)');
+        }
+
+        const rates = await provider.fetchRates();
+        const imported = rates.length > 0 ? await saveExchangeRates(null, rates, 'provider') : 0;
+
+        logger.info('Exchange rates synced', { provider: provider.name, imported });
+
+        return {
+            provider: provider.name,
+            imported,
+            message: `${imported} exchange rate${imported === 1 ? '' : 's'} loaded from ${provider.name} provider`,
+        };
+    } catch (error) {
+        logger.error('Failed to sync exchange rates', { error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET EXCHANGE RATES
+// ============================================================================
+
+/**
+ * Rates the user's figures are converted with - their own imports and the shared ones
+ */
+export const getExchangeRates = async (
+    userId: string,
+    query: GetExchangeRatesQuery
+): Promise<GetExchangeRatesResponse> => {
+    try {
+        const limit = query.limit || 50;
+        const offset = query.offset || 0;
+
+        const where: any = {
+            OR: [{ userId }, { userId: null }],
+        };
+
+        if (query.base) {
+            where.baseCurrency = query.base;
+        }
+
+        if (query.quote) {
+            where.quoteCurrency = query.quote;
+        }
+
+        if (query.startDate || query.endDate) {
+            where.date = {};
+            if (query.startDate) {
+                where.date.gte = new Date(query.startDate);
+            }
+            if (query.endDate) {
+                where.date.lte = new Date(query.endDate);
+            }
+        }
+
+        const [rates, total] = await Promise.all([
+            db.exchangeRate.findMany({
+                where,
+                orderBy: [{ date: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+                take: limit,
+                skip: offset,
+            }),
+            db.exchangeRate.count({ where }),
+        ]);
+
+        logger.info('Exchange rates fetched', { userId, count: rates.length, total });
+
+        return {
+            rates: rates.map(serializeExchangeRate),
+            total,
+            page: Math.floor(offset / limit) + 1,
+            limit,
+        };
+    } catch (error) {
+        logger.error('Failed to get exchange rates', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// BASE CURRENCY
+// ============================================================================
+
+export const getBaseCurrency = async (userId: string): Promise<string> => {
+    const user = await db.user.findUnique({
+        where: { id: userId },
+        select: { baseCurrency: true },
+    });
+
+    return user?.baseCurrency ?? DEFAULT_CURRENCY;
+};
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toCurrencyAmounts = (totals: Map<string, number>): CurrencyAmount[] => {
+    return Array.from(totals.entries())
+        .map(([currency, amount]) => ({ currency, amount: roundMoney(amount) }))
+        .sort((a, b) => a.currency.localeCompare(b.currency));
+};
+
+// what toMoneyEntry needs from an income or expense row
+export interface LoggedAmount {
+    amount: Prisma.Decimal | number;
+    currency: string;
+    loggedAt: Date;
+}
+
+/**
+ * Income/expense row -> entry converted at the rate of the day it was logged
+ */
+export const toMoneyEntry = (log: LoggedAmount): MoneyEntry => {
+    return { amount: Number(log.amount), currency: log.currency, date: log.loggedAt };
+};
+
+export interface CurrencyConverter {
+    baseCurrency: string;
+    convert(entry: MoneyEntry): number | null;     // null when there is no rate for the entry
+    sum(entries: MoneyEntry[]): ConvertedAmount;
+}
+
+interface RatePoint {
+    time: number;       // rate date (UTC midnight)
+    rate: number;       // 1 unit of the currency in the base currency
+    shared: boolean;
+}
+
+// date range of the entries in one currency
+interface CurrencyRange {
+    earliest: Date;
+    latest: Date;
+}
+
+const ratePairWhere = (currency: string, base: string): Prisma.ExchangeRateWhereInput => ({
+    OR: [
+        { baseCurrency: currency, quoteCurrency: base },
+        { baseCurrency: base, quoteCurrency: currency },
+    ],
+});
+
+/**
+ * Loads the rates the entries need up front, so converting is synchronous.
+ * Each entry uses the latest rate on or before its date - the user's own
+ * rate wins over a shared one for the same day, and an inverse pair
+ * (base -> currency) is used when the direct one isn't there.
+ * Only rates from the last one before each currency's earliest entry up to
+ * its latest entry are read. Entries with no rate at all are left out of
+ * totals and reported as unconverted, rather than mixed into them.
+ */
+export const createCurrencyConverter = async (
+    userId: string,
+    entries: MoneyEntry[],
+    baseCurrency?: string
+): Promise<CurrencyConverter> => {
+    const base = baseCurrency ?? await getBaseCurrency(userId);
+    const ratePoints = new Map<string, RatePoint[]>();
+
+    const ranges = new Map<string, CurrencyRange>();
+    entries.forEach((entry) => {
+        if (entry.currency === base) return;
+
+        const range = ranges.get(entry.currency);
+        if (!range) {
+            ranges.set(entry.currency, { earliest: entry.date, latest: entry.date });
+        } else {
+            if (entry.date < range.earliest) range.earliest = entry.date;
+            if (entry.date > range.latest) range.latest = entry.date;
+        }
+    });
+
+    if (ranges.size > 0) {
+        const ownerWhere: Prisma.ExchangeRateWhereInput = { OR: [{ userId }, { userId: null }] };
+
+        // the rate in force on each currency's earliest entry may be older than the entry
+        const windows = await Promise.all(Array.from(ranges.entries()).map(async ([currency, range]) => {
+            const before = await db.exchangeRate.findFirst({
+                where: { AND: [ownerWhere, ratePairWhere(currency, base)], date: { lte: range.earliest } },
+                orderBy: { date: 'desc' },
+                select: { date: true },
+            });
+
+            return {
+                AND: [ratePairWhere(currency, base)],
+                date: { gte: before?.date ?? range.earliest, lte: range.latest },
+            };
+        }));
+
+        const rows = await db.exchangeRate.findMany({
+            where: {
+                AND: [ownerWhere, { OR: windows }],
+            },
+            select: { userId: true, baseCurrency: true, quoteCurrency: true, rate: true, date: true },
+        });
+
+        rows.forEach((row) => {
+            const currency = row.baseCurrency === base ? row.quoteCurrency : row.baseCurrency;
+            const rate = row.baseCurrency === base ? 1 / Number(row.rate) : Number(row.rate);
+            const points = ratePoints.get(currency) ?? [];
+
+            points.push({ time: row.date.getTime(), rate, shared: row.userId === null });
+            ratePoints.set(currency, points);
+        });
+
+        // newest first, the user's own rate before a shared one on the same day
+        ratePoints.forEach((points) => {
+            points.sort((a, b) => b.time - a.time || Number(a.shared) - Number(b.shared));
+        });
+    }
+
+    const findRate = (currency: string, date: Date): number | null => {
+        if (currency === base) {
+            return 1;
+        }
+
+        const point = ratePoints.get(currency)?.find((p) => p.time <= date.getTime());
+        return point ? point.rate : null;
+    };
+
+    // every missing pair with the earliest date that needs it
+    const missing = new Map<string, Date>();
+    entries.forEach((entry) => {
+        if (findRate(entry.currency, entry.date) === null) {
+            const pair = `${entry.currency}/${base}`;
+            const earliest = missing.get(pair);
+
+            if (!earliest || entry.date < earliest) {
+                missing.set(pair, entry.date);
+            }
+        }
+    });
+
+    if (missing.size > 0) {
+        logger.warn('Missing exchange rates - some entries are left out of converted totals', {
+            userId,
+            baseCurrency: base,
+            missing: Array.from(missing.entries()).map(([pair, date]) => ({
+                pair,
+                neededFrom: date.toISOString().slice(0, 10),
+            })),
+        });
+    }
+
+    const convert = (entry: MoneyEntry): number | null => {
+        const rate = findRate(entry.currency, entry.date);
+        return rate === null ? null : roundMoney(entry.amount * rate);
+    };
+
+    return {
+        baseCurrency: base,
+        convert,
+        sum: (items: MoneyEntry[]): ConvertedAmount => {
+            const original = new Map<string, number>();
+            const unconverted = new Map<string, number>();
+            let amount = 0;
+
+            items.forEach((entry) => {
+                const converted = convert(entry);
+
+                if (converted === null) {
+                    unconverted.set(entry.currency, (unconverted.get(entry.currency) ?? 0) + entry.amount);
+                } else {
+                    amount += converted;
+                }
+                original.set(entry.currency, (original.get(entry.currency) ?? 0) + entry.amount);
+            });
+
+            return {
+                amount: roundMoney(amount),
+                currency: base,
+                original: toCurrencyAmounts(original),
+                unconverted: toCurrencyAmounts(unconverted),
+            };
+        },
+    };
+};
+
+/**
+ * a - b, per original currency too (e.g. income - expenses)
+ */
+export const subtractAmounts = (a: ConvertedAmount, b: ConvertedAmount): ConvertedAmount => {
+    const difference = (left: CurrencyAmount[], right: CurrencyAmount[]): CurrencyAmount[] => {
+        const totals = new Map<string, number>();
+
+        left.forEach((item) => totals.set(item.currency, item.amount));
+        right.forEach((item) => totals.set(item.currency, (totals.get(item.currency) ?? 0) - item.amount));
+
+        return toCurrencyAmounts(totals);
+    };
+
+    return {
+        amount: roundMoney(a.amount - b.amount),
+        currency: a.currency,
+        original: difference(a.original, b.original),
+        unconverted: difference(a.unconverted, b.unconverted),
+    };
+};
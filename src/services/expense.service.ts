@@ -3,18 +3,27 @@
  * Business logic for expense tracking
  */
 
+import { Prisma } from '@prisma/client';
 import { db } from '../config/database';
 import {
     LogExpenseRequest,
     LogExpenseResponse,
+    UpdateExpenseRequest,
+    UpdateExpenseResponse,
     GetExpenseQuery,
     GetExpenseResponse,
     ExpenseSummaryQuery,
     ExpenseSummary,
     ExpenseLog,
+    UNCATEGORIZED_EXPENSE,
 } from '../types/expense.types';
+import { EntryRevision, FieldChange, GetEntryRevisionsResponse } from '../types/revision.types';
 import { NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { diffFields } from '../utils/revisions';
+import { categorizeEntry, mergeTags } from './categorizationRule.service';
+import { createCurrencyConverter, getBaseCurrency, subtractAmounts, toMoneyEntry } from './exchangeRate.service';
+import { deleteStoredReceipts } from './receipt.service';
 
 // ============================================================================
 // LOG EXPENSE
@@ -24,19 +33,34 @@ export const logExpense = async (
     data: LogExpenseRequest
 ): Promise<LogExpenseResponse> => {
     try {
+        // categorization rules fill in what wasn't given
+        const rules = await categorizeEntry(userId, 'expense', {
+            description: data.description,
+            counterparty: null,
+            amount: Number(data.amount),
+        });
+
         const expense = await db.expenseLog.create({
             data: {
                 userId,
                 amount: data.amount,
-                category: data.category,
+                currency: data.currency ?? await getBaseCurrency(userId),
+                category: data.category ?? rules.category ?? UNCATEGORIZED_EXPENSE,
                 description: data.description,
-                isDeductible: data.isDeductible !== undefined ? data.isDeductible : true,
+                isDeductible: data.isDeductible ?? rules.isDeductible ?? true,
                 receiptUrl: data.receiptUrl,
+                tags: mergeTags(data.tags, rules.tags),
                 loggedAt: data.loggedAt ? new Date(data.loggedAt) : new Date(),
             },
         });
 
-        logger.info('Expense logged', { userId, expenseId: expense.id, amount: expense.amount });
+        logger.info('Expense logged', {
+            userId,
+            expenseId: expense.id,
+            amount: expense.amount,
+            currency: expense.currency,
+            ruleIds: rules.ruleIds,
+        });
 
         return {
             expense,
@@ -94,19 +118,15 @@ export const getExpenseHistory = async (
         // Get total count
         const total = await db.expenseLog.count({ where });
 
-        // Calculate amounts
-        const aggregation = await db.expenseLog.aggregate({
+        // Calculate amounts (each expense converted to the base currency at its date)
+        const matching = await db.expenseLog.findMany({
             where,
-            _sum: { amount: true },
-        });
-
-        const deductibleAggregation = await db.expenseLog.aggregate({
-            where: { ...where, isDeductible: true },
-            _sum: { amount: true },
+            select: { amount: true, currency: true, loggedAt: true, isDeductible: true },
         });
 
-        const totalAmount = Number(aggregation._sum.amount || 0);
-        const deductibleAmount = Number(deductibleAggregation._sum.amount || 0);
+        const converter = await createCurrencyConverter(userId, matching.map(toMoneyEntry));
+        const totalAmount = converter.sum(matching.map(toMoneyEntry));
+        const deductibleAmount = converter.sum(matching.filter((log) => log.isDeductible).map(toMoneyEntry));
 
         logger.info('Expense history retrieved', { userId, count: expenses.length });
 
@@ -152,27 +172,28 @@ export const getExpenseSummary = async (
             },
         });
 
-        // Calculate totals
-        const totalExpenses = expenses.reduce((sum, log) => sum + Number(log.amount), 0);
+        // Calculate totals (in the base currency)
+        const converter = await createCurrencyConverter(userId, expenses.map(toMoneyEntry));
+        const totalExpenses = converter.sum(expenses.map(toMoneyEntry));
         const totalEntries = expenses.length;
-        const deductibleAmount = expenses
-            .filter((log) => log.isDeductible)
-            .reduce((sum, log) => sum + Number(log.amount), 0);
-        const nonDeductibleAmount = totalExpenses - deductibleAmount;
+        const deductibleAmount = converter.sum(expenses.filter((log) => log.isDeductible).map(toMoneyEntry));
+        const nonDeductibleAmount = subtractAmounts(totalExpenses, deductibleAmount);
 
         // Group by category
-        const categoryMap = new Map<string, { amount: number; count: number }>();
+        const categoryMap = new Map<string, typeof expenses>();
         expenses.forEach((log) => {
-            const existing = categoryMap.get(log.category) || { amount: 0, count: 0 };
-            categoryMap.set(log.category, {
-                amount: existing.amount + Number(log.amount),
-                count: existing.count + 1,
-            });
+            const logs = categoryMap.get(log.category) || [];
+            logs.push(log);
+            categoryMap.set(log.category, logs);
         });
 
         const byCategory = Array.from(categoryMap.entries())
-            .map(([category, data]) => ({ category, ...data }))
-            .sort((a, b) => b.amount - a.amount);
+            .map(([category, logs]) => ({
+                category,
+                amount: converter.sum(logs.map(toMoneyEntry)),
+                count: logs.length,
+            }))
+            .sort((a, b) => b.amount.amount - a.amount.amount);
 
         logger.info('Expense summary generated', { userId, month, year });
 
@@ -190,6 +211,137 @@ export const getExpenseSummary = async (
     }
 };
 
+// ============================================================================
+// HELPER: SERIALIZE REVISION
+// ============================================================================
+
+const toEntryRevision = (revision: Prisma.ExpenseRevisionGetPayload<{}>): EntryRevision => {
+    return {
+        id: revision.id,
+        entryId: revision.expenseLogId,
+        changes: revision.changes as unknown as FieldChange[],
+        reason: revision.reason,
+        actorId: revision.actorId,
+        createdAt: revision.createdAt,
+    };
+};
+
+// ============================================================================
+// UPDATE EXPENSE
+// ============================================================================
+
+const EXPENSE_REVISION_FIELDS = [
+    'amount',
+    'currency',
+    'category',
+    'description',
+    'isDeductible',
+    'receiptUrl',
+    'tags',
+    'loggedAt',
+] as const;
+
+/**
+ * Edits an expense in place (keeping its payment links) and records the
+ * previous values as a revision
+ */
+export const updateExpense = async (
+    userId: string,
+    expenseId: string,
+    data: UpdateExpenseRequest
+): Promise<UpdateExpenseResponse> => {
+    try {
+        const expense = await db.expenseLog.findUnique({
+            where: { id: expenseId },
+        });
+
+        if (!expense || expense.userId !== userId) {
+            throw new NotFoundError('Expense record not found');
+        }
+
+        const { reason, ...fields } = data;
+        const updates: Record<string, unknown> = {
+            ...fields,
+            tags: fields.tags ? mergeTags(fields.tags) : undefined,
+            loggedAt: fields.loggedAt ? new Date(fields.loggedAt) : undefined,
+        };
+
+        const changes = diffFields(expense, updates, EXPENSE_REVISION_FIELDS);
+
+        if (changes.length === 0) {
+            return {
+                expense,
+                revision: null,
+                message: 'No changes to save',
+            };
+        }
+
+        // the edit and its revision are written together
+        const [updated, revision] = await db.$transaction([
+            db.expenseLog.update({
+                where: { id: expenseId },
+                data: Object.fromEntries(changes.map((change) => [change.field, updates[change.field]])),
+            }),
+            db.expenseRevision.create({
+                data: {
+                    expenseLogId: expenseId,
+                    changes: changes as unknown as Prisma.JsonArray,
+                    reason,
+                    actorId: userId,
+                },
+            }),
+        ]);
+
+        logger.info('Expense updated', {
+            userId,
+            expenseId,
+            fields: changes.map((change) => change.field),
+        });
+
+        return {
+            expense: updated,
+            revision: toEntryRevision(revision),
+            message: 'Expense updated successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to update expense', { error, userId, expenseId });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET EXPENSE REVISIONS
+// ============================================================================
+
+export const getExpenseRevisions = async (
+    userId: string,
+    expenseId: string
+): Promise<GetEntryRevisionsResponse> => {
+    try {
+        const expense = await db.expenseLog.findUnique({
+            where: { id: expenseId },
+            select: { userId: true },
+        });
+
+        if (!expense || expense.userId !== userId) {
+            throw new NotFoundError('Expense record not found');
+        }
+
+        const revisions = await db.expenseRevision.findMany({
+            where: { expenseLogId: expenseId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return {
+            entryId: expenseId,
+            revisions: revisions.map(toEntryRevision),
+        };
+    } catch (error) {
+        logger.error('Failed to get expense revisions', { error, userId, expenseId });
+        throw error;
+    }
+};
+
 // ============================================================================
 // DELETE EXPENSE
 // ============================================================================
@@ -217,6 +369,9 @@ export const deleteExpense = async (
             where: { id: expenseId },
         });
 
+        // the uploaded receipt goes with it
+        await deleteStoredReceipts([expense.receiptKey]);
+
         logger.info('Expense deleted', { userId, expenseId });
 
         return {
@@ -13,7 +13,9 @@ import {
     GoalsListResponse,
 } from '../types/goal.types';
 import { NotFoundError, BadRequestError } from '../utils/errors';
+import { formatMoney } from '../utils/i18n';
 import { logger } from '../utils/logger';
+import { getBaseCurrency } from './exchangeRate.service';
 
 // ============================================================================
 // CREATE GOAL
@@ -30,6 +32,7 @@ export const createGoal = async (
                 category: data.category,
                 targetAmount: data.targetAmount,
                 currentAmount: data.currentAmount || 0,
+                currency: data.currency ?? await getBaseCurrency(userId),
                 deadline: data.deadline ? new Date(data.deadline) : null,
                 description: data.description || null,
             }
@@ -128,6 +131,7 @@ export const updateGoal = async (
                 category: data.category,
                 targetAmount: data.targetAmount,
                 currentAmount: data.currentAmount,
+                currency: data.currency,
                 deadline: data.deadline ? new Date(data.deadline) : undefined,
                 description: data.description,
             },
@@ -214,7 +218,7 @@ export const addFundsToGoal = async (
         // Check if adding funds would exceed target
         if (newAmount > targetAmount) {
             throw new BadRequestError(
-                `Adding $${data.amount} would exceed target amount of $${targetAmount}`
+                `Adding ${formatMoney(Number(data.amount), existingGoal.currency)} would exceed target amount of ${formatMoney(targetAmount, existingGoal.currency)}`
             );
         }
 
@@ -236,7 +240,7 @@ export const addFundsToGoal = async (
 
         return {
             goal: formatGoal(goal),
-            message: `$${data.amount} added to goal successfully`,
+            message: `${formatMoney(Number(data.amount), goal.currency)} added to goal successfully`,
         };
     } catch (error) {
         logger.error('Failed to add funds to goal', { error, userId, goalId });
@@ -271,6 +275,7 @@ function formatGoal(goal: any): Goal {
         category: goal.category,
         targetAmount: target,
         currentAmount: current,
+        currency: goal.currency,
         deadline: goal.deadline,
         description: goal.description,
         progress: progress,
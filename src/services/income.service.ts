@@ -3,25 +3,33 @@
  * Business logic for income tracking
  */
 
+import { Prisma } from '@prisma/client';
 import { db } from '../config/database';
 import {
   LogIncomeRequest,
   LogIncomeResponse,
+  UpdateIncomeRequest,
+  UpdateIncomeResponse,
   GetIncomeQuery,
   GetIncomeResponse,
   IncomeSummaryQuery,
   IncomeSummary,
   IncomeLog,
 } from '../types/income.types';
-import { NotFoundError } from '../utils/errors';
+import { BILLABLE_INCOME_SOURCES, COUNTED_INCOME_WHERE } from '../types/invoice.types';
+import { EntryRevision, FieldChange, GetEntryRevisionsResponse } from '../types/revision.types';
+import { BadRequestError, NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { diffFields } from '../utils/revisions';
+import { categorizeEntry, incomeCategorizationInput, mergeTags } from './categorizationRule.service';
+import { createCurrencyConverter, getBaseCurrency, toMoneyEntry } from './exchangeRate.service';
 
 // ============================================================================
 // LOG INCOME (WITH SMART CLIENT MATCHING)
 // ============================================================================
 
 /**
- * Logs income and automatically links to client if possible
+ * Works out which client an income entry links to (used when logging and editing)
  * 
  * Smart Matching Logic:
  * 1. If clientId provided → use it directly
@@ -29,63 +37,83 @@ import { logger } from '../utils/logger';
  * 3. If match found → auto-link with clientId
  * 4. If no match → just save clientName (for backward compatibility)
  */
+export const resolveIncomeClient = async (
+    userId: string,
+    data: { clientId?: string; clientName?: string }
+): Promise<{ clientId?: string; clientName?: string }> => {
+    let clientId = data.clientId;
+    let clientName = data.clientName;
+
+    // SMART MATCHING: If no clientId but clientName provided
+    if (!clientId && clientName) {
+        // Try to find existing client by name (case-insensitive)
+        const existingClient = await db.client.findFirst({
+            where: {
+            userId,
+            name: {
+                equals: clientName,
+                mode: 'insensitive',  // "ABC Corp" matches "abc corp"
+            },
+            },
+        });
+
+        if (existingClient) {
+            clientId = existingClient.id;  // Auto-link to found client!
+            logger.info('Auto-linked income to existing client', {
+            userId,
+            clientName,
+            clientId,
+            });
+        }
+    }
+
+    // If clientId provided but no clientName, fetch client name
+    if (clientId && !clientName) {
+        const client = await db.client.findUnique({
+            where: { id: clientId },
+        });
+
+        if (client && client.userId === userId) {
+            clientName = client.name;  // Use client's name from database
+        } else {
+            throw new NotFoundError('Client not found');
+        }
+    }
+
+    return { clientId, clientName };
+};
+
+/**
+ * Logs income and automatically links to client if possible
+ */
 export const logIncome = async (
   userId: string,
   data: LogIncomeRequest
 ): Promise<LogIncomeResponse> => {
     try {
-        let clientId = data.clientId;
-        let clientName = data.clientName;
-
-        // SMART MATCHING: If no clientId but clientName provided
-        if (!clientId && clientName) {
-            // Try to find existing client by name (case-insensitive)
-            const existingClient = await db.client.findFirst({
-                where: {
-                userId,
-                name: {
-                    equals: clientName,
-                    mode: 'insensitive',  // "ABC Corp" matches "abc corp"
-                },
-                },
-            });
-
-            if (existingClient) {
-                clientId = existingClient.id;  // Auto-link to found client!
-                logger.info('Auto-linked income to existing client', {
-                userId,
-                clientName,
-                clientId,
-                });
-            }
-        }
+        // categorization rules fill in what wasn't given
+        const rules = await categorizeEntry(userId, 'income', incomeCategorizationInput(data));
 
-        // If clientId provided but no clientName, fetch client name
-        if (clientId && !clientName) {
-            const client = await db.client.findUnique({
-                where: { id: clientId },
-            });
-
-            if (client && client.userId === userId) {
-                clientName = client.name;  // Use client's name from database
-            } else {
-                throw new NotFoundError('Client not found');
-            }
-        }
+        const { clientId, clientName } = await resolveIncomeClient(
+            userId,
+            data.clientId || data.clientName ? data : { clientId: rules.clientId }
+        );
 
         // Create income log
         const income = await db.incomeLog.create({
             data: {
                 userId,
                 amount: data.amount,
+                currency: data.currency ?? await getBaseCurrency(userId),
                 projectName: data.projectName,
                 clientName: clientName,
                 clientId: clientId,  // Will be null if no match found
-                skill: data.skill,
+                skill: data.skill ?? rules.skill,
                 hours: data.hours,
                 ratePerHour: data.ratePerHour,
                 source: data.source || 'manual',
                 notes: data.notes,
+                tags: mergeTags(data.tags, rules.tags),
                 loggedAt: data.loggedAt ? new Date(data.loggedAt) : new Date(),
             },
         });
@@ -94,8 +122,10 @@ export const logIncome = async (
             userId,
             incomeId: income.id,
             amount: income.amount.toString(),
+            currency: income.currency,
             clientId: income.clientId,
             clientName: income.clientName,
+            ruleIds: rules.ruleIds,
         });
 
         return {
@@ -161,11 +191,11 @@ export const getIncomeHistory = async (
             skip: query.offset || 0,
         });
 
-        // Calculate total amount
-        const totalAmount = incomeLogs.reduce(
-            (sum, log) => sum + Number(log.amount),
-            0
-        );
+        // Calculate total amount (in the base currency) - billed work is counted through its invoice's payments
+        const entries = incomeLogs.filter((log) => !log.billedInvoiceId).map(toMoneyEntry);
+        const converter = await createCurrencyConverter(userId, entries);
+        const totalAmount = converter.sum(entries);
+
         // Calculate page number
         const limit = query.limit || 50;
         const offset = query.offset || 0;
@@ -211,6 +241,7 @@ export const getIncomeSummary = async (
         const incomeLogs = await db.incomeLog.findMany({
             where: {
                 userId,
+                ...COUNTED_INCOME_WHERE,
                 loggedAt: {
                 gte: startDate,
                 lte: endDate,
@@ -218,11 +249,10 @@ export const getIncomeSummary = async (
             },
         });
 
-        // Calculate totals
-        const totalIncome = incomeLogs.reduce(
-            (sum, log) => sum + Number(log.amount),
-            0
-        );
+        // Calculate totals (in the base currency)
+        const entries = incomeLogs.map(toMoneyEntry);
+        const converter = await createCurrencyConverter(userId, entries);
+        const totalIncome = converter.sum(entries);
 
         const totalEntries = incomeLogs.length;
 
@@ -231,29 +261,31 @@ export const getIncomeSummary = async (
             0
         );
 
-        const averageRate = totalHours > 0 ? totalIncome / totalHours : 0;
+        const averageRate = totalHours > 0 ? Math.round((totalIncome.amount / totalHours) * 100) / 100 : 0;
 
         // Group by skill
-        const skillMap = new Map<string, { amount: number; count: number }>();
+        const skillMap = new Map<string, typeof incomeLogs>();
         incomeLogs.forEach((log) => {
             if (log.skill) {
-                const existing = skillMap.get(log.skill) || { amount: 0, count: 0 };
-                skillMap.set(log.skill, {
-                amount: existing.amount + Number(log.amount),
-                count: existing.count + 1,
-                });
+                const logs = skillMap.get(log.skill) || [];
+                logs.push(log);
+                skillMap.set(log.skill, logs);
             }
         });
 
         const topSkills = Array.from(skillMap.entries())
-            .map(([skill, data]) => ({ skill, ...data }))
-            .sort((a, b) => b.amount - a.amount)
+            .map(([skill, logs]) => ({
+                skill,
+                amount: converter.sum(logs.map(toMoneyEntry)),
+                count: logs.length,
+            }))
+            .sort((a, b) => b.amount.amount - a.amount.amount)
             .slice(0, 5);
 
         // Group by client (include both clientId and clientName)
         const clientMap = new Map<
             string,
-            { clientName: string; clientId: string | null; amount: number; count: number }
+            { clientName: string; clientId: string | null; logs: typeof incomeLogs }
         >();
 
         incomeLogs.forEach((log) => {
@@ -263,21 +295,24 @@ export const getIncomeSummary = async (
                 const existing = clientMap.get(key);
 
                 if (existing) {
-                existing.amount += Number(log.amount);
-                existing.count += 1;
+                existing.logs.push(log);
                 } else {
                 clientMap.set(key, {
                     clientName: log.clientName,
                     clientId: log.clientId,
-                    amount: Number(log.amount),
-                    count: 1,
+                    logs: [log],
                 });
                 }
             }
         });
 
         const topClients = Array.from(clientMap.values())
-            .sort((a, b) => b.amount - a.amount)
+            .map(({ logs, ...client }) => ({
+                ...client,
+                amount: converter.sum(logs.map(toMoneyEntry)),
+                count: logs.length,
+            }))
+            .sort((a, b) => b.amount.amount - a.amount.amount)
             .slice(0, 5);
 
         logger.info('Income summary generated', { userId, month, year });
@@ -297,6 +332,171 @@ export const getIncomeSummary = async (
     }
 };
 
+// ============================================================================
+// HELPER: SERIALIZE REVISION
+// ============================================================================
+
+const toEntryRevision = (revision: Prisma.IncomeRevisionGetPayload<{}>): EntryRevision => {
+    return {
+        id: revision.id,
+        entryId: revision.incomeLogId,
+        changes: revision.changes as unknown as FieldChange[],
+        reason: revision.reason,
+        actorId: revision.actorId,
+        createdAt: revision.createdAt,
+    };
+};
+
+// ============================================================================
+// UPDATE INCOME
+// ============================================================================
+
+const INCOME_REVISION_FIELDS = [
+    'amount',
+    'currency',
+    'projectName',
+    'clientName',
+    'clientId',
+    'skill',
+    'hours',
+    'ratePerHour',
+    'notes',
+    'tags',
+    'loggedAt',
+] as const;
+
+// income written by invoice payments, credit notes and bank statements has to keep matching its payment
+const LOCKED_PAYMENT_FIELDS = ['amount', 'currency'];
+
+/**
+ * Edits an income entry in place (keeping its invoice and payment links)
+ * and records the previous values as a revision
+ */
+export const updateIncome = async (
+    userId: string,
+    incomeId: string,
+    data: UpdateIncomeRequest
+): Promise<UpdateIncomeResponse> => {
+    try {
+        const income = await db.incomeLog.findUnique({
+            where: { id: incomeId },
+        });
+
+        if (!income || income.userId !== userId) {
+            throw new NotFoundError('Income record not found');
+        }
+
+        const { reason, ...fields } = data;
+        const updates: Record<string, unknown> = {
+            ...fields,
+            tags: fields.tags ? mergeTags(fields.tags) : undefined,
+            loggedAt: fields.loggedAt ? new Date(fields.loggedAt) : undefined,
+        };
+
+        // Client re-linking
+        if (fields.clientId === null) {
+            // unlinked - the name stays as free text unless it's changed too
+            updates.clientId = null;
+        } else if (fields.clientName === null && fields.clientId === undefined) {
+            updates.clientId = null;
+        } else if (fields.clientId !== undefined || fields.clientName !== undefined) {
+            const resolved = await resolveIncomeClient(userId, {
+                clientId: fields.clientId,
+                clientName: fields.clientName ?? undefined,
+            });
+
+            updates.clientId = resolved.clientId ?? null;
+            updates.clientName = resolved.clientName ?? null;
+        }
+
+        const changes = diffFields(income, updates, INCOME_REVISION_FIELDS);
+
+        if (changes.length === 0) {
+            return {
+                income: income as IncomeLog,
+                revision: null,
+                message: 'No changes to save',
+            };
+        }
+
+        const isBillable = (BILLABLE_INCOME_SOURCES as readonly string[]).includes(income.source);
+        const lockedChanges = changes.filter((change) => LOCKED_PAYMENT_FIELDS.includes(change.field));
+
+        if (!isBillable && lockedChanges.length > 0) {
+            throw new BadRequestError(
+                income.source === 'bank_statement'
+                    ? 'The amount of income imported from a bank statement cannot be edited'
+                    : 'The amount of income recorded from an invoice payment or credit note cannot be edited - correct the invoice instead',
+                { fields: lockedChanges.map((change) => change.field) }
+            );
+        }
+
+        // the edit and its revision are written together
+        const [updated, revision] = await db.$transaction([
+            db.incomeLog.update({
+                where: { id: incomeId },
+                data: Object.fromEntries(changes.map((change) => [change.field, updates[change.field]])),
+            }),
+            db.incomeRevision.create({
+                data: {
+                    incomeLogId: incomeId,
+                    changes: changes as unknown as Prisma.JsonArray,
+                    reason,
+                    actorId: userId,
+                },
+            }),
+        ]);
+
+        logger.info('Income updated', {
+            userId,
+            incomeId,
+            fields: changes.map((change) => change.field),
+        });
+
+        return {
+            income: updated as IncomeLog,
+            revision: toEntryRevision(revision),
+            message: 'Income updated successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to update income', { userId, incomeId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET INCOME REVISIONS
+// ============================================================================
+
+export const getIncomeRevisions = async (
+    userId: string,
+    incomeId: string
+): Promise<GetEntryRevisionsResponse> => {
+    try {
+        const income = await db.incomeLog.findUnique({
+            where: { id: incomeId },
+            select: { userId: true },
+        });
+
+        if (!income || income.userId !== userId) {
+            throw new NotFoundError('Income record not found');
+        }
+
+        const revisions = await db.incomeRevision.findMany({
+            where: { incomeLogId: incomeId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return {
+            entryId: incomeId,
+            revisions: revisions.map(toEntryRevision),
+        };
+    } catch (error) {
+        logger.error('Failed to get income revisions', { userId, incomeId, error });
+        throw error;
+    }
+};
+
 // ============================================================================
 // DELETE INCOME
 // ============================================================================
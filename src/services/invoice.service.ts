@@ -8,72 +8,149 @@ import { db } from '../config/database';
 import {
     CreateInvoiceRequest,
     CreateInvoiceResponse,
+    DuplicateInvoiceRequest,
     GetInvoicesQuery,
     GetInvoicesResponse,
     UpdateInvoiceRequest,
     UpdateInvoiceResponse,
-    MarkInvoiceAsPaidRequest,
-    MarkInvoiceAsPaidResponse,
     Invoice,
     InvoiceWithClient,
     InvoiceWithDetails,
-    InvoiceEmailTemplate,
-    ClientStats
+    InvoiceStatus,
+    InvoiceTransitionRequest,
+    InvoiceTransitionResponse,
+    InvoiceDiscount,
+    InvoiceLineItem,
+    InvoiceTaxRate,
+    ClientStats,
+    DiscountType,
+    EDITABLE_INVOICE_STATUSES,
 } from '../types/invoice.types';
-import { NotFoundError } from '../utils/errors';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import * as mlService from './ml.service';
+import { transitionInvoiceStatus, recordInitialStatus } from './invoiceStatus.service';
+import { calculateInvoiceTotals, InvoiceTotalsInput } from './invoiceTotals.service';
+import { ensureInvoiceSequence, getNextInvoiceNumber } from './invoiceNumbering.service';
 
 // ============================================================================
 // HELPER: SERIALIZE INVOICE (Convert Prisma.Decimal to number)
 // ============================================================================
-const serializeInvoice = (invoice: any): Invoice => {
+const toNumber = (value: any): number => {
+    return value instanceof Prisma.Decimal ? value.toNumber() : Number(value ?? 0);
+};
+
+/**
+ * What the client still owes: amount + late charges - credit notes - payments (never negative)
+ */
+export const getBalanceDue = (invoice: {
+    amount: Prisma.Decimal;
+    amountPaid: Prisma.Decimal;
+    amountCredited: Prisma.Decimal;
+    lateCharges: Prisma.Decimal;
+}): Prisma.Decimal => {
+    return Prisma.Decimal.max(
+        invoice.amount.plus(invoice.lateCharges).minus(invoice.amountCredited).minus(invoice.amountPaid),
+        0
+    );
+};
+
+const serializeAmounts = (invoice: any) => {
+    const amount = toNumber(invoice.amount);
+    const amountPaid = toNumber(invoice.amountPaid);
+    const amountCredited = toNumber(invoice.amountCredited);
+    const lateCharges = toNumber(invoice.lateCharges);
+
+    return {
+        amount,
+        subtotal: toNumber(invoice.subtotal),
+        discountValue: invoice.discountValue == null ? null : toNumber(invoice.discountValue),
+        discountAmount: toNumber(invoice.discountAmount),
+        taxAmount: toNumber(invoice.taxAmount),
+        shipping: toNumber(invoice.shipping),
+        amountPaid,
+        amountCredited,
+        lateFeeAmount: invoice.lateFeeAmount == null ? null : toNumber(invoice.lateFeeAmount),
+        lateInterestRate: invoice.lateInterestRate == null ? null : toNumber(invoice.lateInterestRate),
+        lateCharges,
+        balanceDue: getBalanceDue({
+            amount: new Prisma.Decimal(amount),
+            amountPaid: new Prisma.Decimal(amountPaid),
+            amountCredited: new Prisma.Decimal(amountCredited),
+            lateCharges: new Prisma.Decimal(lateCharges),
+        }).toNumber(),
+    };
+};
+
+export const serializeInvoice = (invoice: any): Invoice => {
     return {
         ...invoice,
-        amount: invoice.amount instanceof Prisma.Decimal ? invoice.amount.toNumber() : invoice.amount,
+        ...serializeAmounts(invoice),
         items: invoice.items,
     };
 };
 
-const serializeInvoiceWithClient = (invoice: any): InvoiceWithClient => {
+export const serializeInvoiceWithClient = (invoice: any): InvoiceWithClient => {
     return {
         ...invoice,
-        amount: invoice.amount instanceof Prisma.Decimal ? invoice.amount.toNumber() : invoice.amount,
+        ...serializeAmounts(invoice),
         items: invoice.items,
     };
 };
 
-const serializeInvoiceWithDetails = (invoice: any): InvoiceWithDetails => {
+export const serializeInvoiceWithDetails = (invoice: any): InvoiceWithDetails => {
     return {
         ...invoice,
-        amount: invoice.amount instanceof Prisma.Decimal ? invoice.amount.toNumber() : invoice.amount,
+        ...serializeAmounts(invoice),
         items: invoice.items,
+        incomeLog: invoice.incomeLog
+            ? { ...invoice.incomeLog, amount: toNumber(invoice.incomeLog.amount) }
+            : invoice.incomeLog,
     };
 };
 
 // ============================================================================
-// HELPER: GENERATE INVOICE NUMBER
+// HELPER: DEFAULT CURRENCY & LOCALE
 // ============================================================================
 
 /**
- * Generates unique invoice number in format: INV-YYYY-001
+ * Currency and locale a document falls back to - the client's, then the user's
  */
-const generateInvoiceNumber = async (userId: string): Promise<string> => {
-    const year = new Date().getFullYear();
+export const getDefaultLocalization = async (
+    userId: string,
+    clientId: string
+): Promise<{ currency: string; locale: string }> => {
+    const [client, user] = await Promise.all([
+        db.client.findUniqueOrThrow({ where: { id: clientId }, select: { currency: true, locale: true } }),
+        db.user.findUniqueOrThrow({ where: { id: userId }, select: { currency: true, locale: true } }),
+    ]);
 
-    //get count of invoices for the year
-    const count = await db.invoice.count({
-        where: {
-            userId,
-            invoiceNumber: {
-                startsWith: `INV-${year}-`
-            }
-        }
-    });
+    return {
+        currency: client.currency ?? user.currency,
+        locale: client.locale ?? user.locale,
+    };
+};
+
+// ============================================================================
+// HELPER: COMPUTE TOTALS (amount is never taken from the client as-is)
+// ============================================================================
+const buildTotalsData = (input: InvoiceTotalsInput) => {
+    const { items, totals } = calculateInvoiceTotals(input);
 
-    //generate seq number
-    const sequence = String(count + 1).padStart(3, '0');
-    return `INV-${year}-${sequence}`;
+    return {
+        amount: totals.total,
+        subtotal: totals.subtotal,
+        items: items ? (JSON.parse(JSON.stringify(items)) as Prisma.JsonArray) : Prisma.DbNull,
+        discountType: input.discount?.type ?? null,
+        discountValue: input.discount?.value ?? null,
+        discountAmount: totals.discountAmount,
+        taxes: input.taxes?.length ? (JSON.parse(JSON.stringify(input.taxes)) as Prisma.JsonArray) : Prisma.DbNull,
+        taxAmount: totals.taxAmount,
+        taxBreakdown: totals.taxBreakdown.length
+            ? (JSON.parse(JSON.stringify(totals.taxBreakdown)) as Prisma.JsonArray)
+            : Prisma.DbNull,
+        shipping: totals.shipping,
+    };
 };
 
 // ============================================================================
@@ -82,7 +159,14 @@ const generateInvoiceNumber = async (userId: string): Promise<string> => {
 
 export const createInvoice = async (
     userId: string,
-    data: CreateInvoiceRequest
+    data: CreateInvoiceRequest,
+    options: {
+        recurringInvoiceId?: string;
+        issueDate?: Date;
+        billIncomeLogIds?: string[];
+        // runs in the invoice's transaction - a throw rolls the invoice back
+        onCreated?: (tx: Prisma.TransactionClient, invoice: { id: string }) => Promise<void>;
+    } = {}
 ): Promise<CreateInvoiceResponse> => {
     try {
         // 1. Verify client exists
@@ -94,25 +178,90 @@ export const createInvoice = async (
             throw new NotFoundError('Client not found');
         }
 
-        // 2. Generate invoice number
-        const invoiceNumber = await generateInvoiceNumber(userId);
+        // 2. Compute subtotal, discount, taxes and total
+        const totalsData = buildTotalsData({
+            amount: data.amount,
+            items: data.items,
+            discount: data.discount,
+            taxes: data.taxes,
+            shipping: data.shipping,
+            recalculate: data.recalculate,
+        });
 
-        // 3. Create invoice 
-        const invoice = await db.invoice.create({
-            data: {
-                userId,
-                clientId: data.clientId,
-                invoiceNumber,
-                amount: data.amount,
-                description: data.description,
-                items: data.items ? (JSON.parse(JSON.stringify(data.items)) as Prisma.JsonArray) : undefined,
-                dueDate: new Date(data.dueDate),
-                notes: data.notes,
-                terms: data.terms,
+        // 3. Payment terms - anything not set on the invoice comes from the client
+        const paymentTerms = {
+            netDays: data.netDays !== undefined ? data.netDays : client.netDays,
+            lateFeeAmount: data.lateFeeAmount !== undefined ? data.lateFeeAmount : client.lateFeeAmount,
+            lateInterestRate: data.lateInterestRate !== undefined ? data.lateInterestRate : client.lateInterestRate,
+            graceDays: data.graceDays !== undefined ? data.graceDays : client.graceDays,
+        };
+
+        if (!data.dueDate && paymentTerms.netDays == null) {
+            throw new BadRequestError('Due date is required when neither the invoice nor the client has net payment days');
+        }
+
+        const dueDate = data.dueDate
+            ? new Date(data.dueDate)
+            : new Date(Date.now() + (paymentTerms.netDays as number) * 24 * 60 * 60 * 1000);
+
+        // 4. Currency and locale - the invoice's own, then the client's, then the user's defaults
+        const user = await db.user.findUniqueOrThrow({
+            where: { id: userId },
+            select: { currency: true, locale: true }
+        });
+
+        const localization = {
+            currency: data.currency ?? client.currency ?? user.currency,
+            locale: data.locale ?? client.locale ?? user.locale,
+        };
+
+        // 5. Make sure the user's numbering sequence exists
+        await ensureInvoiceSequence(userId);
+
+        // 6. Create invoice (starts as draft, with its first history entry)
+        const invoice = await db.$transaction(async (tx) => {
+            // number is reserved inside the transaction so it rolls back with the invoice
+            const invoiceNumber = await getNextInvoiceNumber(tx, userId);
+
+            const created = await tx.invoice.create({
+                data: {
+                    userId,
+                    clientId: data.clientId,
+                    invoiceNumber,
+                    ...totalsData,
+                    description: data.description,
+                    issueDate: options.issueDate,
+                    dueDate,
+                    notes: data.notes,
+                    terms: data.terms ?? (paymentTerms.netDays != null ? `Payment due within ${paymentTerms.netDays} days` : undefined),
+                    ...paymentTerms,
+                    ...localization,
+                    recurringInvoiceId: options.recurringInvoiceId,
+                }
+            });
+
+            await recordInitialStatus(tx, created.id, userId);
+
+            // income entries are claimed with the invoice so the same work can't be billed twice
+            if (options.billIncomeLogIds?.length) {
+                const billed = await tx.incomeLog.updateMany({
+                    where: { id: { in: options.billIncomeLogIds }, userId, billedInvoiceId: null },
+                    data: { billedInvoiceId: created.id }
+                });
+
+                if (billed.count !== options.billIncomeLogIds.length) {
+                    throw new ConflictError('Some income entries have already been billed on another invoice');
+                }
             }
+
+            if (options.onCreated) {
+                await options.onCreated(tx, created);
+            }
+
+            return created;
         });
 
-        // 4. Get client payment history for ML prediction
+        // 7. Get client payment history for ML prediction
         const clientInvoices = await db.invoice.findMany({
             where: {
                 clientId: data.clientId,
@@ -125,10 +274,10 @@ export const createInvoice = async (
             },
         });
 
-        // 5. Calculate client stats and get ML prediction
+        // 8. Calculate client stats and get ML prediction
         const stats = calculateClientStats(clientInvoices);
 
-        // 6. Call ML API if client has payment history
+        // 9. Call ML API if client has payment history
         if (stats.totalInvoices > 0) {
             const prediction = await mlService.predictPaymentTime({
                 client_avg_payment_days: stats.avgPaymentDays,
@@ -136,11 +285,11 @@ export const createInvoice = async (
                 client_payment_std: stats.paymentStd,
                 client_total_invoices: stats.totalInvoices,
                 client_payment_trend: stats.paymentTrend,
-                amount: data.amount,
+                amount: totalsData.amount,
                 issue_date: new Date().toISOString(),
             });
 
-            // 7. Store prediction if ML service returned data
+            // 10. Store prediction if ML service returned data
             if (prediction) {
                 await db.invoice.update({
                     where: { id: invoice.id },
@@ -182,36 +331,113 @@ export const createInvoice = async (
 };
 
 // ============================================================================
-// GET INVOICES
+// DUPLICATE INVOICE
 // ============================================================================
-export const getInvoices = async (
+
+/**
+ * Creates a new draft with the source invoice's client, lines, discount,
+ * taxes, shipping, terms and currency. Payments, late charges and status
+ * history are not copied.
+ */
+export const duplicateInvoice = async (
     userId: string,
-    query: GetInvoicesQuery
-): Promise<GetInvoicesResponse> => {
+    invoiceId: string,
+    data: DuplicateInvoiceRequest
+): Promise<CreateInvoiceResponse> => {
     try {
-        //buid where clause
-        const where: any = { userId };
+        const source = await db.invoice.findUnique({
+            where: { id: invoiceId }
+        });
 
-        //check status filter
-        if (query.status) {
-            where.status = query.status;
+        if (!source || source.userId !== userId) {
+            throw new NotFoundError('Invoice');
         }
 
-        //check clientId filter
-        if (query.clientId) {
-            where.clientId = query.clientId;
-        }
+        const items = (source.items as unknown as InvoiceLineItem[] | null) ?? undefined;
+
+        // without net days, keep the source's gap between issue and due date
+        const dueDate = data.dueDate
+            ?? (source.netDays == null
+                ? new Date(Date.now() + (source.dueDate.getTime() - source.issueDate.getTime()))
+                : undefined);
+
+        const { invoice } = await createInvoice(userId, {
+            clientId: source.clientId,
+            amount: items?.length ? undefined : source.subtotal.toNumber(),
+            description: source.description,
+            items,
+            discount: source.discountType
+                ? { type: source.discountType as DiscountType, value: toNumber(source.discountValue) }
+                : undefined,
+            taxes: (source.taxes as unknown as InvoiceTaxRate[] | null) ?? undefined,
+            shipping: source.shipping.toNumber(),
+            dueDate,
+            notes: source.notes ?? undefined,
+            terms: source.terms ?? undefined,
+            netDays: source.netDays,
+            lateFeeAmount: source.lateFeeAmount?.toNumber() ?? null,
+            lateInterestRate: source.lateInterestRate?.toNumber() ?? null,
+            graceDays: source.graceDays,
+            currency: source.currency,
+            locale: source.locale,
+        });
 
-        //date range filter
-        if (query.startDate || query.endDate) {
-            where.issueDate = {};
-            if (query.startDate) {
-                where.issueDate.gte = new Date(query.startDate);
-            }
-            if (query.endDate) {
-                where.issueDate.lte = new Date(query.endDate);
-            }
+        logger.info('Invoice duplicated', {
+            userId,
+            sourceInvoiceId: invoiceId,
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber
+        });
+
+        return {
+            invoice,
+            message: `Invoice ${source.invoiceNumber} duplicated as draft ${invoice.invoiceNumber}`
+        };
+    } catch (error) {
+        logger.error('Failed to duplicate invoice', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// HELPER: LIST FILTERS (shared with bulk operations)
+// ============================================================================
+export const buildInvoicesWhere = (userId: string, query: GetInvoicesQuery): Prisma.InvoiceWhereInput => {
+    const where: any = { userId };
+
+    //check status filter
+    if (query.status) {
+        where.status = query.status;
+    }
+
+    //check clientId filter
+    if (query.clientId) {
+        where.clientId = query.clientId;
+    }
+
+    //date range filter
+    if (query.startDate || query.endDate) {
+        where.issueDate = {};
+        if (query.startDate) {
+            where.issueDate.gte = new Date(query.startDate);
         }
+        if (query.endDate) {
+            where.issueDate.lte = new Date(query.endDate);
+        }
+    }
+
+    return where;
+};
+
+// ============================================================================
+// GET INVOICES
+// ============================================================================
+export const getInvoices = async (
+    userId: string,
+    query: GetInvoicesQuery
+): Promise<GetInvoicesResponse> => {
+    try {
+        const where = buildInvoicesWhere(userId, query);
 
         //total count
         const total = await db.invoice.count({ where });
@@ -239,24 +465,31 @@ export const getInvoices = async (
             where: { userId },
             select: {
                 status: true,
-                amount: true
+                amount: true,
+                amountPaid: true,
+                amountCredited: true,
+                lateCharges: true
             }
         });
     
+        const pendingStatuses = ['sent', 'viewed', 'partially_paid'];
+
         const summary = {
             totalDraft: allInvoices.filter(i => i.status === 'draft').length,
             totalSent: allInvoices.filter(i => i.status === 'sent').length,
+            totalViewed: allInvoices.filter(i => i.status === 'viewed').length,
+            totalPartiallyPaid: allInvoices.filter(i => i.status === 'partially_paid').length,
             totalPaid: allInvoices.filter(i => i.status === 'paid').length,
             totalOverdue: allInvoices.filter(i => i.status === 'overdue').length,
             amountPending: allInvoices
-                .filter(i => i.status === 'sent')
-                .reduce((sum, i) => sum + Number(i.amount), 0),
+                .filter(i => pendingStatuses.includes(i.status))
+                .reduce((sum, i) => sum + getBalanceDue(i).toNumber(), 0),
             amountOverdue: allInvoices
                 .filter(i => i.status === 'overdue')
-                .reduce((sum, i) => sum + Number(i.amount), 0),
+                .reduce((sum, i) => sum + getBalanceDue(i).toNumber(), 0),
             amountPaid: allInvoices
-                .filter(i => i.status === 'paid')
-                .reduce((sum, i) => sum + Number(i.amount), 0),
+                .filter(i => i.status !== 'void')
+                .reduce((sum, i) => sum + Number(i.amountPaid), 0),
         };
         
         logger.info('Invoices fetched', { userId, total, count: invoices.length });
@@ -288,7 +521,8 @@ export const getInvoiceById = async (
                         id: true,
                         name: true,
                         email: true,
-                        company: true
+                        company: true,
+                        facturXProfile: true
                     }
                 },
                 user: {
@@ -344,23 +578,74 @@ export const updateInvoice = async (
             throw new NotFoundError('Invoice not found');
         }
 
-        //can't update paid invoices
-        if (existingInvoice.status === 'paid' && data.status !== 'paid') {
-            throw new Error('Cannot update a paid invoice');
+        //only open invoices can be edited - status changes go through the transition endpoints
+        if (!EDITABLE_INVOICE_STATUSES.includes(existingInvoice.status as InvoiceStatus)) {
+            throw new BadRequestError(`Cannot update an invoice with status '${existingInvoice.status}'`);
         }
 
-        //update invoice
-        const invoice = await db.invoice.update({
-            where: { id: invoiceId },
-            data: {
-                amount: data.amount,
-                description: data.description,
-                items: data.items ? (JSON.parse(JSON.stringify(data.items)) as Prisma.JsonArray) : undefined,
-                dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
-                notes: data.notes,
-                terms: data.terms,
-                status: data.status,
+        //recompute totals when anything that feeds them changes
+        const totalsChanged = data.amount !== undefined
+            || data.items !== undefined
+            || data.discount !== undefined
+            || data.taxes !== undefined
+            || data.shipping !== undefined;
+
+        const items = data.items ?? (existingInvoice.items as unknown as InvoiceLineItem[] | null);
+
+        const totalsData = totalsChanged
+            ? buildTotalsData({
+                //without items the stored subtotal is the base; with items amount is only a check
+                amount: data.amount ?? (items?.length ? undefined : existingInvoice.subtotal.toNumber()),
+                items,
+                discount: data.discount !== undefined
+                    ? data.discount
+                    : existingInvoice.discountType && existingInvoice.discountValue
+                        ? { type: existingInvoice.discountType as DiscountType, value: existingInvoice.discountValue.toNumber() } as InvoiceDiscount
+                        : null,
+                taxes: data.taxes ?? (existingInvoice.taxes as unknown as InvoiceTaxRate[] | null),
+                shipping: data.shipping ?? existingInvoice.shipping.toNumber(),
+                recalculate: data.recalculate,
+            })
+            : undefined;
+
+        //amount can't drop below what the client has already paid or been credited
+        const settled = existingInvoice.amountPaid.plus(existingInvoice.amountCredited);
+        if (totalsData && settled.greaterThan(existingInvoice.lateCharges.plus(totalsData.amount))) {
+            throw new BadRequestError('Invoice amount cannot be less than the amount already paid and credited', {
+                amountPaid: existingInvoice.amountPaid.toNumber(),
+                amountCredited: existingInvoice.amountCredited.toNumber(),
+            });
+        }
+
+        // null puts the invoice back on the client's / user's currency or locale
+        const defaults = data.currency === null || data.locale === null
+            ? await getDefaultLocalization(userId, existingInvoice.clientId)
+            : null;
+
+        //update invoice - only if nothing (a status change, payment or credit) touched it since it was read
+        const invoice = await db.$transaction(async (tx) => {
+            const { count } = await tx.invoice.updateMany({
+                where: { id: invoiceId, status: existingInvoice.status, updatedAt: existingInvoice.updatedAt },
+                data: {
+                    ...totalsData,
+                    description: data.description,
+                    dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+                    notes: data.notes,
+                    terms: data.terms,
+                    netDays: data.netDays,
+                    lateFeeAmount: data.lateFeeAmount,
+                    lateInterestRate: data.lateInterestRate,
+                    graceDays: data.graceDays,
+                    currency: data.currency === null ? defaults?.currency : data.currency,
+                    locale: data.locale === null ? defaults?.locale : data.locale,
+                }
+            });
+
+            if (count === 0) {
+                throw new ConflictError('Invoice changed while it was being updated, please try again');
             }
+
+            return tx.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
         });
          
         logger.info('Invoice updated', { userId, invoiceId });
@@ -376,79 +661,70 @@ export const updateInvoice = async (
 };
 
 // ============================================================================
-// MARK INVOICE AS PAID (AUTO-CREATE INCOME)
+// STATUS TRANSITIONS (CANCEL / VOID)
 // ============================================================================
-export const markInvoiceAsPaid = async (
+
+/**
+ * Applies a user-initiated status transition to an invoice
+ */
+const changeInvoiceStatus = async (
     userId: string,
     invoiceId: string,
-    data: MarkInvoiceAsPaidRequest
-): Promise<MarkInvoiceAsPaidResponse> => {
-    try {
-        //get invoice with client info
-        const invoice = await db.invoice.findUnique({
-            where: { id: invoiceId },
-            include: {
-                client: true
-            }
-        });
-
-        if (!invoice || invoice.userId !== userId) {
-            throw new NotFoundError('Invoice not found');
-        }
+    toStatus: InvoiceStatus,
+    data: InvoiceTransitionRequest
+): Promise<InvoiceTransitionResponse> => {
+    const invoice = await db.invoice.findUnique({
+        where: { id: invoiceId }
+    });
 
-        if (invoice.status === 'paid') {
-            throw new Error('Invoice is already marked as paid');
-        }
+    if (!invoice || invoice.userId !== userId) {
+        throw new NotFoundError('Invoice');
+    }
 
-        const paidDate = new Date(data.paidDate);
+    const updatedInvoice = await db.$transaction((tx) =>
+        transitionInvoiceStatus(tx, invoice, toStatus, {
+            actorId: userId,
+            reason: data.reason,
+        })
+    );
 
-        // use transaction to ensure both operations succeed or fail together
-        const result = await db.$transaction(async (tx) => {
-            //create income log
-            const income = await tx.incomeLog.create({
-                data: {
-                    userId,
-                    amount: invoice.amount,
-                    clientId: invoice.clientId,
-                    clientName: invoice.client.name,
-                    projectName: invoice.description,
-                    source: 'invoice',
-                    notes: data.notes || `Payment for invoice ${invoice.invoiceNumber}`,
-                    loggedAt: paidDate,
-                }
-            });
+    return {
+        invoice: serializeInvoice(updatedInvoice),
+        message: `Invoice marked as ${toStatus}`,
+    };
+};
 
-            //update invoice
-            const updatedInvoice = await tx.invoice.update({
-                where: { id: invoiceId },
-                data: {
-                    status: 'paid',
-                    paidDate,
-                    incomeLogId: income.id,
-                }
-            });
+export const cancelInvoice = async (
+    userId: string,
+    invoiceId: string,
+    data: InvoiceTransitionRequest
+): Promise<InvoiceTransitionResponse> => {
+    try {
+        return await changeInvoiceStatus(userId, invoiceId, 'cancelled', data);
+    } catch (error) {
+        logger.error('Failed to cancel invoice', { userId, invoiceId, error });
+        throw error;
+    }
+};
 
-            return { income, invoice: updatedInvoice };
+export const voidInvoice = async (
+    userId: string,
+    invoiceId: string,
+    data: InvoiceTransitionRequest
+): Promise<InvoiceTransitionResponse> => {
+    try {
+        // voiding would leave the received payments counted as income - a credit note offsets them
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId }
         });
 
-        logger.info('Invoice marked as paid and income created', {
-            userId,
-            invoiceId,
-            incomeId: result.income.id,
-            amount: result.income.amount.toString()
-        });
+        if (invoice && invoice.userId === userId && invoice.amountPaid.greaterThan(0)) {
+            throw new BadRequestError('Invoice has payments recorded against it. Issue a full credit note to void it instead.');
+        }
 
-        return {
-            invoice: serializeInvoice(result.invoice),
-            income: {
-                id: result.income.id,
-                amount: result.income.amount instanceof Prisma.Decimal ? result.income.amount.toNumber() : Number(result.income.amount),
-                loggedAt: result.income.loggedAt
-            },
-            message: 'Invoice marked as paid and income logged successfully'
-        };
+        return await changeInvoiceStatus(userId, invoiceId, 'void', data);
     } catch (error) {
-        logger.error('Failed to mark invoice as paid', { userId, invoiceId, error });
+        logger.error('Failed to void invoice', { userId, invoiceId, error });
         throw error;
     }
 };
@@ -471,9 +747,9 @@ export const deleteInvoice = async (
             throw new NotFoundError('Invoice not found');
         }
         
-        // Can't delete paid invoices
-        if (invoice.status === 'paid') {
-            throw new Error('Cannot delete paid invoice');
+        // Only drafts and cancelled invoices can be deleted - sent ones should be voided
+        if (invoice.status !== 'draft' && invoice.status !== 'cancelled') {
+            throw new BadRequestError(`Cannot delete an invoice with status '${invoice.status}'. Void it instead.`);
         }
         
         // Delete invoice
@@ -492,93 +768,6 @@ export const deleteInvoice = async (
     }
 };
 
-// ============================================================================
-// GET EMAIL TEMPLATE
-// ============================================================================
-
-export const getInvoiceEmailTemplate = async (
-  userId: string,
-  invoiceId: string
-): Promise<InvoiceEmailTemplate> => {
-    try {
-        const invoice = await db.invoice.findUnique({
-            where: { id: invoiceId },
-            include: {
-                client: true,
-                user: true
-            }
-        });
-        
-        if (!invoice || invoice.userId !== userId) {
-            throw new NotFoundError('Invoice not found');
-        }
-        
-        // Format dates
-        const formatDate = (date: Date) => {
-            return date.toLocaleDateString('en-US', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-            });
-        };
-        
-        // Clean email body - NO attachment reminders!
-        const body = `Hi ${invoice.client.name},
-
-            I hope this email finds you well!
-
-            Please find attached invoice ${invoice.invoiceNumber} for the work completed.
-
-            Invoice Details:
-            ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-            Project:        ${invoice.description}
-            Amount:         $${Number(invoice.amount).toLocaleString('en-US', { minimumFractionDigits: 2 })}
-            Invoice Date:   ${formatDate(invoice.issueDate)}
-            Due Date:       ${formatDate(invoice.dueDate)}
-            Payment Terms:  ${invoice.terms || 'Net 30'}
-            ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-            Payment Options:
-            - Bank Transfer: [Your bank details]
-            - PayPal: ${invoice.user.email}${invoice.user.phone ? `\n• Phone: ${invoice.user.phone}` : ''}
-
-            If you have any questions, feel free to reach out.
-
-            Thank you for your business!
-
-            Best regards,
-            ${invoice.user.name}
-            ${invoice.user.email}`;
-        
-        return {
-            to: invoice.client.email || '',
-            subject: `Invoice ${invoice.invoiceNumber} from ${invoice.user.name}`,
-            body,
-            
-            // Metadata for frontend to use
-            pdfFilename: `Invoice-${invoice.invoiceNumber}.pdf`,
-            pdfUrl: `/api/invoices/${invoiceId}/download`,
-            
-            // Instructions for frontend (not shown in email)
-            instructions: {
-                step1: 'Download PDF automatically',
-                step2: 'Open email client with pre-filled template',
-                step3: 'Attach PDF from Downloads folder',
-                step4: 'Review and send email'
-            }
-        };
-        
-    } catch (error) {
-        logger.error('Failed to generate email template', { 
-            action: 'get_invoice_email_template',
-            userId, 
-            invoiceId, 
-            error 
-        });
-        throw error;
-    }
-};
-
 // ============================================================================
 // HELPER: Calculate Client Payment Statistics
 // ============================================================================
@@ -0,0 +1,346 @@
+/**
+ * Invoice Bulk Service
+ * Sends, marks paid, cancels or exports many invoices at once - each invoice
+ * is processed on its own, so one failure doesn't stop the rest
+ */
+
+import { Writable } from 'stream';
+import { db } from '../config/database';
+import {
+    BulkCancelInvoicesRequest,
+    BulkExportManifestRow,
+    BulkInvoiceResponse,
+    BulkInvoiceResult,
+    BulkInvoiceSelection,
+    BulkMarkInvoicesPaidRequest,
+    BulkSendInvoicesRequest,
+    Invoice,
+    InvoiceStatus,
+    MAX_BULK_INVOICES,
+} from '../types/invoice.types';
+import { toCsv } from '../utils/csv';
+import { ApiError, BadRequestError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createZipWriter } from '../utils/zip';
+import { buildInvoicesWhere, cancelInvoice, getInvoiceById, serializeInvoice } from './invoice.service';
+import { getInvoicePdfFilename, sendInvoice } from './invoiceEmail.service';
+import { markInvoiceAsPaid } from './invoicePayment.service';
+import { generateInvoicePDF } from './pdf.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SelectedInvoice {
+    id: string;
+    invoiceNumber: string;
+}
+
+export interface InvoiceSelectionResult {
+    invoices: SelectedInvoice[];
+    missing: string[];      // requested ids that don't exist or belong to another user
+}
+
+// ============================================================================
+// HELPER: RESOLVE SELECTION
+// ============================================================================
+
+/**
+ * Explicit ids keep the order they were sent in; filtered selections run
+ * oldest issue date first
+ */
+export const resolveInvoiceSelection = async (
+    userId: string,
+    selection: BulkInvoiceSelection
+): Promise<InvoiceSelectionResult> => {
+    if (!!selection.ids === !!selection.filters) {
+        throw new BadRequestError('Provide either ids or filters');
+    }
+
+    if (selection.ids) {
+        const ids = [...new Set(selection.ids)];
+
+        if (ids.length > MAX_BULK_INVOICES) {
+            throw new ValidationError(`At most ${MAX_BULK_INVOICES} invoices can be processed at once`);
+        }
+
+        const found = await db.invoice.findMany({
+            where: { userId, id: { in: ids } },
+            select: { id: true, invoiceNumber: true },
+        });
+        const byId = new Map<string, SelectedInvoice>(found.map((invoice) => [invoice.id, invoice]));
+
+        return {
+            invoices: ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!),
+            missing: ids.filter((id) => !byId.has(id)),
+        };
+    }
+
+    const where = buildInvoicesWhere(userId, { ...selection.filters });
+    const count = await db.invoice.count({ where });
+
+    if (count > MAX_BULK_INVOICES) {
+        throw new ValidationError(
+            `Filters match ${count} invoices - at most ${MAX_BULK_INVOICES} can be processed at once. Narrow the filters.`,
+            { count }
+        );
+    }
+
+    const invoices = await db.invoice.findMany({
+        where,
+        select: { id: true, invoiceNumber: true },
+        orderBy: [{ issueDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return { invoices, missing: [] };
+};
+
+// ============================================================================
+// HELPER: RUN PER INVOICE
+// ============================================================================
+
+const toResultError = (error: unknown): NonNullable<BulkInvoiceResult['error']> => {
+    if (error instanceof ApiError) {
+        return { code: error.code, message: error.message };
+    }
+
+    return { code: 'INTERNAL_ERROR', message: 'Unexpected error processing invoice' };
+};
+
+/**
+ * Runs the operation one invoice at a time (sends go through the mail
+ * transport, and sequential runs keep status transitions simple)
+ */
+const runBulk = async (
+    userId: string,
+    selection: BulkInvoiceSelection,
+    action: string,
+    operation: (invoiceId: string) => Promise<{ invoice: Invoice }>
+): Promise<BulkInvoiceResponse> => {
+    const { invoices, missing } = await resolveInvoiceSelection(userId, selection);
+
+    const results: BulkInvoiceResult[] = [];
+
+    for (const { id, invoiceNumber } of invoices) {
+        try {
+            const { invoice } = await operation(id);
+            results.push({ invoiceId: id, invoiceNumber, success: true, invoice });
+        } catch (error) {
+            results.push({ invoiceId: id, invoiceNumber, success: false, error: toResultError(error) });
+        }
+    }
+
+    for (const id of missing) {
+        results.push({
+            invoiceId: id,
+            invoiceNumber: null,
+            success: false,
+            error: { code: 'NOT_FOUND', message: 'Invoice not found' },
+        });
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    const failed = results.length - succeeded;
+
+    logger.info(`Bulk invoice ${action} completed`, { userId, succeeded, failed });
+
+    return {
+        results,
+        succeeded,
+        failed,
+        message: failed === 0
+            ? `${succeeded} invoice(s) ${action}`
+            : `${succeeded} invoice(s) ${action}, ${failed} failed`,
+    };
+};
+
+// ============================================================================
+// BULK SEND
+// ============================================================================
+
+export const bulkSendInvoices = async (
+    userId: string,
+    data: BulkSendInvoicesRequest
+): Promise<BulkInvoiceResponse> => {
+    try {
+        // recipients and subject always come from each invoice's client
+        return await runBulk(userId, data, 'sent', (invoiceId) =>
+            sendInvoice(userId, invoiceId, { message: data.message, markOnly: data.markOnly })
+        );
+    } catch (error) {
+        logger.error('Failed to bulk send invoices', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// BULK MARK PAID
+// ============================================================================
+
+export const bulkMarkInvoicesPaid = async (
+    userId: string,
+    data: BulkMarkInvoicesPaidRequest
+): Promise<BulkInvoiceResponse> => {
+    try {
+        return await runBulk(userId, data, 'marked as paid', (invoiceId) =>
+            markInvoiceAsPaid(userId, invoiceId, { paidDate: data.paidDate, notes: data.notes })
+        );
+    } catch (error) {
+        logger.error('Failed to bulk mark invoices as paid', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// BULK CANCEL
+// ============================================================================
+
+export const bulkCancelInvoices = async (
+    userId: string,
+    data: BulkCancelInvoicesRequest
+): Promise<BulkInvoiceResponse> => {
+    try {
+        return await runBulk(userId, data, 'cancelled', (invoiceId) =>
+            cancelInvoice(userId, invoiceId, { reason: data.reason })
+        );
+    } catch (error) {
+        logger.error('Failed to bulk cancel invoices', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// BULK EXPORT (ZIP OF PDFS)
+// ============================================================================
+
+const MANIFEST_COLUMNS = [
+    'invoiceNumber',
+    'invoiceId',
+    'client',
+    'status',
+    'issueDate',
+    'dueDate',
+    'currency',
+    'amount',
+    'balanceDue',
+    'file',
+    'result',
+    'error',
+];
+
+// invoice numbers come from user-defined formats and may contain path characters
+const toArchiveName = (filename: string): string => {
+    return filename.replace(/[\/\\:*?"<>|]/g, '-');
+};
+
+const renderManifest = (rows: BulkExportManifestRow[]): Buffer => {
+    const csv = toCsv([
+        MANIFEST_COLUMNS,
+        ...rows.map((row) => [
+            row.invoiceNumber,
+            row.invoiceId,
+            row.clientName,
+            row.status,
+            row.issueDate,
+            row.dueDate,
+            row.currency,
+            row.amount,
+            row.balanceDue,
+            row.file,
+            row.result,
+            row.error,
+        ]),
+    ]);
+
+    return Buffer.from(csv, 'utf8');
+};
+
+/**
+ * Streams a ZIP with one PDF per invoice plus manifest.csv to the output.
+ * Invoices whose PDF can't be generated are listed in the manifest as failed.
+ * Resolve the selection first so selection errors surface before any bytes are written.
+ */
+export const writeInvoicesZip = async (
+    userId: string,
+    selection: InvoiceSelectionResult,
+    output: Writable
+): Promise<void> => {
+    const zip = createZipWriter(output);
+    const manifest: BulkExportManifestRow[] = [];
+    const usedNames = new Set<string>();
+
+    for (const { id, invoiceNumber } of selection.invoices) {
+        try {
+            const invoice = await getInvoiceById(userId, id);
+            const serialized = serializeInvoice(invoice);
+            const pdf = await generateInvoicePDF(invoice);
+
+            // two invoice numbers can sanitize to the same name
+            let file = toArchiveName(getInvoicePdfFilename(invoice));
+            if (usedNames.has(file)) {
+                file = file.replace(/\.pdf$/, `-${id.slice(0, 8)}.pdf`);
+            }
+            usedNames.add(file);
+
+            await zip.addFile(file, pdf, invoice.updatedAt);
+
+            manifest.push({
+                invoiceId: id,
+                invoiceNumber,
+                clientName: invoice.client.name,
+                status: invoice.status as InvoiceStatus,
+                issueDate: invoice.issueDate,
+                dueDate: invoice.dueDate,
+                currency: serialized.currency,
+                amount: serialized.amount,
+                balanceDue: serialized.balanceDue,
+                file,
+                result: 'exported',
+                error: null,
+            });
+        } catch (error) {
+            logger.error('Failed to add invoice to ZIP export', { userId, invoiceId: id, error });
+
+            manifest.push({
+                invoiceId: id,
+                invoiceNumber,
+                clientName: null,
+                status: null,
+                issueDate: null,
+                dueDate: null,
+                currency: null,
+                amount: null,
+                balanceDue: null,
+                file: null,
+                result: 'failed',
+                error: toResultError(error).message,
+            });
+        }
+    }
+
+    for (const id of selection.missing) {
+        manifest.push({
+            invoiceId: id,
+            invoiceNumber: null,
+            clientName: null,
+            status: null,
+            issueDate: null,
+            dueDate: null,
+            currency: null,
+            amount: null,
+            balanceDue: null,
+            file: null,
+            result: 'failed',
+            error: 'Invoice not found',
+        });
+    }
+
+    await zip.addFile('manifest.csv', renderManifest(manifest));
+    await zip.finish();
+
+    logger.info('Invoice ZIP export completed', {
+        userId,
+        exported: manifest.filter((row) => row.result === 'exported').length,
+        failed: manifest.filter((row) => row.result === 'failed').length,
+    });
+};
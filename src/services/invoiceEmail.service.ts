@@ -0,0 +1,352 @@
+/**
+ * Invoice Email Service
+ * Renders invoice emails and delivers them (and reminders) with the PDF attached
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    GetInvoiceDeliveriesResponse,
+    InvoiceDelivery,
+    InvoiceDeliveryType,
+    InvoiceEmailTemplate,
+    InvoiceStatus,
+    InvoiceWithDetails,
+    SendInvoiceRequest,
+    SendInvoiceResponse,
+    SENDABLE_INVOICE_STATUSES,
+} from '../types/invoice.types';
+import { EmailMessage } from '../types/email.types';
+import { BadRequestError, ExternalServiceError, NotFoundError } from '../utils/errors';
+import { formatDate, formatMoney, getLocaleBundle, translate } from '../utils/i18n';
+import { logger } from '../utils/logger';
+import { getInvoiceById, serializeInvoice } from './invoice.service';
+import { transitionInvoiceStatus } from './invoiceStatus.service';
+import { generateInvoicePDF } from './pdf.service';
+import { getDefaultSender, getEmailTransport } from './email.service';
+
+// ============================================================================
+// HELPER: PDF FILENAME
+// ============================================================================
+
+export const getInvoicePdfFilename = (invoice: { invoiceNumber: string }): string => {
+    return `Invoice-${invoice.invoiceNumber}.pdf`;
+};
+
+// ============================================================================
+// RENDER EMAIL
+// ============================================================================
+
+export const renderInvoiceEmailSubject = (invoice: InvoiceWithDetails): string => {
+    const labels = getLocaleBundle(invoice.locale);
+
+    return translate(labels.email.subject, {
+        invoiceNumber: invoice.invoiceNumber,
+        senderName: invoice.user.name,
+    });
+};
+
+/**
+ * Plain-text email body in the invoice's language - the invoice itself travels as the PDF attachment
+ */
+export const renderInvoiceEmailBody = (invoice: InvoiceWithDetails, message?: string): string => {
+    const labels = getLocaleBundle(invoice.locale);
+    const money = (amount: number) => formatMoney(amount, invoice.currency, invoice.locale);
+
+    const details: Array<[string, string]> = [
+        [labels.email.project, invoice.description],
+        [labels.email.amount, money(invoice.amount)],
+    ];
+
+    if (invoice.lateCharges > 0) {
+        details.push([labels.email.lateCharges, money(invoice.lateCharges)]);
+    }
+
+    // only worth mentioning once something has been paid, credited or charged
+    if (invoice.balanceDue !== invoice.amount) {
+        details.push([labels.email.balanceDue, money(invoice.balanceDue)]);
+    }
+
+    details.push(
+        [labels.email.invoiceDate, formatDate(invoice.issueDate, invoice.locale)],
+        [labels.email.dueDate, formatDate(invoice.dueDate, invoice.locale)],
+        [labels.email.paymentTerms, invoice.terms || labels.email.defaultTerms],
+    );
+
+    // line the values up whatever the label lengths are in this language
+    const labelWidth = Math.max(...details.map(([label]) => label.length)) + 1;
+
+    const lines = [
+        translate(labels.email.greeting, { clientName: invoice.client.name }),
+        '',
+        message || labels.email.defaultMessage,
+        '',
+        translate(labels.email.attached, { invoiceNumber: invoice.invoiceNumber }),
+        '',
+        labels.email.details,
+        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+        ...details.map(([label, value]) => `${`${label}:`.padEnd(labelWidth)}  ${value}`),
+        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+        '',
+        labels.email.paymentOptions,
+        `- ${labels.email.bankTransfer}`,
+        `- ${labels.email.paypal}: ${invoice.user.email}`,
+        ...(invoice.user.phone ? [`- ${labels.email.phone}: ${invoice.user.phone}`] : []),
+        '',
+        labels.email.questions,
+        '',
+        labels.email.thanks,
+        '',
+        labels.email.regards,
+        invoice.user.name,
+        invoice.user.email,
+    ];
+
+    return lines.join('\n');
+};
+
+// ============================================================================
+// GET EMAIL TEMPLATE
+// ============================================================================
+
+export const getInvoiceEmailTemplate = async (
+    userId: string,
+    invoiceId: string
+): Promise<InvoiceEmailTemplate> => {
+    try {
+        const invoice = await getInvoiceById(userId, invoiceId);
+
+        return {
+            to: invoice.client.email || '',
+            subject: renderInvoiceEmailSubject(invoice),
+            body: renderInvoiceEmailBody(invoice),
+
+            // Metadata for frontend to use
+            pdfFilename: getInvoicePdfFilename(invoice),
+            pdfUrl: `/api/invoices/${invoiceId}/download`,
+        };
+    } catch (error) {
+        logger.error('Failed to generate email template', {
+            action: 'get_invoice_email_template',
+            userId,
+            invoiceId,
+            error
+        });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DELIVER (shared by invoices and reminders)
+// ============================================================================
+
+export interface DeliverInvoiceEmailOptions {
+    to: string[];
+    cc?: string[];
+    subject: string;
+    text: string;
+    type: InvoiceDeliveryType;
+    reminderOffset?: number;
+}
+
+/**
+ * Sends an email with the invoice PDF attached and logs the attempt.
+ * A failed attempt is logged too, then rethrown as an ExternalServiceError.
+ * onDelivered (e.g. a status change) runs in its own transaction once the
+ * "sent" delivery row is saved - if it fails, the email has still gone out,
+ * so the failure is logged and the delivery returned.
+ */
+export const deliverInvoiceEmail = async (
+    invoice: InvoiceWithDetails,
+    options: DeliverInvoiceEmailOptions,
+    onDelivered?: (tx: Prisma.TransactionClient) => Promise<void>
+): Promise<InvoiceDelivery> => {
+    const pdfBuffer = await generateInvoicePDF(invoice);
+
+    const email: EmailMessage = {
+        from: getDefaultSender(),
+        to: options.to.map((address) => ({ email: address })),
+        cc: options.cc?.map((address) => ({ email: address })),
+        replyTo: { email: invoice.user.email, name: invoice.user.name },
+        subject: options.subject,
+        text: options.text,
+        attachments: [{
+            filename: getInvoicePdfFilename(invoice),
+            content: pdfBuffer,
+            contentType: 'application/pdf',
+        }],
+    };
+
+    const transport = getEmailTransport();
+
+    const deliveryData = {
+        invoiceId: invoice.id,
+        userId: invoice.userId,
+        type: options.type,
+        reminderOffset: options.reminderOffset ?? null,
+        channel: 'email',
+        transport: transport.name,
+        recipient: options.to.join(', '),
+        cc: options.cc?.length ? options.cc.join(', ') : null,
+        subject: options.subject,
+    };
+
+    let messageId: string | null;
+
+    try {
+        ({ messageId } = await transport.send(email));
+    } catch (sendError) {
+        const reason = sendError instanceof Error ? sendError.message : String(sendError);
+
+        await db.invoiceDelivery.create({
+            data: { ...deliveryData, status: 'failed', error: reason },
+        });
+
+        logger.warn('Invoice email delivery failed', {
+            invoiceId: invoice.id,
+            type: options.type,
+            transport: transport.name,
+            reason,
+        });
+
+        throw new ExternalServiceError('Failed to send invoice email', { reason });
+    }
+
+    const delivery = await db.invoiceDelivery.create({
+        data: { ...deliveryData, status: 'sent', providerMessageId: messageId },
+    });
+
+    logger.info('Invoice email delivered', {
+        invoiceId: invoice.id,
+        type: options.type,
+        transport: transport.name,
+        recipients: options.to.length,
+    });
+
+    if (onDelivered) {
+        try {
+            await db.$transaction((tx) => onDelivered(tx));
+        } catch (error) {
+            logger.warn('Invoice email delivered but the follow-up update failed', {
+                invoiceId: invoice.id,
+                type: options.type,
+                deliveryId: delivery.id,
+                error,
+            });
+        }
+    }
+
+    return delivery as InvoiceDelivery;
+};
+
+// ============================================================================
+// SEND INVOICE
+// ============================================================================
+
+/**
+ * Emails the invoice PDF to the client.
+ * A draft moves to "sent" once the transport accepts the email; re-sending an
+ * open invoice just delivers it again. With markOnly, no email is sent.
+ */
+export const sendInvoice = async (
+    userId: string,
+    invoiceId: string,
+    data: SendInvoiceRequest
+): Promise<SendInvoiceResponse> => {
+    try {
+        const invoice = await getInvoiceById(userId, invoiceId);
+
+        if (data.markOnly) {
+            const updatedInvoice = await db.$transaction((tx) =>
+                transitionInvoiceStatus(tx, invoice, 'sent', {
+                    actorId: userId,
+                    reason: data.reason,
+                })
+            );
+
+            return {
+                invoice: serializeInvoice(updatedInvoice),
+                delivery: null,
+                message: 'Invoice marked as sent',
+            };
+        }
+
+        if (!SENDABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+            throw new BadRequestError(`Cannot send an invoice with status '${invoice.status}'`);
+        }
+
+        const to = data.to?.length ? data.to : invoice.client.email ? [invoice.client.email] : [];
+
+        if (to.length === 0) {
+            throw new BadRequestError('Client has no email address. Add one or provide recipients.');
+        }
+
+        // draft → sent once the delivery is logged - the returned invoice shows whether it applied
+        const delivery = await deliverInvoiceEmail(
+            invoice,
+            {
+                to,
+                cc: data.cc,
+                subject: data.subject || renderInvoiceEmailSubject(invoice),
+                text: renderInvoiceEmailBody(invoice, data.message),
+                type: 'invoice',
+            },
+            async (tx) => {
+                if (invoice.status === 'draft') {
+                    await transitionInvoiceStatus(tx, invoice, 'sent', {
+                        actorId: userId,
+                        reason: data.reason || `Emailed to ${to.join(', ')}`,
+                    });
+                }
+            }
+        );
+
+        const updatedInvoice = await db.invoice.findUniqueOrThrow({
+            where: { id: invoiceId }
+        });
+
+        return {
+            invoice: serializeInvoice(updatedInvoice),
+            delivery,
+            message: `Invoice sent to ${delivery.recipient}`,
+        };
+    } catch (error) {
+        logger.error('Failed to send invoice', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET DELIVERY LOG
+// ============================================================================
+
+export const getInvoiceDeliveries = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetInvoiceDeliveriesResponse> => {
+    try {
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId },
+            select: { id: true, userId: true },
+        });
+
+        if (!invoice || invoice.userId !== userId) {
+            throw new NotFoundError('Invoice');
+        }
+
+        const deliveries = await db.invoiceDelivery.findMany({
+            where: { invoiceId },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        logger.info('Invoice deliveries fetched', { userId, invoiceId, count: deliveries.length });
+
+        return {
+            invoiceId,
+            deliveries: deliveries as InvoiceDelivery[],
+        };
+    } catch (error) {
+        logger.error('Failed to get invoice deliveries', { userId, invoiceId, error });
+        throw error;
+    }
+};
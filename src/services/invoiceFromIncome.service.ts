@@ -0,0 +1,227 @@
+/**
+ * Invoice From Income Service
+ * Turns logged work (income entries with hours / rate) into a draft invoice
+ * and marks the entries as billed
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    BILLABLE_INCOME_SOURCES,
+    CreateInvoiceFromIncomeRequest,
+    CreateInvoiceFromIncomeResponse,
+    InvoiceLineItem,
+} from '../types/invoice.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { createInvoice } from './invoice.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type IncomeRecord = Prisma.IncomeLogGetPayload<{}>;
+
+// ============================================================================
+// HELPER: LOAD ENTRIES
+// ============================================================================
+
+const loadSelectedIncome = async (userId: string, incomeIds: string[]): Promise<IncomeRecord[]> => {
+    const ids = [...new Set(incomeIds)];
+
+    const entries = await db.incomeLog.findMany({
+        where: { userId, id: { in: ids } },
+        orderBy: { loggedAt: 'asc' }
+    });
+
+    if (entries.length !== ids.length) {
+        throw new NotFoundError('Income record');
+    }
+
+    const billed = entries.filter((entry) => entry.billedInvoiceId);
+    if (billed.length > 0) {
+        throw new ConflictError(
+            `${billed.length} income entr${billed.length === 1 ? 'y has' : 'ies have'} already been billed`
+        );
+    }
+
+    const notBillable = entries.filter(
+        (entry) => !(BILLABLE_INCOME_SOURCES as readonly string[]).includes(entry.source)
+    );
+    if (notBillable.length > 0) {
+        throw new BadRequestError('Invoice payments, credit note refunds and bank statement credits cannot be billed', {
+            incomeIds: notBillable.map((entry) => entry.id),
+        });
+    }
+
+    return entries;
+};
+
+const loadUnbilledIncome = async (
+    userId: string,
+    data: CreateInvoiceFromIncomeRequest
+): Promise<IncomeRecord[]> => {
+    const where: Prisma.IncomeLogWhereInput = {
+        userId,
+        clientId: data.clientId,
+        billedInvoiceId: null,
+        source: { in: [...BILLABLE_INCOME_SOURCES] },
+    };
+
+    if (data.startDate || data.endDate) {
+        where.loggedAt = {
+            ...(data.startDate && { gte: new Date(data.startDate) }),
+            ...(data.endDate && { lte: new Date(data.endDate) }),
+        };
+    }
+
+    const entries = await db.incomeLog.findMany({
+        where,
+        orderBy: { loggedAt: 'asc' }
+    });
+
+    if (entries.length === 0) {
+        throw new BadRequestError('No unbilled income found for this client in the selected period');
+    }
+
+    return entries;
+};
+
+// ============================================================================
+// HELPER: LINE ITEMS
+// ============================================================================
+
+const lineLabel = (entry: IncomeRecord): string => {
+    return entry.projectName || entry.skill || entry.notes || 'Services';
+};
+
+/**
+ * Hourly entries for the same project at the same rate become one line
+ * (hours summed); entries without hours are billed as a single unit at
+ * their logged amount
+ */
+const buildLineItems = (entries: IncomeRecord[]): InvoiceLineItem[] => {
+    const hourly = new Map<string, InvoiceLineItem>();
+    const lines: InvoiceLineItem[] = [];
+
+    for (const entry of entries) {
+        const label = lineLabel(entry);
+
+        if (!entry.hours || entry.hours.isZero()) {
+            lines.push({
+                description: label,
+                quantity: 1,
+                rate: entry.amount.toNumber(),
+                amount: entry.amount.toNumber(),
+            });
+            continue;
+        }
+
+        // entries logged without a rate bill at their effective rate
+        const rate = (entry.ratePerHour ?? entry.amount.dividedBy(entry.hours)).toDecimalPlaces(2);
+        const key = `${label}\u0000${rate.toString()}`;
+        const existing = hourly.get(key);
+
+        if (existing) {
+            existing.quantity = new Prisma.Decimal(existing.quantity).plus(entry.hours).toNumber();
+            existing.amount = rate.times(existing.quantity).toDecimalPlaces(2).toNumber();
+            continue;
+        }
+
+        const line: InvoiceLineItem = {
+            description: `${label} (hours)`,
+            quantity: entry.hours.toNumber(),
+            rate: rate.toNumber(),
+            amount: rate.times(entry.hours).toDecimalPlaces(2).toNumber(),
+        };
+        hourly.set(key, line);
+        lines.push(line);
+    }
+
+    return lines;
+};
+
+const buildDescription = (entries: IncomeRecord[]): string => {
+    const projects = [...new Set(entries.map((entry) => entry.projectName).filter(Boolean))];
+
+    if (projects.length === 1) {
+        return projects[0] as string;
+    }
+
+    const from = entries[0].loggedAt.toISOString().slice(0, 10);
+    const to = entries[entries.length - 1].loggedAt.toISOString().slice(0, 10);
+
+    return from === to ? `Services on ${from}` : `Services from ${from} to ${to}`;
+};
+
+// ============================================================================
+// CREATE INVOICE FROM INCOME
+// ============================================================================
+
+export const createInvoiceFromIncome = async (
+    userId: string,
+    data: CreateInvoiceFromIncomeRequest
+): Promise<CreateInvoiceFromIncomeResponse> => {
+    try {
+        if (!data.incomeIds?.length && !data.clientId) {
+            throw new BadRequestError('Provide incomeIds, or a clientId to bill its unbilled income');
+        }
+
+        const entries = data.incomeIds?.length
+            ? await loadSelectedIncome(userId, data.incomeIds)
+            : await loadUnbilledIncome(userId, data);
+
+        // one client per invoice
+        const clientIds = [...new Set(entries.map((entry) => entry.clientId).filter(Boolean))] as string[];
+        const clientId = data.clientId ?? clientIds[0];
+
+        if (clientIds.length > 1 || (clientIds.length === 1 && clientIds[0] !== clientId)) {
+            throw new BadRequestError('All income entries must belong to the same client', { clientIds });
+        }
+
+        if (!clientId) {
+            throw new BadRequestError('Income entries are not linked to a client - provide a clientId');
+        }
+
+        // one currency per invoice
+        const currencies = [...new Set(entries.map((entry) => entry.currency))];
+
+        if (currencies.length > 1) {
+            throw new BadRequestError('Income entries are in different currencies - bill them on separate invoices', {
+                currencies,
+            });
+        }
+
+        const incomeIds = entries.map((entry) => entry.id);
+
+        const { invoice } = await createInvoice(
+            userId,
+            {
+                clientId,
+                description: data.description || buildDescription(entries),
+                items: buildLineItems(entries),
+                taxes: data.taxes,
+                dueDate: data.dueDate,
+                notes: data.notes,
+                currency: currencies[0],
+            },
+            { billIncomeLogIds: incomeIds }
+        );
+
+        logger.info('Invoice created from income', {
+            userId,
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            incomeCount: incomeIds.length
+        });
+
+        return {
+            invoice,
+            billedIncomeIds: incomeIds,
+            message: `Draft invoice ${invoice.invoiceNumber} created from ${incomeIds.length} income entr${incomeIds.length === 1 ? 'y' : 'ies'}`
+        };
+    } catch (error) {
+        logger.error('Failed to create invoice from income', { userId, error });
+        throw error;
+    }
+};
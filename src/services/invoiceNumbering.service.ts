@@ -0,0 +1,232 @@
+/**
+ * Invoice Numbering Service
+ * Per-user invoice number format and atomic counter
+ */
+
+import { Prisma, InvoiceSequence } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    InvoiceNumberingSettings,
+    InvoiceNumberingResponse,
+    UpdateInvoiceNumberingRequest,
+    INVOICE_NUMBER_TOKENS,
+} from '../types/invoice.types';
+import { BadRequestError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Numbers issued before per-user sequences existed looked like INV-2025-001
+const LEGACY_PREFIX = 'INV';
+
+// ============================================================================
+// HELPER: FORMAT NUMBER
+// ============================================================================
+
+type NumberFormat = Pick<InvoiceSequence, 'prefix' | 'format' | 'padding'>;
+
+export const formatInvoiceNumber = (settings: NumberFormat, sequence: number, date: Date): string => {
+    const year = String(date.getFullYear());
+
+    return settings.format
+        .replace(/\{PREFIX\}/g, settings.prefix)
+        .replace(/\{YYYY\}/g, year)
+        .replace(/\{YY\}/g, year.slice(-2))
+        .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+        .replace(/\{SEQ\}/g, String(sequence).padStart(settings.padding, '0'));
+};
+
+const toSettings = (sequence: InvoiceSequence): InvoiceNumberingSettings => {
+    const now = new Date();
+
+    // the counter restarts at 1 in a new year
+    const nextNumber = sequence.resetYearly && sequence.lastResetYear !== now.getFullYear()
+        ? 1
+        : sequence.lastNumber + 1;
+
+    return {
+        prefix: sequence.prefix,
+        format: sequence.format,
+        padding: sequence.padding,
+        resetYearly: sequence.resetYearly,
+        lastNumber: sequence.lastNumber,
+        nextInvoiceNumber: formatInvoiceNumber(sequence, nextNumber, now),
+    };
+};
+
+// ============================================================================
+// HELPER: ENSURE SEQUENCE ROW
+// ============================================================================
+
+/**
+ * Creates the user's sequence on first use, continuing from any invoices
+ * numbered with the old INV-YYYY-### scheme so they don't collide.
+ * Call before opening the invoice creation transaction.
+ */
+export const ensureInvoiceSequence = async (userId: string): Promise<InvoiceSequence> => {
+    const existing = await db.invoiceSequence.findUnique({
+        where: { userId }
+    });
+
+    if (existing) {
+        return existing;
+    }
+
+    const year = new Date().getFullYear();
+    const legacyPrefix = `${LEGACY_PREFIX}-${year}-`;
+
+    const legacyInvoices = await db.invoice.findMany({
+        where: {
+            userId,
+            invoiceNumber: { startsWith: legacyPrefix }
+        },
+        select: { invoiceNumber: true }
+    });
+
+    const lastNumber = legacyInvoices.reduce((max, invoice) => {
+        const sequence = parseInt(invoice.invoiceNumber.slice(legacyPrefix.length), 10);
+        return Number.isNaN(sequence) ? max : Math.max(max, sequence);
+    }, 0);
+
+    try {
+        return await db.invoiceSequence.create({
+            data: {
+                userId,
+                lastNumber,
+                lastResetYear: year,
+            }
+        });
+    } catch (error) {
+        // another request created it first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return db.invoiceSequence.findUniqueOrThrow({ where: { userId } });
+        }
+        throw error;
+    }
+};
+
+// ============================================================================
+// NEXT INVOICE NUMBER (inside the invoice creation transaction)
+// ============================================================================
+
+/**
+ * Reserves the next number. The counter row stays locked until the
+ * transaction commits, so concurrent invoices for a user can't get the same
+ * number, and a failed invoice creation rolls the counter back.
+ */
+export const getNextInvoiceNumber = async (
+    tx: Prisma.TransactionClient,
+    userId: string,
+    date: Date = new Date()
+): Promise<string> => {
+    const year = date.getFullYear();
+
+    const sequence = await tx.invoiceSequence.findUniqueOrThrow({
+        where: { userId }
+    });
+
+    if (sequence.resetYearly) {
+        // only the first invoice of a new year resets the counter
+        await tx.invoiceSequence.updateMany({
+            where: {
+                userId,
+                OR: [{ lastResetYear: null }, { lastResetYear: { lt: year } }],
+            },
+            data: { lastNumber: 0, lastResetYear: year }
+        });
+    }
+
+    const updated = await tx.invoiceSequence.update({
+        where: { userId },
+        data: { lastNumber: { increment: 1 } }
+    });
+
+    return formatInvoiceNumber(updated, updated.lastNumber, date);
+};
+
+// ============================================================================
+// GET / UPDATE NUMBERING SETTINGS
+// ============================================================================
+export const getNumberingSettings = async (userId: string): Promise<InvoiceNumberingSettings> => {
+    try {
+        const sequence = await ensureInvoiceSequence(userId);
+
+        return toSettings(sequence);
+    } catch (error) {
+        logger.error('Failed to get invoice numbering settings', { userId, error });
+        throw error;
+    }
+};
+
+export const updateNumberingSettings = async (
+    userId: string,
+    data: UpdateInvoiceNumberingRequest
+): Promise<InvoiceNumberingResponse> => {
+    try {
+        if (data.format !== undefined) {
+            if (!data.format.includes('{SEQ}')) {
+                throw new ValidationError('Number format must include the {SEQ} token', {
+                    format: data.format,
+                });
+            }
+
+            const unknownTokens = (data.format.match(/\{[^}]*\}/g) || [])
+                .filter((token) => !(INVOICE_NUMBER_TOKENS as readonly string[]).includes(token));
+
+            if (unknownTokens.length > 0) {
+                throw new ValidationError(`Unknown token(s) in number format: ${unknownTokens.join(', ')}`, {
+                    allowedTokens: INVOICE_NUMBER_TOKENS,
+                });
+            }
+        }
+
+        const current = await ensureInvoiceSequence(userId);
+
+        const format = data.format ?? current.format;
+        const resetYearly = data.resetYearly ?? current.resetYearly;
+        const year = new Date().getFullYear();
+
+        // without a year in the number, a yearly reset would repeat last year's numbers
+        if (resetYearly && !/\{YYYY\}|\{YY\}/.test(format)) {
+            throw new BadRequestError('A yearly reset needs a {YYYY} or {YY} token in the number format', {
+                format,
+                resetYearly,
+            });
+        }
+
+        if (data.nextNumber !== undefined) {
+            // highest number issued in the current numbering period
+            const lastIssued = resetYearly && current.lastResetYear !== year ? 0 : current.lastNumber;
+
+            if (data.nextNumber <= lastIssued) {
+                throw new BadRequestError(`Next number must be greater than ${lastIssued}, the last number issued`, {
+                    nextNumber: data.nextNumber,
+                    lastNumber: lastIssued,
+                });
+            }
+        }
+
+        const sequence = await db.invoiceSequence.update({
+            where: { userId },
+            data: {
+                prefix: data.prefix,
+                format: data.format,
+                padding: data.padding,
+                resetYearly: data.resetYearly,
+                // the next invoice increments first, so store one below the requested number
+                ...(data.nextNumber !== undefined && {
+                    lastNumber: data.nextNumber - 1,
+                    lastResetYear: year,
+                }),
+            }
+        });
+
+        logger.info('Invoice numbering settings updated', { userId, format: sequence.format });
+
+        return {
+            settings: toSettings(sequence),
+            message: 'Invoice numbering settings updated successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to update invoice numbering settings', { userId, error });
+        throw error;
+    }
+};
@@ -0,0 +1,291 @@
+/**
+ * Invoice Payment Service
+ * Records full and partial payments (installments) against invoices
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    RecordInvoicePaymentRequest,
+    RecordInvoicePaymentResponse,
+    GetInvoicePaymentsResponse,
+    MarkInvoiceAsPaidRequest,
+    MarkInvoiceAsPaidResponse,
+    InvoicePayment,
+    InvoiceStatus,
+    PAYABLE_INVOICE_STATUSES,
+} from '../types/invoice.types';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { serializeInvoice, getBalanceDue } from './invoice.service';
+import { transitionInvoiceStatus } from './invoiceStatus.service';
+
+// ============================================================================
+// HELPER: SERIALIZE PAYMENT
+// ============================================================================
+const serializePayment = (payment: any): InvoicePayment => {
+    return {
+        id: payment.id,
+        invoiceId: payment.invoiceId,
+        incomeLogId: payment.incomeLogId,
+        amount: payment.amount instanceof Prisma.Decimal ? payment.amount.toNumber() : Number(payment.amount),
+        paymentMethod: payment.paymentMethod,
+        externalTxId: payment.externalTxId,
+        memo: payment.memo,
+        status: payment.status,
+        paymentDate: payment.paymentDate,
+        createdAt: payment.createdAt,
+    };
+};
+
+// ============================================================================
+// HELPER: LOCK PAYABLE INVOICE (inside a transaction)
+// ============================================================================
+
+type InvoiceWithClientRecord = Prisma.InvoiceGetPayload<{ include: { client: true } }>;
+
+/**
+ * Locks the invoice row for the rest of the transaction, then loads it and
+ * checks it can take a payment - concurrent payments wait for each other and
+ * always see the balance the previous one wrote
+ */
+const lockPayableInvoice = async (
+    tx: Prisma.TransactionClient,
+    userId: string,
+    invoiceId: string
+): Promise<InvoiceWithClientRecord> => {
+    await tx.$queryRaw`SELECT id FROM "invoices" WHERE id = ${invoiceId} FOR UPDATE`;
+
+    const invoice = await tx.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+            client: true
+        }
+    });
+
+    if (!invoice || invoice.userId !== userId) {
+        throw new NotFoundError('Invoice');
+    }
+
+    if (invoice.status === 'paid') {
+        throw new BadRequestError('Invoice is already marked as paid');
+    }
+
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+        throw new BadRequestError(`Cannot record a payment on an invoice with status '${invoice.status}'`, {
+            allowedStatuses: PAYABLE_INVOICE_STATUSES,
+        });
+    }
+
+    return invoice;
+};
+
+// ============================================================================
+// HELPER: APPLY PAYMENT (inside a transaction)
+// ============================================================================
+
+// amount 'balance' pays whatever is still due once the invoice is locked
+type ApplyPaymentData = Omit<RecordInvoicePaymentRequest, 'amount'> & { amount: number | 'balance' };
+
+/**
+ * Creates the income entry and payment row for an installment,
+ * updates the invoice balance and moves it to partially_paid / paid
+ */
+const applyInvoicePayment = async (
+    tx: Prisma.TransactionClient,
+    userId: string,
+    invoiceId: string,
+    data: ApplyPaymentData
+) => {
+    const invoice = await lockPayableInvoice(tx, userId, invoiceId);
+
+    const balanceDue = getBalanceDue(invoice);
+    const paymentAmount = data.amount === 'balance' ? balanceDue : new Prisma.Decimal(data.amount);
+
+    if (balanceDue.lessThan(paymentAmount)) {
+        throw new BadRequestError('Payment exceeds the balance due', {
+            balanceDue: balanceDue.toNumber(),
+        });
+    }
+
+    const paymentDate = data.paymentDate ? new Date(data.paymentDate) : new Date();
+    const amountPaid = invoice.amountPaid.plus(paymentAmount);
+    const isFullyPaid = paymentAmount.greaterThanOrEqualTo(balanceDue);
+
+    //income entry for this installment
+    const income = await tx.incomeLog.create({
+        data: {
+            userId,
+            amount: paymentAmount,
+            currency: invoice.currency,
+            clientId: invoice.clientId,
+            clientName: invoice.client.name,
+            projectName: invoice.description,
+            source: 'invoice',
+            notes: data.notes || `Payment for invoice ${invoice.invoiceNumber}`,
+            loggedAt: paymentDate,
+        }
+    });
+
+    //payment row linking the invoice to the income
+    const payment = await tx.payment.create({
+        data: {
+            userId,
+            amount: paymentAmount,
+            direction: 'RECEIVED',
+            counterpartyName: invoice.client.name,
+            counterPartyEmail: invoice.client.email,
+            status: 'completed',
+            paymentMethod: data.paymentMethod,
+            externalTxId: data.reference,
+            memo: data.notes,
+            invoiceId: invoice.id,
+            incomeLogId: income.id,
+            paymentDate,
+        }
+    });
+
+    //work out the next status
+    const balanceUpdate = {
+        amountPaid,
+        ...(isFullyPaid && { paidDate: paymentDate, incomeLogId: income.id }),
+    };
+
+    let nextStatus: InvoiceStatus | null = null;
+    if (isFullyPaid) {
+        nextStatus = 'paid';
+    } else if (invoice.status === 'sent' || invoice.status === 'viewed') {
+        nextStatus = 'partially_paid';
+    }
+    // overdue / partially_paid invoices keep their status until fully paid
+
+    const updatedInvoice = nextStatus
+        ? await transitionInvoiceStatus(tx, invoice, nextStatus, {
+            actorId: userId,
+            reason: `Payment of ${paymentAmount.toFixed(2)} received`,
+            data: balanceUpdate,
+        })
+        : await tx.invoice.update({
+            where: { id: invoice.id },
+            data: balanceUpdate,
+        });
+
+    return { income, payment, invoice: updatedInvoice };
+};
+
+// ============================================================================
+// RECORD PAYMENT
+// ============================================================================
+export const recordInvoicePayment = async (
+    userId: string,
+    invoiceId: string,
+    data: RecordInvoicePaymentRequest
+): Promise<RecordInvoicePaymentResponse> => {
+    try {
+        const result = await db.$transaction((tx) =>
+            applyInvoicePayment(tx, userId, invoiceId, data)
+        );
+
+        logger.info('Invoice payment recorded', {
+            userId,
+            invoiceId,
+            paymentId: result.payment.id,
+            amount: result.payment.amount.toString(),
+            status: result.invoice.status,
+        });
+
+        return {
+            invoice: serializeInvoice(result.invoice),
+            payment: serializePayment(result.payment),
+            income: {
+                id: result.income.id,
+                amount: result.income.amount.toNumber(),
+                loggedAt: result.income.loggedAt
+            },
+            message: result.invoice.status === 'paid'
+                ? 'Payment recorded - invoice is now fully paid'
+                : 'Payment recorded successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to record invoice payment', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// MARK INVOICE AS PAID (PAYS THE REMAINING BALANCE)
+// ============================================================================
+export const markInvoiceAsPaid = async (
+    userId: string,
+    invoiceId: string,
+    data: MarkInvoiceAsPaidRequest
+): Promise<MarkInvoiceAsPaidResponse> => {
+    try {
+        // use transaction to ensure income, payment and invoice update succeed or fail together
+        const result = await db.$transaction((tx) =>
+            applyInvoicePayment(tx, userId, invoiceId, {
+                amount: 'balance',
+                paymentDate: data.paidDate,
+                notes: data.notes,
+            })
+        );
+
+        logger.info('Invoice marked as paid and income created', {
+            userId,
+            invoiceId,
+            incomeId: result.income.id,
+            amount: result.income.amount.toString()
+        });
+
+        return {
+            invoice: serializeInvoice(result.invoice),
+            income: {
+                id: result.income.id,
+                amount: result.income.amount.toNumber(),
+                loggedAt: result.income.loggedAt
+            },
+            message: 'Invoice marked as paid and income logged successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to mark invoice as paid', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET INVOICE PAYMENTS
+// ============================================================================
+export const getInvoicePayments = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetInvoicePaymentsResponse> => {
+    try {
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId },
+            include: {
+                payments: {
+                    orderBy: { paymentDate: 'asc' }
+                }
+            }
+        });
+
+        if (!invoice || invoice.userId !== userId) {
+            throw new NotFoundError('Invoice');
+        }
+
+        logger.info('Invoice payments fetched', { userId, invoiceId, count: invoice.payments.length });
+
+        return {
+            invoiceId,
+            amount: invoice.amount.toNumber(),
+            amountPaid: invoice.amountPaid.toNumber(),
+            amountCredited: invoice.amountCredited.toNumber(),
+            lateCharges: invoice.lateCharges.toNumber(),
+            balanceDue: getBalanceDue(invoice).toNumber(),
+            payments: invoice.payments.map(serializePayment),
+        };
+    } catch (error) {
+        logger.error('Failed to get invoice payments', { userId, invoiceId, error });
+        throw error;
+    }
+};
@@ -0,0 +1,364 @@
+/**
+ * Invoice Share Service
+ * Signed, expiring, revocable links that let clients open an invoice without logging in
+ */
+
+import { db } from '../config/database';
+import { config } from '../config/environment';
+import {
+    CreateShareLinkRequest,
+    GetInvoiceViewsResponse,
+    GetShareLinksResponse,
+    InvoiceShareLink,
+    InvoiceStatus,
+    InvoiceViewEvent,
+    InvoiceViewEventType,
+    InvoiceWithDetails,
+    PublicInvoice,
+    SENDABLE_INVOICE_STATUSES,
+    ShareLinkResponse,
+    ViewerInfo,
+} from '../types/invoice.types';
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '../utils/errors';
+import { generateShareToken, verifyShareToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { getInvoiceById } from './invoice.service';
+import { transitionInvoiceStatus } from './invoiceStatus.service';
+import { generateInvoicePDF } from './pdf.service';
+import { getInvoicePdfFilename } from './invoiceEmail.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Paid invoices stay shareable so clients can fetch their receipt copy
+const SHAREABLE_INVOICE_STATUSES: InvoiceStatus[] = [...SENDABLE_INVOICE_STATUSES, 'paid'];
+
+// ============================================================================
+// HELPER: BUILD LINK
+// ============================================================================
+
+const getShareUrl = (token: string): string => {
+    return `${config.APP_URL}/api/${config.API_VERSION}/public/invoices/${token}`;
+};
+
+const isLinkActive = (link: { expiresAt: Date; revokedAt: Date | null }, now: Date = new Date()): boolean => {
+    return !link.revokedAt && link.expiresAt > now;
+};
+
+/**
+ * Tokens aren't stored - a fresh one with the same expiry is signed whenever the link is listed
+ */
+const serializeShareLink = (link: any): InvoiceShareLink => {
+    const isActive = isLinkActive(link);
+    const url = isActive
+        ? getShareUrl(generateShareToken({ linkId: link.id, invoiceId: link.invoiceId }, link.expiresAt))
+        : null;
+
+    return {
+        id: link.id,
+        invoiceId: link.invoiceId,
+        expiresAt: link.expiresAt,
+        revokedAt: link.revokedAt,
+        viewCount: link.viewCount,
+        lastViewedAt: link.lastViewedAt,
+        createdAt: link.createdAt,
+        isActive,
+        url,
+        pdfUrl: url ? `${url}/pdf` : null,
+    };
+};
+
+const assertInvoiceOwner = async (userId: string, invoiceId: string) => {
+    const invoice = await db.invoice.findUnique({
+        where: { id: invoiceId },
+        select: { id: true, userId: true, status: true },
+    });
+
+    if (!invoice || invoice.userId !== userId) {
+        throw new NotFoundError('Invoice');
+    }
+
+    return invoice;
+};
+
+// ============================================================================
+// CREATE SHARE LINK
+// ============================================================================
+
+export const createShareLink = async (
+    userId: string,
+    invoiceId: string,
+    data: CreateShareLinkRequest
+): Promise<ShareLinkResponse> => {
+    try {
+        const invoice = await assertInvoiceOwner(userId, invoiceId);
+
+        if (!SHAREABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+            throw new BadRequestError(`Cannot share an invoice with status '${invoice.status}'`);
+        }
+
+        const expiresInDays = data.expiresInDays ?? config.SHARE_LINK_EXPIRES_DAYS;
+
+        const link = await db.invoiceShareLink.create({
+            data: {
+                invoiceId,
+                userId,
+                expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
+            },
+        });
+
+        logger.info('Invoice share link created', { userId, invoiceId, linkId: link.id, expiresInDays });
+
+        return {
+            link: serializeShareLink(link),
+            message: 'Share link created',
+        };
+    } catch (error) {
+        logger.error('Failed to create share link', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET SHARE LINKS
+// ============================================================================
+
+export const getShareLinks = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetShareLinksResponse> => {
+    try {
+        await assertInvoiceOwner(userId, invoiceId);
+
+        const links = await db.invoiceShareLink.findMany({
+            where: { invoiceId },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        logger.info('Invoice share links fetched', { userId, invoiceId, count: links.length });
+
+        return {
+            invoiceId,
+            links: links.map(serializeShareLink),
+        };
+    } catch (error) {
+        logger.error('Failed to get share links', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// REVOKE SHARE LINK
+// ============================================================================
+
+export const revokeShareLink = async (
+    userId: string,
+    invoiceId: string,
+    linkId: string
+): Promise<ShareLinkResponse> => {
+    try {
+        const existing = await db.invoiceShareLink.findUnique({
+            where: { id: linkId },
+        });
+
+        if (!existing || existing.userId !== userId || existing.invoiceId !== invoiceId) {
+            throw new NotFoundError('Share link');
+        }
+
+        // revoking twice keeps the original timestamp
+        const link = existing.revokedAt
+            ? existing
+            : await db.invoiceShareLink.update({
+                where: { id: linkId },
+                data: { revokedAt: new Date() },
+            });
+
+        logger.info('Invoice share link revoked', { userId, invoiceId, linkId });
+
+        return {
+            link: serializeShareLink(link),
+            message: 'Share link revoked',
+        };
+    } catch (error) {
+        logger.error('Failed to revoke share link', { userId, invoiceId, linkId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET VIEW EVENTS
+// ============================================================================
+
+export const getInvoiceViews = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetInvoiceViewsResponse> => {
+    try {
+        await assertInvoiceOwner(userId, invoiceId);
+
+        const views = await db.invoiceViewEvent.findMany({
+            where: { invoiceId },
+            orderBy: { viewedAt: 'desc' },
+        });
+
+        logger.info('Invoice views fetched', { userId, invoiceId, count: views.length });
+
+        return {
+            invoiceId,
+            views: views as InvoiceViewEvent[],
+        };
+    } catch (error) {
+        logger.error('Failed to get invoice views', { userId, invoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PUBLIC ACCESS (no authentication - the token is the credential)
+// ============================================================================
+
+/**
+ * Checks the token and the link behind it, records the visit and returns the invoice.
+ * The first visit to a "sent" invoice moves it to "viewed" - when two visits race,
+ * the one that loses just records its view.
+ */
+const openSharedInvoice = async (
+    token: string,
+    type: InvoiceViewEventType,
+    viewer: ViewerInfo
+): Promise<InvoiceWithDetails> => {
+    const payload = verifyShareToken(token);
+
+    const link = await db.invoiceShareLink.findUnique({
+        where: { id: payload.linkId },
+    });
+
+    // same message for unknown and revoked links - don't reveal which links exist
+    if (!link || link.invoiceId !== payload.invoiceId || link.revokedAt) {
+        throw new UnauthorizedError('Invalid invoice link');
+    }
+
+    if (link.expiresAt <= new Date()) {
+        throw new UnauthorizedError('Invoice link has expired');
+    }
+
+    const invoice = await getInvoiceById(link.userId, link.invoiceId);
+
+    // links stop working once the invoice is cancelled or voided
+    if (!SHAREABLE_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus)) {
+        throw new UnauthorizedError('Invoice link is no longer valid');
+    }
+
+    const status = await db.$transaction(async (tx) => {
+        await tx.invoiceViewEvent.create({
+            data: {
+                invoiceId: link.invoiceId,
+                shareLinkId: link.id,
+                type,
+                ipAddress: viewer.ipAddress ?? null,
+                userAgent: viewer.userAgent ?? null,
+            },
+        });
+
+        await tx.invoiceShareLink.update({
+            where: { id: link.id },
+            data: {
+                viewCount: { increment: 1 },
+                lastViewedAt: new Date(),
+            },
+        });
+
+        if (invoice.status !== 'sent') {
+            return invoice.status;
+        }
+
+        try {
+            const viewed = await transitionInvoiceStatus(tx, invoice, 'viewed', {
+                actorType: 'client',
+                reason: 'Opened via shared link',
+            });
+
+            return viewed.status;
+        } catch (error) {
+            if (!(error instanceof ConflictError)) {
+                throw error;
+            }
+
+            // moved on since it was read (usually a simultaneous visit already marked it viewed)
+            const current = await tx.invoice.findUniqueOrThrow({
+                where: { id: invoice.id },
+                select: { status: true },
+            });
+
+            return current.status;
+        }
+    });
+
+    logger.info('Shared invoice opened', { invoiceId: link.invoiceId, linkId: link.id, type });
+
+    return { ...invoice, status: status as InvoiceStatus };
+};
+
+const toPublicInvoice = (invoice: InvoiceWithDetails, token: string): PublicInvoice => {
+    return {
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        description: invoice.description,
+        items: invoice.items,
+        subtotal: invoice.subtotal,
+        discountAmount: invoice.discountAmount,
+        taxBreakdown: invoice.taxBreakdown,
+        shipping: invoice.shipping,
+        amount: invoice.amount,
+        lateCharges: invoice.lateCharges,
+        amountPaid: invoice.amountPaid,
+        amountCredited: invoice.amountCredited,
+        balanceDue: invoice.balanceDue,
+        currency: invoice.currency,
+        locale: invoice.locale,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        notes: invoice.notes,
+        terms: invoice.terms,
+        from: {
+            name: invoice.user.name,
+            email: invoice.user.email,
+            phone: invoice.user.phone,
+        },
+        to: {
+            name: invoice.client.name,
+            company: invoice.client.company,
+        },
+        pdfUrl: `${getShareUrl(token)}/pdf`,
+    };
+};
+
+export const getPublicInvoice = async (
+    token: string,
+    viewer: ViewerInfo
+): Promise<PublicInvoice> => {
+    try {
+        const invoice = await openSharedInvoice(token, 'view', viewer);
+
+        return toPublicInvoice(invoice, token);
+    } catch (error) {
+        logger.error('Failed to open shared invoice', { ipAddress: viewer.ipAddress, error });
+        throw error;
+    }
+};
+
+export const getPublicInvoicePDF = async (
+    token: string,
+    viewer: ViewerInfo
+): Promise<{ filename: string; pdfBuffer: Buffer }> => {
+    try {
+        const invoice = await openSharedInvoice(token, 'download', viewer);
+
+        return {
+            filename: getInvoicePdfFilename(invoice),
+            pdfBuffer: await generateInvoicePDF(invoice),
+        };
+    } catch (error) {
+        logger.error('Failed to download shared invoice', { ipAddress: viewer.ipAddress, error });
+        throw error;
+    }
+};
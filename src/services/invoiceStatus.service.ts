@@ -0,0 +1,167 @@
+/**
+ * Invoice Status Service
+ * Enforces the invoice lifecycle and records every status transition
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    InvoiceStatus,
+    InvoiceActorType,
+    InvoiceStatusHistoryEntry,
+    InvoiceStatusHistoryResponse,
+    INVOICE_STATUS_TRANSITIONS,
+} from '../types/invoice.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// TRANSITION OPTIONS
+// ============================================================================
+
+export interface TransitionOptions {
+    actorType?: InvoiceActorType;
+    actorId?: string | null;
+    reason?: string | null;
+    data?: Prisma.InvoiceUncheckedUpdateManyInput; // extra invoice fields to update with the status
+}
+
+// ============================================================================
+// CHECK TRANSITION
+// ============================================================================
+
+export const canTransition = (from: InvoiceStatus, to: InvoiceStatus): boolean => {
+    return INVOICE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+/**
+ * Throws a descriptive error if the lifecycle doesn't allow from → to
+ */
+export const assertTransition = (from: InvoiceStatus, to: InvoiceStatus): void => {
+    if (!canTransition(from, to)) {
+        throw new BadRequestError(`Cannot change invoice status from '${from}' to '${to}'`, {
+            from,
+            to,
+            allowed: INVOICE_STATUS_TRANSITIONS[from] ?? [],
+        });
+    }
+};
+
+// ============================================================================
+// TRANSITION INVOICE STATUS
+// ============================================================================
+
+/**
+ * Moves an invoice to a new status and writes a history row
+ * Must be called inside a transaction so the status and its history stay in sync.
+ * The update only applies if the invoice is still in the status it was read with -
+ * otherwise a ConflictError is thrown (e.g. a payment landed after a batch read)
+ */
+export const transitionInvoiceStatus = async (
+    tx: Prisma.TransactionClient,
+    invoice: { id: string; status: string },
+    toStatus: InvoiceStatus,
+    options: TransitionOptions = {}
+) => {
+    const fromStatus = invoice.status as InvoiceStatus;
+    assertTransition(fromStatus, toStatus);
+
+    const { count } = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: fromStatus },
+        data: {
+            ...options.data,
+            status: toStatus,
+        },
+    });
+
+    if (count === 0) {
+        throw new ConflictError(`Invoice status changed from '${fromStatus}' before it could be set to '${toStatus}', please try again`);
+    }
+
+    const updatedInvoice = await tx.invoice.findUniqueOrThrow({
+        where: { id: invoice.id },
+    });
+
+    // work billed on a cancelled / voided invoice is unbilled again and can go on another invoice
+    if (toStatus === 'cancelled' || toStatus === 'void') {
+        await tx.incomeLog.updateMany({
+            where: { billedInvoiceId: invoice.id },
+            data: { billedInvoiceId: null },
+        });
+    }
+
+    await tx.invoiceStatusHistory.create({
+        data: {
+            invoiceId: invoice.id,
+            fromStatus,
+            toStatus,
+            reason: options.reason ?? null,
+            actorType: options.actorType || 'user',
+            actorId: options.actorId ?? null,
+        },
+    });
+
+    logger.info('Invoice status changed', {
+        invoiceId: invoice.id,
+        fromStatus,
+        toStatus,
+        actorType: options.actorType || 'user',
+    });
+
+    return updatedInvoice;
+};
+
+/**
+ * Records the initial "draft" entry when an invoice is created
+ */
+export const recordInitialStatus = async (
+    tx: Prisma.TransactionClient,
+    invoiceId: string,
+    actorId: string
+): Promise<void> => {
+    await tx.invoiceStatusHistory.create({
+        data: {
+            invoiceId,
+            fromStatus: null,
+            toStatus: 'draft',
+            actorType: 'user',
+            actorId,
+        },
+    });
+};
+
+// ============================================================================
+// GET STATUS HISTORY
+// ============================================================================
+
+export const getInvoiceStatusHistory = async (
+    userId: string,
+    invoiceId: string
+): Promise<InvoiceStatusHistoryResponse> => {
+    try {
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId },
+            select: { id: true, userId: true, status: true },
+        });
+
+        if (!invoice || invoice.userId !== userId) {
+            throw new NotFoundError('Invoice');
+        }
+
+        const history = await db.invoiceStatusHistory.findMany({
+            where: { invoiceId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        logger.info('Invoice status history fetched', { userId, invoiceId, count: history.length });
+
+        return {
+            invoiceId,
+            currentStatus: invoice.status as InvoiceStatus,
+            history: history as InvoiceStatusHistoryEntry[],
+        };
+    } catch (error) {
+        logger.error('Failed to get invoice status history', { userId, invoiceId, error });
+        throw error;
+    }
+};
@@ -0,0 +1,205 @@
+/**
+ * Invoice Totals Service
+ * Computes subtotal, discount, taxes, shipping and total from line items,
+ * and reconciles them against the amounts the client sent
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+    InvoiceLineItem,
+    InvoiceDiscount,
+    InvoiceTaxRate,
+    InvoiceTaxLine,
+    InvoiceTotals,
+} from '../types/invoice.types';
+import { ValidationError } from '../utils/errors';
+
+type Decimal = Prisma.Decimal;
+
+export interface InvoiceTotalsInput {
+    amount?: number;                    // subtotal without items; expected total with items
+    items?: InvoiceLineItem[] | null;
+    discount?: InvoiceDiscount | null;
+    taxes?: InvoiceTaxRate[] | null;    // invoice-level, for lines without their own taxes
+    shipping?: number | null;
+    recalculate?: boolean;              // overwrite mismatched amounts instead of rejecting them
+}
+
+export interface InvoiceTotalsResult {
+    items?: InvoiceLineItem[];          // items with server-computed amounts
+    totals: InvoiceTotals;
+}
+
+// ============================================================================
+// HELPER: ROUNDING
+// ============================================================================
+
+const roundMoney = (value: Decimal): Decimal => {
+    return value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+};
+
+/**
+ * Compares a client-supplied amount to the computed one, to the cent
+ */
+const amountsMatch = (received: number, expected: Decimal): boolean => {
+    return roundMoney(new Prisma.Decimal(received)).equals(expected);
+};
+
+// ============================================================================
+// HELPER: LINE ITEMS
+// ============================================================================
+
+/**
+ * Recomputes every line as quantity * rate. Unless recalculating,
+ * any line whose amount disagrees is rejected.
+ */
+const reconcileLineItems = (items: InvoiceLineItem[], recalculate: boolean): InvoiceLineItem[] => {
+    const mismatches: Array<{ index: number; description: string; expected: number; received: number }> = [];
+
+    const reconciled = items.map((item, index) => {
+        const expected = roundMoney(new Prisma.Decimal(item.quantity).times(item.rate));
+
+        if (!recalculate && item.amount !== undefined && !amountsMatch(item.amount, expected)) {
+            mismatches.push({
+                index,
+                description: item.description,
+                expected: expected.toNumber(),
+                received: item.amount,
+            });
+        }
+
+        return { ...item, amount: expected.toNumber() };
+    });
+
+    if (mismatches.length > 0) {
+        const first = mismatches[0];
+        throw new ValidationError(
+            `Line item ${first.index + 1} ("${first.description}"): amount ${first.received} does not match quantity × rate (${first.expected.toFixed(2)})`,
+            { mismatches }
+        );
+    }
+
+    return reconciled;
+};
+
+// ============================================================================
+// HELPER: DISCOUNT
+// ============================================================================
+
+const calculateDiscount = (subtotal: Decimal, discount?: InvoiceDiscount | null): Decimal => {
+    if (!discount) {
+        return new Prisma.Decimal(0);
+    }
+
+    const value = new Prisma.Decimal(discount.value);
+
+    if (discount.type === 'percentage') {
+        if (value.lessThan(0) || value.greaterThan(100)) {
+            throw new ValidationError('Percentage discount must be between 0 and 100');
+        }
+        return roundMoney(subtotal.times(value).dividedBy(100));
+    }
+
+    if (value.greaterThan(subtotal)) {
+        throw new ValidationError('Discount cannot exceed the subtotal', {
+            subtotal: subtotal.toNumber(),
+        });
+    }
+
+    return roundMoney(value);
+};
+
+// ============================================================================
+// CALCULATE TOTALS
+// ============================================================================
+
+/**
+ * Taxes are charged on the discounted amount: an invoice-level discount is
+ * spread across the lines in proportion to their amounts. Shipping is not taxed.
+ */
+export const calculateInvoiceTotals = (input: InvoiceTotalsInput): InvoiceTotalsResult => {
+    const hasItems = !!input.items && input.items.length > 0;
+
+    if (!hasItems && input.amount === undefined) {
+        throw new ValidationError('Either amount or line items are required');
+    }
+
+    //line amounts are always quantity * rate
+    const items = hasItems
+        ? reconcileLineItems(input.items!, !!input.recalculate)
+        : undefined;
+
+    //without items the whole amount is one line taxed at the invoice-level rates
+    const lines = items ?? [{ amount: input.amount as number, taxes: undefined }];
+
+    const subtotal = lines.reduce(
+        (sum, line) => sum.plus(line.amount),
+        new Prisma.Decimal(0)
+    );
+
+    const discountAmount = calculateDiscount(subtotal, input.discount);
+    const discountRatio = subtotal.isZero()
+        ? new Prisma.Decimal(0)
+        : discountAmount.dividedBy(subtotal);
+
+    //taxable amount per named tax
+    const taxGroups = new Map<string, { name: string; rate: number; taxable: Decimal }>();
+
+    lines.forEach((line) => {
+        const lineTaxes = line.taxes ?? input.taxes ?? [];
+        const taxable = new Prisma.Decimal(line.amount).times(new Prisma.Decimal(1).minus(discountRatio));
+
+        lineTaxes.forEach((tax) => {
+            const key = `${tax.name}|${tax.rate}`;
+            const group = taxGroups.get(key) ?? { name: tax.name, rate: tax.rate, taxable: new Prisma.Decimal(0) };
+            group.taxable = group.taxable.plus(taxable);
+            taxGroups.set(key, group);
+        });
+    });
+
+    const taxBreakdown: InvoiceTaxLine[] = Array.from(taxGroups.values()).map((group) => {
+        const taxableAmount = roundMoney(group.taxable);
+        return {
+            name: group.name,
+            rate: group.rate,
+            taxableAmount: taxableAmount.toNumber(),
+            amount: roundMoney(taxableAmount.times(group.rate).dividedBy(100)).toNumber(),
+        };
+    });
+
+    const taxAmount = taxBreakdown.reduce(
+        (sum, tax) => sum.plus(tax.amount),
+        new Prisma.Decimal(0)
+    );
+
+    const shipping = roundMoney(new Prisma.Decimal(input.shipping ?? 0));
+
+    const total = subtotal.minus(discountAmount).plus(taxAmount).plus(shipping);
+
+    //with items, a client-supplied amount is only a check against the computed total
+    if (hasItems && input.amount !== undefined && !input.recalculate && !amountsMatch(input.amount, total)) {
+        throw new ValidationError(
+            `Invoice amount ${input.amount} does not match the total computed from its line items (${total.toFixed(2)})`,
+            {
+                expected: total.toNumber(),
+                received: input.amount,
+                subtotal: subtotal.toNumber(),
+                discountAmount: discountAmount.toNumber(),
+                taxAmount: taxAmount.toNumber(),
+                shipping: shipping.toNumber(),
+            }
+        );
+    }
+
+    return {
+        items,
+        totals: {
+            subtotal: subtotal.toNumber(),
+            discountAmount: discountAmount.toNumber(),
+            taxAmount: taxAmount.toNumber(),
+            taxBreakdown,
+            shipping: shipping.toNumber(),
+            total: total.toNumber(),
+        },
+    };
+};
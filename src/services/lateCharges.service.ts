@@ -0,0 +1,222 @@
+/**
+ * Late Charges Service
+ * Accrues late fees and interest on overdue invoices as adjustment lines
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    GetInvoiceAdjustmentsResponse,
+    InvoiceAdjustment,
+} from '../types/invoice.types';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { getBalanceDue } from './invoice.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Interest accrues once per 30-day period after the grace period ends
+const INTEREST_PERIOD_DAYS = 30;
+
+// Process in batches so a large backlog doesn't load every invoice at once
+const BATCH_SIZE = 100;
+
+// ============================================================================
+// HELPER: SERIALIZE ADJUSTMENT
+// ============================================================================
+const serializeAdjustment = (adjustment: any): InvoiceAdjustment => {
+    return {
+        ...adjustment,
+        amount: adjustment.amount instanceof Prisma.Decimal ? adjustment.amount.toNumber() : Number(adjustment.amount),
+    };
+};
+
+// ============================================================================
+// ACCRUE CHARGES FOR ONE INVOICE
+// ============================================================================
+
+/**
+ * Adds whatever charges have come due since the last run:
+ * - the flat late fee, once, when the grace period ends
+ * - simple interest on the unpaid invoice amount for every full 30-day period after that
+ * The invoice is locked and re-read first - one paid or credited since the run
+ * picked it up no longer qualifies and is skipped.
+ * Returns the total newly charged (0 if nothing was due)
+ */
+const accrueInvoiceLateCharges = async (
+    invoiceId: string,
+    now: Date
+): Promise<Prisma.Decimal> => {
+    return db.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "invoices" WHERE id = ${invoiceId} FOR UPDATE`;
+
+        const invoice = await tx.invoice.findUnique({
+            where: { id: invoiceId },
+            select: {
+                id: true,
+                status: true,
+                dueDate: true,
+                amount: true,
+                amountPaid: true,
+                amountCredited: true,
+                lateCharges: true,
+                lateFeeAmount: true,
+                lateInterestRate: true,
+                graceDays: true,
+            },
+        });
+
+        if (!invoice || invoice.status !== 'overdue' || getBalanceDue(invoice).lessThanOrEqualTo(0)) {
+            return new Prisma.Decimal(0);
+        }
+
+        const graceEnd = new Date(invoice.dueDate.getTime() + (invoice.graceDays ?? 0) * DAY_MS);
+
+        if (now <= graceEnd) {
+            return new Prisma.Decimal(0);
+        }
+
+        const existing = await tx.invoiceAdjustment.findMany({
+            where: { invoiceId: invoice.id },
+            select: { type: true, period: true },
+        });
+
+        const charges: { type: string; period: number; description: string; amount: Prisma.Decimal }[] = [];
+
+        // 1. Flat late fee
+        if (invoice.lateFeeAmount?.greaterThan(0) && !existing.some((a) => a.type === 'late_fee')) {
+            charges.push({
+                type: 'late_fee',
+                period: 0,
+                description: 'Late payment fee',
+                amount: invoice.lateFeeAmount,
+            });
+        }
+
+        // 2. Interest - only on the invoice amount still unpaid, never on earlier charges
+        const unpaid = Prisma.Decimal.max(
+            invoice.amount.minus(invoice.amountCredited).minus(invoice.amountPaid),
+            0
+        );
+
+        if (invoice.lateInterestRate?.greaterThan(0) && unpaid.greaterThan(0)) {
+            const periodsDue = Math.floor((now.getTime() - graceEnd.getTime()) / (INTEREST_PERIOD_DAYS * DAY_MS));
+            const accrued = new Set(existing.filter((a) => a.type === 'interest').map((a) => a.period));
+            const monthlyInterest = unpaid.times(invoice.lateInterestRate).dividedBy(100).toDecimalPlaces(2);
+
+            for (let period = 1; period <= periodsDue; period++) {
+                if (!accrued.has(period) && monthlyInterest.greaterThan(0)) {
+                    charges.push({
+                        type: 'interest',
+                        period,
+                        description: `Interest ${invoice.lateInterestRate.toString()}% (month ${period})`,
+                        amount: monthlyInterest,
+                    });
+                }
+            }
+        }
+
+        if (charges.length === 0) {
+            return new Prisma.Decimal(0);
+        }
+
+        await tx.invoiceAdjustment.createMany({
+            data: charges.map((charge) => ({ ...charge, invoiceId: invoice.id })),
+        });
+
+        const total = charges.reduce((sum, charge) => sum.plus(charge.amount), new Prisma.Decimal(0));
+
+        await tx.invoice.update({
+            where: { id: invoice.id },
+            data: { lateCharges: { increment: total } },
+        });
+
+        return total;
+    });
+};
+
+// ============================================================================
+// ACCRUE LATE CHARGES (called by the background job)
+// ============================================================================
+
+export const accrueLateCharges = async (now: Date = new Date()): Promise<number> => {
+    let charged = 0;
+    let lastId: string | undefined;
+
+    while (true) {
+        const invoices = await db.invoice.findMany({
+            where: {
+                status: 'overdue',
+                OR: [
+                    { lateFeeAmount: { gt: 0 } },
+                    { lateInterestRate: { gt: 0 } },
+                ],
+                ...(lastId && { id: { gt: lastId } }),
+            },
+            select: { id: true },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        if (invoices.length === 0) {
+            break;
+        }
+
+        for (const invoice of invoices) {
+            try {
+                const total = await accrueInvoiceLateCharges(invoice.id, now);
+
+                if (total.greaterThan(0)) {
+                    charged++;
+                    logger.info('Late charges accrued', { invoiceId: invoice.id, amount: total.toString() });
+                }
+            } catch (error) {
+                // one bad invoice shouldn't stop the run
+                logger.error('Failed to accrue late charges', { invoiceId: invoice.id, error });
+            }
+        }
+
+        lastId = invoices[invoices.length - 1].id;
+    }
+
+    if (charged > 0) {
+        logger.info('Late charges run finished', { count: charged });
+    }
+
+    return charged;
+};
+
+// ============================================================================
+// GET INVOICE ADJUSTMENTS
+// ============================================================================
+
+export const getInvoiceAdjustments = async (
+    userId: string,
+    invoiceId: string
+): Promise<GetInvoiceAdjustmentsResponse> => {
+    try {
+        const invoice = await db.invoice.findUnique({
+            where: { id: invoiceId },
+            include: {
+                adjustments: {
+                    orderBy: { createdAt: 'asc' }
+                }
+            }
+        });
+
+        if (!invoice || invoice.userId !== userId) {
+            throw new NotFoundError('Invoice');
+        }
+
+        logger.info('Invoice adjustments fetched', { userId, invoiceId, count: invoice.adjustments.length });
+
+        return {
+            invoiceId,
+            lateCharges: invoice.lateCharges.toNumber(),
+            adjustments: invoice.adjustments.map(serializeAdjustment),
+        };
+    } catch (error) {
+        logger.error('Failed to get invoice adjustments', { userId, invoiceId, error });
+        throw error;
+    }
+};
@@ -0,0 +1,88 @@
+/**
+ * OFX Service
+ * Reads bank and credit card statements in OFX 1.x (SGML), OFX 2.x (XML)
+ * and Quicken's QFX flavour. SGML leaf elements have no closing tags, so
+ * values are read up to the next tag rather than through an XML parser;
+ * aggregates (STMTTRN, BANKTRANLIST...) are closed in every version.
+ */
+
+import { ParsedBankTransaction, ParsedStatement, StatementParser } from '../types/bankStatement.types';
+import { ValidationError } from '../utils/errors';
+import {
+    createFallbackTxIdGenerator,
+    parseStatementAmount,
+    statementDate,
+} from '../utils/statementParsing';
+import { decodeXmlEntities } from '../utils/xml';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// value of the first <TAG> in the block - "<NAME>ACME" or "<NAME>ACME</NAME>"
+const ofxValue = (block: string, tag: string): string | null => {
+    const match = block.match(new RegExp(`<${tag}>([^<]*)`, 'i'));
+    const value = match ? decodeXmlEntities(match[1]).trim() : '';
+    return value ? value : null;
+};
+
+const ofxAggregates = (content: string, tag: string): string[] => {
+    const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    return [...content.matchAll(pattern)].map((match) => match[1]);
+};
+
+// YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]] - only the booking day matters
+const parseOfxDate = (raw: string | null): Date | null => {
+    const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? statementDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export const parseOfxStatement: StatementParser = (content) => {
+    if (!/<OFX>/i.test(content)) {
+        throw new ValidationError('Not an OFX file - the <OFX> element is missing');
+    }
+
+    const fallbackTxId = createFallbackTxIdGenerator('ofx');
+    const transactions: ParsedBankTransaction[] = [];
+
+    ofxAggregates(content, 'STMTTRN').forEach((block, index) => {
+        const bookedAt = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+        const amount = parseStatementAmount(ofxValue(block, 'TRNAMT'));
+
+        if (!bookedAt || amount === null) {
+            throw new ValidationError(`OFX transaction ${index + 1} has no valid DTPOSTED or TRNAMT`);
+        }
+
+        const name = ofxValue(block, 'NAME');
+        const memo = ofxValue(block, 'MEMO');
+        const reference = ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM');
+
+        transactions.push({
+            externalTxId: ofxValue(block, 'FITID') ?? fallbackTxId([bookedAt, amount, name, memo, reference]),
+            bookedAt,
+            amount,
+            // amounts are in the statement currency unless the transaction names its own
+            currency: ofxValue(block, 'CURSYM'),
+            counterparty: name,
+            description: memo ?? name,
+            reference,
+        });
+    });
+
+    const transactionList = ofxAggregates(content, 'BANKTRANLIST')[0] ?? '';
+
+    const statement: ParsedStatement = {
+        // BANKACCTFROM or CCACCTFROM - ACCTID is the first one either way
+        accountId: ofxValue(content, 'ACCTID'),
+        currency: ofxValue(content, 'CURDEF'),
+        periodStart: parseOfxDate(ofxValue(transactionList, 'DTSTART')),
+        periodEnd: parseOfxDate(ofxValue(transactionList, 'DTEND')),
+        transactions,
+    };
+
+    return statement;
+};
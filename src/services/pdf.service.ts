@@ -1,282 +1,731 @@
 /**
  * Invoice PDF Generator
- * Generates PDF invoices using PDFKit
+ * Generates PDF invoices (and quotes/credit notes, which share the layout) using PDFKit,
+ * styled with the user's branding and chosen template. Invoices can be produced as
+ * Factur-X: a PDF/A-3 with the CII XML invoice embedded.
  */
+import path from 'path';
 import PDFDocument from 'pdfkit';
-import { InvoiceWithDetails, InvoiceLineItem } from '../types/invoice.types';
+import { config } from '../config/environment';
+import { InvoiceWithDetails, InvoiceWithClient, InvoiceLineItem } from '../types/invoice.types';
+import { QuoteWithDetails } from '../types/quote.types';
+import { CreditNoteWithDetails } from '../types/creditNote.types';
+import { PdfBranding, PdfTemplate } from '../types/branding.types';
+import { FacturXProfile } from '../types/einvoice.types';
+import { LocaleBundle } from '../types/locale.types';
+import { formatDate, formatMoney, getLocaleBundle, translate } from '../utils/i18n';
+import { getPdfBranding } from './branding.service';
+import { buildFacturXml } from './einvoice.service';
+
+// Fields the shared layout needs - invoices and quotes both provide them
+type PdfDocumentData = Pick<
+    InvoiceWithDetails,
+    'user' | 'description' | 'amount' | 'items' | 'notes'
+> & Pick<InvoiceWithClient, 'client'> & Partial<Pick<
+    InvoiceWithDetails,
+    'subtotal' | 'discountType' | 'discountValue' | 'discountAmount' | 'taxBreakdown' | 'shipping'
+>> & {
+    terms: string | null;
+    currency: string;
+    locale: string;
+    amountPaid?: number;
+    lateCharges?: number;
+    balanceDue?: number;
+};
+
+// ============================================================================
+// TEMPLATES & LAYOUT
+// ============================================================================
+
+interface PdfTemplateStyle {
+    font: string;
+    boldFont: string;
+    italicFont: string;
+    banner: boolean;                                // accent strip across the top of every page
+    tableHeader: 'shaded' | 'accent' | 'rule';      // grey fill, accent fill with white text, or underline only
+    stripedRows: boolean;
+}
+
+const PDF_TEMPLATE_STYLES: Record<PdfTemplate, PdfTemplateStyle> = {
+    classic: {
+        font: 'Helvetica',
+        boldFont: 'Helvetica-Bold',
+        italicFont: 'Helvetica-Oblique',
+        banner: false,
+        tableHeader: 'shaded',
+        stripedRows: true,
+    },
+    modern: {
+        font: 'Helvetica',
+        boldFont: 'Helvetica-Bold',
+        italicFont: 'Helvetica-Oblique',
+        banner: true,
+        tableHeader: 'accent',
+        stripedRows: true,
+    },
+    minimal: {
+        font: 'Times-Roman',
+        boldFont: 'Times-Bold',
+        italicFont: 'Times-Italic',
+        banner: false,
+        tableHeader: 'rule',
+        stripedRows: false,
+    },
+};
+
+interface PdfLayout {
+    doc: PDFKit.PDFDocument;
+    branding: PdfBranding;
+    style: PdfTemplateStyle;
+    labels: LocaleBundle;
+    currency: string;
+    locale: string;
+}
+
+const PAGE_MARGIN = 50;
+
+// Kept free at the bottom of every page for the footer - part of the bottom
+// margin, so text that flows past it moves to the next page on its own
+const FOOTER_HEIGHT = 60;
+
+const TEXT_COLOR = '#000000';
+const LINE_COLOR = '#aaaaaa';
+
+// Line item columns
+const COLUMNS = {
+    description: { x: 60, width: 250 },
+    quantity: { x: 320, width: 50 },
+    rate: { x: 380, width: 90 },
+    amount: { x: 470, width: 75 },
+};
+
+const contentLeft = (doc: PDFKit.PDFDocument): number => doc.page.margins.left;
+
+const contentWidth = (doc: PDFKit.PDFDocument): number => {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+};
+
+/**
+ * Starts a new page when a block of the given height won't fit above the footer
+ * @returns the y to draw the block at
+ */
+const ensureSpace = (
+    layout: PdfLayout,
+    y: number,
+    height: number,
+    onNewPage?: (top: number) => number
+): number => {
+    const { doc } = layout;
+
+    if (y + height <= doc.page.height - doc.page.margins.bottom) {
+        return y;
+    }
+
+    doc.addPage();
+
+    return onNewPage ? onNewPage(doc.page.margins.top) : doc.page.margins.top;
+};
 
 // ============================================================================
 // HELPER: FORMAT CURRENCY
 // ============================================================================
 
-const formatCurrency = (amount: number): string => {
-    return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatCurrency = (layout: PdfLayout, amount: number): string => {
+    // the standard PDF fonts have no narrow no-break space (used as the fr-FR digit separator)
+    return formatMoney(amount, layout.currency, layout.locale).replace(/\u202f/g, '\u00a0');
 };
 
 // ============================================================================
 // HELPER: FORMAT DATE
 // ============================================================================
 
-const formatDate = (date: Date): string => {
-    return new Date(date).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-    });
+const formatPdfDate = (layout: PdfLayout, date: Date): string => {
+    return formatDate(date, layout.locale);
+};
+
+const formatStatus = (layout: PdfLayout, status: string): string => {
+    return layout.labels.statuses[status] ?? status.replace('_', ' ').toUpperCase();
 };
 
 // ============================================================================
 // GENERATE INVOICE HEADER
 // ============================================================================
-const generateHeader = (doc: PDFKit.PDFDocument, invoice: InvoiceWithDetails) => {
-    //company name/logo area top left
+const generateHeader = (layout: PdfLayout, data: PdfDocumentData, title: string): number => {
+    const { doc, branding, style, labels } = layout;
+    const left = contentLeft(doc);
+    const width = contentWidth(doc);
+    let y = PAGE_MARGIN;
+
+    //logo top left, business details under it
+    if (branding.logo) {
+        doc.image(branding.logo, left, y, { fit: [150, 60] });
+        y += 70;
+    }
+
     doc
+        .fillColor(TEXT_COLOR)
         .fontSize(20)
-        .font('Helvetica-Bold')
-        .text(invoice.user.name, 50, 50);
+        .font(style.boldFont)
+        .text(branding.businessName || data.user.name, left, y, { width: 300 });
+
+    const details = [
+        ...(branding.address ? branding.address.split('\n') : []),
+        ...(branding.taxId ? [`${labels.pdf.taxId}: ${branding.taxId}`] : []),
+        `${labels.pdf.email}: ${data.user.email}`,
+        ...(data.user.phone ? [`${labels.pdf.phone}: ${data.user.phone}`] : []),
+    ];
 
     doc
         .fontSize(10)
-        .font('Helvetica')
-        .text(`Email: ${invoice.user.email}`, 50, 75)
-        .text(`Phone: ${invoice.user.phone}`, 50, 90);
+        .font(style.font)
+        .text(details.join('\n'), left, doc.y + 5, { width: 300 });
+
+    const detailsBottom = doc.y;
 
-    //invoice title and number(top right)
+    //document title (top right)
     doc
         .fontSize(20)
-        .font('Helvetica-Bold')  // ← FIXED: Added missing dot
-        .text('INVOICE', 400, 50, { align: 'right' });
+        .font(style.boldFont)
+        .fillColor(branding.accentColor)
+        .text(title, left, PAGE_MARGIN, { width, align: 'right' })
+        .fillColor(TEXT_COLOR);
 
     //horizontal line
+    const dividerY = Math.max(detailsBottom, 105) + 15;
+
     doc
-        .strokeColor('#aaaaaa')
+        .strokeColor(branding.accentColor)
         .lineWidth(1)
-        .moveTo(50, 120)
-        .lineTo(550, 120)
+        .moveTo(left, dividerY)
+        .lineTo(left + width, dividerY)
         .stroke();
 
+    return dividerY + 20;
 };
+
 // ============================================================================
 // GENERATE CLIENT INFORMATION
 // ============================================================================
-export const generateClientInfo = (doc: PDFKit.PDFDocument, invoice: InvoiceWithDetails) => {
-    const clientTop = 140;
+const generateDocumentInfo = (
+    layout: PdfLayout,
+    data: Pick<PdfDocumentData, 'client'>,
+    details: Array<{ label: string; value: string }>,
+    top: number
+): number => {
+    const { doc, branding, style, labels } = layout;
+    const left = contentLeft(doc);
 
     //billed to section
     doc
         .fontSize(10)
-        .font('Helvetica-Bold')
-        .text('BILLED TO:', 50, clientTop);
+        .font(style.boldFont)
+        .fillColor(branding.accentColor)
+        .text(labels.pdf.billedTo, left, top);
 
     doc
-        .fontSize(10)
-        .font('Helvetica')
-        .text(invoice.client.name, 50, clientTop + 15)
-        .text(invoice.client.company || '', 50, clientTop + 30)
-        .text(invoice.client.email || '', 50, clientTop + 45);
-
-    //invoice details right side
-    doc
-        .fontSize(10)
-        .font('Helvetica-Bold')
-        .text('Invoice Date:', 350, clientTop)
-        .text('Due Date:', 350, clientTop + 15)
-        .text('Status:', 350, clientTop + 30);
+        .font(style.font)
+        .fillColor(TEXT_COLOR)
+        .text(
+            [data.client.name, data.client.company, data.client.email].filter(Boolean).join('\n'),
+            left,
+            top + 15,
+            { width: 250 }
+        );
 
-    doc
-        .font('Helvetica')
-        .text(formatDate(invoice.issueDate), 450, clientTop)
-        .text(formatDate(invoice.dueDate), 450, clientTop + 15)
-        .text(invoice.status.toUpperCase(), 450, clientTop + 30);
+    const clientBottom = doc.y;
 
-    if (invoice.paidDate) {  // ← FIXED: Changed from invoice.invoiceNumber to invoice.paidDate
+    //document details right side
+    details.forEach((detail, index) => {
         doc
-            .font('Helvetica-Bold')
-            .text('Paid Date:', 350, clientTop + 45);
+            .font(style.boldFont)
+            .text(detail.label, 350, top + index * 15);
         doc
-            .font('Helvetica')
-            .text(formatDate(invoice.paidDate), 450, clientTop + 45);
+            .font(style.font)
+            .text(detail.value, 450, top + index * 15);
+    });
+
+    return Math.max(clientBottom, top + details.length * 15) + 25;
+};
+
+export const generateClientInfo = (layout: PdfLayout, invoice: InvoiceWithDetails, top: number): number => {
+    const { labels } = layout;
+    const details = [
+        { label: labels.pdf.invoiceNumber, value: invoice.invoiceNumber },
+        { label: labels.pdf.invoiceDate, value: formatPdfDate(layout, invoice.issueDate) },
+        { label: labels.pdf.dueDate, value: formatPdfDate(layout, invoice.dueDate) },
+        { label: labels.pdf.status, value: formatStatus(layout, invoice.status) },
+    ];
+
+    if (invoice.paidDate) {
+        details.push({ label: labels.pdf.paidDate, value: formatPdfDate(layout, invoice.paidDate) });
     }
 
+    return generateDocumentInfo(layout, invoice, details, top);
+};
+
+const generateQuoteInfo = (layout: PdfLayout, quote: QuoteWithDetails, top: number): number => {
+    const { labels } = layout;
+
+    return generateDocumentInfo(layout, quote, [
+        { label: labels.pdf.estimateNumber, value: quote.quoteNumber },
+        { label: labels.pdf.estimateDate, value: formatPdfDate(layout, quote.issueDate) },
+        { label: labels.pdf.validUntil, value: formatPdfDate(layout, quote.expiryDate) },
+        { label: labels.pdf.status, value: formatStatus(layout, quote.status) },
+    ], top);
+};
+
+const generateCreditNoteInfo = (layout: PdfLayout, creditNote: CreditNoteWithDetails, top: number): number => {
+    const { labels } = layout;
+
+    return generateDocumentInfo(layout, creditNote, [
+        { label: labels.pdf.creditNoteNumber, value: creditNote.creditNoteNumber },
+        { label: labels.pdf.date, value: formatPdfDate(layout, creditNote.issueDate) },
+        { label: labels.pdf.invoiceNumber, value: creditNote.invoice.invoiceNumber },
+    ], top);
 };
 
 // ============================================================================
 // GENERATE LINE ITEMS TABLE
 // ============================================================================
-export const generateTable = (doc: PDFKit.PDFDocument, invoice: InvoiceWithDetails) => {
-    const tableTop = 250;
-    const itemsTableTop = tableTop + 30;
 
-    //table header
-    doc
-        .fontSize(10)  // ← FIXED: Added missing dot
-        .font('Helvetica-Bold');
+/**
+ * Draws the column headings - repeated at the top of every page the table spans
+ * @returns the y of the first row
+ */
+const generateTableHeader = (layout: PdfLayout, top: number): number => {
+    const { doc, branding, style, labels } = layout;
+    const left = contentLeft(doc);
+    const width = contentWidth(doc);
 
-    //header background
     doc
-        .rect(50, tableTop, 500, 20)
-        .fillAndStroke('#f0f0f0', '#aaaaaa');
+        .fontSize(10)
+        .font(style.boldFont);
+
+    if (style.tableHeader === 'shaded') {
+        doc
+            .rect(left, top, width, 20)
+            .fillAndStroke('#f0f0f0', LINE_COLOR);
+        doc.fillColor(TEXT_COLOR);
+    } else if (style.tableHeader === 'accent') {
+        doc
+            .rect(left, top, width, 20)
+            .fill(branding.accentColor);
+        doc.fillColor('#ffffff');
+    } else {
+        doc
+            .strokeColor(branding.accentColor)
+            .lineWidth(1)
+            .moveTo(left, top + 20)
+            .lineTo(left + width, top + 20)
+            .stroke();
+        doc.fillColor(TEXT_COLOR);
+    }
 
-    //header text
     doc
-        .fillColor('#000000')
-        .text('Description', 60, tableTop + 5)
-        .text('Qty', 320, tableTop + 5)
-        .text('Rate', 380, tableTop + 5)
-        .text('Amount', 480, tableTop + 5, { align: 'right' });
-
-    //line items
-    let position = itemsTableTop;
-
-    if (invoice.items && Array.isArray(invoice.items)) {
-        const items = invoice.items as InvoiceLineItem[];
-        
-        items.forEach((item, index) => {
-            // Alternating row colors
-            if (index % 2 === 0) {
-                doc
-                .rect(50, position - 5, 500, 20)
-                .fill('#fafafa');
-            }
+        .text(labels.pdf.description, COLUMNS.description.x, top + 5, { width: COLUMNS.description.width })
+        .text(labels.pdf.quantity, COLUMNS.quantity.x, top + 5, { width: COLUMNS.quantity.width })
+        .text(labels.pdf.rate, COLUMNS.rate.x, top + 5, { width: COLUMNS.rate.width })
+        .text(labels.pdf.amount, COLUMNS.amount.x, top + 5, { width: COLUMNS.amount.width, align: 'right' })
+        .fillColor(TEXT_COLOR);
 
-            doc
-                .fillColor('#000000')
-                .fontSize(10)
-                .text(item.description, 60, position)
-                .text(item.quantity.toString(), 320, position)
-                .text(formatCurrency(item.rate), 380, position)
-                .text(formatCurrency(item.amount), 480, position, { align: 'right' });
-
-            position += 25;
-        });
-    } else {
-        // If no line items, show description as single item
+    return top + 30;
+};
+
+export const generateTable = (layout: PdfLayout, invoice: PdfDocumentData, top: number): number => {
+    const { doc, style, labels } = layout;
+    const left = contentLeft(doc);
+    const width = contentWidth(doc);
+
+    // If no line items, show description as single item
+    const rows = invoice.items && Array.isArray(invoice.items) && invoice.items.length > 0
+        ? (invoice.items as InvoiceLineItem[]).map((item) => ({
+            description: item.description,
+            quantity: item.quantity.toString(),
+            rate: formatCurrency(layout, item.rate),
+            amount: formatCurrency(layout, item.amount),
+        }))
+        : [{
+            description: invoice.description,
+            quantity: '1',
+            rate: formatCurrency(layout, invoice.subtotal || invoice.amount),
+            amount: formatCurrency(layout, invoice.subtotal || invoice.amount),
+        }];
+
+    let position = generateTableHeader(layout, top);
+
+    rows.forEach((row, index) => {
         doc
-            .fillColor('#000000')
             .fontSize(10)
-            .text(invoice.description, 60, position)
-            .text('1', 320, position)
-            .text(formatCurrency(invoice.amount), 380, position)
-            .text(formatCurrency(invoice.amount), 480, position, { align: 'right' });
+            .font(style.font);
+
+        // long descriptions wrap, so rows grow to fit them
+        const rowHeight = Math.max(doc.heightOfString(row.description, { width: COLUMNS.description.width }), 10) + 10;
 
-        position += 25;
+        // a row that doesn't fit moves to the next page, under a repeated header
+        position = ensureSpace(layout, position, rowHeight, (pageTop) => generateTableHeader(layout, pageTop));
+
+        doc
+            .fontSize(10)
+            .font(style.font);
+
+        // Alternating row colors
+        if (style.stripedRows && index % 2 === 0) {
+            doc
+                .rect(left, position - 5, width, rowHeight)
+                .fill('#fafafa');
+        }
+
+        doc
+            .fillColor(TEXT_COLOR)
+            .text(row.description, COLUMNS.description.x, position, { width: COLUMNS.description.width })
+            .text(row.quantity, COLUMNS.quantity.x, position, { width: COLUMNS.quantity.width })
+            .text(row.rate, COLUMNS.rate.x, position, { width: COLUMNS.rate.width })
+            .text(row.amount, COLUMNS.amount.x, position, { width: COLUMNS.amount.width, align: 'right' });
+
+        position += rowHeight + 5;
+    });
+
+    // Subtotal, Discount, Tax, Shipping, Total section
+    const totals: Array<[string, string]> = [
+        // documents without a breakdown have subtotal = total
+        [labels.pdf.subtotal, formatCurrency(layout, invoice.subtotal || invoice.amount)],
+    ];
+
+    if (invoice.discountAmount && invoice.discountAmount > 0) {
+        const label = invoice.discountType === 'percentage'
+            ? translate(labels.pdf.discountPercent, { rate: invoice.discountValue ?? 0 })
+            : labels.pdf.discount;
+        totals.push([label, `-${formatCurrency(layout, invoice.discountAmount)}`]);
+    }
+
+    (invoice.taxBreakdown || []).forEach((tax) => {
+        totals.push([`${tax.name} (${tax.rate}%):`, formatCurrency(layout, tax.amount)]);
+    });
+
+    if (invoice.shipping && invoice.shipping > 0) {
+        totals.push([labels.pdf.shipping, formatCurrency(layout, invoice.shipping)]);
     }
 
-    // Subtotal, Tax, Total section
-    const summaryTop = position + 20;
+    // Late charges / amount paid / balance due
+    const balance: Array<[string, string]> = [];
+
+    if (invoice.lateCharges && invoice.lateCharges > 0) {
+        balance.push([labels.pdf.lateCharges, formatCurrency(layout, invoice.lateCharges)]);
+    }
+
+    if (invoice.amountPaid && invoice.amountPaid > 0) {
+        balance.push([labels.pdf.amountPaid, formatCurrency(layout, invoice.amountPaid)]);
+    }
+
+    // the summary is kept in one piece
+    const summaryHeight = 10 + totals.length * 15 + 30 + (balance.length > 0 ? (balance.length + 1) * 15 + 15 : 0);
+    const summaryTop = ensureSpace(layout, position + 20, summaryHeight);
 
     // Horizontal line before summary
     doc
-        .strokeColor('#aaaaaa')
+        .strokeColor(LINE_COLOR)
         .lineWidth(1)
         .moveTo(350, summaryTop)
-        .lineTo(550, summaryTop)
+        .lineTo(left + width, summaryTop)
         .stroke();
 
-    // Subtotal
+    let summaryY = summaryTop + 10;
+
+    const summaryRow = (label: string, value: string) => {
+        doc
+            .text(label, 350, summaryY)
+            .text(value, COLUMNS.amount.x, summaryY, { width: COLUMNS.amount.width, align: 'right' });
+        summaryY += 15;
+    };
+
     doc
         .fontSize(10)
-        .font('Helvetica')
-        .text('Subtotal:', 350, summaryTop + 10)
-        .text(formatCurrency(invoice.amount), 480, summaryTop + 10, { align: 'right' });
+        .font(style.font);
+
+    totals.forEach(([label, value]) => summaryRow(label, value));
 
     // Total (bold)
+    summaryY += 10;
     doc
         .fontSize(12)
-        .font('Helvetica-Bold')
-        .text('Total:', 350, summaryTop + 35)
-        .text(formatCurrency(invoice.amount), 480, summaryTop + 35, { align: 'right' });
+        .font(style.boldFont)
+        .text(labels.pdf.total, 350, summaryY)
+        .text(formatCurrency(layout, invoice.amount), COLUMNS.amount.x, summaryY, { width: COLUMNS.amount.width, align: 'right' });
+    summaryY += 20;
 
-    return summaryTop + 70;
+    if (balance.length > 0) {
+        doc
+            .fontSize(10)
+            .font(style.font);
+
+        balance.forEach(([label, value]) => summaryRow(label, value));
+
+        doc.font(style.boldFont);
+        summaryRow(labels.pdf.balanceDue, formatCurrency(layout, invoice.balanceDue ?? 0));
+
+        summaryY += 15;
+    }
+
+    return summaryY;
 };
 
 // ============================================================================
-// GENERATE PAYMENT TERMS
+// GENERATE PAYMENT TERMS & NOTES
 // ============================================================================
 
-const generateFooter = (doc: PDFKit.PDFDocument, invoice: InvoiceWithDetails, currentY: number) => {
-    const footerTop = currentY + 30;
+const generateNotes = (layout: PdfLayout, invoice: PdfDocumentData, currentY: number) => {
+    const { doc, style, labels } = layout;
+    const left = contentLeft(doc);
+    const width = contentWidth(doc);
+
+    const blocks = [
+        ...(invoice.terms ? [{ label: labels.pdf.paymentTerms, text: invoice.terms }] : []),
+        ...(invoice.notes ? [{ label: labels.pdf.notes, text: invoice.notes }] : []),
+    ];
+
+    let y = currentY + 30;
+
+    blocks.forEach((block) => {
+        // keep the heading with at least its first lines; longer text flows onto the next page
+        doc.fontSize(10).font(style.font);
+        const textHeight = doc.heightOfString(block.text, { width });
+        y = ensureSpace(layout, y, 15 + Math.min(textHeight, 45));
 
-    // Payment Terms
-    if (invoice.terms) {
         doc
             .fontSize(10)
-            .font('Helvetica-Bold')
-            .text('Payment Terms:', 50, footerTop);
+            .font(style.boldFont)
+            .text(block.label, left, y);
 
         doc
-            .font('Helvetica')
-            .text(invoice.terms, 50, footerTop + 15, {
-                width: 500,
+            .font(style.font)
+            .text(block.text, left, y + 15, {
+                width,
                 align: 'left'
             });
-    }
 
-    // Notes
-    if (invoice.notes) {
+        y = doc.y + 20;
+    });
+};
+
+// ============================================================================
+// GENERATE PAGE FOOTERS
+// ============================================================================
+
+/**
+ * Drawn once everything else is laid out, so every page gets "Page x of n"
+ */
+const generatePageFooters = (layout: PdfLayout, data: PdfDocumentData) => {
+    const { doc, branding, style, labels } = layout;
+    const range = doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+        doc.switchToPage(index);
+
+        const left = contentLeft(doc);
+        const width = contentWidth(doc);
+        const bottomMargin = doc.page.margins.bottom;
+        const footerTop = doc.page.height - bottomMargin;
+
+        // the footer sits inside the bottom margin - lift it so PDFKit doesn't add a page
+        doc.page.margins.bottom = 0;
+
+        if (style.banner) {
+            doc
+                .rect(0, 0, doc.page.width, 8)
+                .fill(branding.accentColor);
+        }
+
+        // Thank you message (or the user's own footer text)
         doc
+            .fillColor(TEXT_COLOR)
             .fontSize(10)
-            .font('Helvetica-Bold')
-            .text('Notes:', 50, footerTop + 50);
+            .font(style.italicFont)
+            .text(
+                branding.footerText || labels.pdf.thankYou,
+                left,
+                footerTop + 5,
+                { align: 'center', width, height: 25, ellipsis: true }
+            );
+
+        // Footer line
+        doc
+            .strokeColor(LINE_COLOR)
+            .lineWidth(1)
+            .moveTo(left, footerTop + 33)
+            .lineTo(left + width, footerTop + 33)
+            .stroke();
 
+        // Contact info in footer
         doc
-            .font('Helvetica')
-            .text(invoice.notes, 50, footerTop + 65, {
-                width: 500,
-                align: 'left'
+            .fontSize(8)
+            .font(style.font)
+            .text(
+                [data.user.email, data.user.phone].filter(Boolean).join(' | '),
+                left,
+                footerTop + 40,
+                { align: 'center', width }
+            );
+
+        if (range.count > 1) {
+            doc.text(translate(labels.pdf.page, { page: index - range.start + 1, pages: range.count }), left, footerTop + 40, {
+                align: 'right',
+                width
             });
+        }
+
+        doc.page.margins.bottom = bottomMargin;
     }
+};
 
-    // Thank you message at bottom
-    doc
-        .fontSize(10)
-        .font('Helvetica-Oblique')
-        .text(
-            'Thank you for your business!',
-            50,
-            700,
-            { align: 'center', width: 500 }
-        );
+/**
+ * Lays out a full document: header, document details, line items, terms/notes and footers
+ */
+const generateDocument = (
+    layout: PdfLayout,
+    data: PdfDocumentData,
+    title: string,
+    generateInfo: (top: number) => number
+) => {
+    const infoTop = generateHeader(layout, data, title);
+    const tableTop = generateInfo(infoTop);
+    const summaryY = generateTable(layout, data, tableTop);
+    generateNotes(layout, data, summaryY);
+    generatePageFooters(layout, data);
+};
 
-    // Footer line
-    doc
-        .strokeColor('#aaaaaa')
-        .lineWidth(1)
-        .moveTo(50, 720)
-        .lineTo(550, 720)
-        .stroke();
+// ============================================================================
+// FACTUR-X (PDF/A-3 with the CII invoice embedded)
+// ============================================================================
 
-    // Contact info in footer
-    doc
-        .fontSize(8)
-        .font('Helvetica')
-        .text(
-            `${invoice.user.email} | ${invoice.user.phone || ''}`,
-            50,
-            730,
-            { align: 'center', width: 500 }
-        );
+interface FacturXAttachment {
+    profile: FacturXProfile;
+    xml: Buffer;
+}
+
+// the embedded file name and conformance levels are fixed by the Factur-X spec
+const FACTURX_FILENAME = 'factur-x.xml';
+
+const FACTURX_CONFORMANCE_LEVELS: Record<FacturXProfile, string> = {
+    basic: 'BASIC',
+    en16931: 'EN 16931',
+};
+
+const FACTURX_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+const facturXProperty = (name: string, description: string): string => `
+                    <rdf:li rdf:parseType="Resource">
+                        <pdfaProperty:name>${name}</pdfaProperty:name>
+                        <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                        <pdfaProperty:category>external</pdfaProperty:category>
+                        <pdfaProperty:description>${description}</pdfaProperty:description>
+                    </rdf:li>`;
+
+/**
+ * XMP for the fx: properties, plus the PDF/A extension schema that declares them
+ */
+const facturXMetadata = (profile: FacturXProfile): string => `
+        <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+            <pdfaExtension:schemas>
+                <rdf:Bag>
+                    <rdf:li rdf:parseType="Resource">
+                        <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+                        <pdfaSchema:namespaceURI>${FACTURX_NAMESPACE}</pdfaSchema:namespaceURI>
+                        <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+                        <pdfaSchema:property>
+                            <rdf:Seq>${[
+                                facturXProperty('DocumentFileName', 'Name of the embedded XML invoice file'),
+                                facturXProperty('DocumentType', 'INVOICE'),
+                                facturXProperty('Version', 'Version of the Factur-X XML schema'),
+                                facturXProperty('ConformanceLevel', 'Factur-X profile of the embedded XML'),
+                            ].join('')}
+                            </rdf:Seq>
+                        </pdfaSchema:property>
+                    </rdf:li>
+                </rdf:Bag>
+            </pdfaExtension:schemas>
+        </rdf:Description>
+        <rdf:Description rdf:about="" xmlns:fx="${FACTURX_NAMESPACE}">
+            <fx:DocumentType>INVOICE</fx:DocumentType>
+            <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+            <fx:Version>1.0</fx:Version>
+            <fx:ConformanceLevel>${FACTURX_CONFORMANCE_LEVELS[profile]}</fx:ConformanceLevel>
+        </rdf:Description>
+        `;
+
+// DejaVu Sans (bundled with the dejavu-fonts-ttf package) unless PDFA_FONT_* point elsewhere
+const BUNDLED_PDFA_FONTS_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+
+/**
+ * PDF/A only allows embedded fonts - swap the template's built-in fonts for
+ * TrueType ones, which PDFKit embeds
+ */
+const withEmbeddedFonts = (doc: PDFKit.PDFDocument, style: PdfTemplateStyle): PdfTemplateStyle => {
+    const regular = config.PDFA_FONT_REGULAR ?? path.join(BUNDLED_PDFA_FONTS_DIR, 'DejaVuSans.ttf');
+    const bold = config.PDFA_FONT_BOLD
+        ?? (config.PDFA_FONT_REGULAR ? regular : path.join(BUNDLED_PDFA_FONTS_DIR, 'DejaVuSans-Bold.ttf'));
+    const italic = config.PDFA_FONT_ITALIC
+        ?? (config.PDFA_FONT_REGULAR ? regular : path.join(BUNDLED_PDFA_FONTS_DIR, 'DejaVuSans-Oblique.ttf'));
+
+    doc.registerFont('PdfA-Regular', regular);
+    doc.registerFont('PdfA-Bold', bold);
+    doc.registerFont('PdfA-Italic', italic);
+
+    return { ...style, font: 'PdfA-Regular', boldFont: 'PdfA-Bold', italicFont: 'PdfA-Italic' };
+};
+
+const embedFacturX = (doc: PDFKit.PDFDocument, facturX: FacturXAttachment) => {
+    const now = new Date();
+
+    // relationship (AFRelationship) isn't in the PDFKit typings yet
+    doc.file(facturX.xml, {
+        name: FACTURX_FILENAME,
+        type: 'text/xml',
+        description: 'Factur-X invoice',
+        relationship: 'Alternative',
+        creationDate: now,
+        modifiedDate: now,
+    } as PDFKit.Mixins.PDFAttachmentOptions);
+
+    doc.appendXML(facturXMetadata(facturX.profile));
 };
+
 // ============================================================================
 // MAIN: GENERATE INVOICE PDF
 // ============================================================================
 
 /**
- * Generate invoice PDF and return as buffer
- * @param invoice - Invoice with full details
+ * Render a PDF document into a buffer, styled with the owner's branding
+ * @param info - PDF metadata
+ * @param userId - Owner of the document (whose branding to use)
+ * @param localization - Currency and locale of the document (labels, amounts, dates)
+ * @param draw - Draws the page content
+ * @param facturX - CII XML to embed, which makes the file a PDF/A-3 (Factur-X)
  * @returns Promise<Buffer> - PDF as buffer
  */
-export const generateInvoicePDF = (invoice: InvoiceWithDetails): Promise<Buffer> => {
+const renderPDF = async (
+    info: PDFKit.DocumentInfo,
+    userId: string,
+    localization: { currency: string; locale: string },
+    draw: (layout: PdfLayout) => void,
+    facturX: FacturXAttachment | null = null
+): Promise<Buffer> => {
+    const branding = await getPdfBranding(userId);
+
     return new Promise((resolve, reject) => {
         try {
-            //generate pdf document
+            //generate pdf document (pages stay buffered so footers can be added last)
             const doc = new PDFDocument({
                 size: 'A4',
-                margin: 50,
+                margins: {
+                    top: PAGE_MARGIN,
+                    left: PAGE_MARGIN,
+                    right: PAGE_MARGIN,
+                    bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+                },
+                bufferPages: true,
+                ...(facturX ? { subset: 'PDF/A-3b' as const, pdfVersion: '1.7' as const } : {}),
                 info: {
-                    Title: `Invoice ${invoice.invoiceNumber}`,
-                    Author: invoice.user.name,
-                    Subject: `Invoice for ${invoice.client.name}`,  // ← FIXED: typo "fpr" → "for"
+                    ...info,
                     Creator: 'Crefin',
                     Producer: 'Crefin Invoice System'
                 }
@@ -299,11 +748,21 @@ export const generateInvoicePDF = (invoice: InvoiceWithDetails): Promise<Buffer>
                 reject(err);
             });
 
+            const style = PDF_TEMPLATE_STYLES[branding.template] ?? PDF_TEMPLATE_STYLES.classic;
+
             //generate the pdf content
-            generateHeader(doc, invoice);
-            generateClientInfo(doc, invoice);
-            const summaryY = generateTable(doc, invoice);
-            generateFooter(doc, invoice, summaryY);
+            draw({
+                doc,
+                branding,
+                style: facturX ? withEmbeddedFonts(doc, style) : style,
+                labels: getLocaleBundle(localization.locale),
+                currency: localization.currency,
+                locale: localization.locale,
+            });
+
+            if (facturX) {
+                embedFacturX(doc, facturX);
+            }
 
             //finalize PDF
             doc.end();
@@ -311,4 +770,88 @@ export const generateInvoicePDF = (invoice: InvoiceWithDetails): Promise<Buffer>
             reject(error);
         }
     });
-};
\ No newline at end of file
+};
+
+export interface GenerateInvoicePdfOptions {
+    facturXProfile?: FacturXProfile | null;     // defaults to the client's setting; null forces a plain PDF
+}
+
+/**
+ * Generate invoice PDF and return as buffer
+ * @param invoice - Invoice with full details
+ * @param options - Factur-X profile override
+ * @returns Promise<Buffer> - PDF as buffer (PDF/A-3 with embedded XML for Factur-X)
+ */
+export const generateInvoicePDF = async (
+    invoice: InvoiceWithDetails,
+    options: GenerateInvoicePdfOptions = {}
+): Promise<Buffer> => {
+    const profile = options.facturXProfile !== undefined
+        ? options.facturXProfile
+        : invoice.client.facturXProfile;
+
+    const facturX = profile
+        ? { profile, xml: await buildFacturXml(invoice.user.id, invoice, profile) }
+        : null;
+
+    return renderPDF(
+        {
+            Title: `Invoice ${invoice.invoiceNumber}`,
+            Author: invoice.user.name,
+            Subject: `Invoice for ${invoice.client.name}`,
+        },
+        invoice.user.id,
+        invoice,
+        (layout) => generateDocument(layout, invoice, layout.labels.documents.invoice, (top) => generateClientInfo(layout, invoice, top)),
+        facturX
+    );
+};
+
+/**
+ * Generate quote/estimate PDF and return as buffer
+ * @param quote - Quote with full details
+ * @returns Promise<Buffer> - PDF as buffer
+ */
+export const generateQuotePDF = (quote: QuoteWithDetails): Promise<Buffer> => {
+    return renderPDF(
+        {
+            Title: `Estimate ${quote.quoteNumber}`,
+            Author: quote.user.name,
+            Subject: `Estimate for ${quote.client.name}`,
+        },
+        quote.user.id,
+        quote,
+        (layout) => generateDocument(layout, quote, layout.labels.documents.estimate, (top) => generateQuoteInfo(layout, quote, top))
+    );
+};
+
+/**
+ * Generate credit note PDF and return as buffer
+ * @param creditNote - Credit note with full details
+ * @returns Promise<Buffer> - PDF as buffer
+ */
+export const generateCreditNotePDF = (creditNote: CreditNoteWithDetails): Promise<Buffer> => {
+    // credit notes are in the currency and language of the invoice they credit
+    const { currency, locale } = creditNote.invoice;
+    const labels = getLocaleBundle(locale);
+
+    const data = {
+        ...creditNote,
+        description: translate(labels.pdf.creditAgainst, { invoiceNumber: creditNote.invoice.invoiceNumber }),
+        notes: translate(labels.pdf.creditReason, { reason: creditNote.reason }),
+        terms: null,
+        currency,
+        locale,
+    };
+
+    return renderPDF(
+        {
+            Title: `Credit Note ${creditNote.creditNoteNumber}`,
+            Author: creditNote.user.name,
+            Subject: `Credit note for ${creditNote.client.name}`,
+        },
+        creditNote.user.id,
+        data,
+        (layout) => generateDocument(layout, data, layout.labels.documents.creditNote, (top) => generateCreditNoteInfo(layout, creditNote, top))
+    );
+};
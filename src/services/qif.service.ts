@@ -0,0 +1,154 @@
+/**
+ * QIF Service
+ * Reads Quicken Interchange Format bank, cash and credit card registers.
+ * QIF carries no transaction IDs, account number or currency, and its date
+ * order depends on the exporting bank - the caller says which one it is.
+ */
+
+import {
+    ParsedBankTransaction,
+    QifDateFormat,
+    StatementParser,
+} from '../types/bankStatement.types';
+import { ValidationError } from '../utils/errors';
+import {
+    createFallbackTxIdGenerator,
+    parseStatementAmount,
+    statementDate,
+} from '../utils/statementParsing';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// register types that hold plain cash movements (investment accounts don't)
+const SUPPORTED_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * "1/15/2026", "15.01.26", " 1/ 5'26" - an apostrophe before the year
+ * (Quicken's marker for 2000+) and two-digit years both mean 20xx
+ */
+const parseQifDate = (raw: string, format: QifDateFormat): Date | null => {
+    const match = raw.replace(/\s/g, '').match(/^(\d{1,2})[/.-](\d{1,2})['/.-](\d{2}|\d{4})$/);
+    if (!match) return null;
+
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+
+    return format === 'DD/MM/YYYY'
+        ? statementDate(year, second, first)
+        : statementDate(year, first, second);
+};
+
+interface QifRecord {
+    line: number;
+    fields: Map<string, string>;
+}
+
+// records end with "^"; split lines (S/E/$) only repeat the total, so the first value per code wins
+const readRecords = (content: string): QifRecord[] => {
+    const records: QifRecord[] = [];
+    let current: QifRecord | null = null;
+    let supported = false;
+    let skippingAccount = false;
+
+    content.split(/\r\n|\n|\r/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line) return;
+
+        if (line.startsWith('!')) {
+            const header = line.toLowerCase();
+
+            if (header.startsWith('!type:')) {
+                const type = header.slice('!type:'.length).trim();
+                if (!SUPPORTED_TYPES.includes(type)) {
+                    throw new ValidationError(`QIF register type "${line.slice(6).trim()}" is not supported - export a bank or credit card account`);
+                }
+                supported = true;
+                skippingAccount = false;
+            } else if (header === '!account') {
+                // account list block - name/type lines, not transactions
+                skippingAccount = true;
+            }
+            return;
+        }
+
+        if (skippingAccount) {
+            if (line === '^') skippingAccount = false;
+            return;
+        }
+
+        if (line === '^') {
+            if (current) records.push(current);
+            current = null;
+            return;
+        }
+
+        current = current ?? { line: index + 1, fields: new Map() };
+        const code = line[0];
+        if (!current.fields.has(code)) {
+            current.fields.set(code, line.slice(1).trim());
+        }
+    });
+
+    if (current) records.push(current);
+
+    if (!supported) {
+        throw new ValidationError('Not a QIF file - the !Type header is missing');
+    }
+
+    return records;
+};
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export const parseQifStatement: StatementParser = (content, options) => {
+    const fallbackTxId = createFallbackTxIdGenerator('qif');
+
+    const transactions: ParsedBankTransaction[] = readRecords(content).map((record) => {
+        const field = (code: string): string | null => record.fields.get(code) || null;
+
+        const bookedAt = field('D') ? parseQifDate(field('D') as string, options.qifDateFormat) : null;
+        if (!bookedAt) {
+            throw new ValidationError(
+                `QIF transaction on line ${record.line} has an invalid date "${field('D') ?? ''}" (expected ${options.qifDateFormat})`
+            );
+        }
+
+        const amount = parseStatementAmount(field('T') ?? field('U'));
+        if (amount === null) {
+            throw new ValidationError(`QIF transaction on line ${record.line} has no valid amount`);
+        }
+
+        const payee = field('P');
+        const memo = field('M');
+        const reference = field('N');
+
+        return {
+            externalTxId: fallbackTxId([bookedAt, amount, payee, memo, reference]),
+            bookedAt,
+            amount,
+            currency: null,
+            counterparty: payee,
+            description: memo ?? payee,
+            reference,
+        };
+    });
+
+    // the statement period is the range the register covers
+    const bookedAt = transactions.map((transaction) => transaction.bookedAt);
+
+    return {
+        accountId: null,
+        currency: null,
+        periodStart: bookedAt.reduce<Date | null>((earliest, date) => (!earliest || date < earliest ? date : earliest), null),
+        periodEnd: bookedAt.reduce<Date | null>((latest, date) => (!latest || date > latest ? date : latest), null),
+        transactions,
+    };
+};
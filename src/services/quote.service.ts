@@ -0,0 +1,540 @@
+/**
+ * Quote Service
+ * Business logic for quotes/estimates and converting them into invoices
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../config/database';
+import {
+    CreateQuoteRequest,
+    UpdateQuoteRequest,
+    QuoteResponse,
+    GetQuotesQuery,
+    GetQuotesResponse,
+    DeclineQuoteRequest,
+    ConvertQuoteRequest,
+    ConvertQuoteResponse,
+    Quote,
+    QuoteWithClient,
+    QuoteWithDetails,
+    QuoteStatus,
+    QUOTE_STATUS_TRANSITIONS,
+    EDITABLE_QUOTE_STATUSES,
+} from '../types/quote.types';
+import { InvoiceLineItem } from '../types/invoice.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import * as invoiceService from './invoice.service';
+import { calculateInvoiceTotals } from './invoiceTotals.service';
+import { getNextDocumentNumber } from './documentNumbering.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Converted invoices are due this many days from today unless a due date is given
+const DEFAULT_INVOICE_DUE_DAYS = 30;
+
+// ============================================================================
+// HELPER: SERIALIZE QUOTE
+// ============================================================================
+const serializeQuote = (quote: any): Quote => {
+    return {
+        ...quote,
+        amount: quote.amount instanceof Prisma.Decimal ? quote.amount.toNumber() : Number(quote.amount),
+        items: quote.items,
+    };
+};
+
+const serializeQuoteWithClient = (quote: any): QuoteWithClient => {
+    return serializeQuote(quote) as QuoteWithClient;
+};
+
+const serializeQuoteWithDetails = (quote: any): QuoteWithDetails => {
+    return serializeQuote(quote) as QuoteWithDetails;
+};
+
+// ============================================================================
+// HELPER: STATUS CHECKS
+// ============================================================================
+
+const assertQuoteTransition = (from: string, to: QuoteStatus): void => {
+    const allowed = QUOTE_STATUS_TRANSITIONS[from as QuoteStatus] ?? [];
+
+    if (!allowed.includes(to)) {
+        throw new BadRequestError(`Cannot change quote status from '${from}' to '${to}'`, {
+            from,
+            to,
+            allowed,
+        });
+    }
+};
+
+/**
+ * Loads a quote the user owns
+ */
+const findOwnedQuote = async (userId: string, quoteId: string) => {
+    const quote = await db.quote.findUnique({
+        where: { id: quoteId }
+    });
+
+    if (!quote || quote.userId !== userId) {
+        throw new NotFoundError('Quote');
+    }
+
+    return quote;
+};
+
+// ============================================================================
+// CREATE QUOTE
+// ============================================================================
+export const createQuote = async (
+    userId: string,
+    data: CreateQuoteRequest
+): Promise<QuoteResponse> => {
+    try {
+        // verify client exists
+        const client = await db.client.findUnique({
+            where: { id: data.clientId }
+        });
+
+        if (!client || client.userId !== userId) {
+            throw new NotFoundError('Client');
+        }
+
+        const expiryDate = new Date(data.expiryDate);
+        if (expiryDate <= new Date()) {
+            throw new BadRequestError('Expiry date must be in the future');
+        }
+
+        // same line item rules as invoices, so the converted invoice matches the quote
+        const { items, totals } = calculateInvoiceTotals({ amount: data.amount, items: data.items });
+
+        // currency and locale - the quote's own, then the client's, then the user's defaults
+        const user = await db.user.findUniqueOrThrow({
+            where: { id: userId },
+            select: { currency: true, locale: true }
+        });
+
+        // the number is reserved and used in the same transaction
+        const quote = await db.$transaction(async (tx) => {
+            const quoteNumber = await getNextDocumentNumber(tx, userId, 'quote');
+
+            return tx.quote.create({
+                data: {
+                    userId,
+                    clientId: data.clientId,
+                    quoteNumber,
+                    amount: totals.total,
+                    description: data.description,
+                    items: items ? (JSON.parse(JSON.stringify(items)) as Prisma.JsonArray) : undefined,
+                    expiryDate,
+                    notes: data.notes,
+                    terms: data.terms,
+                    currency: data.currency ?? client.currency ?? user.currency,
+                    locale: data.locale ?? client.locale ?? user.locale,
+                }
+            });
+        });
+
+        logger.info('Quote created', {
+            userId,
+            quoteId: quote.id,
+            quoteNumber: quote.quoteNumber,
+            amount: quote.amount.toString()
+        });
+
+        return {
+            quote: serializeQuote(quote),
+            message: 'Quote created successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to create quote', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET QUOTES
+// ============================================================================
+export const getQuotes = async (
+    userId: string,
+    query: GetQuotesQuery
+): Promise<GetQuotesResponse> => {
+    try {
+        const where: Prisma.QuoteWhereInput = { userId };
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        if (query.clientId) {
+            where.clientId = query.clientId;
+        }
+
+        const limit = Number(query.limit) || 50;
+        const offset = Number(query.offset) || 0;
+
+        const [total, quotes] = await Promise.all([
+            db.quote.count({ where }),
+            db.quote.findMany({
+                where,
+                include: {
+                    client: {
+                        select: {
+                            id: true,
+                            name: true,
+                            email: true,
+                            company: true
+                        }
+                    }
+                },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+                skip: offset,
+            }),
+        ]);
+
+        logger.info('Quotes fetched', { userId, total, count: quotes.length });
+
+        return {
+            quotes: quotes.map(serializeQuoteWithClient),
+            total,
+            limit,
+            offset,
+        };
+    } catch (error) {
+        logger.error('Failed to get quotes', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET SINGLE QUOTE
+// ============================================================================
+export const getQuoteById = async (
+    userId: string,
+    quoteId: string
+): Promise<QuoteWithDetails> => {
+    try {
+        const quote = await db.quote.findUnique({
+            where: { id: quoteId },
+            include: {
+                client: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        company: true
+                    }
+                },
+                user: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        phone: true
+                    }
+                }
+            }
+        });
+
+        if (!quote || quote.userId !== userId) {
+            throw new NotFoundError('Quote');
+        }
+
+        logger.info('Quote fetched by ID', { userId, quoteId });
+
+        return serializeQuoteWithDetails(quote);
+    } catch (error) {
+        logger.error('Failed to get quote by ID', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// UPDATE QUOTE
+// ============================================================================
+export const updateQuote = async (
+    userId: string,
+    quoteId: string,
+    data: UpdateQuoteRequest
+): Promise<QuoteResponse> => {
+    try {
+        const existingQuote = await findOwnedQuote(userId, quoteId);
+
+        if (!EDITABLE_QUOTE_STATUSES.includes(existingQuote.status as QuoteStatus)) {
+            throw new BadRequestError(`Cannot update a quote with status '${existingQuote.status}'`);
+        }
+
+        // re-check line items against the amount when either changes
+        let totalsData = {};
+        if (data.amount !== undefined || data.items !== undefined) {
+            const existingItems = existingQuote.items as unknown as InvoiceLineItem[] | null;
+            const { items, totals } = calculateInvoiceTotals({
+                amount: data.amount ?? (data.items ? undefined : existingQuote.amount.toNumber()),
+                items: data.items ?? existingItems,
+            });
+
+            totalsData = {
+                amount: totals.total,
+                items: items ? (JSON.parse(JSON.stringify(items)) as Prisma.JsonArray) : Prisma.DbNull,
+            };
+        }
+
+        // null puts the quote back on the client's / user's currency or locale
+        const defaults = data.currency === null || data.locale === null
+            ? await invoiceService.getDefaultLocalization(userId, existingQuote.clientId)
+            : null;
+
+        const quote = await db.quote.update({
+            where: { id: quoteId },
+            data: {
+                ...totalsData,
+                description: data.description,
+                expiryDate: data.expiryDate ? new Date(data.expiryDate) : undefined,
+                notes: data.notes,
+                terms: data.terms,
+                currency: data.currency === null ? defaults?.currency : data.currency,
+                locale: data.locale === null ? defaults?.locale : data.locale,
+            }
+        });
+
+        logger.info('Quote updated', { userId, quoteId });
+
+        return {
+            quote: serializeQuote(quote),
+            message: 'Quote updated successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to update quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// SEND / ACCEPT / DECLINE
+// ============================================================================
+export const sendQuote = async (
+    userId: string,
+    quoteId: string
+): Promise<QuoteResponse> => {
+    try {
+        const existingQuote = await findOwnedQuote(userId, quoteId);
+
+        assertQuoteTransition(existingQuote.status, 'sent');
+
+        // an expired quote has to get a new expiry date before it can go out again
+        if (existingQuote.expiryDate <= new Date()) {
+            throw new BadRequestError('Quote expiry date has passed - update it before sending');
+        }
+
+        const quote = await db.quote.update({
+            where: { id: quoteId },
+            data: { status: 'sent' }
+        });
+
+        logger.info('Quote sent', { userId, quoteId });
+
+        return {
+            quote: serializeQuote(quote),
+            message: 'Quote marked as sent'
+        };
+    } catch (error) {
+        logger.error('Failed to send quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+export const acceptQuote = async (
+    userId: string,
+    quoteId: string
+): Promise<QuoteResponse> => {
+    try {
+        const existingQuote = await findOwnedQuote(userId, quoteId);
+
+        assertQuoteTransition(existingQuote.status, 'accepted');
+
+        if (existingQuote.expiryDate <= new Date()) {
+            await db.quote.update({
+                where: { id: quoteId },
+                data: { status: 'expired' }
+            });
+
+            throw new BadRequestError('Quote has expired and can no longer be accepted');
+        }
+
+        const quote = await db.quote.update({
+            where: { id: quoteId },
+            data: {
+                status: 'accepted',
+                acceptedAt: new Date(),
+            }
+        });
+
+        logger.info('Quote accepted', { userId, quoteId });
+
+        return {
+            quote: serializeQuote(quote),
+            message: 'Quote marked as accepted'
+        };
+    } catch (error) {
+        logger.error('Failed to accept quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+export const declineQuote = async (
+    userId: string,
+    quoteId: string,
+    data: DeclineQuoteRequest
+): Promise<QuoteResponse> => {
+    try {
+        const existingQuote = await findOwnedQuote(userId, quoteId);
+
+        assertQuoteTransition(existingQuote.status, 'declined');
+
+        const quote = await db.quote.update({
+            where: { id: quoteId },
+            data: {
+                status: 'declined',
+                declinedAt: new Date(),
+                declineReason: data.reason,
+            }
+        });
+
+        logger.info('Quote declined', { userId, quoteId });
+
+        return {
+            quote: serializeQuote(quote),
+            message: 'Quote marked as declined'
+        };
+    } catch (error) {
+        logger.error('Failed to decline quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// CONVERT QUOTE TO INVOICE
+// ============================================================================
+export const convertQuoteToInvoice = async (
+    userId: string,
+    quoteId: string,
+    data: ConvertQuoteRequest
+): Promise<ConvertQuoteResponse> => {
+    try {
+        const existingQuote = await findOwnedQuote(userId, quoteId);
+
+        if (existingQuote.status === 'converted') {
+            throw new ConflictError('Quote has already been converted to an invoice');
+        }
+
+        if (existingQuote.status !== 'accepted') {
+            throw new BadRequestError('Only accepted quotes can be converted to an invoice', {
+                status: existingQuote.status,
+            });
+        }
+
+        // claim the quote first so two concurrent requests can't both create an invoice
+        const claimed = await db.quote.updateMany({
+            where: { id: quoteId, status: 'accepted' },
+            data: { status: 'converted' }
+        });
+
+        if (claimed.count === 0) {
+            throw new ConflictError('Quote has already been converted to an invoice');
+        }
+
+        let invoiceResult;
+        try {
+            invoiceResult = await invoiceService.createInvoice(userId, {
+                clientId: existingQuote.clientId,
+                amount: existingQuote.amount.toNumber(),
+                description: existingQuote.description,
+                items: (existingQuote.items as any) ?? undefined,
+                dueDate: data.dueDate
+                    ? new Date(data.dueDate)
+                    : new Date(Date.now() + DEFAULT_INVOICE_DUE_DAYS * DAY_MS),
+                notes: existingQuote.notes ?? undefined,
+                terms: existingQuote.terms ?? undefined,
+                currency: existingQuote.currency,
+                locale: existingQuote.locale,
+            });
+        } catch (error) {
+            // release the claim so the user can retry
+            await db.quote.update({
+                where: { id: quoteId },
+                data: { status: 'accepted' }
+            });
+            throw error;
+        }
+
+        const quote = await db.quote.update({
+            where: { id: quoteId },
+            data: { convertedInvoiceId: invoiceResult.invoice.id }
+        });
+
+        logger.info('Quote converted to invoice', {
+            userId,
+            quoteId,
+            invoiceId: invoiceResult.invoice.id,
+            invoiceNumber: invoiceResult.invoice.invoiceNumber
+        });
+
+        return {
+            quote: serializeQuote(quote),
+            invoice: invoiceResult.invoice,
+            message: `Quote converted to draft invoice ${invoiceResult.invoice.invoiceNumber}`
+        };
+    } catch (error) {
+        logger.error('Failed to convert quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DELETE QUOTE
+// ============================================================================
+export const deleteQuote = async (
+    userId: string,
+    quoteId: string
+): Promise<{ message: string }> => {
+    try {
+        const quote = await findOwnedQuote(userId, quoteId);
+
+        if (quote.status === 'converted') {
+            throw new BadRequestError('Cannot delete a quote that has been converted to an invoice');
+        }
+
+        await db.quote.delete({
+            where: { id: quoteId }
+        });
+
+        logger.info('Quote deleted', { userId, quoteId });
+
+        return {
+            message: 'Quote deleted successfully'
+        };
+    } catch (error) {
+        logger.error('Failed to delete quote', { userId, quoteId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// EXPIRE QUOTES (called by the background job)
+// ============================================================================
+export const expireQuotes = async (now: Date = new Date()): Promise<number> => {
+    const result = await db.quote.updateMany({
+        where: {
+            status: 'sent',
+            expiryDate: { lte: now },
+        },
+        data: { status: 'expired' }
+    });
+
+    if (result.count > 0) {
+        logger.info('Quotes expired', { count: result.count });
+    }
+
+    return result.count;
+};
@@ -0,0 +1,346 @@
+/**
+ * Receipt Service
+ * Receipt files uploaded to expenses - kept in the configured file storage,
+ * downloaded through the API or short-lived signed links
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../config/database';
+import { config } from '../config/environment';
+import {
+    ExpenseLog,
+    RECEIPT_CONTENT_TYPES,
+    ReceiptContentType,
+    ReceiptDownload,
+    ReceiptInfo,
+    ReceiptUrlResponse,
+    UploadReceiptRequest,
+    UploadReceiptResponse,
+} from '../types/expense.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { generateReceiptToken, verifyReceiptToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+import { getFileStorage } from './storage.service';
+
+const RECEIPT_EXTENSIONS: Record<ReceiptContentType, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic',
+    'application/pdf': 'pdf',
+};
+
+// ISO-BMFF brands used by HEIC / HEIF photos
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+// ============================================================================
+// HELPER: DETECT FILE TYPE
+// ============================================================================
+
+/**
+ * Works out the receipt type from the file's leading bytes, so a file can't
+ * claim to be an image or PDF it isn't
+ */
+export const detectReceiptContentType = (content: Buffer): ReceiptContentType | null => {
+    const ascii = (start: number, end: number) => content.subarray(start, end).toString('latin1');
+
+    if (content.length >= 3 && content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (ascii(0, 5) === '%PDF-') {
+        return 'application/pdf';
+    }
+    if (ascii(4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(8, 12))) {
+        return 'image/heic';
+    }
+
+    return null;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const findOwnedExpense = async (userId: string, expenseId: string) => {
+    const expense = await db.expenseLog.findUnique({
+        where: { id: expenseId },
+    });
+
+    if (!expense || expense.userId !== userId) {
+        throw new NotFoundError('Expense');
+    }
+
+    return expense;
+};
+
+// keeps only the base name, without characters that could break a Content-Disposition header
+const cleanFileName = (fileName: string | undefined, fallback: string): string => {
+    const cleaned = (fileName ?? '')
+        .split(/[\\/]/)
+        .pop()!
+        .replace(/[\u0000-\u001f\u007f"]/g, '')
+        .trim()
+        .slice(0, 255);
+
+    return cleaned || fallback;
+};
+
+const toReceiptInfo = (expense: ExpenseLog): ReceiptInfo | null => {
+    if (!expense.receiptKey) {
+        return null;
+    }
+
+    return {
+        fileName: expense.receiptFileName ?? 'receipt',
+        contentType: expense.receiptContentType ?? 'application/octet-stream',
+        size: expense.receiptSize ?? 0,
+        uploadedAt: expense.receiptUploadedAt ?? expense.createdAt,
+    };
+};
+
+const openReceipt = async (expense: ExpenseLog): Promise<ReceiptDownload> => {
+    const receipt = toReceiptInfo(expense);
+
+    if (!receipt) {
+        throw new NotFoundError('Receipt');
+    }
+
+    const file = await getFileStorage().get(expense.receiptKey!);
+
+    return {
+        fileName: receipt.fileName,
+        contentType: receipt.contentType,
+        size: file.size || receipt.size,
+        body: file.body,
+    };
+};
+
+/**
+ * Removes stored receipt files after their expenses are gone. Best effort -
+ * a file that can't be removed is logged, not surfaced, since the records
+ * pointing at it no longer exist
+ */
+export const deleteStoredReceipts = async (keys: Array<string | null | undefined>): Promise<void> => {
+    const storage = getFileStorage();
+
+    for (const key of keys) {
+        if (!key) continue;
+
+        try {
+            await storage.delete(key);
+        } catch (error) {
+            logger.warn('Failed to delete stored receipt', { key, error });
+        }
+    }
+};
+
+// ============================================================================
+// UPLOAD RECEIPT
+// ============================================================================
+
+/**
+ * Stores a receipt file for an expense, replacing any earlier one
+ */
+export const uploadReceipt = async (
+    userId: string,
+    expenseId: string,
+    data: UploadReceiptRequest
+): Promise<UploadReceiptResponse> => {
+    try {
+        const expense = await findOwnedExpense(userId, expenseId);
+
+        //"image/png; charset=..." -> "image/png"
+        const declaredType = data.contentType.split(';')[0].trim().toLowerCase();
+
+        if (!(RECEIPT_CONTENT_TYPES as readonly string[]).includes(declaredType)) {
+            throw new BadRequestError(
+                `Unsupported receipt type '${declaredType || 'unknown'}'. Allowed: ${RECEIPT_CONTENT_TYPES.join(', ')}`
+            );
+        }
+
+        if (data.content.length === 0) {
+            throw new BadRequestError('Receipt file is empty');
+        }
+
+        if (data.content.length > config.RECEIPT_MAX_BYTES) {
+            throw new BadRequestError(`Receipt file is larger than the ${config.RECEIPT_MAX_BYTES} byte limit`);
+        }
+
+        const detectedType = detectReceiptContentType(data.content);
+
+        if (detectedType !== declaredType) {
+            throw new BadRequestError(`Receipt content does not match its type '${declaredType}'`);
+        }
+
+        const extension = RECEIPT_EXTENSIONS[detectedType];
+        const key = `${userId}/${expenseId}/${randomUUID()}.${extension}`;
+        const storage = getFileStorage();
+
+        await storage.put(key, data.content, detectedType);
+
+        // only swap if no other upload replaced the receipt in the meantime
+        const { count } = await db.expenseLog.updateMany({
+            where: { id: expenseId, userId, receiptKey: expense.receiptKey },
+            data: {
+                receiptKey: key,
+                receiptFileName: cleanFileName(data.fileName, `receipt.${extension}`),
+                receiptContentType: detectedType,
+                receiptSize: data.content.length,
+                receiptUploadedAt: new Date(),
+            },
+        });
+
+        if (count === 0) {
+            await deleteStoredReceipts([key]);
+            throw new ConflictError('The receipt was changed by another request, please try again');
+        }
+
+        await deleteStoredReceipts([expense.receiptKey]);
+
+        const updated = await findOwnedExpense(userId, expenseId);
+
+        logger.info('Receipt uploaded', {
+            userId,
+            expenseId,
+            contentType: detectedType,
+            size: data.content.length,
+            storage: storage.name,
+            replaced: Boolean(expense.receiptKey),
+        });
+
+        return {
+            expense: updated,
+            receipt: toReceiptInfo(updated)!,
+            message: expense.receiptKey ? 'Receipt replaced successfully' : 'Receipt uploaded successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to upload receipt', { error, userId, expenseId });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DOWNLOAD RECEIPT
+// ============================================================================
+
+/**
+ * Opens an expense's receipt for the logged-in owner
+ */
+export const getReceiptFile = async (
+    userId: string,
+    expenseId: string
+): Promise<ReceiptDownload> => {
+    try {
+        const expense = await findOwnedExpense(userId, expenseId);
+
+        return await openReceipt(expense);
+    } catch (error) {
+        logger.error('Failed to get receipt', { error, userId, expenseId });
+        throw error;
+    }
+};
+
+/**
+ * Short-lived link to the receipt that works without an access token -
+ * the storage backend's own signed URL when it has one, otherwise a
+ * signed link served by this API
+ */
+export const getReceiptUrl = async (
+    userId: string,
+    expenseId: string
+): Promise<ReceiptUrlResponse> => {
+    try {
+        const expense = await findOwnedExpense(userId, expenseId);
+        const receipt = toReceiptInfo(expense);
+
+        if (!receipt) {
+            throw new NotFoundError('Receipt');
+        }
+
+        const expiresIn = config.RECEIPT_URL_EXPIRES_SECONDS;
+        const expiresAt = new Date(Date.now() + expiresIn * 1000);
+        const storage = getFileStorage();
+
+        const url = storage.getSignedUrl
+            ? await storage.getSignedUrl(expense.receiptKey!, expiresIn, {
+                fileName: receipt.fileName,
+                contentType: receipt.contentType,
+            })
+            : `${config.APP_URL}/api/${config.API_VERSION}/public/receipts/${generateReceiptToken(
+                { expenseId, key: expense.receiptKey! },
+                expiresAt
+            )}`;
+
+        return {
+            url,
+            expiresAt,
+            message: 'Receipt link created successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to create receipt link', { error, userId, expenseId });
+        throw error;
+    }
+};
+
+/**
+ * Opens a receipt from a signed link - the link stops working once the
+ * receipt is replaced or removed, even before it expires
+ */
+export const getReceiptFileByToken = async (token: string): Promise<ReceiptDownload> => {
+    const { expenseId, key } = verifyReceiptToken(token);
+
+    const expense = await db.expenseLog.findUnique({
+        where: { id: expenseId },
+    });
+
+    if (!expense || expense.receiptKey !== key) {
+        throw new NotFoundError('Receipt');
+    }
+
+    return openReceipt(expense);
+};
+
+// ============================================================================
+// DELETE RECEIPT
+// ============================================================================
+
+export const deleteReceipt = async (
+    userId: string,
+    expenseId: string
+): Promise<{ message: string }> => {
+    try {
+        const expense = await findOwnedExpense(userId, expenseId);
+
+        if (!expense.receiptKey) {
+            throw new NotFoundError('Receipt');
+        }
+
+        await db.expenseLog.update({
+            where: { id: expenseId },
+            data: {
+                receiptKey: null,
+                receiptFileName: null,
+                receiptContentType: null,
+                receiptSize: null,
+                receiptUploadedAt: null,
+            },
+        });
+
+        await deleteStoredReceipts([expense.receiptKey]);
+
+        logger.info('Receipt deleted', { userId, expenseId });
+
+        return {
+            message: 'Receipt deleted successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to delete receipt', { error, userId, expenseId });
+        throw error;
+    }
+};
@@ -0,0 +1,566 @@
+/**
+ * Recurring Invoice Service
+ * Business logic for retainer schedules that generate invoices automatically
+ */
+
+import { Prisma, RecurringInvoice as RecurringInvoiceRecord } from '@prisma/client';
+import { CronExpressionParser } from 'cron-parser';
+import { db } from '../config/database';
+import {
+    CreateRecurringInvoiceRequest,
+    GetRecurringInvoicesQuery,
+    GetRecurringInvoicesResponse,
+    RecurringInvoice,
+    RecurringInvoiceWithClient,
+    RecurringInvoiceResponse,
+    RecurringInvoicePreview,
+} from '../types/recurringInvoice.types';
+import { InvoiceLineItem } from '../types/invoice.types';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import * as invoiceService from './invoice.service';
+import { deliverInvoiceEmail, renderInvoiceEmailBody, renderInvoiceEmailSubject } from './invoiceEmail.service';
+import { transitionInvoiceStatus } from './invoiceStatus.service';
+import { calculateInvoiceTotals } from './invoiceTotals.service';
+
+// Don't generate more than this many missed invoices for one schedule in a single run
+const MAX_CATCH_UP_OCCURRENCES = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPER: SERIALIZE RECURRING INVOICE
+// ============================================================================
+const serializeRecurringInvoice = (schedule: any): RecurringInvoice => {
+    return {
+        ...schedule,
+        amount: schedule.amount instanceof Prisma.Decimal ? schedule.amount.toNumber() : schedule.amount,
+        items: schedule.items,
+    };
+};
+
+const serializeRecurringInvoiceWithClient = (schedule: any): RecurringInvoiceWithClient => {
+    return {
+        ...serializeRecurringInvoice(schedule),
+        client: schedule.client,
+    };
+};
+
+// ============================================================================
+// HELPER: SCHEDULE CALCULATION
+// ============================================================================
+
+/**
+ * Adds months, clamping to the last day of the month (Jan 31 + 1 month = Feb 28/29)
+ */
+const addMonthsClamped = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    const day = result.getUTCDate();
+
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+
+    const lastDayOfMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDayOfMonth));
+
+    return result;
+};
+
+type ScheduleFields = Pick<RecurringInvoiceRecord, 'frequency' | 'cronExpression' | 'startDate' | 'endDate'>;
+
+/**
+ * Returns the occurrence after `previous` (or the first one when previous is null)
+ * Fixed frequencies are counted from startDate so monthly dates don't drift
+ */
+const getNextOccurrence = (
+    schedule: ScheduleFields,
+    index: number,
+    previous: Date | null
+): Date | null => {
+    let next: Date;
+
+    switch (schedule.frequency) {
+        case 'weekly':
+            next = new Date(schedule.startDate.getTime() + index * 7 * DAY_MS);
+            break;
+        case 'monthly':
+            next = addMonthsClamped(schedule.startDate, index);
+            break;
+        case 'quarterly':
+            next = addMonthsClamped(schedule.startDate, index * 3);
+            break;
+        case 'custom': {
+            // cron runs are found relative to the previous one (first run can be on startDate itself)
+            const after = previous ?? new Date(schedule.startDate.getTime() - 1);
+            const expression = CronExpressionParser.parse(schedule.cronExpression as string, {
+                currentDate: after,
+                tz: 'UTC',
+            });
+            next = expression.next().toDate();
+            break;
+        }
+        default:
+            throw new ValidationError(`Unsupported frequency '${schedule.frequency}'`);
+    }
+
+    if (schedule.endDate && next > schedule.endDate) {
+        return null;
+    }
+
+    return next;
+};
+
+/**
+ * Returns the next `count` occurrences starting at occurrence number `fromIndex`
+ */
+const getOccurrences = (
+    schedule: ScheduleFields,
+    fromIndex: number,
+    previous: Date | null,
+    count: number
+): Date[] => {
+    const occurrences: Date[] = [];
+    let last = previous;
+
+    for (let i = 0; i < count; i++) {
+        const next = getNextOccurrence(schedule, fromIndex + i, last);
+        if (!next) break;
+
+        occurrences.push(next);
+        last = next;
+    }
+
+    return occurrences;
+};
+
+/**
+ * Checks frequency/cron/date combination before saving
+ */
+const validateSchedule = (schedule: ScheduleFields): void => {
+    if (schedule.frequency === 'custom') {
+        if (!schedule.cronExpression) {
+            throw new ValidationError('cronExpression is required for custom frequency');
+        }
+
+        try {
+            CronExpressionParser.parse(schedule.cronExpression);
+        } catch (error) {
+            throw new ValidationError('Invalid cron expression', {
+                cronExpression: schedule.cronExpression,
+                reason: (error as Error).message,
+            });
+        }
+    }
+
+    if (schedule.endDate && schedule.endDate <= schedule.startDate) {
+        throw new ValidationError('endDate must be after startDate');
+    }
+};
+
+/**
+ * Loads a schedule the user owns
+ */
+const findOwnedSchedule = async (userId: string, recurringInvoiceId: string) => {
+    const schedule = await db.recurringInvoice.findUnique({
+        where: { id: recurringInvoiceId },
+    });
+
+    if (!schedule || schedule.userId !== userId) {
+        throw new NotFoundError('Recurring invoice');
+    }
+
+    return schedule;
+};
+
+// ============================================================================
+// CREATE RECURRING INVOICE
+// ============================================================================
+export const createRecurringInvoice = async (
+    userId: string,
+    data: CreateRecurringInvoiceRequest
+): Promise<RecurringInvoiceResponse> => {
+    try {
+        // verify client exists
+        const client = await db.client.findUnique({
+            where: { id: data.clientId },
+        });
+
+        if (!client || client.userId !== userId) {
+            throw new NotFoundError('Client');
+        }
+
+        const scheduleFields: ScheduleFields = {
+            frequency: data.frequency,
+            cronExpression: data.frequency === 'custom' ? data.cronExpression ?? null : null,
+            startDate: new Date(data.startDate),
+            endDate: data.endDate ? new Date(data.endDate) : null,
+        };
+
+        validateSchedule(scheduleFields);
+
+        // same line item rules as invoices, so generated invoices match the template
+        const { items, totals } = calculateInvoiceTotals({ amount: data.amount, items: data.items });
+
+        const nextRunAt = getNextOccurrence(scheduleFields, 0, null);
+
+        const schedule = await db.recurringInvoice.create({
+            data: {
+                userId,
+                clientId: data.clientId,
+                amount: totals.total,
+                description: data.description,
+                items: items ? (JSON.parse(JSON.stringify(items)) as Prisma.JsonArray) : undefined,
+                notes: data.notes,
+                terms: data.terms,
+                dueInDays: data.dueInDays ?? 30,
+                ...scheduleFields,
+                nextRunAt,
+                autoSend: data.autoSend ?? false,
+                status: nextRunAt ? 'active' : 'completed',
+            },
+        });
+
+        logger.info('Recurring invoice created', {
+            userId,
+            recurringInvoiceId: schedule.id,
+            frequency: schedule.frequency,
+            nextRunAt,
+        });
+
+        return {
+            recurringInvoice: serializeRecurringInvoice(schedule),
+            message: 'Recurring invoice created successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to create recurring invoice', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET RECURRING INVOICES
+// ============================================================================
+export const getRecurringInvoices = async (
+    userId: string,
+    query: GetRecurringInvoicesQuery
+): Promise<GetRecurringInvoicesResponse> => {
+    try {
+        const where: Prisma.RecurringInvoiceWhereInput = { userId };
+
+        if (query.status) {
+            where.status = query.status;
+        }
+
+        if (query.clientId) {
+            where.clientId = query.clientId;
+        }
+
+        const schedules = await db.recurringInvoice.findMany({
+            where,
+            include: {
+                client: {
+                    select: { id: true, name: true, email: true },
+                },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        logger.info('Recurring invoices fetched', { userId, count: schedules.length });
+
+        return {
+            recurringInvoices: schedules.map(serializeRecurringInvoiceWithClient),
+            total: schedules.length,
+        };
+    } catch (error) {
+        logger.error('Failed to get recurring invoices', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GET SINGLE RECURRING INVOICE
+// ============================================================================
+export const getRecurringInvoiceById = async (
+    userId: string,
+    recurringInvoiceId: string
+): Promise<RecurringInvoiceWithClient> => {
+    try {
+        const schedule = await db.recurringInvoice.findUnique({
+            where: { id: recurringInvoiceId },
+            include: {
+                client: {
+                    select: { id: true, name: true, email: true },
+                },
+            },
+        });
+
+        if (!schedule || schedule.userId !== userId) {
+            throw new NotFoundError('Recurring invoice');
+        }
+
+        return serializeRecurringInvoiceWithClient(schedule);
+    } catch (error) {
+        logger.error('Failed to get recurring invoice', { userId, recurringInvoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PAUSE / RESUME
+// ============================================================================
+export const pauseRecurringInvoice = async (
+    userId: string,
+    recurringInvoiceId: string
+): Promise<RecurringInvoiceResponse> => {
+    try {
+        const schedule = await findOwnedSchedule(userId, recurringInvoiceId);
+
+        if (schedule.status !== 'active') {
+            throw new BadRequestError(`Cannot pause a ${schedule.status} recurring invoice`);
+        }
+
+        const updated = await db.recurringInvoice.update({
+            where: { id: recurringInvoiceId },
+            data: { status: 'paused' },
+        });
+
+        logger.info('Recurring invoice paused', { userId, recurringInvoiceId });
+
+        return {
+            recurringInvoice: serializeRecurringInvoice(updated),
+            message: 'Recurring invoice paused',
+        };
+    } catch (error) {
+        logger.error('Failed to pause recurring invoice', { userId, recurringInvoiceId, error });
+        throw error;
+    }
+};
+
+export const resumeRecurringInvoice = async (
+    userId: string,
+    recurringInvoiceId: string
+): Promise<RecurringInvoiceResponse> => {
+    try {
+        const schedule = await findOwnedSchedule(userId, recurringInvoiceId);
+
+        if (schedule.status !== 'paused') {
+            throw new BadRequestError(`Cannot resume a ${schedule.status} recurring invoice`);
+        }
+
+        // skip occurrences missed while paused - don't bill them all at once
+        const now = new Date();
+        let index = schedule.occurrences;
+        let previous = schedule.lastRunAt;
+        let nextRunAt = getNextOccurrence(schedule, index, previous);
+
+        while (nextRunAt && nextRunAt < now) {
+            index++;
+            previous = nextRunAt;
+            nextRunAt = getNextOccurrence(schedule, index, previous);
+        }
+
+        const updated = await db.recurringInvoice.update({
+            where: { id: recurringInvoiceId },
+            data: {
+                status: nextRunAt ? 'active' : 'completed',
+                nextRunAt,
+                // skipped occurrences still count so fixed schedules stay aligned to startDate
+                occurrences: index,
+            },
+        });
+
+        logger.info('Recurring invoice resumed', { userId, recurringInvoiceId, nextRunAt });
+
+        return {
+            recurringInvoice: serializeRecurringInvoice(updated),
+            message: nextRunAt
+                ? 'Recurring invoice resumed'
+                : 'Recurring invoice has no occurrences left and is now completed',
+        };
+    } catch (error) {
+        logger.error('Failed to resume recurring invoice', { userId, recurringInvoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// PREVIEW NEXT OCCURRENCES
+// ============================================================================
+export const previewRecurringInvoice = async (
+    userId: string,
+    recurringInvoiceId: string,
+    count: number = 5
+): Promise<RecurringInvoicePreview> => {
+    try {
+        const schedule = await findOwnedSchedule(userId, recurringInvoiceId);
+
+        const occurrences = schedule.nextRunAt
+            ? [
+                schedule.nextRunAt,
+                ...getOccurrences(schedule, schedule.occurrences + 1, schedule.nextRunAt, count - 1),
+            ]
+            : [];
+
+        return {
+            recurringInvoiceId,
+            occurrences: occurrences.map((issueDate) => ({
+                issueDate,
+                dueDate: new Date(issueDate.getTime() + schedule.dueInDays * DAY_MS),
+                amount: schedule.amount.toNumber(),
+            })),
+        };
+    } catch (error) {
+        logger.error('Failed to preview recurring invoice', { userId, recurringInvoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// DELETE RECURRING INVOICE
+// ============================================================================
+export const deleteRecurringInvoice = async (
+    userId: string,
+    recurringInvoiceId: string
+): Promise<{ message: string }> => {
+    try {
+        await findOwnedSchedule(userId, recurringInvoiceId);
+
+        // generated invoices are kept - they just lose the link to the schedule
+        await db.recurringInvoice.delete({
+            where: { id: recurringInvoiceId },
+        });
+
+        logger.info('Recurring invoice deleted', { userId, recurringInvoiceId });
+
+        return {
+            message: 'Recurring invoice deleted successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to delete recurring invoice', { userId, recurringInvoiceId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// GENERATE DUE INVOICES (called by the background job)
+// ============================================================================
+
+/**
+ * Emails a generated invoice to the client, moving it to "sent" once delivered.
+ * A failed send leaves it a draft, with the attempt in its delivery log.
+ */
+const sendGeneratedInvoice = async (userId: string, invoiceId: string): Promise<void> => {
+    const invoice = await invoiceService.getInvoiceById(userId, invoiceId);
+    const recipient = invoice.client.email;
+
+    if (!recipient) {
+        logger.warn('Recurring invoice left as draft - client has no email address', { invoiceId });
+        return;
+    }
+
+    try {
+        await deliverInvoiceEmail(
+            invoice,
+            {
+                to: [recipient],
+                subject: renderInvoiceEmailSubject(invoice),
+                text: renderInvoiceEmailBody(invoice),
+                type: 'invoice',
+            },
+            async (tx) => {
+                await transitionInvoiceStatus(tx, invoice, 'sent', {
+                    actorType: 'system',
+                    reason: `Emailed to ${recipient} by recurring schedule`,
+                });
+            }
+        );
+    } catch (error) {
+        logger.warn('Recurring invoice left as draft - sending failed', { invoiceId, error });
+    }
+};
+
+/**
+ * Generates one invoice for a schedule's current occurrence and advances it.
+ * The schedule advances in the invoice's transaction, and only from this
+ * occurrence - if another run already generated it, the invoice rolls back.
+ */
+const generateOccurrence = async (schedule: RecurringInvoiceRecord): Promise<RecurringInvoiceRecord> => {
+    const issueDate = schedule.nextRunAt as Date;
+    const occurrences = schedule.occurrences + 1;
+    const nextRunAt = getNextOccurrence(schedule, occurrences, issueDate);
+
+    const { invoice } = await invoiceService.createInvoice(
+        schedule.userId,
+        {
+            clientId: schedule.clientId,
+            amount: schedule.amount.toNumber(),
+            description: schedule.description,
+            items: (schedule.items as unknown as InvoiceLineItem[] | null) ?? undefined,
+            dueDate: new Date(issueDate.getTime() + schedule.dueInDays * DAY_MS),
+            notes: schedule.notes ?? undefined,
+            terms: schedule.terms ?? undefined,
+        },
+        {
+            recurringInvoiceId: schedule.id,
+            issueDate,
+            onCreated: async (tx) => {
+                const advanced = await tx.recurringInvoice.updateMany({
+                    where: { id: schedule.id, status: 'active', nextRunAt: issueDate },
+                    data: {
+                        occurrences,
+                        lastRunAt: issueDate,
+                        nextRunAt,
+                        status: nextRunAt ? 'active' : 'completed',
+                    },
+                });
+
+                if (advanced.count === 0) {
+                    throw new ConflictError('This occurrence of the recurring invoice has already been generated');
+                }
+            },
+        }
+    );
+
+    if (schedule.autoSend) {
+        await sendGeneratedInvoice(schedule.userId, invoice.id);
+    }
+
+    return db.recurringInvoice.findUniqueOrThrow({
+        where: { id: schedule.id },
+    });
+};
+
+export const generateDueRecurringInvoices = async (now: Date = new Date()): Promise<number> => {
+    const dueSchedules = await db.recurringInvoice.findMany({
+        where: {
+            status: 'active',
+            nextRunAt: { lte: now },
+        },
+        orderBy: { nextRunAt: 'asc' },
+    });
+
+    let generated = 0;
+
+    for (const dueSchedule of dueSchedules) {
+        let schedule = dueSchedule;
+
+        try {
+            // catch up on missed occurrences (e.g. server was down), within a limit
+            for (let i = 0; i < MAX_CATCH_UP_OCCURRENCES; i++) {
+                if (!schedule.nextRunAt || schedule.nextRunAt > now) break;
+
+                schedule = await generateOccurrence(schedule);
+                generated++;
+            }
+        } catch (error) {
+            // one broken schedule shouldn't block the others
+            logger.error('Failed to generate recurring invoice', { recurringInvoiceId: schedule.id, error });
+        }
+    }
+
+    if (generated > 0) {
+        logger.info('Recurring invoices generated', { count: generated });
+    }
+
+    return generated;
+};
@@ -0,0 +1,372 @@
+/**
+ * Reminder Service
+ * Payment reminder schedules and the escalating reminder emails sent from them
+ */
+
+import { db } from '../config/database';
+import { InvoiceStatus, InvoiceWithDetails } from '../types/invoice.types';
+import {
+    DEFAULT_REMINDER_OFFSETS,
+    GetReminderSchedulesResponse,
+    ReminderSchedule,
+    ReminderScheduleResponse,
+    ReminderScheduleWithClient,
+    ReminderTone,
+    UpsertReminderScheduleRequest,
+} from '../types/reminder.types';
+import { NotFoundError } from '../utils/errors';
+import { formatDate, formatMoney, getLocaleBundle, translate } from '../utils/i18n';
+import { logger } from '../utils/logger';
+import { getInvoiceById } from './invoice.service';
+import { deliverInvoiceEmail, getInvoicePdfFilename } from './invoiceEmail.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Unpaid invoices that get chased - paid, cancelled and void ones drop out automatically
+const REMINDABLE_STATUSES: InvoiceStatus[] = ['sent', 'viewed', 'partially_paid', 'overdue'];
+
+// Process in batches so a large backlog doesn't load every invoice at once
+const BATCH_SIZE = 100;
+
+// ============================================================================
+// HELPER: NORMALIZE OFFSETS
+// ============================================================================
+
+const normalizeOffsets = (offsets: number[]): number[] => {
+    return [...new Set(offsets)].sort((a, b) => a - b);
+};
+
+// ============================================================================
+// GET SCHEDULES
+// ============================================================================
+
+export const getReminderSchedules = async (userId: string): Promise<GetReminderSchedulesResponse> => {
+    try {
+        const defaultSchedule = await db.reminderSchedule.findFirst({
+            where: { userId, clientId: null },
+        });
+
+        const clientSchedules = await db.reminderSchedule.findMany({
+            where: { userId, clientId: { not: null } },
+            include: {
+                client: { select: { id: true, name: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        logger.info('Reminder schedules fetched', { userId, count: clientSchedules.length + (defaultSchedule ? 1 : 0) });
+
+        return {
+            default: defaultSchedule as ReminderSchedule | null,
+            clients: clientSchedules as ReminderScheduleWithClient[],
+            defaultOffsets: DEFAULT_REMINDER_OFFSETS,
+        };
+    } catch (error) {
+        logger.error('Failed to get reminder schedules', { userId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// UPSERT SCHEDULES
+// ============================================================================
+
+export const upsertDefaultReminderSchedule = async (
+    userId: string,
+    data: UpsertReminderScheduleRequest
+): Promise<ReminderScheduleResponse> => {
+    try {
+        const existing = await db.reminderSchedule.findFirst({
+            where: { userId, clientId: null },
+        });
+
+        const schedule = existing
+            ? await db.reminderSchedule.update({
+                where: { id: existing.id },
+                data: {
+                    offsets: data.offsets ? normalizeOffsets(data.offsets) : undefined,
+                    enabled: data.enabled,
+                },
+            })
+            : await db.reminderSchedule.create({
+                data: {
+                    userId,
+                    offsets: normalizeOffsets(data.offsets ?? DEFAULT_REMINDER_OFFSETS),
+                    enabled: data.enabled ?? true,
+                },
+            });
+
+        logger.info('Default reminder schedule saved', { userId, offsets: schedule.offsets, enabled: schedule.enabled });
+
+        return {
+            schedule: schedule as ReminderSchedule,
+            message: 'Reminder schedule saved successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to save default reminder schedule', { userId, error });
+        throw error;
+    }
+};
+
+export const upsertClientReminderSchedule = async (
+    userId: string,
+    clientId: string,
+    data: UpsertReminderScheduleRequest
+): Promise<ReminderScheduleResponse> => {
+    try {
+        const client = await db.client.findUnique({
+            where: { id: clientId },
+        });
+
+        if (!client || client.userId !== userId) {
+            throw new NotFoundError('Client');
+        }
+
+        const schedule = await db.reminderSchedule.upsert({
+            where: { clientId },
+            create: {
+                userId,
+                clientId,
+                offsets: normalizeOffsets(data.offsets ?? DEFAULT_REMINDER_OFFSETS),
+                enabled: data.enabled ?? true,
+            },
+            update: {
+                offsets: data.offsets ? normalizeOffsets(data.offsets) : undefined,
+                enabled: data.enabled,
+            },
+        });
+
+        logger.info('Client reminder schedule saved', { userId, clientId, offsets: schedule.offsets, enabled: schedule.enabled });
+
+        return {
+            schedule: schedule as ReminderSchedule,
+            message: 'Client reminder schedule saved successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to save client reminder schedule', { userId, clientId, error });
+        throw error;
+    }
+};
+
+export const deleteClientReminderSchedule = async (
+    userId: string,
+    clientId: string
+): Promise<{ message: string }> => {
+    try {
+        const schedule = await db.reminderSchedule.findUnique({
+            where: { clientId },
+        });
+
+        if (!schedule || schedule.userId !== userId) {
+            throw new NotFoundError('Reminder schedule');
+        }
+
+        // the client falls back to the user's default schedule
+        await db.reminderSchedule.delete({
+            where: { id: schedule.id },
+        });
+
+        logger.info('Client reminder schedule deleted', { userId, clientId });
+
+        return {
+            message: 'Client reminder schedule deleted successfully',
+        };
+    } catch (error) {
+        logger.error('Failed to delete client reminder schedule', { userId, clientId, error });
+        throw error;
+    }
+};
+
+// ============================================================================
+// REMINDER TEMPLATES (tone escalates along the schedule)
+// ============================================================================
+
+// Subjects and bodies per tone live in the locale bundles (reminders.friendly/firm/final)
+
+/**
+ * Before/on the due date reminders are friendly, the last one in the schedule
+ * is a final notice, everything in between is firm
+ */
+export const getReminderTone = (offset: number, offsets: number[]): ReminderTone => {
+    if (offset <= 0) {
+        return 'friendly';
+    }
+
+    return offset === Math.max(...offsets) ? 'final' : 'firm';
+};
+
+export const renderReminderEmail = (
+    invoice: InvoiceWithDetails,
+    offset: number,
+    offsets: number[]
+): { subject: string; text: string; tone: ReminderTone } => {
+    const tone = getReminderTone(offset, offsets);
+    const labels = getLocaleBundle(invoice.locale);
+    const template = labels.reminders[tone];
+
+    const daysUntilDue = Math.abs(offset);
+    const dueLabel = offset === 0
+        ? labels.reminders.dueToday
+        : daysUntilDue === 1
+            ? labels.reminders.dueInOneDay
+            : translate(labels.reminders.dueInDays, { days: daysUntilDue });
+
+    const values = {
+        clientName: invoice.client.name,
+        invoiceNumber: invoice.invoiceNumber,
+        balanceDue: formatMoney(invoice.balanceDue, invoice.currency, invoice.locale),
+        dueDate: formatDate(invoice.dueDate, invoice.locale),
+        dueLabel,
+        daysOverdue: String(offset),
+        pdfFilename: getInvoicePdfFilename(invoice),
+        senderName: invoice.user.name,
+        senderEmail: invoice.user.email,
+    };
+
+    return {
+        subject: translate(template.subject, values),
+        text: translate(template.body, values),
+        tone,
+    };
+};
+
+// ============================================================================
+// SEND DUE REMINDERS (called by the background job)
+// ============================================================================
+
+/**
+ * Client override first, then the user's default - null means no reminders
+ */
+const resolveSchedule = async (userId: string, clientId: string) => {
+    const schedules = await db.reminderSchedule.findMany({
+        where: {
+            userId,
+            OR: [{ clientId }, { clientId: null }],
+        },
+    });
+
+    return schedules.find((schedule) => schedule.clientId === clientId)
+        ?? schedules.find((schedule) => schedule.clientId === null)
+        ?? null;
+};
+
+/**
+ * Sends at most one reminder per invoice per run: the latest schedule step
+ * that has come due and hasn't been sent yet. Steps missed while the job was
+ * down are skipped rather than sent in a burst.
+ */
+const sendInvoiceReminder = async (
+    invoice: { id: string; userId: string; clientId: string; dueDate: Date; client: { email: string | null } },
+    offsets: number[],
+    now: Date
+): Promise<boolean> => {
+    const daysFromDue = Math.floor((now.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+    const dueOffsets = offsets.filter((offset) => offset <= daysFromDue);
+
+    if (dueOffsets.length === 0 || !invoice.client.email) {
+        return false;
+    }
+
+    const offset = Math.max(...dueOffsets);
+
+    const lastReminder = await db.invoiceDelivery.findFirst({
+        where: { invoiceId: invoice.id, type: 'reminder', status: 'sent' },
+        orderBy: { reminderOffset: 'desc' },
+    });
+
+    if (lastReminder && (lastReminder.reminderOffset ?? -Infinity) >= offset) {
+        return false;
+    }
+
+    // never email a client twice in one day (e.g. right after the invoice itself)
+    const recentDelivery = await db.invoiceDelivery.findFirst({
+        where: {
+            invoiceId: invoice.id,
+            status: 'sent',
+            createdAt: { gt: new Date(now.getTime() - DAY_MS) },
+        },
+    });
+
+    if (recentDelivery) {
+        return false;
+    }
+
+    const details = await getInvoiceById(invoice.userId, invoice.id);
+
+    // paid or cancelled since the batch was loaded
+    if (!REMINDABLE_STATUSES.includes(details.status)) {
+        return false;
+    }
+
+    const { subject, text, tone } = renderReminderEmail(details, offset, offsets);
+
+    await deliverInvoiceEmail(details, {
+        to: [invoice.client.email],
+        subject,
+        text,
+        type: 'reminder',
+        reminderOffset: offset,
+    });
+
+    logger.info('Payment reminder sent', { invoiceId: invoice.id, offset, tone });
+
+    return true;
+};
+
+export const sendDueReminders = async (now: Date = new Date()): Promise<number> => {
+    let sent = 0;
+    let lastId: string | undefined;
+    const schedules = new Map<string, Awaited<ReturnType<typeof resolveSchedule>>>();
+
+    while (true) {
+        const invoices = await db.invoice.findMany({
+            where: {
+                status: { in: REMINDABLE_STATUSES },
+                client: { email: { not: null } },
+                ...(lastId && { id: { gt: lastId } }),
+            },
+            select: {
+                id: true,
+                userId: true,
+                clientId: true,
+                dueDate: true,
+                client: { select: { email: true } },
+            },
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        if (invoices.length === 0) {
+            break;
+        }
+
+        for (const invoice of invoices) {
+            try {
+                const key = `${invoice.userId}:${invoice.clientId}`;
+                if (!schedules.has(key)) {
+                    schedules.set(key, await resolveSchedule(invoice.userId, invoice.clientId));
+                }
+
+                const schedule = schedules.get(key);
+                if (!schedule || !schedule.enabled || schedule.offsets.length === 0) {
+                    continue;
+                }
+
+                if (await sendInvoiceReminder(invoice, schedule.offsets, now)) {
+                    sent++;
+                }
+            } catch (error) {
+                // one failed email shouldn't stop the run - it is retried next time
+                logger.error('Failed to send payment reminder', { invoiceId: invoice.id, error });
+            }
+        }
+
+        lastId = invoices[invoices.length - 1].id;
+    }
+
+    if (sent > 0) {
+        logger.info('Payment reminders sent', { count: sent });
+    }
+
+    return sent;
+};
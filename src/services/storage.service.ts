@@ -0,0 +1,335 @@
+/**
+ * Storage Service
+ * Pluggable file storage (local disk, S3-compatible object stores)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { config } from '../config/environment';
+import { FileStorage, SignedUrlOptions, StorageDriverName, StoredFile } from '../types/storage.types';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// HELPER: VALIDATE KEY
+// ============================================================================
+
+// keys are "/"-separated relative paths; anything that could escape the root is rejected
+const assertValidKey = (key: string): void => {
+    const segments = key.split('/');
+
+    if (!key || segments.some((segment) => !segment || segment === '.' || segment === '..' || segment.includes('\\'))) {
+        throw new Error(`Invalid storage key '${key}'`);
+    }
+};
+
+// ============================================================================
+// LOCAL DISK STORAGE
+// ============================================================================
+
+export const createLocalStorage = (rootDir: string = config.STORAGE_LOCAL_DIR): FileStorage => {
+    const root = path.resolve(rootDir);
+
+    const resolveKey = (key: string): string => {
+        assertValidKey(key);
+        return path.join(root, ...key.split('/'));
+    };
+
+    //content type is kept next to the file so get() can return it
+    const metaPath = (filePath: string): string => `${filePath}.meta.json`;
+
+    return {
+        name: 'local',
+        put: async (key: string, body: Buffer, contentType: string): Promise<void> => {
+            const filePath = resolveKey(key);
+
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, body);
+            await fs.writeFile(metaPath(filePath), JSON.stringify({ contentType }));
+        },
+        get: async (key: string): Promise<StoredFile> => {
+            const filePath = resolveKey(key);
+
+            const stat = await fs.stat(filePath).catch(() => null);
+            if (!stat?.isFile()) {
+                throw new NotFoundError('File');
+            }
+
+            const meta = await fs.readFile(metaPath(filePath), 'utf8')
+                .then((raw) => JSON.parse(raw) as { contentType?: string })
+                .catch(() => ({} as { contentType?: string }));
+
+            return {
+                body: createReadStream(filePath),
+                contentType: meta.contentType ?? 'application/octet-stream',
+                size: stat.size,
+            };
+        },
+        delete: async (key: string): Promise<void> => {
+            const filePath = resolveKey(key);
+
+            await fs.rm(filePath, { force: true });
+            await fs.rm(metaPath(filePath), { force: true });
+
+            //drop directories left empty, up to (not including) the root
+            let dir = path.dirname(filePath);
+            while (dir.startsWith(root + path.sep)) {
+                const removed = await fs.rmdir(dir).then(() => true, () => false);
+                if (!removed) break;
+                dir = path.dirname(dir);
+            }
+        },
+    };
+};
+
+// ============================================================================
+// S3-COMPATIBLE STORAGE (AWS Signature Version 4)
+// ============================================================================
+
+export interface S3StorageOptions {
+    endpoint?: string;              // default https://s3.<region>.amazonaws.com
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle?: boolean;       // http://host/bucket/key instead of http://bucket.host/key
+    now?: () => Date;               // clock used for signing
+}
+
+const SIGNING_ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256Hex = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as SigV4 expects (encodeURIComponent leaves !'()* alone)
+const uriEncode = (value: string): string => {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+// 20130524T000000Z
+const amzDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const canonicalQueryString = (query: Record<string, string>): string => {
+    return Object.keys(query)
+        .sort()
+        .map((name) => `${uriEncode(name)}=${uriEncode(query[name])}`)
+        .join('&');
+};
+
+export interface SigV4Request {
+    method: string;
+    path: string;                       // already URI-encoded
+    query: Record<string, string>;
+    headers: Record<string, string>;    // lowercase names, including host
+    payloadHash: string;
+}
+
+/**
+ * The canonical request SigV4 signs, and the header names it covers
+ */
+export const buildCanonicalRequest = (request: SigV4Request): { canonicalRequest: string; signedHeaders: string } => {
+    const headerNames = Object.keys(request.headers).sort();
+    const canonicalHeaders = headerNames.map((name) => `${name}:${request.headers[name].trim()}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [
+        request.method,
+        request.path,
+        canonicalQueryString(request.query),
+        canonicalHeaders,
+        signedHeaders,
+        request.payloadHash,
+    ].join('\n');
+
+    return { canonicalRequest, signedHeaders };
+};
+
+export const getCredentialScope = (date: string, region: string): string => `${date.slice(0, 8)}/${region}/s3/aws4_request`;
+
+export const buildStringToSign = (canonicalRequest: string, date: string, region: string): string => {
+    return [SIGNING_ALGORITHM, date, getCredentialScope(date, region), sha256Hex(canonicalRequest)].join('\n');
+};
+
+/**
+ * Hex signature of stringToSign, with the key derived from the secret, date and region
+ */
+export const calculateSignature = (secretAccessKey: string, date: string, region: string, stringToSign: string): string => {
+    const dateKey = hmac(`AWS4${secretAccessKey}`, date.slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, region), 's3'), 'aws4_request');
+
+    return hmac(signingKey, stringToSign).toString('hex');
+};
+
+export const createS3Storage = (options?: S3StorageOptions): FileStorage => {
+    const settings = options ?? {
+        endpoint: config.S3_ENDPOINT,
+        region: config.S3_REGION,
+        bucket: config.S3_BUCKET ?? '',
+        accessKeyId: config.S3_ACCESS_KEY_ID ?? '',
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY ?? '',
+        forcePathStyle: config.S3_FORCE_PATH_STYLE,
+    };
+
+    if (!settings.bucket) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    if (!settings.accessKeyId || !settings.secretAccessKey) {
+        throw new Error('S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_DRIVER=s3');
+    }
+
+    const now = settings.now ?? (() => new Date());
+    const endpoint = new URL(settings.endpoint ?? `https://s3.${settings.region}.amazonaws.com`);
+
+    const objectLocation = (key: string): { origin: string; host: string; path: string } => {
+        assertValidKey(key);
+        const encodedKey = key.split('/').map(uriEncode).join('/');
+
+        if (settings.forcePathStyle) {
+            return { origin: endpoint.origin, host: endpoint.host, path: `/${uriEncode(settings.bucket)}/${encodedKey}` };
+        }
+
+        const host = `${settings.bucket}.${endpoint.host}`;
+        return { origin: `${endpoint.protocol}//${host}`, host, path: `/${encodedKey}` };
+    };
+
+    const credentialScope = (date: string): string => getCredentialScope(date, settings.region);
+
+    /**
+     * Signs a request and returns the hex signature
+     * headers must already be lowercase and include host
+     */
+    const sign = (request: SigV4Request, date: string): { signature: string; signedHeaders: string } => {
+        const { canonicalRequest, signedHeaders } = buildCanonicalRequest(request);
+        const stringToSign = buildStringToSign(canonicalRequest, date, settings.region);
+
+        return { signature: calculateSignature(settings.secretAccessKey, date, settings.region, stringToSign), signedHeaders };
+    };
+
+    // Authorization-header request for put / get / delete
+    const signedRequest = (method: string, key: string, payload: Buffer | null, extraHeaders: Record<string, string> = {}) => {
+        const location = objectLocation(key);
+        const date = amzDate(now());
+        const payloadHash = sha256Hex(payload ?? '');
+
+        const headers: Record<string, string> = {
+            host: location.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': date,
+            ...extraHeaders,
+        };
+        const { signature, signedHeaders } = sign({ method, path: location.path, query: {}, headers, payloadHash }, date);
+
+        const { host, ...sentHeaders } = headers;
+        return {
+            url: `${location.origin}${location.path}`,
+            headers: {
+                ...sentHeaders,
+                Authorization: `${SIGNING_ALGORITHM} Credential=${settings.accessKeyId}/${credentialScope(date)}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+            },
+        };
+    };
+
+    return {
+        name: 's3',
+        put: async (key: string, body: Buffer, contentType: string): Promise<void> => {
+            const request = signedRequest('PUT', key, body, { 'content-type': contentType });
+
+            await axios.put(request.url, body, {
+                headers: request.headers,
+                maxBodyLength: Infinity,
+                //keep axios from serializing the buffer
+                transformRequest: [(data) => data],
+            });
+        },
+        get: async (key: string): Promise<StoredFile> => {
+            const request = signedRequest('GET', key, null);
+
+            const response = await axios.get<Readable>(request.url, {
+                headers: request.headers,
+                responseType: 'stream',
+                validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+            });
+
+            if (response.status === 404) {
+                response.data.resume();
+                throw new NotFoundError('File');
+            }
+
+            return {
+                body: response.data,
+                contentType: String(response.headers['content-type'] ?? 'application/octet-stream'),
+                size: Number(response.headers['content-length'] ?? 0),
+            };
+        },
+        delete: async (key: string): Promise<void> => {
+            const request = signedRequest('DELETE', key, null);
+
+            //S3 answers 204 whether or not the object existed
+            await axios.delete(request.url, {
+                headers: request.headers,
+                validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+            });
+        },
+        getSignedUrl: async (key: string, expiresInSeconds: number, urlOptions: SignedUrlOptions = {}): Promise<string> => {
+            const location = objectLocation(key);
+            const date = amzDate(now());
+
+            const query: Record<string, string> = {
+                'X-Amz-Algorithm': SIGNING_ALGORITHM,
+                'X-Amz-Credential': `${settings.accessKeyId}/${credentialScope(date)}`,
+                'X-Amz-Date': date,
+                'X-Amz-Expires': String(expiresInSeconds),
+                'X-Amz-SignedHeaders': 'host',
+            };
+            if (urlOptions.fileName) {
+                query['response-content-disposition'] = `inline; filename="${urlOptions.fileName.replace(/["\\\r\n]/g, '')}"`;
+            }
+            if (urlOptions.contentType) {
+                query['response-content-type'] = urlOptions.contentType;
+            }
+
+            const { signature } = sign(
+                { method: 'GET', path: location.path, query, headers: { host: location.host }, payloadHash: UNSIGNED_PAYLOAD },
+                date
+            );
+
+            return `${location.origin}${location.path}?${canonicalQueryString(query)}&X-Amz-Signature=${signature}`;
+        },
+    };
+};
+
+// ============================================================================
+// ACTIVE STORAGE
+// ============================================================================
+
+const storageFactories: Record<StorageDriverName, () => FileStorage> = {
+    local: () => createLocalStorage(),
+    s3: () => createS3Storage(),
+};
+
+let activeStorage: FileStorage | null = null;
+
+/**
+ * Returns the storage selected by STORAGE_DRIVER (created on first use)
+ */
+export const getFileStorage = (): FileStorage => {
+    if (!activeStorage) {
+        activeStorage = storageFactories[config.STORAGE_DRIVER]();
+        logger.info('File storage initialized', { driver: activeStorage.name });
+    }
+
+    return activeStorage;
+};
+
+/**
+ * Replaces the active storage (e.g. another backend or a test double)
+ */
+export const setFileStorage = (storage: FileStorage | null): void => {
+    activeStorage = storage;
+};
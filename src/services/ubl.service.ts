@@ -0,0 +1,201 @@
+/**
+ * UBL Service
+ * Renders e-invoice documents as UBL 2.1 Invoice / CreditNote XML (Peppol BIS Billing 3.0)
+ * Child elements must follow the order of the UBL 2.1 schemas, so each builder
+ * below lists them in schema order.
+ */
+
+import {
+    EInvoiceAllowanceCharge,
+    EInvoiceDocument,
+    EInvoiceLine,
+    EInvoiceParty,
+    EInvoiceTaxCategory,
+    EInvoiceTaxSubtotal,
+} from '../types/einvoice.types';
+import { el, optionalEl, renderXml, XmlElement } from '../utils/xml';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NAMESPACES = {
+    invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+    creditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+    cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+    cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+// UNCL 1001 document type codes
+const INVOICE_TYPE_CODE = '380';
+const CREDIT_NOTE_TYPE_CODE = '381';
+
+// UN/ECE Rec 20 "one" - we don't track units of measure
+const UNIT_CODE = 'C62';
+
+// ============================================================================
+// HELPER: VALUES
+// ============================================================================
+
+const formatDate = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+const amount = (name: string, value: number, currency: string): XmlElement => {
+    return el(name, { currencyID: currency }, value.toFixed(2));
+};
+
+const taxScheme = (): XmlElement => el('cac:TaxScheme', {}, el('cbc:ID', {}, 'VAT'));
+
+// ============================================================================
+// PARTIES
+// ============================================================================
+
+const postalAddress = (party: EInvoiceParty): XmlElement => {
+    const [street, additionalStreet, ...rest] = party.address.lines;
+
+    return el('cac:PostalAddress', {},
+        optionalEl('cbc:StreetName', street),
+        optionalEl('cbc:AdditionalStreetName', additionalStreet),
+        rest.length > 0 && el('cac:AddressLine', {}, el('cbc:Line', {}, rest.join(', '))),
+        el('cac:Country', {}, el('cbc:IdentificationCode', {}, party.address.countryCode))
+    );
+};
+
+const party = (wrapper: string, details: EInvoiceParty): XmlElement => {
+    const hasContact = !!(details.contactName || details.phone || details.email);
+
+    return el(wrapper, {},
+        el('cac:Party', {},
+            el('cbc:EndpointID', { schemeID: details.endpoint.scheme }, details.endpoint.id),
+            el('cac:PartyName', {}, el('cbc:Name', {}, details.name)),
+            postalAddress(details),
+            !!details.taxId && el('cac:PartyTaxScheme', {},
+                el('cbc:CompanyID', {}, details.taxId),
+                taxScheme()
+            ),
+            el('cac:PartyLegalEntity', {}, el('cbc:RegistrationName', {}, details.name)),
+            hasContact && el('cac:Contact', {},
+                optionalEl('cbc:Name', details.contactName),
+                optionalEl('cbc:Telephone', details.phone),
+                optionalEl('cbc:ElectronicMail', details.email)
+            )
+        )
+    );
+};
+
+// ============================================================================
+// TAXES, ALLOWANCES & CHARGES
+// ============================================================================
+
+/**
+ * Not-subject-to-VAT categories carry no rate; the exemption reason only
+ * belongs on the tax subtotal
+ */
+const taxCategory = (name: string, category: EInvoiceTaxCategory, withReason: boolean = false): XmlElement => {
+    return el(name, {},
+        el('cbc:ID', {}, category.code),
+        category.code !== 'O' && el('cbc:Percent', {}, String(category.percent)),
+        withReason && optionalEl('cbc:TaxExemptionReason', category.exemptionReason),
+        taxScheme()
+    );
+};
+
+const allowanceCharge = (item: EInvoiceAllowanceCharge, currency: string): XmlElement => {
+    return el('cac:AllowanceCharge', {},
+        el('cbc:ChargeIndicator', {}, String(item.isCharge)),
+        el('cbc:AllowanceChargeReason', {}, item.reason),
+        amount('cbc:Amount', item.amount, currency),
+        taxCategory('cac:TaxCategory', item.taxCategory)
+    );
+};
+
+const taxTotal = (document: EInvoiceDocument): XmlElement => {
+    return el('cac:TaxTotal', {},
+        amount('cbc:TaxAmount', document.totals.taxAmount, document.currency),
+        ...document.taxSubtotals.map((subtotal: EInvoiceTaxSubtotal) => el('cac:TaxSubtotal', {},
+            amount('cbc:TaxableAmount', subtotal.taxableAmount, document.currency),
+            amount('cbc:TaxAmount', subtotal.taxAmount, document.currency),
+            taxCategory('cac:TaxCategory', subtotal.taxCategory, true)
+        ))
+    );
+};
+
+const legalMonetaryTotal = (document: EInvoiceDocument): XmlElement => {
+    const { totals, currency } = document;
+
+    return el('cac:LegalMonetaryTotal', {},
+        amount('cbc:LineExtensionAmount', totals.lineExtensionAmount, currency),
+        amount('cbc:TaxExclusiveAmount', totals.taxExclusiveAmount, currency),
+        amount('cbc:TaxInclusiveAmount', totals.taxInclusiveAmount, currency),
+        totals.allowanceTotal > 0 && amount('cbc:AllowanceTotalAmount', totals.allowanceTotal, currency),
+        totals.chargeTotal > 0 && amount('cbc:ChargeTotalAmount', totals.chargeTotal, currency),
+        totals.prepaidAmount > 0 && amount('cbc:PrepaidAmount', totals.prepaidAmount, currency),
+        totals.roundingAmount !== 0 && amount('cbc:PayableRoundingAmount', totals.roundingAmount, currency),
+        amount('cbc:PayableAmount', totals.payableAmount, currency)
+    );
+};
+
+// ============================================================================
+// LINES
+// ============================================================================
+
+const documentLine = (document: EInvoiceDocument, line: EInvoiceLine): XmlElement => {
+    const isInvoice = document.type === 'invoice';
+
+    return el(isInvoice ? 'cac:InvoiceLine' : 'cac:CreditNoteLine', {},
+        el('cbc:ID', {}, line.id),
+        el(isInvoice ? 'cbc:InvoicedQuantity' : 'cbc:CreditedQuantity', { unitCode: UNIT_CODE }, String(line.quantity)),
+        amount('cbc:LineExtensionAmount', line.netAmount, document.currency),
+        el('cac:Item', {},
+            el('cbc:Name', {}, line.name),
+            taxCategory('cac:ClassifiedTaxCategory', line.taxCategory)
+        ),
+        // unit prices may have more than two decimals
+        el('cac:Price', {}, el('cbc:PriceAmount', { currencyID: document.currency }, String(line.unitPrice)))
+    );
+};
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export const renderUblDocument = (document: EInvoiceDocument): string => {
+    const isInvoice = document.type === 'invoice';
+
+    const root = el(isInvoice ? 'Invoice' : 'CreditNote',
+        {
+            xmlns: isInvoice ? NAMESPACES.invoice : NAMESPACES.creditNote,
+            'xmlns:cac': NAMESPACES.cac,
+            'xmlns:cbc': NAMESPACES.cbc,
+        },
+        el('cbc:CustomizationID', {}, CUSTOMIZATION_ID),
+        el('cbc:ProfileID', {}, PROFILE_ID),
+        el('cbc:ID', {}, document.number),
+        el('cbc:IssueDate', {}, formatDate(document.issueDate)),
+        // CreditNote has no DueDate element in UBL 2.1
+        isInvoice && document.dueDate && el('cbc:DueDate', {}, formatDate(document.dueDate)),
+        isInvoice
+            ? el('cbc:InvoiceTypeCode', {}, INVOICE_TYPE_CODE)
+            : el('cbc:CreditNoteTypeCode', {}, CREDIT_NOTE_TYPE_CODE),
+        optionalEl('cbc:Note', document.note),
+        el('cbc:DocumentCurrencyCode', {}, document.currency),
+        el('cbc:BuyerReference', {}, document.buyerReference),
+        document.billingReference && el('cac:BillingReference', {},
+            el('cac:InvoiceDocumentReference', {},
+                el('cbc:ID', {}, document.billingReference.number),
+                el('cbc:IssueDate', {}, formatDate(document.billingReference.issueDate))
+            )
+        ),
+        party('cac:AccountingSupplierParty', document.seller),
+        party('cac:AccountingCustomerParty', document.buyer),
+        !!document.paymentTerms && el('cac:PaymentTerms', {}, el('cbc:Note', {}, document.paymentTerms)),
+        ...document.allowanceCharges.map((item) => allowanceCharge(item, document.currency)),
+        taxTotal(document),
+        legalMonetaryTotal(document),
+        ...document.lines.map((line) => documentLine(document, line))
+    );
+
+    return renderXml(root);
+};
@@ -20,6 +20,7 @@ import {
     ValidationError,
 } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { deleteStoredReceipts } from './receipt.service';
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -71,6 +72,9 @@ export const updateProfile = async (
         if (data.profession !== undefined) updateData.profession = data.profession;
         if (data.skills !== undefined) updateData.skills = data.skills;
         if (data.hourlyRate !== undefined) updateData.hourlyRate = data.hourlyRate;
+        if (data.currency !== undefined) updateData.currency = data.currency;
+        if (data.locale !== undefined) updateData.locale = data.locale;
+        if (data.baseCurrency !== undefined) updateData.baseCurrency = data.baseCurrency;
 
         const user = await db.user.update({
             where: { id: userId },
@@ -164,11 +168,19 @@ export const deleteAccount = async (
             throw new AuthenticationError('Password is incorrect');
         }
 
+        //stored receipt files aren't covered by the cascade - note them before the rows go
+        const receipts = await db.expenseLog.findMany({
+            where: { userId, receiptKey: { not: null } },
+            select: { receiptKey: true },
+        });
+
         //delete user (cascades to related records due to Prisma schema)
         await db.user.delete({
             where: { id: userId },
         });
 
+        await deleteStoredReceipts(receipts.map((receipt) => receipt.receiptKey));
+
         //delete refresh tokens
         await redis.del(`refresh_token:${userId}`);
 
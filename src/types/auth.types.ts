@@ -21,6 +21,9 @@ export interface User {
     profilePicture: string | null;
     isPremium: boolean;
     isEmailVerified: boolean;
+    currency: string;
+    locale: string;
+    baseCurrency: string;
     emailVerificationToken: string | null;
     emailVerificationExpires: Date | null;
     passwordResetToken: string | null;
@@ -39,6 +42,9 @@ export interface SafeUser {
     profilePicture: string | null;
     isPremium: boolean;
     isEmailVerified: boolean;
+    currency: string;
+    locale: string;
+    baseCurrency: string;
     lastLoginAt: Date | null;
     createdAt: Date;
 }
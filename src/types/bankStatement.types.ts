@@ -0,0 +1,161 @@
+/**
+ * Bank Statement Types
+ * Statement files (OFX/QFX, QIF, CAMT.053) parsed into transactions that are
+ * reviewed before they become income and expense entries
+ */
+
+// ============================================================================
+// FORMATS & STATUSES
+// ============================================================================
+
+// QFX is OFX with an Intuit header, so it uses the OFX parser
+export const BANK_STATEMENT_FORMATS = ['ofx', 'qif', 'camt053'] as const;
+
+export type BankStatementFormat = typeof BANK_STATEMENT_FORMATS[number];
+
+// QIF has no standard date order - US exports use month first
+export const QIF_DATE_FORMATS = ['MM/DD/YYYY', 'DD/MM/YYYY'] as const;
+
+export type QifDateFormat = typeof QIF_DATE_FORMATS[number];
+
+export const BANK_STATEMENT_STATUSES = ['pending', 'committed', 'discarded'] as const;
+
+export type BankStatementStatus = typeof BANK_STATEMENT_STATUSES[number];
+
+export const BANK_TRANSACTION_ACTIONS = ['import', 'skip'] as const;
+
+export type BankTransactionAction = typeof BANK_TRANSACTION_ACTIONS[number];
+
+// credits become income, debits expenses
+export const BANK_ENTRY_TYPES = ['income', 'expense'] as const;
+
+export type BankEntryType = typeof BANK_ENTRY_TYPES[number];
+
+// Payment.paymentMethod of payments created from statements - externalTxId holds the bank's transaction ID
+export const BANK_STATEMENT_PAYMENT_METHOD = 'bank_statement';
+
+export const MAX_STATEMENT_TRANSACTIONS = 5000;
+
+// ============================================================================
+// PARSED STATEMENT (format-neutral parser output)
+// ============================================================================
+
+export interface ParsedBankTransaction {
+  externalTxId: string;         // bank's ID (FITID, AcctSvcrRef...) or a stable hash when the format has none
+  bookedAt: Date;
+  amount: number;               // signed: credits positive, debits negative
+  currency: string | null;      // null = the statement currency
+  counterparty: string | null;
+  description: string | null;
+  reference: string | null;     // cheque number, end-to-end ID...
+}
+
+export interface ParsedStatement {
+  accountId: string | null;     // account number or IBAN
+  currency: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  transactions: ParsedBankTransaction[];
+}
+
+export interface StatementParseOptions {
+  qifDateFormat: QifDateFormat;
+}
+
+export type StatementParser = (content: string, options: StatementParseOptions) => ParsedStatement;
+
+// ============================================================================
+// UPLOAD
+// ============================================================================
+
+export interface UploadBankStatementRequest {
+  content: string;              // file contents as text
+  format?: BankStatementFormat; // detected from the content when omitted
+  fileName?: string;
+  currency?: string;            // for formats without one (QIF); defaults to the base currency
+  qifDateFormat?: QifDateFormat;
+}
+
+// ============================================================================
+// IMPORT & TRANSACTIONS
+// ============================================================================
+
+export interface BankStatementTransaction {
+  id: string;
+  importId: string;
+  externalTxId: string;
+  bookedAt: Date;
+  amount: number;
+  currency: string;
+  counterparty: string | null;
+  description: string | null;
+  reference: string | null;
+
+  // proposed entry (filled in by categorization rules) - editable until the import is committed
+  entryType: BankEntryType;
+  action: BankTransactionAction;
+  duplicate: boolean;           // already imported - never committed again
+  category: string | null;      // expenses
+  isDeductible: boolean;        // expenses
+  projectName: string | null;   // income
+  clientName: string | null;    // income - smart-matched to a client on commit
+  skill: string | null;         // income
+  tags: string[];
+
+  // entries created on commit
+  incomeLogId: string | null;
+  expenseLogId: string | null;
+}
+
+export interface BankStatementImport {
+  id: string;
+  userId: string;
+  format: BankStatementFormat;
+  fileName: string | null;
+  accountId: string | null;
+  currency: string;
+  status: BankStatementStatus;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  transactionCount: number;
+  duplicateCount: number;
+  createdAt: Date;
+  committedAt: Date | null;
+}
+
+export interface BankStatementImportDetail extends BankStatementImport {
+  transactions: BankStatementTransaction[];
+}
+
+export interface UploadBankStatementResponse {
+  statement: BankStatementImportDetail;
+  message: string;
+}
+
+export interface GetBankStatementsResponse {
+  statements: BankStatementImport[];
+}
+
+export interface UpdateBankTransactionRequest {
+  action?: BankTransactionAction;
+  description?: string | null;
+  category?: string;
+  isDeductible?: boolean;
+  projectName?: string | null;
+  clientName?: string | null;
+  skill?: string | null;
+  tags?: string[];
+}
+
+export interface UpdateBankTransactionResponse {
+  transaction: BankStatementTransaction;
+  message: string;
+}
+
+export interface CommitBankStatementResponse {
+  statement: BankStatementImport;
+  incomeCreated: number;
+  expensesCreated: number;
+  skipped: number;              // skipped by the user or found to be duplicates
+  message: string;
+}
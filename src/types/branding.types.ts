@@ -0,0 +1,68 @@
+/**
+ * Branding Types
+ * Defines data structures for the user's PDF branding (business details, logo, template)
+ */
+
+// ============================================================================
+// TEMPLATES & LIMITS
+// ============================================================================
+
+export const PDF_TEMPLATES = ['classic', 'modern', 'minimal'] as const;
+
+export type PdfTemplate = typeof PDF_TEMPLATES[number];
+
+// PDFKit can only embed these
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg'] as const;
+
+export type LogoMimeType = typeof LOGO_MIME_TYPES[number];
+
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+export const DEFAULT_ACCENT_COLOR = '#333333';
+
+// ============================================================================
+// BRANDING SETTINGS
+// ============================================================================
+
+export interface BrandingSettings {
+  businessName: string | null;
+  address: string | null;
+  taxId: string | null;
+  countryCode: string | null;   // ISO 3166-1 alpha-2, required for e-invoices
+  peppolId: string | null;      // "scheme:id" electronic address for e-invoices
+  logo: string | null;          // data URL (data:image/png;base64,...)
+  template: PdfTemplate;
+  accentColor: string;
+  footerText: string | null;
+}
+
+export interface UpdateBrandingRequest {
+  businessName?: string | null;
+  address?: string | null;
+  taxId?: string | null;
+  countryCode?: string | null;
+  peppolId?: string | null;
+  logo?: string | null;         // data URL; null removes the logo
+  template?: PdfTemplate;
+  accentColor?: string;
+  footerText?: string | null;
+}
+
+export interface BrandingResponse {
+  settings: BrandingSettings;
+  message: string;
+}
+
+// ============================================================================
+// PDF BRANDING (what the PDF renderer gets, defaults already applied)
+// ============================================================================
+
+export interface PdfBranding {
+  businessName: string | null;
+  address: string | null;
+  taxId: string | null;
+  logo: Buffer | null;
+  template: PdfTemplate;
+  accentColor: string;
+  footerText: string | null;
+}
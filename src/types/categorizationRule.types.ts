@@ -0,0 +1,137 @@
+/**
+ * Categorization Rule Types
+ * User-defined rules that fill in category, deductibility, skill, client and
+ * tags on logged and imported income / expenses
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RULE_TARGETS = ['expense', 'income'] as const;
+
+export type RuleTarget = typeof RULE_TARGETS[number];
+
+export const DEFAULT_RULE_PRIORITY = 100;
+
+export const MAX_CATEGORIZATION_RULES = 200;
+
+// description patterns run on every entry - kept short (see findPatternProblem)
+export const MAX_RULE_PATTERN_LENGTH = 100;
+
+// history scanned by a preview, newest first / matches returned
+export const RULE_PREVIEW_MAX_ENTRIES = 1000;
+export const RULE_PREVIEW_SAMPLE = 50;
+
+// ============================================================================
+// RULE
+// ============================================================================
+
+/**
+ * Every condition that is set must match. Text conditions are
+ * case-insensitive; amounts compare against the entry's amount
+ * (always positive) in its own currency
+ */
+export interface RuleConditions {
+    descriptionContains?: string | null;
+    descriptionPattern?: string | null;   // regular expression
+    counterpartyContains?: string | null;
+    minAmount?: number | null;
+    maxAmount?: number | null;
+}
+
+// category / isDeductible apply to expenses, skill / clientId to income, tags to both
+export interface RuleActions {
+    category?: string | null;
+    isDeductible?: boolean | null;
+    skill?: string | null;
+    clientId?: string | null;
+    tags?: string[];
+}
+
+export interface CategorizationRule {
+    id: string;
+    userId: string;
+    name: string;
+    appliesTo: RuleTarget;
+    priority: number;
+    enabled: boolean;
+    conditions: RuleConditions;
+    actions: RuleActions;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ============================================================================
+// REQUESTS & RESPONSES
+// ============================================================================
+
+export interface CreateCategorizationRuleRequest {
+    name: string;
+    appliesTo: RuleTarget;
+    priority?: number;              // default 100
+    enabled?: boolean;              // default true
+    conditions: RuleConditions;
+    actions: RuleActions;
+}
+
+// conditions / actions are merged into the stored ones; null clears a field
+export type UpdateCategorizationRuleRequest = Partial<CreateCategorizationRuleRequest>;
+
+export interface CategorizationRuleResponse {
+    rule: CategorizationRule;
+    message: string;
+}
+
+export interface GetCategorizationRulesResponse {
+    rules: CategorizationRule[];    // in the order they run
+}
+
+export interface PreviewCategorizationRuleRequest {
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface RulePreviewMatch {
+    entryId: string;
+    loggedAt: Date;
+    amount: number;
+    currency: string;
+    description: string | null;
+    counterparty: string | null;
+    current: CategorizationResult;
+    proposed: CategorizationResult;
+    changed: boolean;               // applying the rule would change the entry
+}
+
+export interface PreviewCategorizationRuleResponse {
+    scanned: number;                // entries checked (newest first, up to RULE_PREVIEW_MAX_ENTRIES)
+    matched: number;
+    changed: number;
+    matches: RulePreviewMatch[];    // first RULE_PREVIEW_SAMPLE matches
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+// the text and amount rules look at
+export interface CategorizationInput {
+    description: string | null;     // expense description; income project name + notes
+    counterparty: string | null;    // client name or bank counterparty
+    amount: number;
+}
+
+// values chosen by the matching rules - fields no rule sets are left out
+export interface CategorizationResult {
+    category?: string;
+    isDeductible?: boolean;
+    skill?: string;
+    clientId?: string;
+    clientName?: string;
+    tags: string[];
+}
+
+export interface CategorizationOutcome extends CategorizationResult {
+    ruleIds: string[];              // matching rules, in the order they ran
+}
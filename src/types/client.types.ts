@@ -4,16 +4,25 @@
  * 
  */
 
+import { PaymentTerms } from './invoice.types';
+import { LocalizationSettings } from './locale.types';
+import { ConvertedAmount } from './exchangeRate.types';
+import { FacturXProfile } from './einvoice.types';
+
 // ============================================================================
 // CREATE CLIENT
 // ============================================================================
-export interface CreateClientRequest {
+export interface CreateClientRequest extends PaymentTerms, LocalizationSettings {
     name: string;
     email?: string;
     phone?: string;
     company?: string;
     address?: string;
     notes?: string;
+    taxId?: string | null;
+    countryCode?: string | null;
+    peppolId?: string | null;
+    facturXProfile?: FacturXProfile | null;
 }
 export interface CreateClientResponse {
     client: ClientData;
@@ -32,6 +41,16 @@ export interface ClientData {
     company: string | null;
     address: string | null;
     notes: string | null;
+    netDays: number | null;
+    lateFeeAmount: number | null;
+    lateInterestRate: number | null;
+    graceDays: number | null;
+    currency: string | null;
+    locale: string | null;
+    taxId: string | null;
+    countryCode: string | null;     // ISO 3166-1 alpha-2
+    peppolId: string | null;        // "scheme:id" electronic address for e-invoices
+    facturXProfile: FacturXProfile | null;  // null = plain PDF invoices
     createdAt: Date;
     updatedAt: Date;
 }
@@ -53,9 +72,9 @@ export interface GetClientsResponse {
 // GET SINGLE CLIENT WITH STATS
 // ============================================================================
 export interface ClientWithStats extends ClientData {
-    totalIncome: number;
+    totalIncome: ConvertedAmount;
     totalProjects: number;
-    averageProjectValue: number;
+    averageProjectValue: number;    // in the base currency
     lastPaymentDate: Date | null;
 }
 export interface GetClientStatsResponse {
@@ -65,13 +84,17 @@ export interface GetClientStatsResponse {
 // ============================================================================
 // UPDATE CLIENT
 // ============================================================================
-export interface UpdateClientRequest {
+export interface UpdateClientRequest extends PaymentTerms, LocalizationSettings {
     name? : string;
     email? : string;
     phone? : string;
     company? : string;
     address? : string;
     notes? : string;
+    taxId? : string | null;
+    countryCode? : string | null;
+    peppolId? : string | null;
+    facturXProfile? : FacturXProfile | null;
 }
 export interface UpdateClientResponse {
     client: ClientData;
@@ -0,0 +1,85 @@
+/**
+ * Credit Note Types
+ * Defines data structures for credit notes issued against invoices
+ */
+
+import { Invoice, InvoiceLineItem } from './invoice.types';
+
+// ============================================================================
+// CREATE CREDIT NOTE
+// ============================================================================
+
+export interface CreateCreditNoteRequest {
+  amount?: number;              // defaults to the full remaining invoice amount
+  reason: string;
+  items?: InvoiceLineItem[];
+  issueDate?: string | Date;
+}
+
+export interface CreateCreditNoteResponse {
+  creditNote: CreditNote;
+  invoice: Invoice;
+  income: {
+    id: string;
+    amount: number;             // negative - offsets income already received
+    loggedAt: Date;
+  } | null;
+  message: string;
+}
+
+// ============================================================================
+// CREDIT NOTE DATA
+// ============================================================================
+
+export interface CreditNote {
+  id: string;
+  userId: string;
+  invoiceId: string;
+  clientId: string;
+  creditNoteNumber: string;
+  amount: number;
+  reason: string;
+  items: InvoiceLineItem[] | null;
+  issueDate: Date;
+  incomeLogId: string | null;
+  createdAt: Date;
+}
+
+export interface CreditNoteWithDetails extends CreditNote {
+  invoice: {
+    id: string;
+    invoiceNumber: string;
+    amount: number;
+    currency: string;
+    locale: string;
+  };
+  client: {
+    id: string;
+    name: string;
+    email: string | null;
+    company: string | null;
+  };
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+  };
+}
+
+// ============================================================================
+// GET CREDIT NOTES
+// ============================================================================
+
+export interface GetCreditNotesQuery {
+  invoiceId?: string;
+  clientId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface GetCreditNotesResponse {
+  creditNotes: CreditNote[];
+  total: number;
+  totalAmount: number;
+}
@@ -0,0 +1,149 @@
+/**
+ * CSV Import Types
+ * Spreadsheet imports of income and expense history with caller-defined column mapping
+ */
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export const CSV_IMPORT_DELIMITERS = [',', ';', '\t'] as const;
+
+export type CsvImportDelimiter = typeof CSV_IMPORT_DELIMITERS[number];
+
+// "ISO" accepts full ISO 8601 timestamps as well as plain YYYY-MM-DD dates
+export const CSV_IMPORT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'ISO'] as const;
+
+export type CsvImportDateFormat = typeof CSV_IMPORT_DATE_FORMATS[number];
+
+export const CSV_IMPORT_DECIMAL_SEPARATORS = ['.', ','] as const;
+
+export type CsvImportDecimalSeparator = typeof CSV_IMPORT_DECIMAL_SEPARATORS[number];
+
+/**
+ * positive = amounts are written as positive numbers (anything else is an error),
+ * negative = amounts are written as negatives, as in bank exports (the sign is flipped),
+ * absolute = the sign is ignored
+ */
+export const CSV_IMPORT_AMOUNT_SIGNS = ['positive', 'negative', 'absolute'] as const;
+
+export type CsvImportAmountSign = typeof CSV_IMPORT_AMOUNT_SIGNS[number];
+
+export const MAX_CSV_IMPORT_ROWS = 5000;
+
+// rows returned in a dry run / errors returned per request
+export const CSV_IMPORT_PREVIEW_ROWS = 20;
+export const CSV_IMPORT_MAX_ERRORS = 100;
+
+// ============================================================================
+// MAPPABLE FIELDS
+// ============================================================================
+
+export const INCOME_IMPORT_FIELDS = [
+  'amount',
+  'currency',
+  'projectName',
+  'clientName',
+  'clientId',
+  'skill',
+  'hours',
+  'ratePerHour',
+  'notes',
+  'loggedAt',
+] as const;
+
+export type IncomeImportField = typeof INCOME_IMPORT_FIELDS[number];
+
+export const EXPENSE_IMPORT_FIELDS = [
+  'amount',
+  'currency',
+  'category',
+  'description',
+  'isDeductible',
+  'receiptUrl',
+  'loggedAt',
+] as const;
+
+export type ExpenseImportField = typeof EXPENSE_IMPORT_FIELDS[number];
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+export interface CsvImportOptions {
+  csv: string;
+  delimiter?: CsvImportDelimiter;               // default ","
+  dateFormat?: CsvImportDateFormat;             // default "YYYY-MM-DD"
+  decimalSeparator?: CsvImportDecimalSeparator; // default "." (the other one is treated as a thousands separator)
+  amountSign?: CsvImportAmountSign;             // default "positive"
+  dryRun?: boolean;                             // default true - nothing is saved until dryRun is false
+}
+
+/**
+ * mapping: field → CSV header (matched case-insensitively). Fields a row
+ * leaves empty are filled by categorization rules, then by the defaults
+ */
+export interface ImportIncomeCsvRequest extends CsvImportOptions {
+  mapping: Partial<Record<IncomeImportField, string>>;
+  defaults?: {
+    currency?: string;          // otherwise the user's base currency
+  };
+}
+
+export interface ImportExpenseCsvRequest extends CsvImportOptions {
+  mapping: Partial<Record<ExpenseImportField, string>>;
+  defaults?: {
+    currency?: string;
+    category?: string;          // otherwise "uncategorized"
+    description?: string;
+    isDeductible?: boolean;
+  };
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface CsvImportRowError {
+  line: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportedIncomeRow {
+  line: number;
+  amount: number;
+  currency: string;
+  projectName: string | null;
+  clientName: string | null;
+  clientId: string | null;      // after smart client matching
+  skill: string | null;
+  hours: number | null;
+  ratePerHour: number | null;
+  notes: string | null;
+  tags: string[];               // from categorization rules
+  loggedAt: Date;
+}
+
+export interface ImportedExpenseRow {
+  line: number;
+  amount: number;
+  currency: string;
+  category: string;
+  description: string;
+  isDeductible: boolean;
+  receiptUrl: string | null;
+  tags: string[];               // from categorization rules
+  loggedAt: Date;
+}
+
+export interface CsvImportResponse<T> {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  errorCount: number;
+  errors: CsvImportRowError[];  // first CSV_IMPORT_MAX_ERRORS
+  preview: T[];                 // first CSV_IMPORT_PREVIEW_ROWS valid rows
+  imported: number;             // 0 for a dry run
+  message: string;
+}
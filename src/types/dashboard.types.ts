@@ -1,37 +1,40 @@
 /**
  * Dashboard Types
  * Financial overview data structures
+ * Every amount is converted to the user's base currency, with the original amounts alongside
  */
 
+import { ConvertedAmount } from './exchangeRate.types';
+
 // ============================================================================
 // DASHBOARD INTERFACES
 // ============================================================================
 
 export interface DashboardBalance {
-    totalBalance: number;           // Income - Expenses
-    totalIncome: number;            // All-time income
-    totalExpenses: number;          // All-time expenses
-    availableBalance: number;       // Balance - goals allocated
-    goalsAllocated: number;         // Total in all goals
-    currency: string;
+    totalBalance: ConvertedAmount;      // Income - Expenses
+    totalIncome: ConvertedAmount;       // All-time income
+    totalExpenses: ConvertedAmount;     // All-time expenses
+    availableBalance: ConvertedAmount;  // Balance - goals allocated
+    goalsAllocated: ConvertedAmount;    // Total in all goals (at today's rate)
+    currency: string;                   // the user's base currency
 }
 
 export interface QuickStats {
     thisMonth: {
-        income: number;
-        expenses: number;
-        profit: number;
+        income: ConvertedAmount;
+        expenses: ConvertedAmount;
+        profit: ConvertedAmount;
         incomeChange: number;       // % change from last month
         expenseChange: number;      // % change from last month
     };
     topSkill: {
         skill: string | null;
-        amount: number;
+        amount: ConvertedAmount;
         count: number;
     };
     topExpenseCategory: {
         category: string | null;
-        amount: number;
+        amount: ConvertedAmount;
         count: number;
     };
     recentActivity: {
@@ -43,8 +46,8 @@ export interface QuickStats {
 export interface MonthlyDataPoint {
     month: string;
     year: number;
-    income: number;
-    expenses: number;
+    income: ConvertedAmount;
+    expenses: ConvertedAmount;
 }
 
 export interface DashboardSummary {
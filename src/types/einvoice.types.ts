@@ -0,0 +1,137 @@
+/**
+ * E-Invoice Types
+ * Format-neutral model of an invoice / credit note for structured e-invoicing (EN 16931)
+ */
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+export const EINVOICE_FORMATS = ['ubl', 'cii'] as const;
+
+export type EInvoiceFormat = typeof EINVOICE_FORMATS[number];
+
+// Factur-X / ZUGFeRD profiles - the CII XML embedded in a PDF/A-3 invoice
+export const FACTURX_PROFILES = ['basic', 'en16931'] as const;
+
+export type FacturXProfile = typeof FACTURX_PROFILES[number];
+
+export const EINVOICE_DOCUMENT_TYPES = ['invoice', 'creditNote'] as const;
+
+export type EInvoiceDocumentType = typeof EINVOICE_DOCUMENT_TYPES[number];
+
+// ============================================================================
+// TAX CATEGORIES (UNCL 5305 subset)
+// ============================================================================
+
+/**
+ * S = standard rate, Z = zero rated (untaxed lines on a taxed invoice),
+ * O = not subject to VAT (invoice without any taxes)
+ */
+export const EINVOICE_TAX_CATEGORIES = ['S', 'Z', 'O'] as const;
+
+export type EInvoiceTaxCategoryCode = typeof EINVOICE_TAX_CATEGORIES[number];
+
+export interface EInvoiceTaxCategory {
+  code: EInvoiceTaxCategoryCode;
+  percent: number;              // 0 for Z and O
+  exemptionReason?: string;     // required for O
+}
+
+// ============================================================================
+// PARTIES
+// ============================================================================
+
+export interface EInvoiceAddress {
+  lines: string[];              // free-form address lines as entered
+  countryCode: string;          // ISO 3166-1 alpha-2
+}
+
+export interface EInvoiceEndpoint {
+  scheme: string;               // ISO 6523 ICD code, or "EM" for an email address
+  id: string;
+}
+
+export interface EInvoiceParty {
+  name: string;
+  endpoint: EInvoiceEndpoint;
+  address: EInvoiceAddress;
+  taxId: string | null;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+// ============================================================================
+// LINES, ALLOWANCES & CHARGES, TAX SUBTOTALS
+// ============================================================================
+
+export interface EInvoiceLine {
+  id: string;                   // 1, 2, 3...
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  netAmount: number;            // quantity * unitPrice
+  taxCategory: EInvoiceTaxCategory;
+}
+
+// document-level discount (allowance) or extra cost (charge) such as shipping
+export interface EInvoiceAllowanceCharge {
+  isCharge: boolean;
+  reason: string;
+  amount: number;
+  taxCategory: EInvoiceTaxCategory;
+}
+
+export interface EInvoiceTaxSubtotal {
+  taxableAmount: number;
+  taxAmount: number;
+  taxCategory: EInvoiceTaxCategory;
+}
+
+export interface EInvoiceTotals {
+  lineExtensionAmount: number;  // sum of line net amounts
+  allowanceTotal: number;
+  chargeTotal: number;
+  taxExclusiveAmount: number;   // lines - allowances + charges
+  taxAmount: number;
+  taxInclusiveAmount: number;
+  prepaidAmount: number;
+  roundingAmount: number;       // keeps payable equal to the stored amount
+  payableAmount: number;
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export interface EInvoiceDocument {
+  type: EInvoiceDocumentType;
+  number: string;
+  issueDate: Date;
+  dueDate: Date | null;         // invoices only
+  currency: string;
+  note: string | null;
+  buyerReference: string;
+  paymentTerms: string | null;
+  billingReference: {           // credit notes: the invoice being credited
+    number: string;
+    issueDate: Date;
+  } | null;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  lines: EInvoiceLine[];
+  allowanceCharges: EInvoiceAllowanceCharge[];
+  taxSubtotals: EInvoiceTaxSubtotal[];
+  totals: EInvoiceTotals;
+}
+
+// ============================================================================
+// EXPORT RESULT
+// ============================================================================
+
+export interface EInvoiceExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
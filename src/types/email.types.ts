@@ -0,0 +1,54 @@
+/**
+ * Email Types
+ * Defines the transport-agnostic email message and transport contract
+ */
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+export const EMAIL_TRANSPORTS = ['smtp', 'brevo', 'file'] as const;
+
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+
+// ============================================================================
+// MESSAGE
+// ============================================================================
+
+export interface EmailAddress {
+  email: string;
+  name?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc?: EmailAddress[];
+  replyTo?: EmailAddress;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId: string | null;   // provider id, if the transport returns one
+}
+
+// ============================================================================
+// TRANSPORT CONTRACT
+// ============================================================================
+
+/**
+ * Anything that can deliver an EmailMessage - SMTP, Brevo, local outbox...
+ * Implementations throw on failure so callers can record the attempt.
+ */
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
@@ -0,0 +1,129 @@
+/**
+ * Exchange Rate Types
+ * Defines stored exchange rates, rate providers and amounts converted to the user's base currency
+ */
+
+// ============================================================================
+// SOURCES & PROVIDERS
+// ============================================================================
+
+export const EXCHANGE_RATE_SOURCES = ['csv', 'provider'] as const;
+
+export type ExchangeRateSource = typeof EXCHANGE_RATE_SOURCES[number];
+
+// "none" turns the scheduled sync off - rates then only come from CSV imports
+export const EXCHANGE_RATE_PROVIDERS = ['none', 'file'] as const;
+
+export type ExchangeRateProviderName = typeof EXCHANGE_RATE_PROVIDERS[number];
+
+// Columns an exchange rate CSV must have (any order, extra columns ignored)
+export const EXCHANGE_RATE_CSV_COLUMNS = ['date', 'base', 'quote', 'rate'] as const;
+
+export const MAX_EXCHANGE_RATE_ROWS = 10000;
+
+// ============================================================================
+// EXCHANGE RATE
+// ============================================================================
+
+// 1 unit of baseCurrency is worth `rate` units of quoteCurrency on `date`
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  date: Date;
+}
+
+export interface ExchangeRate {
+  id: string;
+  userId: string | null;        // null = shared rate loaded from the provider
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  date: Date;
+  source: ExchangeRateSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// IMPORT / SYNC
+// ============================================================================
+
+export interface ImportExchangeRatesRequest {
+  csv: string;
+}
+
+export interface ExchangeRateCsvError {
+  line: number;
+  message: string;
+}
+
+export interface ImportExchangeRatesResponse {
+  imported: number;
+  from: Date;                   // earliest rate date in the file
+  to: Date;                     // latest rate date in the file
+  message: string;
+}
+
+export interface SyncExchangeRatesResponse {
+  provider: ExchangeRateProviderName;
+  imported: number;
+  message: string;
+}
+
+// ============================================================================
+// GET EXCHANGE RATES
+// ============================================================================
+
+export interface GetExchangeRatesQuery {
+  base?: string;
+  quote?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface GetExchangeRatesResponse {
+  rates: ExchangeRate[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// ============================================================================
+// PROVIDER CONTRACT
+// ============================================================================
+
+/**
+ * Anything that can supply exchange rates - a local file, a bank feed...
+ * Implementations throw on failure so the sync job can log it.
+ */
+export interface ExchangeRateProvider {
+  name: ExchangeRateProviderName;
+  fetchRates(): Promise<ExchangeRateInput[]>;
+}
+
+// ============================================================================
+// CONVERTED AMOUNTS
+// ============================================================================
+
+export interface CurrencyAmount {
+  currency: string;
+  amount: number;
+}
+
+// A figure in the base currency together with what it was made of
+export interface ConvertedAmount {
+  amount: number;               // in `currency` (the user's base currency)
+  currency: string;
+  original: CurrencyAmount[];   // the same figure per original currency, before conversion
+  unconverted: CurrencyAmount[]; // left out of `amount` - no rate on or before the entry's date
+}
+
+// A single dated amount to convert (rates are picked by `date`)
+export interface MoneyEntry {
+  amount: number;
+  currency: string;
+  date: Date;
+}
@@ -3,18 +3,27 @@
  * Defines data structures for expense tracking
  */
 
+import { Readable } from 'stream';
 import { Decimal } from "@prisma/client/runtime/library";
+import { ConvertedAmount } from './exchangeRate.types';
+import { EntryRevision } from './revision.types';
 
 // ============================================================================
 // LOG EXPENSE
 // ============================================================================
 
+// category for expenses no one (and no categorization rule) has categorized yet
+export const UNCATEGORIZED_EXPENSE = 'uncategorized';
+
+// category / isDeductible left out are filled in by categorization rules
 export interface LogExpenseRequest {
     amount: Decimal;
-    category: string;
+    currency?: string;          // ISO 4217, defaults to the user's base currency
+    category?: string;          // otherwise a rule's, or "uncategorized"
     description: string;
-    isDeductible?: boolean;
+    isDeductible?: boolean;     // otherwise a rule's, or true
     receiptUrl?: string;
+    tags?: string[];            // combined with tags added by rules
     loggedAt?: Date | string;
 }
 
@@ -23,6 +32,29 @@ export interface LogExpenseResponse {
     message: string;
 }
 
+// ============================================================================
+// UPDATE EXPENSE
+// ============================================================================
+
+// only the fields sent are changed; null clears the receipt
+export interface UpdateExpenseRequest {
+    amount?: Decimal;
+    currency?: string;
+    category?: string;
+    description?: string;
+    isDeductible?: boolean;
+    receiptUrl?: string | null;
+    tags?: string[];            // replaces the entry's tags
+    loggedAt?: Date | string;
+    reason?: string;            // kept on the revision
+}
+
+export interface UpdateExpenseResponse {
+    expense: ExpenseLog;
+    revision: EntryRevision | null;   // null when nothing changed
+    message: string;
+}
+
 // ============================================================================
 // EXPENSE LOG
 // ============================================================================
@@ -31,14 +63,68 @@ export interface ExpenseLog {
     id: string;
     userId: string;
     amount: Decimal;
+    currency: string;
     category: string;
     description: string;
     isDeductible: boolean;
     receiptUrl: string | null;
+    tags: string[];
+    receiptKey: string | null;
+    receiptFileName: string | null;
+    receiptContentType: string | null;
+    receiptSize: number | null;
+    receiptUploadedAt: Date | null;
     loggedAt: Date;
     createdAt: Date;
 }
 
+// ============================================================================
+// RECEIPTS
+// ============================================================================
+
+// file types accepted for an uploaded receipt (checked against the file's own bytes too)
+export const RECEIPT_CONTENT_TYPES = [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic',
+    'application/pdf',
+] as const;
+
+export type ReceiptContentType = typeof RECEIPT_CONTENT_TYPES[number];
+
+export interface UploadReceiptRequest {
+    contentType: string;        // Content-Type of the upload
+    fileName?: string;          // original name, shown on download
+    content: Buffer;
+}
+
+export interface ReceiptInfo {
+    fileName: string;
+    contentType: string;
+    size: number;
+    uploadedAt: Date;
+}
+
+export interface UploadReceiptResponse {
+    expense: ExpenseLog;
+    receipt: ReceiptInfo;
+    message: string;
+}
+
+export interface ReceiptDownload {
+    fileName: string;
+    contentType: string;
+    size: number;
+    body: Readable;
+}
+
+export interface ReceiptUrlResponse {
+    url: string;
+    expiresAt: Date;
+    message: string;
+}
+
 // ============================================================================
 // GET EXPENSE HISTORY
 // ============================================================================
@@ -55,8 +141,8 @@ export interface GetExpenseQuery {
 export interface GetExpenseResponse {
     expenses: ExpenseLog[];
     total: number;
-    totalAmount: number;
-    deductibleAmount: number;
+    totalAmount: ConvertedAmount;
+    deductibleAmount: ConvertedAmount;
     page: number;
     limit: number;
 }
@@ -72,13 +158,13 @@ export interface ExpenseSummaryQuery {
 
 export interface ExpenseSummary {
     period: string;
-    totalExpenses: number;
+    totalExpenses: ConvertedAmount;
     totalEntries: number;
-    deductibleAmount: number;
-    nonDeductibleAmount: number;
+    deductibleAmount: ConvertedAmount;
+    nonDeductibleAmount: ConvertedAmount;
     byCategory: Array<{
         category: string;
-        amount: number;
+        amount: ConvertedAmount;
         count: number;
     }>;
 }
\ No newline at end of file
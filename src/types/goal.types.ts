@@ -30,6 +30,7 @@ export interface CreateGoalRequest {
     category: GoalCategory;
     targetAmount: Decimal;
     currentAmount?: Decimal;
+    currency?: string;          // ISO 4217, defaults to the user's base currency
     deadline?: string;
     description?: string;
 }
@@ -39,6 +40,7 @@ export interface UpdateGoalRequest {
     category?: GoalCategory;
     targetAmount?: Decimal;
     currentAmount?: Decimal;
+    currency?: string;
     deadline?: string;
     description?: string;
 }
@@ -55,6 +57,7 @@ export interface Goal {
     category: GoalCategory;
     targetAmount: Decimal;
     currentAmount: Decimal;
+    currency: string;
     deadline: Date | null;
     description: string | null;
     progress: number; // calculated percentage (0-100)
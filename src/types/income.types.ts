@@ -4,12 +4,17 @@
  */
 
 import { Decimal } from "@prisma/client/runtime/library";
+import { ConvertedAmount } from './exchangeRate.types';
+import { EntryRevision } from './revision.types';
 
 // ============================================================================
 // LOG INCOME
 // ============================================================================
+
+// skill and client left out are filled in by categorization rules
 export interface LogIncomeRequest {
     amount: Decimal;
+    currency?: string;          // ISO 4217, defaults to the user's base currency
     projectName?: string;
     clientName?: string;
     clientId?: string;
@@ -18,6 +23,7 @@ export interface LogIncomeRequest {
     ratePerHour?: Decimal;
     source?: 'manual' | 'voice';
     notes?: string;
+    tags?: string[];            // combined with tags added by rules
     loggedAt?: Date | string;
 }
 
@@ -26,6 +32,35 @@ export interface LogIncomeResponse {
     message: string;
 }
 
+// ============================================================================
+// UPDATE INCOME
+// ============================================================================
+
+/**
+ * Only the fields sent are changed; null clears an optional field.
+ * Changing clientId or clientName re-links the entry like logging does.
+ */
+export interface UpdateIncomeRequest {
+    amount?: Decimal;
+    currency?: string;
+    projectName?: string | null;
+    clientName?: string | null;
+    clientId?: string | null;
+    skill?: string | null;
+    hours?: Decimal | null;
+    ratePerHour?: Decimal | null;
+    notes?: string | null;
+    tags?: string[];            // replaces the entry's tags
+    loggedAt?: Date | string;
+    reason?: string;            // kept on the revision
+}
+
+export interface UpdateIncomeResponse {
+    income: IncomeLog;
+    revision: EntryRevision | null;   // null when nothing changed
+    message: string;
+}
+
 // ============================================================================
 // INCOME LOG
 // ============================================================================
@@ -34,6 +69,7 @@ export interface IncomeLog {
     id: string;
     userId: string;
     amount: Decimal;
+    currency: string;
     projectName: string | null;
     clientName: string | null;
     clientId: string | null;
@@ -42,6 +78,8 @@ export interface IncomeLog {
     ratePerHour: Decimal | null;
     source: string;
     notes: string | null;
+    tags: string[];
+    billedInvoiceId: string | null;    // invoice this work was billed on
     loggedAt: Date;
     createdAt: Date;
 }
@@ -63,7 +101,7 @@ export interface GetIncomeQuery {
 export interface GetIncomeResponse {
     income: IncomeLog[];
     total: number;
-    totalAmount: number;
+    totalAmount: ConvertedAmount;   // this page, in the base currency
     page: number;
     limit: number;
 }
@@ -79,19 +117,19 @@ export interface IncomeSummaryQuery {
 
 export interface IncomeSummary {
     period: string;
-    totalIncome: number;
+    totalIncome: ConvertedAmount;
     totalEntries: number;
     totalHours: number;
-    averageRate: number;
+    averageRate: number;        // base currency per hour
     topSkills: Array<{
         skill: string;
-        amount: number;
+        amount: ConvertedAmount;
         count: number;
     }>;
     topClients: Array<{
         clientName: string;
         clientId: string | null;
-        amount: number;
+        amount: ConvertedAmount;
         count: number;
     }>;
 }
\ No newline at end of file
@@ -3,11 +3,59 @@
  * Defines data structures for invoice tracking
  */
 
+import { LocalizationSettings } from './locale.types';
+import { FacturXProfile } from './einvoice.types';
+
 // ============================================================================
 // INVOICE STATUSES
 // ============================================================================
 
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+export const INVOICE_STATUSES = [
+  'draft',
+  'sent',
+  'viewed',
+  'partially_paid',
+  'paid',
+  'overdue',
+  'cancelled',
+  'void',
+] as const;
+
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+// ============================================================================
+// INVOICE LIFECYCLE (Allowed status transitions)
+// ============================================================================
+
+/**
+ * draft → sent → viewed → partially_paid → paid
+ * Any open invoice can become overdue, cancelled (before payment) or void.
+ * A paid invoice can only be voided by a full credit note; cancelled and void are terminal.
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['viewed', 'partially_paid', 'paid', 'overdue', 'cancelled', 'void'],
+  viewed: ['partially_paid', 'paid', 'overdue', 'cancelled', 'void'],
+  partially_paid: ['paid', 'overdue', 'void'],
+  overdue: ['partially_paid', 'paid', 'cancelled', 'void'],
+  paid: ['void'],
+  cancelled: [],
+  void: [],
+};
+
+// Statuses where invoice details (amount, items, dates...) can still be edited
+export const EDITABLE_INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'viewed', 'overdue'];
+
+// Statuses that can receive payments
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = ['sent', 'viewed', 'partially_paid', 'overdue'];
+
+// Statuses that can be emailed to the client (draft moves to sent on success)
+export const SENDABLE_INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'viewed', 'partially_paid', 'overdue'];
+
+// Statuses that can have credit notes issued against them
+export const CREDITABLE_INVOICE_STATUSES: InvoiceStatus[] = ['sent', 'viewed', 'partially_paid', 'paid', 'overdue'];
+
+export type InvoiceActorType = 'user' | 'system' | 'client';
 
 // ============================================================================
 // LINE ITEM
@@ -18,18 +66,96 @@ export interface InvoiceLineItem {
   quantity: number;
   rate: number;
   amount: number;  // quantity * rate
+  taxes?: InvoiceTaxRate[];  // overrides the invoice-level taxes for this line
+}
+
+// ============================================================================
+// TAXES, DISCOUNT & SHIPPING
+// ============================================================================
+
+export interface InvoiceTaxRate {
+  name: string;   // e.g. "VAT", "GST"
+  rate: number;   // percentage, e.g. 20 for 20%
+}
+
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+export interface InvoiceDiscount {
+  type: DiscountType;
+  value: number;  // percentage (0-100) or fixed amount
+}
+
+export interface InvoiceTaxLine {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+/**
+ * Server-computed breakdown: total = subtotal - discountAmount + taxAmount + shipping
+ */
+export interface InvoiceTotals {
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  taxBreakdown: InvoiceTaxLine[];
+  shipping: number;
+  total: number;
+}
+
+// ============================================================================
+// PAYMENT TERMS & LATE CHARGES
+// ============================================================================
+
+/**
+ * Structured payment terms - set on a client as defaults, copied onto each invoice.
+ * Once an overdue invoice passes its grace period the flat fee is charged once,
+ * then interest accrues every 30 days on the unpaid amount.
+ */
+export interface PaymentTerms {
+  netDays?: number | null;            // due date = issue date + netDays
+  lateFeeAmount?: number | null;      // flat fee
+  lateInterestRate?: number | null;   // % per month (simple, not compounded)
+  graceDays?: number | null;          // days after the due date before charges start
+}
+
+export const INVOICE_ADJUSTMENT_TYPES = ['late_fee', 'interest'] as const;
+
+export type InvoiceAdjustmentType = typeof INVOICE_ADJUSTMENT_TYPES[number];
+
+export interface InvoiceAdjustment {
+  id: string;
+  invoiceId: string;
+  type: InvoiceAdjustmentType;
+  period: number;           // interest month (1, 2, ...); 0 for the flat fee
+  description: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface GetInvoiceAdjustmentsResponse {
+  invoiceId: string;
+  lateCharges: number;
+  adjustments: InvoiceAdjustment[];
 }
 
 // ============================================================================
 // CREATE INVOICE
 // ============================================================================
 
-export interface CreateInvoiceRequest {
+export interface CreateInvoiceRequest extends PaymentTerms, LocalizationSettings {
   clientId: string;
-  amount: number;
+  amount?: number;                // subtotal without line items; with items it must match the computed total
   description: string;
   items?: InvoiceLineItem[];
-  dueDate: string | Date;
+  discount?: InvoiceDiscount;
+  taxes?: InvoiceTaxRate[];       // invoice-level taxes, applied to lines without their own
+  shipping?: number;
+  recalculate?: boolean;          // recompute mismatched amounts instead of rejecting them
+  dueDate?: string | Date;        // defaults to issue date + netDays (from the invoice or client)
   notes?: string;
   terms?: string;
 }
@@ -39,6 +165,45 @@ export interface CreateInvoiceResponse {
   message: string;
 }
 
+// ============================================================================
+// DUPLICATE INVOICE
+// ============================================================================
+
+export interface DuplicateInvoiceRequest {
+  dueDate?: string | Date;        // defaults to today + netDays, or the source's issue → due gap
+}
+
+// ============================================================================
+// INVOICE FROM UNBILLED INCOME
+// ============================================================================
+
+// income logged by hand, by voice or from a CSV import is billable work; 'invoice' / 'credit_note' / 'bank_statement' entries are payments
+export const BILLABLE_INCOME_SOURCES = ['manual', 'voice', 'import'] as const;
+
+// billed work reaches the totals through the invoice's payments, so totals leave it out to avoid counting it twice
+export const COUNTED_INCOME_WHERE = { billedInvoiceId: null };
+
+/**
+ * Bills either the selected income entries, or all of a client's unbilled
+ * entries logged in the date range
+ */
+export interface CreateInvoiceFromIncomeRequest {
+  incomeIds?: string[];
+  clientId?: string;              // required without incomeIds; with them, entries must belong to it
+  startDate?: string;
+  endDate?: string;
+  description?: string;           // defaults to the project name or the period billed
+  taxes?: InvoiceTaxRate[];
+  dueDate?: string | Date;
+  notes?: string;
+}
+
+export interface CreateInvoiceFromIncomeResponse {
+  invoice: Invoice;
+  billedIncomeIds: string[];
+  message: string;
+}
+
 // ============================================================================
 // INVOICE DATA
 // ============================================================================
@@ -48,16 +213,34 @@ export interface Invoice {
   userId: string;
   clientId: string;
   invoiceNumber: string;
-  amount: number;
+  amount: number;         // total
+  subtotal: number;
+  discountType: DiscountType | null;
+  discountValue: number | null;
+  discountAmount: number;
+  taxes: InvoiceTaxRate[] | null;
+  taxAmount: number;
+  taxBreakdown: InvoiceTaxLine[] | null;
+  shipping: number;
   description: string;
   items: InvoiceLineItem[] | null;
   status: InvoiceStatus;
   issueDate: Date;
   dueDate: Date;
   paidDate: Date | null;
+  amountPaid: number;
+  amountCredited: number;   // sum of credit notes
+  balanceDue: number;   // amount + lateCharges - amountCredited - amountPaid
   incomeLogId: string | null;
   notes: string | null;
   terms: string;
+  netDays: number | null;
+  lateFeeAmount: number | null;
+  lateInterestRate: number | null;
+  graceDays: number | null;
+  lateCharges: number;      // late fees + interest, owed on top of amount
+  currency: string;
+  locale: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -76,6 +259,9 @@ export interface InvoiceWithClient extends Invoice {
 }
 
 export interface InvoiceWithDetails extends InvoiceWithClient {
+  client: InvoiceWithClient['client'] & {
+    facturXProfile: FacturXProfile | null;    // embed Factur-X XML in this client's invoice PDFs
+  };
   user: {
     id: string;
     name: string;
@@ -108,6 +294,8 @@ export interface GetInvoicesResponse {
   summary: {
     totalDraft: number;
     totalSent: number;
+    totalViewed: number;
+    totalPartiallyPaid: number;
     totalPaid: number;
     totalOverdue: number;
     amountPending: number;
@@ -120,14 +308,17 @@ export interface GetInvoicesResponse {
 // UPDATE INVOICE
 // ============================================================================
 
-export interface UpdateInvoiceRequest {
+export interface UpdateInvoiceRequest extends PaymentTerms, LocalizationSettings {
   amount?: number;
   description?: string;
   items?: InvoiceLineItem[];
+  discount?: InvoiceDiscount | null;
+  taxes?: InvoiceTaxRate[];
+  shipping?: number;
+  recalculate?: boolean;
   dueDate?: string | Date;
   notes?: string;
   terms?: string;
-  status?: InvoiceStatus;
 }
 
 export interface UpdateInvoiceResponse {
@@ -154,6 +345,82 @@ export interface MarkInvoiceAsPaidResponse {
   message: string;
 }
 
+// ============================================================================
+// INVOICE PAYMENTS (PARTIAL / INSTALLMENTS)
+// ============================================================================
+
+export interface RecordInvoicePaymentRequest {
+  amount: number;
+  paymentDate?: string | Date;
+  paymentMethod?: string;   // bank_transfer, paypal, mpesa...
+  reference?: string;       // external transaction id
+  notes?: string;
+}
+
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string | null;
+  incomeLogId: string | null;
+  amount: number;
+  paymentMethod: string | null;
+  externalTxId: string | null;
+  memo: string | null;
+  status: string;
+  paymentDate: Date;
+  createdAt: Date;
+}
+
+export interface RecordInvoicePaymentResponse {
+  invoice: Invoice;
+  payment: InvoicePayment;
+  income: {
+    id: string;
+    amount: number;
+    loggedAt: Date;
+  };
+  message: string;
+}
+
+export interface GetInvoicePaymentsResponse {
+  invoiceId: string;
+  amount: number;
+  amountPaid: number;
+  amountCredited: number;
+  lateCharges: number;
+  balanceDue: number;
+  payments: InvoicePayment[];
+}
+
+// ============================================================================
+// STATUS TRANSITIONS & HISTORY
+// ============================================================================
+
+export interface InvoiceTransitionRequest {
+  reason?: string;
+}
+
+export interface InvoiceTransitionResponse {
+  invoice: Invoice;
+  message: string;
+}
+
+export interface InvoiceStatusHistoryEntry {
+  id: string;
+  invoiceId: string;
+  fromStatus: InvoiceStatus | null;
+  toStatus: InvoiceStatus;
+  reason: string | null;
+  actorType: InvoiceActorType;
+  actorId: string | null;
+  createdAt: Date;
+}
+
+export interface InvoiceStatusHistoryResponse {
+  invoiceId: string;
+  currentStatus: InvoiceStatus;
+  history: InvoiceStatusHistoryEntry[];
+}
+
 // ============================================================================
 // EMAIL TEMPLATE
 // ============================================================================
@@ -164,15 +431,207 @@ export interface InvoiceEmailTemplate {
   subject: string;
   body: string;
   pdfFilename: string;
-  pdfUrl: string;  
-  instructions: {  
-    step1: string;
-    step2: string;
-    step3: string;
-    step4: string;
+  pdfUrl: string;
+}
+
+// ============================================================================
+// EMAIL DELIVERY
+// ============================================================================
+
+export const INVOICE_DELIVERY_STATUSES = ['sent', 'failed'] as const;
+
+export type InvoiceDeliveryStatus = typeof INVOICE_DELIVERY_STATUSES[number];
+
+export type InvoiceDeliveryType = 'invoice' | 'reminder';
+
+export interface SendInvoiceRequest {
+  to?: string[];          // defaults to the client's email
+  cc?: string[];
+  subject?: string;       // defaults to "Invoice INV-... from <name>"
+  message?: string;       // personal note added above the invoice details
+  markOnly?: boolean;     // just mark as sent (delivered outside the app) - no email
+  reason?: string;
+}
+
+export interface InvoiceDelivery {
+  id: string;
+  invoiceId: string;
+  userId: string;
+  type: InvoiceDeliveryType;
+  reminderOffset: number | null;
+  channel: string;
+  transport: string;
+  recipient: string;
+  cc: string | null;
+  subject: string;
+  status: InvoiceDeliveryStatus;
+  providerMessageId: string | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export interface SendInvoiceResponse {
+  invoice: Invoice;
+  delivery: InvoiceDelivery | null;   // null when markOnly
+  message: string;
+}
+
+export interface GetInvoiceDeliveriesResponse {
+  invoiceId: string;
+  deliveries: InvoiceDelivery[];
+}
+
+// ============================================================================
+// BULK OPERATIONS
+// ============================================================================
+
+export const MAX_BULK_INVOICES = 200;
+
+/**
+ * Which invoices a bulk operation applies to: an explicit id list, or the
+ * same filters as GET /invoices (without paging) - exactly one of the two
+ */
+export interface BulkInvoiceSelection {
+  ids?: string[];
+  filters?: Omit<GetInvoicesQuery, 'limit' | 'offset'>;
+}
+
+export interface BulkSendInvoicesRequest extends BulkInvoiceSelection {
+  message?: string;       // personal note added to every email
+  markOnly?: boolean;
+}
+
+export interface BulkMarkInvoicesPaidRequest extends BulkInvoiceSelection {
+  paidDate: string | Date;
+  notes?: string;
+}
+
+export interface BulkCancelInvoicesRequest extends BulkInvoiceSelection {
+  reason?: string;
+}
+
+export interface BulkInvoiceResult {
+  invoiceId: string;
+  invoiceNumber: string | null;   // null when the id didn't match an invoice
+  success: boolean;
+  invoice?: Invoice;
+  error?: {
+    code: string;
+    message: string;
   };
 }
 
+export interface BulkInvoiceResponse {
+  results: BulkInvoiceResult[];
+  succeeded: number;
+  failed: number;
+  message: string;
+}
+
+// ZIP export: one row per selected invoice in manifest.csv
+export interface BulkExportManifestRow {
+  invoiceId: string;
+  invoiceNumber: string | null;
+  clientName: string | null;
+  status: InvoiceStatus | null;
+  issueDate: Date | null;
+  dueDate: Date | null;
+  currency: string | null;
+  amount: number | null;
+  balanceDue: number | null;
+  file: string | null;            // PDF name inside the archive
+  result: 'exported' | 'failed';
+  error: string | null;
+}
+
+// ============================================================================
+// PUBLIC SHARE LINKS
+// ============================================================================
+
+export interface CreateShareLinkRequest {
+  expiresInDays?: number;     // defaults to SHARE_LINK_EXPIRES_DAYS
+}
+
+export interface InvoiceShareLink {
+  id: string;
+  invoiceId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+  isActive: boolean;
+  url: string | null;         // null once revoked or expired
+  pdfUrl: string | null;
+}
+
+export interface ShareLinkResponse {
+  link: InvoiceShareLink;
+  message: string;
+}
+
+export interface GetShareLinksResponse {
+  invoiceId: string;
+  links: InvoiceShareLink[];
+}
+
+export type InvoiceViewEventType = 'view' | 'download';
+
+export interface InvoiceViewEvent {
+  id: string;
+  invoiceId: string;
+  shareLinkId: string;
+  type: InvoiceViewEventType;
+  ipAddress: string | null;
+  userAgent: string | null;
+  viewedAt: Date;
+}
+
+export interface GetInvoiceViewsResponse {
+  invoiceId: string;
+  views: InvoiceViewEvent[];
+}
+
+export interface ViewerInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * What a client sees through a share link - no internal ids, predictions or history
+ */
+export interface PublicInvoice {
+  invoiceNumber: string;
+  status: InvoiceStatus;
+  description: string;
+  items: InvoiceLineItem[] | null;
+  subtotal: number;
+  discountAmount: number;
+  taxBreakdown: InvoiceTaxLine[] | null;
+  shipping: number;
+  amount: number;
+  lateCharges: number;
+  amountPaid: number;
+  amountCredited: number;
+  balanceDue: number;
+  currency: string;
+  locale: string;
+  issueDate: Date;
+  dueDate: Date;
+  notes: string | null;
+  terms: string;
+  from: {
+    name: string;
+    email: string;
+    phone: string | null;
+  };
+  to: {
+    name: string;
+    company: string | null;
+  };
+  pdfUrl: string;
+}
+
 // ============================================================================
 // INVOICE SUMMARY
 // ============================================================================
@@ -183,13 +642,7 @@ export interface InvoiceSummary {
   paidAmount: number;
   pendingAmount: number;
   overdueAmount: number;
-  invoicesByStatus: {
-    draft: number;
-    sent: number;
-    paid: number;
-    overdue: number;
-    cancelled: number;
-  };
+  invoicesByStatus: Record<InvoiceStatus, number>;
 }
 
 // ============================================================================
@@ -202,3 +655,32 @@ export interface ClientStats {
   totalInvoices: number;
   paymentTrend: number;
 }
+
+// ============================================================================
+// INVOICE NUMBERING
+// ============================================================================
+
+// Tokens allowed in the number format - {SEQ} is required
+export const INVOICE_NUMBER_TOKENS = ['{PREFIX}', '{YYYY}', '{YY}', '{MM}', '{SEQ}'] as const;
+
+export interface InvoiceNumberingSettings {
+  prefix: string;
+  format: string;
+  padding: number;
+  resetYearly: boolean;
+  lastNumber: number;
+  nextInvoiceNumber: string;    // preview of the number the next invoice will get
+}
+
+export interface UpdateInvoiceNumberingRequest {
+  prefix?: string;
+  format?: string;
+  padding?: number;
+  resetYearly?: boolean;
+  nextNumber?: number;          // move the counter (e.g. when migrating from another tool)
+}
+
+export interface InvoiceNumberingResponse {
+  settings: InvoiceNumberingSettings;
+  message: string;
+}
@@ -0,0 +1,105 @@
+/**
+ * Locale Types
+ * Defines currency/locale settings and the shape of translated label bundles
+ */
+
+// ============================================================================
+// DEFAULTS & SUPPORTED LANGUAGES
+// ============================================================================
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Languages with a label bundle - any other locale still formats numbers and
+// dates its own way, but falls back to English labels
+export const SUPPORTED_LANGUAGES = ['en', 'fr', 'de', 'sw'] as const;
+
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+// ============================================================================
+// LOCALIZATION SETTINGS (invoice, quote, client, user)
+// ============================================================================
+
+export interface LocalizationSettings {
+  currency?: string | null;     // ISO 4217, e.g. "EUR", "KES"
+  locale?: string | null;       // BCP 47, e.g. "fr-FR", "sw-KE"
+}
+
+// ============================================================================
+// LABEL BUNDLE
+// ============================================================================
+
+// Values in {braces} are filled in with translate()
+export interface LocaleBundle {
+  documents: {
+    invoice: string;
+    estimate: string;
+    creditNote: string;
+  };
+  pdf: {
+    billedTo: string;
+    invoiceNumber: string;
+    invoiceDate: string;
+    dueDate: string;
+    paidDate: string;
+    status: string;
+    estimateNumber: string;
+    estimateDate: string;
+    validUntil: string;
+    creditNoteNumber: string;
+    date: string;
+    description: string;
+    quantity: string;
+    rate: string;
+    amount: string;
+    subtotal: string;
+    discount: string;
+    discountPercent: string;      // {rate}
+    shipping: string;
+    total: string;
+    lateCharges: string;
+    amountPaid: string;
+    balanceDue: string;
+    paymentTerms: string;
+    notes: string;
+    thankYou: string;
+    page: string;                 // {page} {pages}
+    email: string;
+    phone: string;
+    taxId: string;
+    creditAgainst: string;        // {invoiceNumber}
+    creditReason: string;         // {reason}
+  };
+  statuses: Record<string, string>;
+  email: {
+    subject: string;              // {invoiceNumber} {senderName}
+    greeting: string;             // {clientName}
+    defaultMessage: string;
+    attached: string;             // {invoiceNumber}
+    details: string;
+    project: string;
+    amount: string;
+    lateCharges: string;
+    balanceDue: string;
+    invoiceDate: string;
+    dueDate: string;
+    paymentTerms: string;
+    defaultTerms: string;
+    paymentOptions: string;
+    bankTransfer: string;
+    paypal: string;
+    phone: string;
+    questions: string;
+    thanks: string;
+    regards: string;
+  };
+  reminders: {
+    dueToday: string;
+    dueInOneDay: string;
+    dueInDays: string;            // {days}
+    friendly: { subject: string; body: string };
+    firm: { subject: string; body: string };
+    final: { subject: string; body: string };
+  };
+}
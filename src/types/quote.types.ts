@@ -0,0 +1,152 @@
+/**
+ * Quote Types
+ * Defines data structures for quotes/estimates sent before invoicing
+ */
+
+import { Invoice, InvoiceLineItem } from './invoice.types';
+import { LocalizationSettings } from './locale.types';
+
+// ============================================================================
+// QUOTE STATUSES
+// ============================================================================
+
+export const QUOTE_STATUSES = [
+  'draft',
+  'sent',
+  'accepted',
+  'declined',
+  'expired',
+  'converted',
+] as const;
+
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+/**
+ * draft → sent → accepted → converted
+ * A sent quote can also be declined by the client or expire.
+ * declined and converted are terminal; an expired quote can be re-sent with a new expiry date.
+ */
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'declined', 'expired'],
+  accepted: ['converted'],
+  declined: [],
+  expired: ['sent'],
+  converted: [],
+};
+
+// Statuses where quote details can still be edited
+export const EDITABLE_QUOTE_STATUSES: QuoteStatus[] = ['draft', 'sent', 'expired'];
+
+// ============================================================================
+// CREATE QUOTE
+// ============================================================================
+
+export interface CreateQuoteRequest extends LocalizationSettings {
+  clientId: string;
+  amount: number;
+  description: string;
+  items?: InvoiceLineItem[];
+  expiryDate: string | Date;
+  notes?: string;
+  terms?: string;
+}
+
+export interface QuoteResponse {
+  quote: Quote;
+  message: string;
+}
+
+// ============================================================================
+// UPDATE QUOTE
+// ============================================================================
+
+export interface UpdateQuoteRequest extends LocalizationSettings {
+  amount?: number;
+  description?: string;
+  items?: InvoiceLineItem[];
+  expiryDate?: string | Date;
+  notes?: string;
+  terms?: string;
+}
+
+// ============================================================================
+// QUOTE DATA
+// ============================================================================
+
+export interface Quote {
+  id: string;
+  userId: string;
+  clientId: string;
+  quoteNumber: string;
+  amount: number;
+  description: string;
+  items: InvoiceLineItem[] | null;
+  status: QuoteStatus;
+  issueDate: Date;
+  expiryDate: Date;
+  acceptedAt: Date | null;
+  declinedAt: Date | null;
+  declineReason: string | null;
+  notes: string | null;
+  terms: string | null;
+  currency: string;
+  locale: string;
+  convertedInvoiceId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QuoteWithClient extends Quote {
+  client: {
+    id: string;
+    name: string;
+    email: string | null;
+    company: string | null;
+  };
+}
+
+export interface QuoteWithDetails extends QuoteWithClient {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+  };
+}
+
+// ============================================================================
+// GET QUOTES
+// ============================================================================
+
+export interface GetQuotesQuery {
+  status?: QuoteStatus;
+  clientId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface GetQuotesResponse {
+  quotes: QuoteWithClient[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// ============================================================================
+// ACCEPT / DECLINE / CONVERT
+// ============================================================================
+
+export interface DeclineQuoteRequest {
+  reason?: string;
+}
+
+export interface ConvertQuoteRequest {
+  dueDate?: string | Date;    // defaults to 30 days from today
+}
+
+export interface ConvertQuoteResponse {
+  quote: Quote;
+  invoice: Invoice;
+  message: string;
+}
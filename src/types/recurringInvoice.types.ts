@@ -0,0 +1,102 @@
+/**
+ * Recurring Invoice Types
+ * Defines data structures for retainer schedules that generate invoices
+ */
+
+import { InvoiceLineItem } from './invoice.types';
+
+// ============================================================================
+// FREQUENCIES & STATUSES
+// ============================================================================
+
+export const RECURRING_FREQUENCIES = ['weekly', 'monthly', 'quarterly', 'custom'] as const;
+
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+
+export type RecurringInvoiceStatus = 'active' | 'paused' | 'completed';
+
+// ============================================================================
+// CREATE RECURRING INVOICE
+// ============================================================================
+
+export interface CreateRecurringInvoiceRequest {
+    clientId: string;
+    amount: number;
+    description: string;
+    items?: InvoiceLineItem[];
+    notes?: string;
+    terms?: string;
+    dueInDays?: number;
+    frequency: RecurringFrequency;
+    cronExpression?: string;      // required when frequency is "custom"
+    startDate: string | Date;
+    endDate?: string | Date;
+    autoSend?: boolean;
+}
+
+// ============================================================================
+// RECURRING INVOICE DATA
+// ============================================================================
+
+export interface RecurringInvoice {
+    id: string;
+    userId: string;
+    clientId: string;
+    amount: number;
+    description: string;
+    items: InvoiceLineItem[] | null;
+    notes: string | null;
+    terms: string | null;
+    dueInDays: number;
+    frequency: RecurringFrequency;
+    cronExpression: string | null;
+    startDate: Date;
+    endDate: Date | null;
+    nextRunAt: Date | null;
+    lastRunAt: Date | null;
+    occurrences: number;
+    autoSend: boolean;
+    status: RecurringInvoiceStatus;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface RecurringInvoiceWithClient extends RecurringInvoice {
+    client: {
+        id: string;
+        name: string;
+        email: string | null;
+    };
+}
+
+export interface RecurringInvoiceResponse {
+    recurringInvoice: RecurringInvoice;
+    message: string;
+}
+
+// ============================================================================
+// GET RECURRING INVOICES
+// ============================================================================
+
+export interface GetRecurringInvoicesQuery {
+    status?: RecurringInvoiceStatus;
+    clientId?: string;
+}
+
+export interface GetRecurringInvoicesResponse {
+    recurringInvoices: RecurringInvoiceWithClient[];
+    total: number;
+}
+
+// ============================================================================
+// PREVIEW NEXT OCCURRENCES
+// ============================================================================
+
+export interface RecurringInvoicePreview {
+    recurringInvoiceId: string;
+    occurrences: Array<{
+        issueDate: Date;
+        dueDate: Date;
+        amount: number;
+    }>;
+}
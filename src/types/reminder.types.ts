@@ -0,0 +1,60 @@
+/**
+ * Reminder Types
+ * Defines data structures for automated payment reminder schedules
+ */
+
+// ============================================================================
+// DEFAULTS & TONES
+// ============================================================================
+
+// 3 days before due, on the due date, then 7/14/30 days late
+export const DEFAULT_REMINDER_OFFSETS = [-3, 0, 7, 14, 30];
+
+export const REMINDER_TONES = ['friendly', 'firm', 'final'] as const;
+
+export type ReminderTone = typeof REMINDER_TONES[number];
+
+// ============================================================================
+// SCHEDULE DATA
+// ============================================================================
+
+export interface ReminderSchedule {
+  id: string;
+  userId: string;
+  clientId: string | null;    // null = the user's default schedule
+  offsets: number[];          // days relative to the due date, sorted ascending
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReminderScheduleWithClient extends ReminderSchedule {
+  client: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+// ============================================================================
+// UPDATE SCHEDULE
+// ============================================================================
+
+export interface UpsertReminderScheduleRequest {
+  offsets?: number[];
+  enabled?: boolean;
+}
+
+export interface ReminderScheduleResponse {
+  schedule: ReminderSchedule;
+  message: string;
+}
+
+// ============================================================================
+// GET SCHEDULES
+// ============================================================================
+
+export interface GetReminderSchedulesResponse {
+  default: ReminderSchedule | null;           // null until the user saves one - no reminders are sent
+  clients: ReminderScheduleWithClient[];      // per-client overrides
+  defaultOffsets: number[];                   // suggested offsets for a new schedule
+}
@@ -0,0 +1,28 @@
+/**
+ * Revision Types
+ * Append-only edit history shared by income and expense entries
+ */
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+export interface FieldChange {
+  field: string;
+  from: string | number | boolean | null;   // previous value (decimals as 2dp strings, dates as ISO)
+  to: string | number | boolean | null;
+}
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  changes: FieldChange[];
+  reason: string | null;
+  actorId: string;
+  createdAt: Date;
+}
+
+export interface GetEntryRevisionsResponse {
+  entryId: string;
+  revisions: EntryRevision[];     // oldest first
+}
@@ -0,0 +1,47 @@
+/**
+ * Storage Types
+ * Defines the backend-agnostic contract for storing uploaded files
+ */
+
+import { Readable } from 'stream';
+
+// ============================================================================
+// DRIVERS
+// ============================================================================
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+export interface StoredFile {
+  body: Readable;
+  contentType: string;
+  size: number;
+}
+
+export interface SignedUrlOptions {
+  fileName?: string;          // suggested download name
+  contentType?: string;
+}
+
+// ============================================================================
+// STORAGE CONTRACT
+// ============================================================================
+
+/**
+ * Anything that can keep files by key - local disk, S3, MinIO...
+ * get() throws NotFoundError for a missing key; delete() of a missing key is a no-op.
+ * Backends that can hand out their own time-limited links implement getSignedUrl();
+ * for the rest, the API serves the file itself behind a signed token.
+ */
+export interface FileStorage {
+  name: StorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredFile>;
+  delete(key: string): Promise<void>;
+  getSignedUrl?(key: string, expiresInSeconds: number, options?: SignedUrlOptions): Promise<string>;
+}
@@ -15,6 +15,9 @@ export interface UpdateProfileRequest {
     profession?: string;
     skills?: string[];
     hourlyRate?: Decimal;
+    currency?: string;      // default for new invoices and quotes
+    locale?: string;
+    baseCurrency?: string;  // dashboards and summaries are converted to this
 }
 
 export interface UpdateProfileResponse {
@@ -0,0 +1,105 @@
+/**
+ * CSV helpers
+ * Minimal RFC 4180 parser - quoted fields, escaped quotes, CRLF/LF line endings -
+ * and the matching writer
+ */
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export interface CsvRow {
+    line: number;        // 1-based line the row starts on (for error messages)
+    values: string[];
+}
+
+/**
+ * Splits CSV text into rows of trimmed values. Blank lines are skipped;
+ * newlines inside quoted fields are kept as part of the value.
+ */
+export function parseCsv(text: string, delimiter: string = ','): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let values: string[] = [];
+    let value = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        values.push(value.trim());
+        if (values.some((v) => v !== '')) {
+            rows.push({ line: rowLine, values });
+        }
+        values = [];
+        value = '';
+    };
+
+    // strip a UTF-8 byte order mark (spreadsheet exports)
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                value += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            values.push(value.trim());
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+            line++;
+            rowLine = line;
+        } else {
+            value += char;
+        }
+    }
+
+    endRow();
+
+    return rows;
+}
+
+/**
+ * Maps a header row to column indexes by lower-cased name
+ */
+export function getCsvColumns(header: string[]): Map<string, number> {
+    return new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const formatCsvValue = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+
+    // text starting with = + - @ is prefixed so spreadsheets don't run it as a formula
+    const safe = typeof value === 'string' && /^[=+\-@]/.test(text) ? `'${text}` : text;
+
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Renders rows (header first) as CSV with CRLF line endings
+ */
+export function toCsv(rows: CsvValue[][]): string {
+    return rows.map((row) => row.map(formatCsvValue).join(',')).join('\r\n') + '\r\n';
+}
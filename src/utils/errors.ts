@@ -88,6 +88,14 @@ export class RateLimitError extends ApiError {
     }
 }
 
+// 502 Bad Gateway - An external service (email provider, ML API...) failed
+export class ExternalServiceError extends ApiError {
+    constructor(message: string = 'External service error', details?: any) {
+        super(502, message, 'EXTERNAL_SERVICE_ERROR', details);
+        this.name = 'ExternalServiceError';
+    }
+}
+
 // 500 Internal Server Error - Something went wrong on server
 export class InternalError extends ApiError {
     constructor(message: string = 'Internal server error') {
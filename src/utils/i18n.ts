@@ -0,0 +1,86 @@
+/**
+ * Localization helpers
+ * Label lookup and locale-aware money/date formatting
+ */
+
+import { LOCALE_BUNDLES } from '../locales';
+import {
+    DEFAULT_CURRENCY,
+    DEFAULT_LOCALE,
+    LocaleBundle,
+    SUPPORTED_LANGUAGES,
+    SupportedLanguage,
+} from '../types/locale.types';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * ISO 4217 code the runtime can format, e.g. "EUR", "KES"
+ */
+export function isSupportedCurrency(currency: string): boolean {
+    return Intl.supportedValuesOf('currency').includes(currency);
+}
+
+/**
+ * Well-formed BCP 47 tag the runtime has number/date data for, e.g. "fr-FR"
+ */
+export function isSupportedLocale(locale: string): boolean {
+    try {
+        return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+        return false;
+    }
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+/**
+ * Label bundle for a locale's language, English if there is no bundle for it
+ */
+export function getLocaleBundle(locale: string = DEFAULT_LOCALE): LocaleBundle {
+    const language = locale.split('-')[0].toLowerCase();
+
+    return (SUPPORTED_LANGUAGES as readonly string[]).includes(language)
+        ? LOCALE_BUNDLES[language as SupportedLanguage]
+        : LOCALE_BUNDLES.en;
+}
+
+/**
+ * Fills {placeholders} in a label - unknown placeholders are left as they are
+ */
+export function translate(template: string, values: Record<string, string | number> = {}): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+        return values[key] !== undefined ? String(values[key]) : match;
+    });
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Amount with the currency's symbol and decimal rules for the locale
+ * (e.g. "1 234,50 €" in fr-FR, "Ksh 1,234.50" in sw-KE, "¥1,235" for JPY)
+ */
+export function formatMoney(
+    amount: number,
+    currency: string = DEFAULT_CURRENCY,
+    locale: string = DEFAULT_LOCALE
+): string {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Long date in the locale's own order and month names
+ */
+export function formatDate(date: Date | string, locale: string = DEFAULT_LOCALE): string {
+    return new Date(date).toLocaleDateString(locale, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+    });
+}
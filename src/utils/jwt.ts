@@ -117,6 +117,86 @@ export function verifyRefreshToken(token: string): TokenPayload {
     }
 }
 
+// ============================================================================
+// INVOICE SHARE TOKENS
+// ============================================================================
+
+export interface ShareTokenPayload {
+    linkId: string;
+    invoiceId: string;
+}
+
+/**
+ * Generate a public invoice share token
+ * Signed with its own audience so it can never be used as an access token
+ */
+export function generateShareToken(payload: ShareTokenPayload, expiresAt: Date): string {
+    return jwt.sign(payload, config.JWT_SECRET, {
+        expiresIn: Math.max(Math.floor((expiresAt.getTime() - Date.now()) / 1000), 1),
+        issuer: 'crefin-api',
+        audience: 'crefin-invoice-share',
+    });
+}
+
+/**
+ * Verify a public invoice share token
+ */
+export function verifyShareToken(token: string): ShareTokenPayload {
+    try {
+        const decoded = jwt.verify(token, config.JWT_SECRET, {
+            issuer: 'crefin-api',
+            audience: 'crefin-invoice-share',
+        }) as ShareTokenPayload;
+
+        return decoded;
+    } catch (error) {
+        if (error instanceof jwt.TokenExpiredError) {
+            throw new UnauthorizedError('Invoice link has expired');
+        }
+        throw new UnauthorizedError('Invalid invoice link');
+    }
+}
+
+// ============================================================================
+// RECEIPT DOWNLOAD TOKENS
+// ============================================================================
+
+export interface ReceiptTokenPayload {
+    expenseId: string;
+    key: string;        // storage key the link was issued for
+}
+
+/**
+ * Generate a short-lived receipt download token
+ * Signed with its own audience so it can never be used as an access or share token
+ */
+export function generateReceiptToken(payload: ReceiptTokenPayload, expiresAt: Date): string {
+    return jwt.sign(payload, config.JWT_SECRET, {
+        expiresIn: Math.max(Math.floor((expiresAt.getTime() - Date.now()) / 1000), 1),
+        issuer: 'crefin-api',
+        audience: 'crefin-receipt',
+    });
+}
+
+/**
+ * Verify a receipt download token
+ */
+export function verifyReceiptToken(token: string): ReceiptTokenPayload {
+    try {
+        const decoded = jwt.verify(token, config.JWT_SECRET, {
+            issuer: 'crefin-api',
+            audience: 'crefin-receipt',
+        }) as ReceiptTokenPayload;
+
+        return decoded;
+    } catch (error) {
+        if (error instanceof jwt.TokenExpiredError) {
+            throw new UnauthorizedError('Receipt link has expired');
+        }
+        throw new UnauthorizedError('Invalid receipt link');
+    }
+}
+
 // ============================================================================
 // EXTRACT TOKEN FROM HEADER
 // ============================================================================
@@ -4,6 +4,7 @@
  */
 
 import { Response } from 'express';
+import { Readable, pipeline } from 'stream';
 
 // ============================================================================
 // SUCCESS RESPONSE
@@ -30,6 +31,45 @@ export const sendSuccess = (
     });
 };
 
+// ============================================================================
+// FILE RESPONSE
+// ============================================================================
+
+export interface FileResponse {
+    fileName: string;
+    contentType: string;
+    size: number;           // 0 when unknown
+    body: Readable;
+}
+
+/**
+ * Stream a stored file to the client
+ * @param res - Express response object
+ * @param file - File body and metadata
+ * @param disposition - "inline" opens in the browser, "attachment" downloads
+ */
+export const sendFileStream = (
+    res: Response,
+    file: FileResponse,
+    disposition: 'inline' | 'attachment' = 'inline'
+): void => {
+    //ASCII fallback plus the UTF-8 name for clients that support it
+    const asciiName = file.fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '');
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+        'Content-Disposition',
+        `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
+    );
+    if (file.size > 0) {
+        res.setHeader('Content-Length', file.size);
+    }
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    //headers are already sent if the body fails mid-way - pipeline just closes the connection
+    pipeline(file.body, res, () => undefined);
+};
+
 // ============================================================================
 // ERROR RESPONSE
 // ============================================================================
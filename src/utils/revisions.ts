@@ -0,0 +1,65 @@
+/**
+ * Revision helpers
+ * Field-level diffs for the append-only income / expense edit history
+ */
+
+import { Prisma } from '@prisma/client';
+import { FieldChange } from '../types/revision.types';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalizes a stored or requested value so equal values compare equal and
+ * serialize cleanly into the revision's JSON (Decimal → string, Date → ISO)
+ */
+const toRevisionValue = (value: unknown): FieldChange['from'] => {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (value instanceof Prisma.Decimal) {
+        return (value as Prisma.Decimal).toFixed(2);
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (typeof value === 'number') {
+        return new Prisma.Decimal(value).toFixed(2);
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') {
+        return value;
+    }
+    return JSON.stringify(value);
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Lists the fields whose value differs between the stored record and the
+ * values about to be written. Fields left out of `next` are unchanged.
+ */
+export const diffFields = <T extends object>(
+    previous: T,
+    next: Partial<Record<keyof T, unknown>>,
+    fields: readonly (keyof T & string)[]
+): FieldChange[] => {
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+        if (!(field in next) || next[field] === undefined) {
+            continue;
+        }
+
+        const from = toRevisionValue(previous[field]);
+        const to = toRevisionValue(next[field]);
+
+        if (from !== to) {
+            changes.push({ field, from, to });
+        }
+    }
+
+    return changes;
+};
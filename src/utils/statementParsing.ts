@@ -0,0 +1,80 @@
+/**
+ * Statement parsing helpers
+ * Shared by the OFX, QIF and CAMT.053 parsers
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// AMOUNTS
+// ============================================================================
+
+/**
+ * Bank amount in either notation - "1,234.56", "1.234,56", "-12,5", "+40".
+ * When both separators appear the last one is the decimal point; a lone
+ * comma followed by one or two digits is a decimal comma. Returns null
+ * for anything that is not a number
+ */
+export function parseStatementAmount(raw: string | null): number | null {
+    if (!raw) return null;
+
+    let value = raw.replace(/[\s ']/g, '');
+    const lastDot = value.lastIndexOf('.');
+    const lastComma = value.lastIndexOf(',');
+
+    if (lastDot !== -1 && lastComma !== -1) {
+        const decimal = lastDot > lastComma ? '.' : ',';
+        const thousands = decimal === '.' ? ',' : '.';
+        value = value.split(thousands).join('').replace(decimal, '.');
+    } else if (lastComma !== -1) {
+        value = /^[+-]?\d+,\d{1,2}$/.test(value) ? value.replace(',', '.') : value.replace(/,/g, '');
+    }
+
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value)) return null;
+
+    return Math.round(parseFloat(value) * 100) / 100;
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Calendar date at UTC midnight - statements carry booking days, not instants.
+ * Returns null for impossible dates (31 February...)
+ */
+export function statementDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+
+    return date;
+}
+
+// ============================================================================
+// TRANSACTION IDS
+// ============================================================================
+
+/**
+ * Stable ID for formats without bank transaction IDs (QIF) or entries that
+ * lack one - a hash of the transaction's own fields. Identical lines in one
+ * file (two coffees on the same day) are told apart by how often the same
+ * hash has been seen, so re-importing the file yields the same IDs
+ */
+export function createFallbackTxIdGenerator(format: string) {
+    const seen = new Map<string, number>();
+
+    return (fields: Array<string | number | Date | null>): string => {
+        const key = fields
+            .map((field) => (field instanceof Date ? field.toISOString().slice(0, 10) : String(field ?? '')))
+            .join('\u0000');
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+
+        const hash = crypto.createHash('sha256').update(`${key}\u0000${occurrence}`).digest('hex');
+
+        return `${format}:${hash.slice(0, 32)}`;
+    };
+}
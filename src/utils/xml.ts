@@ -0,0 +1,243 @@
+/**
+ * XML helpers
+ * Tiny element builder + serializer for generated documents (e-invoices)
+ * and a non-validating reader for imported ones (bank statements)
+ */
+
+// ============================================================================
+// ELEMENT TREE
+// ============================================================================
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string | null;
+}
+
+// null/undefined/false children are dropped, so optional elements can be written inline
+export type XmlChild = XmlElement | null | undefined | false;
+
+/**
+ * Element with child elements - el('cac:Party', {}, el('cbc:Name', {}, 'ACME'))
+ * or with text content - el('cbc:ID', { schemeID: '0088' }, '123')
+ */
+export function el(
+    name: string,
+    attributes: Record<string, string | undefined> = {},
+    ...content: Array<XmlChild | string | number>
+): XmlElement {
+    const children: XmlElement[] = [];
+    let text: string | null = null;
+
+    content.forEach((item) => {
+        if (typeof item === 'string' || typeof item === 'number') {
+            text = (text ?? '') + String(item);
+        } else if (item) {
+            children.push(item);
+        }
+    });
+
+    const definedAttributes: Record<string, string> = {};
+    Object.entries(attributes).forEach(([key, value]) => {
+        if (value !== undefined) definedAttributes[key] = value;
+    });
+
+    return { name, attributes: definedAttributes, children, text };
+}
+
+/**
+ * Text element that is left out entirely when there is no value
+ */
+export function optionalEl(
+    name: string,
+    value: string | number | null | undefined,
+    attributes: Record<string, string | undefined> = {}
+): XmlElement | null {
+    return value === null || value === undefined || value === '' ? null : el(name, attributes, value);
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // characters XML 1.0 can't contain at all
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+const renderElement = (element: XmlElement, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(element.attributes)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join('');
+
+    if (element.children.length > 0) {
+        const children = element.children.map((child) => renderElement(child, depth + 1)).join('\n');
+        return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+    }
+
+    if (element.text !== null) {
+        return `${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`;
+    }
+
+    return `${indent}<${element.name}${attributes}/>`;
+};
+
+/**
+ * Pretty-printed UTF-8 document with an XML declaration
+ */
+export function renderXml(root: XmlElement): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${renderElement(root, 0)}\n`;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeXmlEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+        if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+        return XML_ENTITIES[entity] ?? match;
+    });
+}
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+/**
+ * Reads a document into the same element tree the builder produces. Element
+ * names keep their namespace prefix - the lookup helpers below ignore it.
+ * No DTDs or external entities; throws on malformed markup
+ */
+export function parseXml(source: string): XmlElement {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | null = null;
+    let position = 0;
+
+    const appendText = (value: string) => {
+        const current = stack[stack.length - 1];
+        if (current && value.trim() !== '') {
+            current.text = (current.text ?? '') + value;
+        }
+    };
+
+    while (position < source.length) {
+        const tagStart = source.indexOf('<', position);
+
+        if (tagStart === -1) {
+            appendText(decodeXmlEntities(source.slice(position)));
+            break;
+        }
+
+        appendText(decodeXmlEntities(source.slice(position, tagStart)));
+
+        // declarations, comments and CDATA sections
+        const skipTo = (terminator: string): number => {
+            const end = source.indexOf(terminator, tagStart);
+            if (end === -1) throw new Error('Unterminated markup in XML');
+            return end + terminator.length;
+        };
+
+        if (source.startsWith('<?', tagStart)) {
+            position = skipTo('?>');
+            continue;
+        }
+        if (source.startsWith('<!--', tagStart)) {
+            position = skipTo('-->');
+            continue;
+        }
+        if (source.startsWith('<![CDATA[', tagStart)) {
+            position = skipTo(']]>');
+            const current = stack[stack.length - 1];
+            if (current) current.text = (current.text ?? '') + source.slice(tagStart + 9, position - 3);
+            continue;
+        }
+        if (source.startsWith('<!', tagStart)) {
+            position = skipTo('>');
+            continue;
+        }
+
+        const tagEnd = source.indexOf('>', tagStart);
+        if (tagEnd === -1) throw new Error('Unterminated tag in XML');
+        const tag = source.slice(tagStart + 1, tagEnd);
+        position = tagEnd + 1;
+
+        // closing tag
+        if (tag.startsWith('/')) {
+            const name = tag.slice(1).trim();
+            const open = stack.pop();
+            if (!open || open.name !== name) {
+                throw new Error(`Unexpected closing tag </${name}> in XML`);
+            }
+            continue;
+        }
+
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.slice(0, -1) : tag;
+        const nameMatch = body.match(/^\s*([^\s/>]+)/);
+        if (!nameMatch) throw new Error('Empty tag in XML');
+
+        const attributes: Record<string, string> = {};
+        const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+        let attribute: RegExpExecArray | null;
+        while ((attribute = attributePattern.exec(body.slice(nameMatch[0].length))) !== null) {
+            attributes[attribute[1]] = decodeXmlEntities(attribute[3] ?? attribute[4] ?? '');
+        }
+
+        const element: XmlElement = { name: nameMatch[1], attributes, children: [], text: null };
+        const parent = stack[stack.length - 1];
+
+        if (parent) {
+            parent.children.push(element);
+        } else if (root) {
+            throw new Error('XML has more than one root element');
+        } else {
+            root = element;
+        }
+
+        if (!selfClosing) stack.push(element);
+    }
+
+    if (!root) throw new Error('XML document is empty');
+    if (stack.length > 0) throw new Error(`Missing closing tag </${stack[stack.length - 1].name}> in XML`);
+
+    return root;
+}
+
+/**
+ * Child elements with the given (unprefixed) name
+ */
+export function xmlChildren(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter((child) => localName(child.name) === name);
+}
+
+/**
+ * First descendant along a path of names - xmlChild(entry, 'BookgDt', 'Dt')
+ */
+export function xmlChild(element: XmlElement | null | undefined, ...path: string[]): XmlElement | null {
+    let current: XmlElement | null = element ?? null;
+
+    for (const name of path) {
+        if (!current) return null;
+        current = xmlChildren(current, name)[0] ?? null;
+    }
+
+    return current;
+}
+
+/**
+ * Trimmed text of the element at the path, or null when missing/empty
+ */
+export function xmlText(element: XmlElement | null | undefined, ...path: string[]): string | null {
+    const text = xmlChild(element, ...path)?.text?.trim();
+    return text ? text : null;
+}
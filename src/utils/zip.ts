@@ -0,0 +1,142 @@
+/**
+ * ZIP helpers
+ * Streaming ZIP writer - each file is written as soon as it is added,
+ * the central directory when the archive is finished (no ZIP64, so keep
+ * archives under 65535 files / 4 GB)
+ */
+
+import { Writable } from 'stream';
+import { crc32, deflateRawSync } from 'zlib';
+
+// ============================================================================
+// FORMAT CONSTANTS
+// ============================================================================
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const VERSION = 20;                 // 2.0 - deflate
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+    name: Buffer;
+    method: number;
+    time: number;
+    date: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+}
+
+export interface ZipWriter {
+    addFile(name: string, data: Buffer, modifiedAt?: Date): Promise<void>;
+    finish(): Promise<void>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * MS-DOS time and date fields (2-second resolution, local time)
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+};
+
+const write = (output: Writable, chunk: Buffer): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        output.write(chunk, (error) => (error ? reject(error) : resolve()));
+    });
+};
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+export function createZipWriter(output: Writable): ZipWriter {
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+
+    const emit = async (chunk: Buffer) => {
+        await write(output, chunk);
+        offset += chunk.length;
+    };
+
+    return {
+        async addFile(name, data, modifiedAt = new Date()) {
+            const compressed = deflateRawSync(data);
+            // already-compressed data (PDF streams, images) can grow when deflated
+            const useDeflate = compressed.length < data.length;
+            const body = useDeflate ? compressed : data;
+            const { time, date } = toDosDateTime(modifiedAt);
+
+            const entry: ZipEntry = {
+                name: Buffer.from(name, 'utf8'),
+                method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+                time,
+                date,
+                crc: crc32(data),
+                compressedSize: body.length,
+                size: data.length,
+                offset,
+            };
+
+            const header = Buffer.alloc(30);
+            header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+            header.writeUInt16LE(VERSION, 4);
+            header.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+            header.writeUInt16LE(entry.method, 8);
+            header.writeUInt16LE(entry.time, 10);
+            header.writeUInt16LE(entry.date, 12);
+            header.writeUInt32LE(entry.crc, 14);
+            header.writeUInt32LE(entry.compressedSize, 18);
+            header.writeUInt32LE(entry.size, 22);
+            header.writeUInt16LE(entry.name.length, 26);
+            header.writeUInt16LE(0, 28);
+
+            entries.push(entry);
+            await emit(Buffer.concat([header, entry.name]));
+            await emit(body);
+        },
+
+        async finish() {
+            const directoryOffset = offset;
+
+            for (const entry of entries) {
+                const header = Buffer.alloc(46);
+                header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+                header.writeUInt16LE(VERSION, 4);
+                header.writeUInt16LE(VERSION, 6);
+                header.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+                header.writeUInt16LE(entry.method, 10);
+                header.writeUInt16LE(entry.time, 12);
+                header.writeUInt16LE(entry.date, 14);
+                header.writeUInt32LE(entry.crc, 16);
+                header.writeUInt32LE(entry.compressedSize, 20);
+                header.writeUInt32LE(entry.size, 24);
+                header.writeUInt16LE(entry.name.length, 28);
+                // extra field, comment, disk number, attributes: all zero
+                header.writeUInt32LE(entry.offset, 42);
+
+                await emit(Buffer.concat([header, entry.name]));
+            }
+
+            const end = Buffer.alloc(22);
+            end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+            end.writeUInt16LE(entries.length, 8);
+            end.writeUInt16LE(entries.length, 10);
+            end.writeUInt32LE(offset - directoryOffset, 12);
+            end.writeUInt32LE(directoryOffset, 16);
+
+            await emit(end);
+        },
+    };
+}
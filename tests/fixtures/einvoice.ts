@@ -0,0 +1,89 @@
+/**
+ * E-invoice fixtures - an invoice with standard and zero rated lines, a
+ * discount, shipping and a partial payment, and a credit note against it
+ */
+
+import { CreditNoteWithDetails } from '../../src/types/creditNote.types';
+import { InvoiceWithDetails } from '../../src/types/invoice.types';
+
+export const USER_ID = 'user-1';
+
+const user = {
+    name: 'Jane Doe',
+    email: 'jane@doe-design.test',
+    phone: '+49 30 1234567',
+};
+
+const branding = {
+    businessName: 'Doe Design GmbH',
+    address: 'Hauptstraße 1\n10115 Berlin',
+    taxId: 'DE123456789',
+    countryCode: 'DE',
+    peppolId: '0088:5790000435975',
+};
+
+const client = {
+    id: 'client-1',
+    userId: USER_ID,
+    name: 'John Smith',
+    company: 'Acme SARL',
+    email: 'billing@acme.test',
+    phone: null,
+    address: '12 rue de la Paix\n75002 Paris',
+    countryCode: 'FR',
+    taxId: 'FR40303265045',
+    peppolId: null,
+};
+
+export const invoice = {
+    id: 'invoice-1',
+    userId: USER_ID,
+    clientId: client.id,
+    invoiceNumber: 'INV-2026-014',
+    status: 'partially_paid',
+    description: 'Website redesign',
+    notes: 'Thank you for your business',
+    terms: 'Payment within 30 days',
+    issueDate: new Date('2026-10-01T00:00:00Z'),
+    dueDate: new Date('2026-10-31T00:00:00Z'),
+    currency: 'EUR',
+    locale: 'en-US',
+    items: [
+        { description: 'Design work', quantity: 2, rate: 500, amount: 1000 },
+        { description: 'Printed brochures', quantity: 4, rate: 50, amount: 200, taxes: [] },
+    ],
+    taxes: [{ name: 'VAT', rate: 20 }],
+    subtotal: 1200,
+    discountType: 'fixed',
+    discountValue: 100,
+    discountAmount: 100,
+    taxAmount: 183.33,
+    shipping: 25,
+    lateCharges: 0,
+    amount: 1308.33,
+    amountPaid: 300,
+    amountCredited: 0,
+    client,
+} as unknown as InvoiceWithDetails;
+
+export const creditNote = {
+    id: 'credit-note-1',
+    userId: USER_ID,
+    invoiceId: invoice.id,
+    clientId: client.id,
+    creditNoteNumber: 'CN-2026-003',
+    amount: 120,
+    reason: 'Brochure misprint',
+    issueDate: new Date('2026-10-10T00:00:00Z'),
+} as unknown as CreditNoteWithDetails;
+
+/**
+ * Stand-in for config/database with the parties the e-invoice builders load
+ */
+export const mockEInvoiceDatabase = () => ({
+    db: {
+        user: { findUnique: async () => user },
+        brandingSettings: { findUnique: async () => branding },
+        client: { findUnique: async () => client },
+    },
+});
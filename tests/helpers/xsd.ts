@@ -0,0 +1,42 @@
+/**
+ * XSD validation for generated XML - runs libxml2 (compiled to WebAssembly)
+ * against the official schemas kept in tests/schemas
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { validateXML } from 'xmllint-wasm';
+
+export const SCHEMAS_DIR = path.join(__dirname, '..', 'schemas');
+
+// every file below dir, as paths relative to it ("common/UBL-...-2.1.xsd")
+const listFiles = (dir: string, prefix = ''): string[] => {
+    return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true }).flatMap((entry) => {
+        const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+        return entry.isDirectory() ? listFiles(dir, relative) : [relative];
+    });
+};
+
+/**
+ * Validates the XML against `schema` (relative to the schema set's directory)
+ * and returns xmllint's error messages - empty when the document is valid.
+ * The whole set is loaded so relative schema imports resolve; a missing
+ * schema throws, so the test fails rather than passing unchecked.
+ */
+export const validateAgainstXsd = async (xml: string, schemaSet: string, schema: string): Promise<string[]> => {
+    const root = path.join(SCHEMAS_DIR, schemaSet);
+    if (!fs.existsSync(path.join(root, schema))) {
+        throw new Error(`Schema ${schemaSet}/${schema} is missing - see tests/schemas/README.md`);
+    }
+
+    const files = listFiles(root).filter((file) => file.endsWith('.xsd'));
+    const load = (file: string) => ({ fileName: file, contents: fs.readFileSync(path.join(root, file), 'utf8') });
+
+    const result = await validateXML({
+        xml: [{ fileName: 'document.xml', contents: xml }],
+        schema: [load(schema)],
+        preload: files.filter((file) => file !== schema).map(load),
+    });
+
+    return result.errors.map((error) => error.rawMessage);
+};
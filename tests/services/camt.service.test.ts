@@ -0,0 +1,139 @@
+import { parseCamtStatement } from '../../src/services/camt.service';
+import { ValidationError } from '../../src/utils/errors';
+
+const options = { qifDateFormat: 'MM/DD/YYYY' as const };
+
+// CAMT.053.001.02 - party names directly under Dbtr / Cdtr, status as text
+const CAMT_V2 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId><CreDtTm>2026-02-01T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-2026-01</Id>
+      <FrToDt><FrDtTm>2026-01-01T00:00:00+01:00</FrDtTm><ToDtTm>2026-01-31T23:59:59+01:00</ToDtTm></FrToDt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">1250.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-01-15</Dt></BookgDt>
+        <AcctSvcrRef>BANKREF-001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>INV-2026-001</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Acme Ltd</Nm></Dbtr><Cdtr><Nm>Jane Doe</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Invoice INV-2026-001</Ustrd><Ustrd>Thank you</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">49.90</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2026-01-20T10:30:00+01:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Jane Doe</Nm></Dbtr><Cdtr><Nm>Office Supplies GmbH</Nm></Cdtr></RltdPties>
+          <RmtInf><Strd><CdtrRefInf><Ref>RF18539007547034</Ref></CdtrRefInf></Strd></RmtInf>
+          <AddtlTxInf>Card payment</AddtlTxInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-01-31</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+
+// CAMT.053.001.09+ - status and party names one level deeper
+const CAMT_V9 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.09">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><Othr><Id>12345678</Id></Othr></Id><Ccy>CHF</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="CHF">300.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <ValDt><Dt>2026-03-02</Dt></ValDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Pty><Nm>Globex AG</Nm></Pty></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+        <AddtlNtryInf>Transfer</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+
+describe('parseCamtStatement', () => {
+    it('reads booked entries with their sign, counterparty and references', () => {
+        const statement = parseCamtStatement(CAMT_V2, options);
+
+        expect(statement).toMatchObject({
+            accountId: 'DE89370400440532013000',
+            currency: 'EUR',
+            periodStart: new Date('2026-01-01T00:00:00Z'),
+            periodEnd: new Date('2026-01-31T00:00:00Z'),
+        });
+        expect(statement.transactions).toEqual([
+            {
+                externalTxId: 'BANKREF-001',
+                bookedAt: new Date('2026-01-15T00:00:00Z'),
+                amount: 1250,
+                currency: 'EUR',
+                counterparty: 'Acme Ltd',
+                description: 'Invoice INV-2026-001 Thank you',
+                reference: 'INV-2026-001',
+            },
+            expect.objectContaining({
+                bookedAt: new Date('2026-01-20T00:00:00Z'),
+                amount: -49.9,
+                counterparty: 'Office Supplies GmbH',
+                description: 'Card payment',
+                reference: 'RF18539007547034',
+            }),
+        ]);
+    });
+
+    it('derives a stable ID when the bank sends no usable reference', () => {
+        const [, first] = parseCamtStatement(CAMT_V2, options).transactions;
+        const [, again] = parseCamtStatement(CAMT_V2, options).transactions;
+
+        expect(first.externalTxId).toMatch(/^camt:[0-9a-f]{32}$/);
+        expect(again.externalTxId).toBe(first.externalTxId);
+    });
+
+    it('reads the nested status and party elements of newer versions', () => {
+        const statement = parseCamtStatement(CAMT_V9, options);
+
+        expect(statement.accountId).toBe('12345678');
+        expect(statement.transactions).toEqual([
+            expect.objectContaining({
+                bookedAt: new Date('2026-03-02T00:00:00Z'),
+                amount: 300,
+                currency: 'CHF',
+                counterparty: 'Globex AG',
+                description: 'Transfer',
+            }),
+        ]);
+    });
+
+    it('rejects malformed XML', () => {
+        expect(() => parseCamtStatement('<Document><BkToCstmrStmt>', options)).toThrow(ValidationError);
+    });
+
+    it('rejects XML that is not a CAMT.053 statement', () => {
+        expect(() => parseCamtStatement('<Document><CstmrCdtTrfInitn/></Document>', options)).toThrow(
+            'Not a CAMT.053 statement - BkToCstmrStmt/Stmt is missing'
+        );
+    });
+
+    it('rejects an entry without a booking date', () => {
+        const broken = CAMT_V2.replace('<BookgDt><Dt>2026-01-15</Dt></BookgDt>', '');
+
+        expect(() => parseCamtStatement(broken, options)).toThrow('CAMT.053 entry 1 has no valid Amt or BookgDt');
+    });
+});
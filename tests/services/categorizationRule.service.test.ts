@@ -0,0 +1,149 @@
+import { categorize, CompiledRule, findPatternProblem, mergeTags } from '../../src/services/categorizationRule.service';
+import { CategorizationInput, MAX_RULE_PATTERN_LENGTH, RuleActions, RuleConditions } from '../../src/types/categorizationRule.types';
+
+jest.mock('../../src/config/database', () => ({ db: {} }));
+
+// rules as loadCategorizationRules hands them to categorize()
+const rule = (
+    id: string,
+    conditions: Partial<RuleConditions>,
+    actions: Partial<RuleActions>,
+    clientName: string | null = null
+): CompiledRule => ({
+    id,
+    conditions: {
+        descriptionContains: null,
+        descriptionPattern: null,
+        counterpartyContains: null,
+        minAmount: null,
+        maxAmount: null,
+        ...conditions,
+    },
+    actions: { category: null, isDeductible: null, skill: null, clientId: null, tags: [], ...actions },
+    clientName,
+    pattern: conditions.descriptionPattern ? new RegExp(conditions.descriptionPattern, 'i') : null,
+});
+
+const entry = (input: Partial<CategorizationInput>): CategorizationInput => ({
+    description: null,
+    counterparty: null,
+    amount: 10,
+    ...input,
+});
+
+describe('categorize', () => {
+    it('lets the first matching rule set a field and merges the tags of every match', () => {
+        const rules = [
+            rule('software', { descriptionContains: 'adobe' }, { category: 'software', isDeductible: true, tags: ['subscriptions'] }),
+            rule('catch-all', { minAmount: 0 }, { category: 'other', isDeductible: false, tags: ['subscriptions', ' review '] }),
+        ];
+
+        expect(categorize(rules, entry({ description: 'ADOBE Creative Cloud' }))).toEqual({
+            category: 'software',
+            isDeductible: true,
+            tags: ['subscriptions', 'review'],
+            ruleIds: ['software', 'catch-all'],
+        });
+        expect(categorize(rules, entry({ description: 'Lunch' }))).toEqual({
+            category: 'other',
+            isDeductible: false,
+            tags: ['subscriptions', 'review'],
+            ruleIds: ['catch-all'],
+        });
+    });
+
+    it('lets a later rule fill fields an earlier match left unset', () => {
+        const rules = [
+            rule('tag-only', { descriptionContains: 'uber' }, { tags: ['travel'] }),
+            rule('category', { descriptionContains: 'uber' }, { category: 'travel' }),
+        ];
+
+        expect(categorize(rules, entry({ description: 'Uber trip' }))).toEqual({
+            category: 'travel',
+            tags: ['travel'],
+            ruleIds: ['tag-only', 'category'],
+        });
+    });
+
+    it('matches amounts within the range, bounds included', () => {
+        const rules = [rule('mid', { minAmount: 50, maxAmount: 100 }, { tags: ['mid'] })];
+
+        expect(categorize(rules, entry({ amount: 49.99 })).ruleIds).toEqual([]);
+        expect(categorize(rules, entry({ amount: 50 })).ruleIds).toEqual(['mid']);
+        expect(categorize(rules, entry({ amount: 100 })).ruleIds).toEqual(['mid']);
+        expect(categorize(rules, entry({ amount: 100.01 })).ruleIds).toEqual([]);
+    });
+
+    it('matches description patterns case-insensitively, never against a missing description', () => {
+        const rules = [rule('invoice-ref', { descriptionPattern: '^inv-\\d{4}$' }, { skill: 'design' })];
+
+        expect(categorize(rules, entry({ description: 'INV-2026' })).skill).toBe('design');
+        expect(categorize(rules, entry({ description: 'INV-2026 extra' })).skill).toBeUndefined();
+        expect(categorize(rules, entry({ description: null })).ruleIds).toEqual([]);
+    });
+
+    it('matches counterparties by contained text', () => {
+        const rules = [rule('acme', { counterpartyContains: 'acme' }, { clientId: 'client-1' }, 'Acme Ltd')];
+
+        expect(categorize(rules, entry({ counterparty: 'ACME LTD London' }))).toMatchObject({
+            clientId: 'client-1',
+            clientName: 'Acme Ltd',
+        });
+        expect(categorize(rules, entry({ counterparty: null })).ruleIds).toEqual([]);
+    });
+
+    it('requires every condition of a rule to match', () => {
+        const rules = [rule('both', { descriptionContains: 'hosting', counterpartyContains: 'hetzner' }, { category: 'hosting' })];
+
+        expect(categorize(rules, entry({ description: 'Hosting', counterparty: 'Hetzner' })).category).toBe('hosting');
+        expect(categorize(rules, entry({ description: 'Hosting', counterparty: 'OVH' })).category).toBeUndefined();
+    });
+
+    it('skips a client action whose client no longer exists', () => {
+        const rules = [rule('gone', { minAmount: 0 }, { clientId: 'deleted-client', tags: ['retainer'] }, null)];
+
+        expect(categorize(rules, entry({}))).toEqual({ tags: ['retainer'], ruleIds: ['gone'] });
+    });
+});
+
+describe('mergeTags', () => {
+    it('trims, drops empty tags and de-duplicates in first-seen order', () => {
+        expect(mergeTags(['b', ' a '], null, ['a', '', 'c'], undefined)).toEqual(['b', 'a', 'c']);
+    });
+});
+
+describe('findPatternProblem', () => {
+    it.each([
+        '^uber\\s+\\*?trip',
+        '(inv|invoice)[- ]?\\d+',
+        '\\d{2,4}/\\d{2}',
+        '(?:aws|gcp)\\b',
+        '[a+]+x',
+        '(https?://)?example\\.com',
+        '(?<year>\\d{4})-\\d+',
+        'a*?b',
+    ])('accepts %s', (pattern) => {
+        expect(findPatternProblem(pattern)).toBeNull();
+    });
+
+    it.each([
+        '(a+)+$',
+        '(a|ab)*c',
+        '(\\w+\\s?)*$',
+        '((ab)*c)+',
+        '(a*){2,}',
+        '(?:x?y?)+z',
+        '([a-z]+\\.)+com',
+    ])('rejects %s, whose repeated group has quantifiers or alternatives inside', (pattern) => {
+        expect(findPatternProblem(pattern)).toMatch(/repeated group/);
+    });
+
+    it('rejects backreferences', () => {
+        expect(findPatternProblem('(a)\\1')).toMatch(/Backreferences/);
+    });
+
+    it('rejects invalid and overly long patterns', () => {
+        expect(findPatternProblem('(unclosed')).not.toBeNull();
+        expect(findPatternProblem('a'.repeat(MAX_RULE_PATTERN_LENGTH + 1))).toMatch(/longer than/);
+    });
+});
@@ -0,0 +1,66 @@
+import { buildCreditNoteDocument, buildInvoiceDocument } from '../../src/services/einvoice.service';
+import { FACTURX_GUIDELINE_IDS, renderCiiDocument } from '../../src/services/cii.service';
+import { EInvoiceDocument, FacturXProfile } from '../../src/types/einvoice.types';
+import { creditNote, invoice, USER_ID } from '../fixtures/einvoice';
+import { validateAgainstXsd } from '../helpers/xsd';
+
+jest.mock('../../src/config/database', () => jest.requireActual('../fixtures/einvoice').mockEInvoiceDatabase());
+
+const FACTURX_SCHEMAS = 'facturx-1.07.3';
+
+const PROFILE_SCHEMAS: Record<FacturXProfile, string> = {
+    basic: 'Factur-X_1.07.3_BASIC.xsd',
+    en16931: 'Factur-X_1.07.3_EN16931.xsd',
+};
+
+let invoiceDocument: EInvoiceDocument;
+let creditNoteDocument: EInvoiceDocument;
+
+beforeAll(async () => {
+    invoiceDocument = await buildInvoiceDocument(USER_ID, invoice);
+    creditNoteDocument = await buildCreditNoteDocument(USER_ID, creditNote, invoice);
+});
+
+describe('renderCiiDocument', () => {
+    it.each(Object.keys(PROFILE_SCHEMAS) as FacturXProfile[])(
+        'generates an invoice that is valid against the Factur-X %s schema',
+        async (profile) => {
+            const xml = renderCiiDocument(invoiceDocument, profile);
+
+            expect(xml).toContain(`<ram:ID>${FACTURX_GUIDELINE_IDS[profile]}</ram:ID>`);
+            expect(await validateAgainstXsd(xml, FACTURX_SCHEMAS, PROFILE_SCHEMAS[profile])).toEqual([]);
+        }
+    );
+
+    it.each(Object.keys(PROFILE_SCHEMAS) as FacturXProfile[])(
+        'generates a credit note that is valid against the Factur-X %s schema',
+        async (profile) => {
+            const xml = renderCiiDocument(creditNoteDocument, profile);
+
+            expect(xml).toContain('<ram:TypeCode>381</ram:TypeCode>');
+            expect(await validateAgainstXsd(xml, FACTURX_SCHEMAS, PROFILE_SCHEMAS[profile])).toEqual([]);
+        }
+    );
+
+    it('states the rounding amount in EN16931 and leaves it out of BASIC', () => {
+        const { roundingAmount, taxInclusiveAmount } = creditNoteDocument.totals;
+        expect(roundingAmount).not.toBe(0);
+
+        expect(renderCiiDocument(creditNoteDocument, 'en16931')).toContain(
+            `<ram:RoundingAmount>${roundingAmount.toFixed(2)}</ram:RoundingAmount>`
+        );
+
+        const basic = renderCiiDocument(creditNoteDocument, 'basic');
+        expect(basic).not.toContain('RoundingAmount');
+        expect(basic).toContain(`<ram:DuePayableAmount>${taxInclusiveAmount.toFixed(2)}</ram:DuePayableAmount>`);
+    });
+
+    it('reports elements out of schema order', async () => {
+        const xml = renderCiiDocument(invoiceDocument).replace(
+            /(<rsm:ExchangedDocumentContext>[\s\S]*?<\/rsm:ExchangedDocumentContext>)(\s*)(<rsm:ExchangedDocument>[\s\S]*?<\/rsm:ExchangedDocument>)/,
+            '$3$2$1'
+        );
+
+        expect(await validateAgainstXsd(xml, FACTURX_SCHEMAS, PROFILE_SCHEMAS.en16931)).not.toEqual([]);
+    });
+});
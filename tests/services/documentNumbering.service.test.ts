@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+import { getNextDocumentNumber } from '../../src/services/documentNumbering.service';
+
+// ============================================================================
+// IN-MEMORY TRANSACTION
+// ============================================================================
+
+const USER_ID = 'user-1';
+
+let sequences: Map<string, number>;
+let quoteNumbers: string[];
+let creditNoteNumbers: string[];
+
+const sequenceKey = ({ userId, type, year }: { userId: string; type: string; year: number }) =>
+    `${userId}/${type}/${year}`;
+
+const startsWith = (numbers: string[], prefix: string) =>
+    numbers.filter((number) => number.startsWith(prefix));
+
+const tx = {
+    documentSequence: {
+        findUnique: jest.fn(async ({ where }) => {
+            const key = sequenceKey(where.userId_type_year);
+            return sequences.has(key) ? { lastNumber: sequences.get(key) } : null;
+        }),
+        upsert: jest.fn(async ({ where, create, update }) => {
+            const key = sequenceKey(where.userId_type_year);
+            const lastNumber = sequences.has(key)
+                ? sequences.get(key)! + update.lastNumber.increment
+                : create.lastNumber;
+            sequences.set(key, lastNumber);
+            return { lastNumber };
+        }),
+    },
+    quote: {
+        findMany: jest.fn(async ({ where }) =>
+            startsWith(quoteNumbers, where.quoteNumber.startsWith).map((quoteNumber) => ({ quoteNumber }))
+        ),
+    },
+    creditNote: {
+        findMany: jest.fn(async ({ where }) =>
+            startsWith(creditNoteNumbers, where.creditNoteNumber.startsWith).map((creditNoteNumber) => ({
+                creditNoteNumber,
+            }))
+        ),
+    },
+};
+
+const nextNumber = (type: 'quote' | 'credit_note', date: Date) =>
+    getNextDocumentNumber(tx as unknown as Prisma.TransactionClient, USER_ID, type, date);
+
+beforeEach(() => {
+    sequences = new Map();
+    quoteNumbers = [];
+    creditNoteNumbers = [];
+});
+
+// ============================================================================
+// NEXT DOCUMENT NUMBER
+// ============================================================================
+
+describe('getNextDocumentNumber', () => {
+    const date = new Date(2026, 4, 20);
+
+    it('numbers quotes and credit notes from their own counters', async () => {
+        expect(await nextNumber('quote', date)).toBe('EST-2026-001');
+        expect(await nextNumber('quote', date)).toBe('EST-2026-002');
+        expect(await nextNumber('credit_note', date)).toBe('CN-2026-001');
+        expect(await nextNumber('quote', date)).toBe('EST-2026-003');
+    });
+
+    it('continues after numbers issued before the counter existed', async () => {
+        quoteNumbers = ['EST-2026-004', 'EST-2026-011', 'EST-2025-090', 'EST-2026-draft'];
+
+        expect(await nextNumber('quote', date)).toBe('EST-2026-012');
+        expect(await nextNumber('quote', date)).toBe('EST-2026-013');
+        expect(tx.quote.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not hand out a deleted document\'s number again', async () => {
+        creditNoteNumbers = ['CN-2026-001', 'CN-2026-002'];
+
+        expect(await nextNumber('credit_note', date)).toBe('CN-2026-003');
+
+        // the latest credit note is deleted - the counter doesn't move back
+        creditNoteNumbers = ['CN-2026-001'];
+        expect(await nextNumber('credit_note', date)).toBe('CN-2026-004');
+    });
+
+    it('starts a new sequence each year', async () => {
+        expect(await nextNumber('quote', new Date(2026, 11, 31))).toBe('EST-2026-001');
+        expect(await nextNumber('quote', new Date(2027, 0, 1))).toBe('EST-2027-001');
+        expect(await nextNumber('quote', new Date(2026, 11, 31))).toBe('EST-2026-002');
+    });
+
+    it('pads to three digits without truncating larger numbers', async () => {
+        sequences.set(sequenceKey({ userId: USER_ID, type: 'quote', year: 2026 }), 999);
+
+        expect(await nextNumber('quote', date)).toBe('EST-2026-1000');
+    });
+
+    it('reserves the number with an atomic increment', async () => {
+        await nextNumber('quote', date);
+        await nextNumber('quote', date);
+
+        expect(tx.documentSequence.upsert).toHaveBeenLastCalledWith({
+            where: { userId_type_year: { userId: USER_ID, type: 'quote', year: 2026 } },
+            create: expect.any(Object),
+            update: { lastNumber: { increment: 1 } },
+        });
+    });
+});
@@ -0,0 +1,187 @@
+import { Prisma } from '@prisma/client';
+import {
+    formatInvoiceNumber,
+    getNextInvoiceNumber,
+    updateNumberingSettings,
+} from '../../src/services/invoiceNumbering.service';
+import { BadRequestError, ValidationError } from '../../src/utils/errors';
+
+// ============================================================================
+// IN-MEMORY SEQUENCE ROW
+// ============================================================================
+
+const mockInvoiceSequence = {
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+};
+
+// read lazily - the mock factory runs before this file's constants exist
+jest.mock('../../src/config/database', () => ({
+    db: {
+        get invoiceSequence() {
+            return mockInvoiceSequence;
+        },
+    },
+}));
+
+const USER_ID = 'user-1';
+const THIS_YEAR = new Date().getFullYear();
+
+let storedSequence: Record<string, any>;
+
+const givenSequence = (overrides: Record<string, any> = {}) => {
+    storedSequence = {
+        userId: USER_ID,
+        prefix: 'INV',
+        format: '{PREFIX}-{YYYY}-{SEQ}',
+        padding: 3,
+        resetYearly: false,
+        lastNumber: 0,
+        lastResetYear: THIS_YEAR,
+        ...overrides,
+    };
+};
+
+// applies Prisma's { increment } the way the database would
+const applyUpdate = (data: Record<string, any>) => {
+    for (const [field, value] of Object.entries(data)) {
+        if (value === undefined) continue;
+        storedSequence[field] = value?.increment !== undefined ? storedSequence[field] + value.increment : value;
+    }
+    return { ...storedSequence };
+};
+
+const tx = { invoiceSequence: mockInvoiceSequence } as unknown as Prisma.TransactionClient;
+
+beforeEach(() => {
+    givenSequence();
+
+    mockInvoiceSequence.findUnique.mockImplementation(async () => ({ ...storedSequence }));
+    mockInvoiceSequence.findUniqueOrThrow.mockImplementation(async () => ({ ...storedSequence }));
+    mockInvoiceSequence.update.mockImplementation(async ({ data }) => applyUpdate(data));
+    mockInvoiceSequence.updateMany.mockImplementation(async ({ where, data }) => {
+        const due = where.OR.some((condition: Record<string, any>) =>
+            condition.lastResetYear === null
+                ? storedSequence.lastResetYear === null
+                : storedSequence.lastResetYear < condition.lastResetYear.lt
+        );
+        if (!due) {
+            return { count: 0 };
+        }
+        applyUpdate(data);
+        return { count: 1 };
+    });
+});
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+describe('formatInvoiceNumber', () => {
+    const date = new Date(2026, 2, 9);
+
+    it('fills in every token', () => {
+        expect(formatInvoiceNumber({ prefix: 'ACME', format: '{PREFIX}/{YY}{MM}/{SEQ}', padding: 4 }, 7, date))
+            .toBe('ACME/2603/0007');
+        expect(formatInvoiceNumber({ prefix: 'INV', format: '{PREFIX}-{YYYY}-{SEQ}', padding: 3 }, 42, date))
+            .toBe('INV-2026-042');
+    });
+
+    it('never truncates a sequence longer than the padding', () => {
+        expect(formatInvoiceNumber({ prefix: 'INV', format: '{SEQ}', padding: 2 }, 1234, date)).toBe('1234');
+    });
+});
+
+// ============================================================================
+// NEXT NUMBER
+// ============================================================================
+
+describe('getNextInvoiceNumber', () => {
+    it('increments the counter for each invoice', async () => {
+        const date = new Date(THIS_YEAR, 5, 1);
+
+        expect(await getNextInvoiceNumber(tx, USER_ID, date)).toBe(`INV-${THIS_YEAR}-001`);
+        expect(await getNextInvoiceNumber(tx, USER_ID, date)).toBe(`INV-${THIS_YEAR}-002`);
+        expect(storedSequence.lastNumber).toBe(2);
+    });
+
+    it('restarts at 1 with the first invoice of a new year when resetting yearly', async () => {
+        givenSequence({ resetYearly: true, lastNumber: 57, lastResetYear: 2025 });
+
+        expect(await getNextInvoiceNumber(tx, USER_ID, new Date(2026, 0, 2))).toBe('INV-2026-001');
+        expect(await getNextInvoiceNumber(tx, USER_ID, new Date(2026, 0, 3))).toBe('INV-2026-002');
+        expect(storedSequence.lastResetYear).toBe(2026);
+    });
+
+    it('keeps counting across years without a yearly reset', async () => {
+        givenSequence({ lastNumber: 57, lastResetYear: 2025 });
+
+        expect(await getNextInvoiceNumber(tx, USER_ID, new Date(2026, 0, 2))).toBe('INV-2026-058');
+    });
+});
+
+// ============================================================================
+// UPDATE SETTINGS
+// ============================================================================
+
+describe('updateNumberingSettings', () => {
+    it('requires the {SEQ} token', async () => {
+        await expect(updateNumberingSettings(USER_ID, { format: '{PREFIX}-{YYYY}' })).rejects.toThrow(ValidationError);
+    });
+
+    it('rejects unknown tokens', async () => {
+        await expect(updateNumberingSettings(USER_ID, { format: '{PREFIX}-{DD}-{SEQ}' })).rejects.toThrow(
+            'Unknown token(s) in number format: {DD}'
+        );
+    });
+
+    it('rejects a yearly reset when the format has no year', async () => {
+        givenSequence({ format: '{PREFIX}-{SEQ}' });
+
+        await expect(updateNumberingSettings(USER_ID, { resetYearly: true })).rejects.toThrow(BadRequestError);
+        await expect(updateNumberingSettings(USER_ID, { format: '{SEQ}', resetYearly: true })).rejects.toThrow(
+            BadRequestError
+        );
+        expect(mockInvoiceSequence.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects dropping the year from a format that resets yearly', async () => {
+        givenSequence({ resetYearly: true });
+
+        await expect(updateNumberingSettings(USER_ID, { format: '{PREFIX}-{SEQ}' })).rejects.toThrow(BadRequestError);
+    });
+
+    it('accepts a yearly reset with a two-digit year', async () => {
+        const result = await updateNumberingSettings(USER_ID, { format: '{PREFIX}{YY}-{SEQ}', resetYearly: true });
+
+        expect(result.settings.resetYearly).toBe(true);
+    });
+
+    it('rejects a next number that was already issued', async () => {
+        givenSequence({ lastNumber: 12 });
+
+        await expect(updateNumberingSettings(USER_ID, { nextNumber: 12 })).rejects.toThrow(
+            'Next number must be greater than 12, the last number issued'
+        );
+        await expect(updateNumberingSettings(USER_ID, { nextNumber: 5 })).rejects.toThrow(BadRequestError);
+    });
+
+    it('stores one below the requested next number', async () => {
+        givenSequence({ lastNumber: 12 });
+
+        const result = await updateNumberingSettings(USER_ID, { nextNumber: 100 });
+
+        expect(storedSequence.lastNumber).toBe(99);
+        expect(result.settings.nextInvoiceNumber).toBe(`INV-${THIS_YEAR}-100`);
+    });
+
+    it('allows low numbers again once a yearly reset is due', async () => {
+        givenSequence({ resetYearly: true, lastNumber: 80, lastResetYear: THIS_YEAR - 1 });
+
+        const result = await updateNumberingSettings(USER_ID, { nextNumber: 5 });
+
+        expect(result.settings.nextInvoiceNumber).toBe(`INV-${THIS_YEAR}-005`);
+    });
+});
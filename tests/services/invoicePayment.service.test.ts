@@ -0,0 +1,190 @@
+import { Prisma } from '@prisma/client';
+import { markInvoiceAsPaid, recordInvoicePayment } from '../../src/services/invoicePayment.service';
+import { BadRequestError, ConflictError, NotFoundError } from '../../src/utils/errors';
+
+// ============================================================================
+// IN-MEMORY TRANSACTION
+// ============================================================================
+
+const mockTx = {
+    $queryRaw: jest.fn(),
+    invoice: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    incomeLog: { create: jest.fn(), updateMany: jest.fn() },
+    payment: { create: jest.fn() },
+    invoiceStatusHistory: { create: jest.fn() },
+};
+
+jest.mock('../../src/config/database', () => ({
+    db: { $transaction: (run: (tx: unknown) => unknown) => run(mockTx) },
+}));
+
+const USER_ID = 'user-1';
+const INVOICE_ID = 'invoice-1';
+const client = { id: 'client-1', name: 'Acme Ltd', email: 'billing@acme.test' };
+
+let storedInvoice: Record<string, any>;
+
+const givenInvoice = (overrides: Record<string, any> = {}) => {
+    storedInvoice = {
+        id: INVOICE_ID,
+        userId: USER_ID,
+        clientId: client.id,
+        invoiceNumber: 'INV-2026-001',
+        description: 'Website redesign',
+        status: 'sent',
+        currency: 'EUR',
+        amount: new Prisma.Decimal(100),
+        amountPaid: new Prisma.Decimal(0),
+        amountCredited: new Prisma.Decimal(0),
+        lateCharges: new Prisma.Decimal(0),
+        ...overrides,
+    };
+};
+
+beforeEach(() => {
+    givenInvoice();
+
+    mockTx.invoice.findUnique.mockImplementation(async () => ({ ...storedInvoice, client }));
+    mockTx.invoice.findUniqueOrThrow.mockImplementation(async () => storedInvoice);
+    mockTx.invoice.update.mockImplementation(async ({ data }) => (storedInvoice = { ...storedInvoice, ...data }));
+    mockTx.invoice.updateMany.mockImplementation(async ({ where, data }) => {
+        if (where.status !== storedInvoice.status) {
+            return { count: 0 };
+        }
+        storedInvoice = { ...storedInvoice, ...data };
+        return { count: 1 };
+    });
+    mockTx.incomeLog.create.mockImplementation(async ({ data }) => ({ id: 'income-1', ...data }));
+    mockTx.payment.create.mockImplementation(async ({ data }) => ({ id: 'payment-1', createdAt: new Date(), ...data }));
+});
+
+// ============================================================================
+// RECORD PAYMENT
+// ============================================================================
+
+describe('recordInvoicePayment', () => {
+    it('locks the invoice row before reading the balance', async () => {
+        await recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 40 });
+
+        expect(mockTx.$queryRaw).toHaveBeenCalledTimes(1);
+        expect(mockTx.$queryRaw.mock.invocationCallOrder[0])
+            .toBeLessThan(mockTx.invoice.findUnique.mock.invocationCallOrder[0]);
+    });
+
+    it('records an installment and moves a sent invoice to partially_paid', async () => {
+        const result = await recordInvoicePayment(USER_ID, INVOICE_ID, {
+            amount: 40,
+            paymentDate: '2026-10-01',
+            paymentMethod: 'bank_transfer',
+        });
+
+        expect(mockTx.incomeLog.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                userId: USER_ID,
+                amount: new Prisma.Decimal(40),
+                currency: 'EUR',
+                clientName: 'Acme Ltd',
+                source: 'invoice',
+                loggedAt: new Date('2026-10-01'),
+            }),
+        });
+        expect(mockTx.payment.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ invoiceId: INVOICE_ID, incomeLogId: 'income-1', direction: 'RECEIVED' }),
+        });
+        expect(mockTx.invoice.updateMany).toHaveBeenCalledWith({
+            where: { id: INVOICE_ID, status: 'sent' },
+            data: expect.objectContaining({ status: 'partially_paid', amountPaid: new Prisma.Decimal(40) }),
+        });
+        expect(result.invoice.status).toBe('partially_paid');
+        expect(result.invoice.balanceDue).toBe(60);
+        expect(result.payment.amount).toBe(40);
+    });
+
+    it('keeps an overdue invoice overdue until it is fully paid', async () => {
+        givenInvoice({ status: 'overdue' });
+
+        const result = await recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 25 });
+
+        expect(mockTx.invoice.updateMany).not.toHaveBeenCalled();
+        expect(result.invoice.status).toBe('overdue');
+        expect(result.invoice.amountPaid).toBe(25);
+    });
+
+    it('marks the invoice paid when the installment settles the balance', async () => {
+        givenInvoice({ status: 'partially_paid', amountPaid: new Prisma.Decimal(60) });
+
+        const result = await recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 40, paymentDate: '2026-10-05' });
+
+        expect(result.invoice.status).toBe('paid');
+        expect(result.invoice.balanceDue).toBe(0);
+        expect(storedInvoice.paidDate).toEqual(new Date('2026-10-05'));
+        expect(storedInvoice.incomeLogId).toBe('income-1');
+    });
+
+    it('takes credit notes and late charges into account', async () => {
+        givenInvoice({ amountCredited: new Prisma.Decimal(30), lateCharges: new Prisma.Decimal(5) });
+
+        await expect(recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 80 })).rejects.toThrow(BadRequestError);
+
+        const result = await recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 75 });
+        expect(result.invoice.status).toBe('paid');
+    });
+
+    it('rejects a payment larger than the balance due without writing anything', async () => {
+        await expect(recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 100.01 })).rejects.toThrow(
+            'Payment exceeds the balance due'
+        );
+
+        expect(mockTx.incomeLog.create).not.toHaveBeenCalled();
+        expect(mockTx.payment.create).not.toHaveBeenCalled();
+    });
+
+    it("hides other users' invoices", async () => {
+        givenInvoice({ userId: 'someone-else' });
+
+        await expect(recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 10 })).rejects.toThrow(NotFoundError);
+    });
+
+    it.each(['draft', 'cancelled', 'void', 'paid'])('rejects payments on %s invoices', async (status) => {
+        givenInvoice({ status });
+
+        await expect(recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 10 })).rejects.toThrow(BadRequestError);
+        expect(mockTx.incomeLog.create).not.toHaveBeenCalled();
+    });
+
+    it('fails with a conflict when the status changed after the invoice was read', async () => {
+        mockTx.invoice.updateMany.mockResolvedValueOnce({ count: 0 });
+
+        await expect(recordInvoicePayment(USER_ID, INVOICE_ID, { amount: 40 })).rejects.toThrow(ConflictError);
+        expect(mockTx.invoiceStatusHistory.create).not.toHaveBeenCalled();
+    });
+});
+
+// ============================================================================
+// MARK AS PAID
+// ============================================================================
+
+describe('markInvoiceAsPaid', () => {
+    it('pays the remaining balance', async () => {
+        givenInvoice({
+            status: 'partially_paid',
+            amountPaid: new Prisma.Decimal(20),
+            amountCredited: new Prisma.Decimal(10),
+            lateCharges: new Prisma.Decimal(2.5),
+        });
+
+        const result = await markInvoiceAsPaid(USER_ID, INVOICE_ID, { paidDate: '2026-10-10' });
+
+        expect(result.income.amount).toBe(72.5);
+        expect(result.invoice.status).toBe('paid');
+        expect(result.invoice.amountPaid).toBe(92.5);
+        expect(mockTx.invoiceStatusHistory.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({ fromStatus: 'partially_paid', toStatus: 'paid' }),
+        });
+    });
+});
@@ -0,0 +1,202 @@
+import { calculateInvoiceTotals } from '../../src/services/invoiceTotals.service';
+import { InvoiceLineItem } from '../../src/types/invoice.types';
+import { ValidationError } from '../../src/utils/errors';
+
+const VAT = { name: 'VAT', rate: 20 };
+
+const item = (description: string, quantity: number, rate: number, extra: Partial<InvoiceLineItem> = {}): InvoiceLineItem => ({
+    description,
+    quantity,
+    rate,
+    amount: Math.round(quantity * rate * 100) / 100,
+    ...extra,
+});
+
+describe('calculateInvoiceTotals', () => {
+    it('adds up the lines and taxes them at the invoice-level rates', () => {
+        const { items, totals } = calculateInvoiceTotals({
+            items: [item('Design', 2, 50), item('Hosting', 1, 25.5)],
+            taxes: [VAT],
+        });
+
+        expect(items?.map((line) => line.amount)).toEqual([100, 25.5]);
+        expect(totals).toEqual({
+            subtotal: 125.5,
+            discountAmount: 0,
+            taxAmount: 25.1,
+            taxBreakdown: [{ name: 'VAT', rate: 20, taxableAmount: 125.5, amount: 25.1 }],
+            shipping: 0,
+            total: 150.6,
+        });
+    });
+
+    it('taxes a line at its own rates instead of the invoice-level ones', () => {
+        const { totals } = calculateInvoiceTotals({
+            items: [
+                item('Consulting', 1, 100),
+                item('Export shipment', 1, 50, { taxes: [] }),
+                item('Books', 1, 50, { taxes: [{ name: 'Reduced VAT', rate: 5 }] }),
+            ],
+            taxes: [VAT],
+        });
+
+        expect(totals.taxBreakdown).toEqual([
+            { name: 'VAT', rate: 20, taxableAmount: 100, amount: 20 },
+            { name: 'Reduced VAT', rate: 5, taxableAmount: 50, amount: 2.5 },
+        ]);
+        expect(totals.total).toBe(222.5);
+    });
+
+    it('spreads a percentage discount across the lines before taxing them', () => {
+        const { totals } = calculateInvoiceTotals({
+            items: [
+                item('Consulting', 1, 100),
+                item('Export shipment', 1, 50, { taxes: [] }),
+                item('Books', 1, 50, { taxes: [{ name: 'Reduced VAT', rate: 5 }] }),
+            ],
+            taxes: [VAT],
+            discount: { type: 'percentage', value: 10 },
+        });
+
+        expect(totals.discountAmount).toBe(20);
+        expect(totals.taxBreakdown).toEqual([
+            { name: 'VAT', rate: 20, taxableAmount: 90, amount: 18 },
+            { name: 'Reduced VAT', rate: 5, taxableAmount: 45, amount: 2.25 },
+        ]);
+        expect(totals.total).toBe(200.25);
+    });
+
+    it('spreads a fixed discount in proportion to the line amounts and leaves shipping untaxed', () => {
+        const { totals } = calculateInvoiceTotals({
+            items: [item('Website', 1, 150), item('Logo', 1, 50)],
+            taxes: [VAT],
+            discount: { type: 'fixed', value: 30 },
+            shipping: 15,
+        });
+
+        expect(totals).toMatchObject({
+            subtotal: 200,
+            discountAmount: 30,
+            taxAmount: 34,
+            taxBreakdown: [{ name: 'VAT', rate: 20, taxableAmount: 170, amount: 34 }],
+            shipping: 15,
+            total: 219,
+        });
+    });
+
+    it('charges several named taxes on the same base, not on each other', () => {
+        const { totals } = calculateInvoiceTotals({
+            items: [item('Workshop', 1, 100)],
+            taxes: [{ name: 'GST', rate: 5 }, { name: 'PST', rate: 7 }],
+        });
+
+        expect(totals.taxBreakdown).toEqual([
+            { name: 'GST', rate: 5, taxableAmount: 100, amount: 5 },
+            { name: 'PST', rate: 7, taxableAmount: 100, amount: 7 },
+        ]);
+        expect(totals.total).toBe(112);
+    });
+
+    it('rounds half cents up, without binary floating-point drift', () => {
+        // 1.005 * 100 is 100.49999... as a float, and 10.10 * 5% is 0.50499...
+        const { items, totals } = calculateInvoiceTotals({
+            items: [item('Screws', 1, 1.005, { amount: 1.01 }), item('Nails', 1, 9.09)],
+            taxes: [{ name: 'VAT', rate: 5 }],
+            recalculate: true,
+        });
+
+        expect(items?.[0].amount).toBe(1.01);
+        expect(totals.taxBreakdown[0]).toEqual({ name: 'VAT', rate: 5, taxableAmount: 10.1, amount: 0.51 });
+        expect(totals.total).toBe(10.61);
+    });
+
+    it('rounds a half-cent percentage discount up', () => {
+        const { totals } = calculateInvoiceTotals({
+            items: [item('Sticker', 1, 0.5)],
+            discount: { type: 'percentage', value: 1 },
+        });
+
+        expect(totals.discountAmount).toBe(0.01);
+        expect(totals.total).toBe(0.49);
+    });
+
+    it('treats the amount as one line when there are no items', () => {
+        const { items, totals } = calculateInvoiceTotals({
+            amount: 1000,
+            taxes: [VAT],
+            discount: { type: 'percentage', value: 5 },
+        });
+
+        expect(items).toBeUndefined();
+        expect(totals).toMatchObject({ subtotal: 1000, discountAmount: 50, taxAmount: 190, total: 1140 });
+    });
+
+    it('rejects discounts outside the allowed range', () => {
+        expect(() => calculateInvoiceTotals({ amount: 100, discount: { type: 'fixed', value: 100.01 } })).toThrow(
+            'Discount cannot exceed the subtotal'
+        );
+        expect(() => calculateInvoiceTotals({ amount: 100, discount: { type: 'percentage', value: 101 } })).toThrow(
+            'Percentage discount must be between 0 and 100'
+        );
+    });
+
+    it('needs either an amount or line items', () => {
+        expect(() => calculateInvoiceTotals({ items: [] })).toThrow(ValidationError);
+    });
+});
+
+describe('calculateInvoiceTotals reconciliation with client amounts', () => {
+    it('rejects a line whose amount is not quantity × rate', () => {
+        const attempt = () => calculateInvoiceTotals({
+            items: [item('Design', 2, 50), item('Copywriting', 3, 40, { amount: 100 })],
+        });
+
+        expect(attempt).toThrow('Line item 2 ("Copywriting"): amount 100 does not match quantity × rate (120.00)');
+        expect(attempt).toThrow(expect.objectContaining({
+            details: { mismatches: [{ index: 1, description: 'Copywriting', expected: 120, received: 100 }] },
+        }));
+    });
+
+    it('accepts line amounts that agree with quantity × rate to the cent', () => {
+        const { items } = calculateInvoiceTotals({
+            items: [item('Hours', 3, 11.111, { amount: 33.334 })],
+        });
+
+        expect(items?.[0].amount).toBe(33.33);
+        expect(() => calculateInvoiceTotals({ items: [item('Hours', 3, 11.111, { amount: 33.336 })] })).toThrow(ValidationError);
+    });
+
+    it('rejects an invoice amount that disagrees with the computed total', () => {
+        const attempt = () => calculateInvoiceTotals({
+            amount: 150,
+            items: [item('Design', 2, 50), item('Hosting', 1, 25.5)],
+            taxes: [VAT],
+        });
+
+        expect(attempt).toThrow('Invoice amount 150 does not match the total computed from its line items (150.60)');
+        expect(attempt).toThrow(expect.objectContaining({
+            details: { expected: 150.6, received: 150, subtotal: 125.5, discountAmount: 0, taxAmount: 25.1, shipping: 0 },
+        }));
+    });
+
+    it('accepts an invoice amount that matches the computed total to the cent', () => {
+        const { totals } = calculateInvoiceTotals({
+            amount: 150.604,
+            items: [item('Design', 2, 50), item('Hosting', 1, 25.5)],
+            taxes: [VAT],
+        });
+
+        expect(totals.total).toBe(150.6);
+    });
+
+    it('recomputes mismatched amounts instead of rejecting them when asked to', () => {
+        const { items, totals } = calculateInvoiceTotals({
+            amount: 1,
+            items: [item('Copywriting', 3, 40, { amount: 100 })],
+            recalculate: true,
+        });
+
+        expect(items?.[0].amount).toBe(120);
+        expect(totals.total).toBe(120);
+    });
+});
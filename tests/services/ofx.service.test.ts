@@ -0,0 +1,130 @@
+import { parseOfxStatement } from '../../src/services/ofx.service';
+import { ValidationError } from '../../src/utils/errors';
+
+const options = { qifDateFormat: 'MM/DD/YYYY' as const };
+
+// OFX 1.x - SGML header, leaf elements without closing tags
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+ENCODING:USASCII
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM>
+<BANKID>10020030
+<ACCTID>DE89370400440532013000
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260101
+<DTEND>20260131235959.000[+1:CET]
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260115120000[-5:EST]
+<TRNAMT>1,250.00
+<FITID>202601150001
+<NAME>Acme &amp; Sons
+<MEMO>Invoice INV-2026-001
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260120
+<TRNAMT>-49.90
+<CHECKNUM>1042
+<NAME>Office Supplies
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x - XML with closing tags, credit card account
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <DTSTART>20260201</DTSTART>
+      <DTEND>20260228</DTEND>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20260203</DTPOSTED>
+        <TRNAMT>-12.50</TRNAMT>
+        <FITID>CC-1</FITID>
+        <NAME>Coffee Bar</NAME>
+        <CURRENCY><CURRATE>1.0</CURRATE><CURSYM>EUR</CURSYM></CURRENCY>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('parseOfxStatement', () => {
+    it('reads an OFX 1.x (SGML) bank statement', () => {
+        const statement = parseOfxStatement(SGML_STATEMENT, options);
+
+        expect(statement).toMatchObject({
+            accountId: 'DE89370400440532013000',
+            currency: 'EUR',
+            periodStart: new Date('2026-01-01T00:00:00Z'),
+            periodEnd: new Date('2026-01-31T00:00:00Z'),
+        });
+        expect(statement.transactions).toHaveLength(2);
+        expect(statement.transactions[0]).toEqual({
+            externalTxId: '202601150001',
+            bookedAt: new Date('2026-01-15T00:00:00Z'),
+            amount: 1250,
+            currency: null,
+            counterparty: 'Acme & Sons',
+            description: 'Invoice INV-2026-001',
+            reference: null,
+        });
+        expect(statement.transactions[1]).toMatchObject({
+            amount: -49.9,
+            counterparty: 'Office Supplies',
+            description: 'Office Supplies',
+            reference: '1042',
+        });
+    });
+
+    it('reads an OFX 2.x (XML) credit card statement', () => {
+        const statement = parseOfxStatement(XML_STATEMENT, options);
+
+        expect(statement.accountId).toBe('4111111111111111');
+        expect(statement.currency).toBe('USD');
+        expect(statement.transactions).toEqual([
+            expect.objectContaining({
+                externalTxId: 'CC-1',
+                bookedAt: new Date('2026-02-03T00:00:00Z'),
+                amount: -12.5,
+                currency: 'EUR',
+            }),
+        ]);
+    });
+
+    it('derives a stable ID for transactions without a FITID', () => {
+        const [first] = parseOfxStatement(SGML_STATEMENT, options).transactions.slice(1);
+        const [again] = parseOfxStatement(SGML_STATEMENT, options).transactions.slice(1);
+
+        expect(first.externalTxId).toMatch(/^ofx:[0-9a-f]{32}$/);
+        expect(again.externalTxId).toBe(first.externalTxId);
+    });
+
+    it('rejects content that is not OFX', () => {
+        expect(() => parseOfxStatement('Date,Amount\n2026-01-01,10', options)).toThrow(ValidationError);
+    });
+
+    it('rejects a transaction without a date or amount', () => {
+        const broken = SGML_STATEMENT.replace('<TRNAMT>-49.90', '<TRNAMT>n/a');
+
+        expect(() => parseOfxStatement(broken, options)).toThrow('OFX transaction 2 has no valid DTPOSTED or TRNAMT');
+    });
+});
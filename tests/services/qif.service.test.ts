@@ -0,0 +1,110 @@
+import { parseQifStatement } from '../../src/services/qif.service';
+import { ValidationError } from '../../src/utils/errors';
+
+const US = { qifDateFormat: 'MM/DD/YYYY' as const };
+const EU = { qifDateFormat: 'DD/MM/YYYY' as const };
+
+const REGISTER = `!Type:Bank
+D1/15/2026
+T1,250.00
+PAcme Ltd
+MInvoice INV-2026-001
+N1042
+^
+D2/ 3'26
+T-12.50
+PCoffee Bar
+^
+D2/3/2026
+T-12.50
+PCoffee Bar
+^
+`;
+
+describe('parseQifStatement', () => {
+    it('reads a bank register', () => {
+        const statement = parseQifStatement(REGISTER, US);
+
+        expect(statement).toMatchObject({
+            accountId: null,
+            currency: null,
+            periodStart: new Date('2026-01-15T00:00:00Z'),
+            periodEnd: new Date('2026-02-03T00:00:00Z'),
+        });
+        expect(statement.transactions).toHaveLength(3);
+        expect(statement.transactions[0]).toMatchObject({
+            bookedAt: new Date('2026-01-15T00:00:00Z'),
+            amount: 1250,
+            currency: null,
+            counterparty: 'Acme Ltd',
+            description: 'Invoice INV-2026-001',
+            reference: '1042',
+        });
+        expect(statement.transactions[1]).toMatchObject({
+            bookedAt: new Date('2026-02-03T00:00:00Z'),
+            amount: -12.5,
+            description: 'Coffee Bar',
+        });
+    });
+
+    it('reads the day first when the bank exports DD/MM/YYYY', () => {
+        const statement = parseQifStatement('!Type:CCard\nD03.02.26\nT-8,40\nPBakery\n^\n', EU);
+
+        expect(statement.transactions[0]).toMatchObject({
+            bookedAt: new Date('2026-02-03T00:00:00Z'),
+            amount: -8.4,
+        });
+    });
+
+    it('tells identical transactions apart, and gives them the same IDs on re-import', () => {
+        const ids = parseQifStatement(REGISTER, US).transactions.map((transaction) => transaction.externalTxId);
+        const reimported = parseQifStatement(REGISTER, US).transactions.map((transaction) => transaction.externalTxId);
+
+        expect(new Set(ids).size).toBe(3);
+        expect(ids.every((id) => /^qif:[0-9a-f]{32}$/.test(id))).toBe(true);
+        expect(reimported).toEqual(ids);
+    });
+
+    it('skips the account list and keeps the first value of split lines', () => {
+        const content = `!Account
+NChecking
+TBank
+^
+!Type:Bank
+D1/20/2026
+T-300.00
+PLandlord
+SRent
+$-250.00
+SUtilities
+$-50.00
+^
+`;
+        const [transaction] = parseQifStatement(content, US).transactions;
+
+        expect(transaction).toMatchObject({ amount: -300, counterparty: 'Landlord' });
+        expect(parseQifStatement(content, US).transactions).toHaveLength(1);
+    });
+
+    it('rejects investment registers', () => {
+        expect(() => parseQifStatement('!Type:Invst\nD1/1/2026\nT10\n^\n', US)).toThrow(
+            'QIF register type "Invst" is not supported'
+        );
+    });
+
+    it('rejects content without a !Type header', () => {
+        expect(() => parseQifStatement('D1/1/2026\nT10\n^\n', US)).toThrow(ValidationError);
+    });
+
+    it('rejects dates that do not exist in the chosen order', () => {
+        expect(() => parseQifStatement('!Type:Bank\nD15/1/2026\nT10\n^\n', US)).toThrow(
+            'QIF transaction on line 2 has an invalid date "15/1/2026" (expected MM/DD/YYYY)'
+        );
+    });
+
+    it('rejects a transaction without an amount', () => {
+        expect(() => parseQifStatement('!Type:Bank\nD1/1/2026\nPNobody\n^\n', US)).toThrow(
+            'QIF transaction on line 2 has no valid amount'
+        );
+    });
+});
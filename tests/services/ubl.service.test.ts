@@ -0,0 +1,48 @@
+import { buildCreditNoteDocument, buildInvoiceDocument } from '../../src/services/einvoice.service';
+import { renderUblDocument } from '../../src/services/ubl.service';
+import { creditNote, invoice, USER_ID } from '../fixtures/einvoice';
+import { validateAgainstXsd } from '../helpers/xsd';
+
+jest.mock('../../src/config/database', () => jest.requireActual('../fixtures/einvoice').mockEInvoiceDatabase());
+
+// the xsd/ folder of the OASIS UBL 2.1 distribution (see tests/schemas/README.md)
+const UBL_SCHEMAS = 'ubl-2.1';
+
+const renderInvoice = async () => renderUblDocument(await buildInvoiceDocument(USER_ID, invoice));
+const renderCreditNote = async () => renderUblDocument(await buildCreditNoteDocument(USER_ID, creditNote, invoice));
+
+describe('renderUblDocument', () => {
+    it('renders an invoice with its totals and tax breakdown', async () => {
+        const xml = await renderInvoice();
+
+        expect(xml).toContain('<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"');
+        expect(xml).toContain('<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>');
+        expect(xml).toContain('<cbc:TaxAmount currencyID="EUR">183.33</cbc:TaxAmount>');
+        expect(xml).toContain('<cbc:PrepaidAmount currencyID="EUR">300.00</cbc:PrepaidAmount>');
+        expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">1008.33</cbc:PayableAmount>');
+    });
+
+    it('renders a credit note that references the credited invoice', async () => {
+        const xml = await renderCreditNote();
+
+        expect(xml).toContain('<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"');
+        expect(xml).toContain('<cbc:CreditNoteTypeCode>381</cbc:CreditNoteTypeCode>');
+        expect(xml).toContain('<cbc:ID>INV-2026-014</cbc:ID>');
+        expect(xml).not.toContain('<cbc:DueDate>');
+        expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">120.00</cbc:PayableAmount>');
+    });
+});
+
+describe('UBL 2.1 schema validation', () => {
+    it('generates an invoice that is valid against UBL-Invoice-2.1.xsd', async () => {
+        const errors = await validateAgainstXsd(await renderInvoice(), UBL_SCHEMAS, 'maindoc/UBL-Invoice-2.1.xsd');
+
+        expect(errors).toEqual([]);
+    });
+
+    it('generates a credit note that is valid against UBL-CreditNote-2.1.xsd', async () => {
+        const errors = await validateAgainstXsd(await renderCreditNote(), UBL_SCHEMAS, 'maindoc/UBL-CreditNote-2.1.xsd');
+
+        expect(errors).toEqual([]);
+    });
+});
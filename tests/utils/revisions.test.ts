@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+import { diffFields } from '../../src/utils/revisions';
+
+interface Entry {
+    amount: Prisma.Decimal;
+    currency: string;
+    hours: Prisma.Decimal | null;
+    notes: string | null;
+    tags: string[];
+    loggedAt: Date;
+}
+
+const FIELDS = ['amount', 'currency', 'hours', 'notes', 'tags', 'loggedAt'] as const;
+
+const stored: Entry = {
+    amount: new Prisma.Decimal('150.00'),
+    currency: 'EUR',
+    hours: null,
+    notes: 'Logo work',
+    tags: ['design'],
+    loggedAt: new Date('2026-10-01T09:00:00.000Z'),
+};
+
+describe('diffFields', () => {
+    it('lists only the fields whose value changes', () => {
+        expect(diffFields(stored, { currency: 'USD', notes: 'Logo work' }, FIELDS)).toEqual([
+            { field: 'currency', from: 'EUR', to: 'USD' },
+        ]);
+    });
+
+    it('skips fields that are left out or undefined', () => {
+        expect(diffFields(stored, {}, FIELDS)).toEqual([]);
+        expect(diffFields(stored, { currency: undefined, notes: undefined }, FIELDS)).toEqual([]);
+    });
+
+    it('compares amounts by value, whether sent as a number or a Decimal', () => {
+        expect(diffFields(stored, { amount: 150 }, FIELDS)).toEqual([]);
+        expect(diffFields(stored, { amount: new Prisma.Decimal('150') }, FIELDS)).toEqual([]);
+        expect(diffFields(stored, { amount: 149.5 }, FIELDS)).toEqual([
+            { field: 'amount', from: '150.00', to: '149.50' },
+        ]);
+    });
+
+    it('records a value being set or cleared as a change from or to null', () => {
+        expect(diffFields(stored, { hours: 2.5, notes: null }, FIELDS)).toEqual([
+            { field: 'hours', from: null, to: '2.50' },
+            { field: 'notes', from: 'Logo work', to: null },
+        ]);
+    });
+
+    it('compares dates by instant and stores them as ISO strings', () => {
+        expect(diffFields(stored, { loggedAt: new Date('2026-10-01T09:00:00Z') }, FIELDS)).toEqual([]);
+        expect(diffFields(stored, { loggedAt: new Date('2026-10-02T09:00:00Z') }, FIELDS)).toEqual([
+            { field: 'loggedAt', from: '2026-10-01T09:00:00.000Z', to: '2026-10-02T09:00:00.000Z' },
+        ]);
+    });
+
+    it('compares lists by content', () => {
+        expect(diffFields(stored, { tags: ['design'] }, FIELDS)).toEqual([]);
+        expect(diffFields(stored, { tags: ['design', 'branding'] }, FIELDS)).toEqual([
+            { field: 'tags', from: '["design"]', to: '["design","branding"]' },
+        ]);
+    });
+
+    it('ignores fields that are not tracked', () => {
+        expect(diffFields(stored, { currency: 'USD', notes: 'New' }, ['notes'])).toEqual([
+            { field: 'notes', from: 'Logo work', to: 'New' },
+        ]);
+    });
+});